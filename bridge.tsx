@@ -1,3 +0,0 @@
-export const config = { runtime: 'edge' };
-
-interface routerProps { data: string }
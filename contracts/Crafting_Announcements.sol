@@ -0,0 +1,144 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+/// @notice Public announcements feed of the crafting game. Nothing here is confidential, so unlike the
+///         other contracts it does not use FHE.
+contract CraftingAnnouncements {
+    error NotOwner();
+    error NotPublisher();
+    error InvalidAnnouncement();
+    error AnnouncementNotFound();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier onlyPublisher() {
+        if (!isPublisher(msg.sender)) revert NotPublisher();
+        _;
+    }
+
+    enum Priority {
+        Low,
+        Medium,
+        High
+    }
+
+    struct Announcement {
+        uint256 id;
+        address publisher;
+        string title;
+        string content;
+        Priority priority;
+        // Batch of CraftingQualityFHE the announcement is about, 0 for none
+        uint256 batchId;
+        uint256 createdAt;
+        // 0 for announcements that never expire
+        uint256 expiresAt;
+        bool withdrawn;
+    }
+
+    uint256 public constant MAX_TITLE_LENGTH = 80;
+    uint256 public constant MAX_CONTENT_LENGTH = 1000;
+
+    address public owner;
+    mapping(address => bool) public publishers;
+    mapping(uint256 => Announcement) private announcements;
+    uint256 public announcementCount;
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event PublisherAdded(address indexed publisher);
+    event PublisherRemoved(address indexed publisher);
+    event AnnouncementPublished(
+        uint256 indexed announcementId,
+        address indexed publisher,
+        uint256 indexed batchId,
+        Priority priority,
+        uint256 expiresAt
+    );
+    event AnnouncementWithdrawn(uint256 indexed announcementId);
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    function addPublisher(address publisher) external onlyOwner {
+        publishers[publisher] = true;
+        emit PublisherAdded(publisher);
+    }
+
+    function removePublisher(address publisher) external onlyOwner {
+        publishers[publisher] = false;
+        emit PublisherRemoved(publisher);
+    }
+
+    function isPublisher(address account) public view returns (bool) {
+        return account == owner || publishers[account];
+    }
+
+    function publish(
+        string calldata title,
+        string calldata content,
+        Priority priority,
+        uint256 batchId,
+        uint256 expiresAt
+    ) external onlyPublisher returns (uint256) {
+        uint256 titleLength = bytes(title).length;
+        uint256 contentLength = bytes(content).length;
+        if (titleLength == 0 || titleLength > MAX_TITLE_LENGTH) revert InvalidAnnouncement();
+        if (contentLength == 0 || contentLength > MAX_CONTENT_LENGTH) revert InvalidAnnouncement();
+        if (expiresAt != 0 && expiresAt <= block.timestamp) revert InvalidAnnouncement();
+
+        uint256 announcementId = ++announcementCount;
+        announcements[announcementId] = Announcement({
+            id: announcementId,
+            publisher: msg.sender,
+            title: title,
+            content: content,
+            priority: priority,
+            batchId: batchId,
+            createdAt: block.timestamp,
+            expiresAt: expiresAt,
+            withdrawn: false
+        });
+        emit AnnouncementPublished(announcementId, msg.sender, batchId, priority, expiresAt);
+        return announcementId;
+    }
+
+    /// @notice Hides an announcement from the feed. Allowed to its publisher and to the owner.
+    function withdraw(uint256 announcementId) external {
+        Announcement storage announcement = announcements[announcementId];
+        if (announcement.publisher == address(0)) revert AnnouncementNotFound();
+        if (msg.sender != announcement.publisher && msg.sender != owner) revert NotPublisher();
+        if (announcement.withdrawn) revert InvalidAnnouncement();
+        announcement.withdrawn = true;
+        emit AnnouncementWithdrawn(announcementId);
+    }
+
+    function getAnnouncement(uint256 announcementId) external view returns (Announcement memory) {
+        if (announcements[announcementId].publisher == address(0)) revert AnnouncementNotFound();
+        return announcements[announcementId];
+    }
+
+    /// @notice Announcements with ids in [offset + 1, offset + limit], withdrawn and expired ones included.
+    function getAnnouncements(uint256 offset, uint256 limit) external view returns (Announcement[] memory page) {
+        if (offset >= announcementCount) return new Announcement[](0);
+        uint256 end = offset + limit > announcementCount ? announcementCount : offset + limit;
+        page = new Announcement[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = announcements[i + 1];
+        }
+    }
+
+    function isActive(uint256 announcementId) external view returns (bool) {
+        Announcement storage announcement = announcements[announcementId];
+        if (announcement.publisher == address(0)) revert AnnouncementNotFound();
+        return !announcement.withdrawn && (announcement.expiresAt == 0 || announcement.expiresAt > block.timestamp);
+    }
+}
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @notice In-game currency, accepted next to ETH by ItemMarketplace. Minted by the owner, or by anyone through
+///         the faucet on test networks.
+contract CraftingGold is ERC20 {
+    error NotOwner();
+    error FaucetDisabled();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    uint256 public constant FAUCET_AMOUNT = 1000 ether;
+
+    address public owner;
+    // Only meant for local and test networks, lets anyone mint FAUCET_AMOUNT
+    bool public faucetEnabled;
+
+    event FaucetUpdated(bool enabled);
+
+    constructor() ERC20("Crafting Gold", "GOLD") {
+        owner = msg.sender;
+    }
+
+    function setFaucetEnabled(bool enabled) external onlyOwner {
+        faucetEnabled = enabled;
+        emit FaucetUpdated(enabled);
+    }
+
+    function mint(address to, uint256 amount) external onlyOwner {
+        _mint(to, amount);
+    }
+
+    function faucet() external {
+        if (!faucetEnabled) revert FaucetDisabled();
+        _mint(msg.sender, FAUCET_AMOUNT);
+    }
+}
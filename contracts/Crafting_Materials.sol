@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+import { ERC1155 } from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+
+/// @notice Crafting materials as ERC-1155 balances, one token id per catalog entry. Consumer contracts, i.e.
+///         ItemRegistryFHE, burn the materials a craft uses in the crafting transaction itself.
+contract CraftingMaterials is ERC1155 {
+    error NotOwner();
+    error NotConsumer();
+    error InvalidMaterial();
+    error MaterialNotFound();
+    error FaucetDisabled();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    struct Material {
+        uint256 id;
+        string name;
+        uint8 tier;
+    }
+
+    uint256 public constant MAX_NAME_LENGTH = 32;
+    uint8 public constant MAX_TIER = 5;
+    uint256 public constant FAUCET_AMOUNT = 10;
+
+    address public owner;
+    // Only meant for local and test networks, lets anyone mint FAUCET_AMOUNT of any material
+    bool public faucetEnabled;
+    mapping(address => bool) public consumers;
+    mapping(uint256 => Material) private catalog;
+    // Names are unique, recipes refer to materials by name
+    mapping(bytes32 => uint256) private idsByName;
+    uint256 public materialCount;
+
+    event ConsumerUpdated(address indexed consumer, bool allowed);
+    event FaucetUpdated(bool enabled);
+    event MaterialAdded(uint256 indexed materialId, string name, uint8 tier);
+
+    constructor() ERC1155("") {
+        owner = msg.sender;
+    }
+
+    function setConsumer(address consumer, bool allowed) external onlyOwner {
+        consumers[consumer] = allowed;
+        emit ConsumerUpdated(consumer, allowed);
+    }
+
+    function setFaucetEnabled(bool enabled) external onlyOwner {
+        faucetEnabled = enabled;
+        emit FaucetUpdated(enabled);
+    }
+
+    function addMaterial(string calldata name, uint8 tier) external onlyOwner returns (uint256) {
+        if (bytes(name).length == 0 || bytes(name).length > MAX_NAME_LENGTH) revert InvalidMaterial();
+        if (tier == 0 || tier > MAX_TIER) revert InvalidMaterial();
+        bytes32 key = keccak256(bytes(name));
+        if (idsByName[key] != 0) revert InvalidMaterial();
+
+        uint256 materialId = ++materialCount;
+        catalog[materialId] = Material({ id: materialId, name: name, tier: tier });
+        idsByName[key] = materialId;
+        emit MaterialAdded(materialId, name, tier);
+        return materialId;
+    }
+
+    function mint(address to, uint256[] calldata ids, uint256[] calldata amounts) external onlyOwner {
+        _requireMaterials(ids);
+        _mintBatch(to, ids, amounts, "");
+    }
+
+    function faucet(uint256[] calldata ids) external {
+        if (!faucetEnabled) revert FaucetDisabled();
+        _requireMaterials(ids);
+        uint256[] memory amounts = new uint256[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            amounts[i] = FAUCET_AMOUNT;
+        }
+        _mintBatch(msg.sender, ids, amounts, "");
+    }
+
+    /// @notice Burns `from`'s materials for a craft, reverts if any balance is short.
+    function consume(address from, uint256[] calldata ids, uint256[] calldata amounts) external {
+        if (!consumers[msg.sender]) revert NotConsumer();
+        _requireMaterials(ids);
+        _burnBatch(from, ids, amounts);
+    }
+
+    function getMaterial(uint256 materialId) public view returns (Material memory) {
+        if (catalog[materialId].id == 0) revert MaterialNotFound();
+        return catalog[materialId];
+    }
+
+    function idOf(string calldata name) external view returns (uint256) {
+        uint256 materialId = idsByName[keccak256(bytes(name))];
+        if (materialId == 0) revert MaterialNotFound();
+        return materialId;
+    }
+
+    function getCatalog() external view returns (Material[] memory) {
+        Material[] memory materials = new Material[](materialCount);
+        for (uint256 i = 0; i < materialCount; i++) {
+            materials[i] = catalog[i + 1];
+        }
+        return materials;
+    }
+
+    function _requireMaterials(uint256[] calldata ids) internal view {
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (catalog[ids[i]].id == 0) revert MaterialNotFound();
+        }
+    }
+}
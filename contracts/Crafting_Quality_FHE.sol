@@ -1,5 +1,6 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract CraftingQualityFHE is SepoliaConfig {
@@ -9,13 +10,19 @@ contract CraftingQualityFHE is SepoliaConfig {
     error NotOwner();
     error NotProvider();
     error Paused();
-    error BatchClosed();
-    error BatchFull();
+    error BatchNotActive();
+    error BatchStillOpen();
+    error BatchNotDue();
+    error BatchNotSettled();
+    error InvalidBatchConfig();
     error CooldownActive();
     error InvalidRequest();
     error ReplayDetected();
-    error StaleWrite();
     error InvalidDecryption();
+    error InvalidModel();
+    error InvalidThreshold();
+    error InvalidPrivacyConfig();
+    error TooFewSubmissions();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -49,9 +56,34 @@ contract CraftingQualityFHE is SepoliaConfig {
     mapping(address => uint256) public userCooldowns;
     uint256 public currentBatchId;
     uint256 public modelVersion;
+    // Registered quality models by version, a version can be registered once
+    mapping(uint256 => QualityModel) public qualityModels;
     uint256 public submissionCount;
     uint256 public constant MAX_BATCH_SIZE = 100;
-    uint256 public constant MAX_BATCHES = 10;
+    uint256 public constant DEFAULT_BATCH_DURATION = 1 days;
+    // Lifetime of batches opened from now on, 0 keeps them open until full or closed by the owner
+    uint256 public batchDuration;
+    // Submissions after which a batch closes, at most MAX_BATCH_SIZE. Applies to open batches too
+    uint256 public batchSizeLimit;
+    // k-anonymity floor: batches with fewer submissions cannot be decrypted. Applies to closed batches too
+    uint256 public minBatchSubmissions;
+    uint256 public constant DEFAULT_MIN_STATS_SUBMISSIONS = 10;
+    // Stricter floor for the stats reveal, at least minBatchSubmissions. The max, min and histogram are exact,
+    // in a small batch they single out individual qualities
+    uint256 public minStatsSubmissions;
+    // Exclusive upper bound of the uniform noise added to the revealed sum of batches opened from now on, 0 for
+    // none. Odd, so that the mean noise (noiseBound - 1) / 2 is a whole number consumers can subtract
+    uint32 public noiseBound;
+    uint32 public constant MAX_QUALITY = 100;
+    uint32 public constant DEFAULT_MASTERPIECE_THRESHOLD = 90;
+    // Quality from which a submission counts as a masterpiece in the stats of batches opened from now on
+    uint32 public masterpieceThreshold;
+    // Histogram bucket i counts qualities in [i * HISTOGRAM_BUCKET_WIDTH, (i + 1) * HISTOGRAM_BUCKET_WIDTH),
+    // the last bucket has no upper bound
+    uint256 public constant HISTOGRAM_BUCKETS = 5;
+    uint32 public constant HISTOGRAM_BUCKET_WIDTH = 20;
+    mapping(uint256 => BatchStats) private batchStats;
+    mapping(uint256 => StatsDecryptionContext) public statsDecryptionContexts;
 
     struct Batch {
         uint256 id;
@@ -60,12 +92,62 @@ contract CraftingQualityFHE is SepoliaConfig {
         uint256 closedAt;
         uint256 submissionCount;
         euint32 qualityAccumulator;
+        // 0 when the batch has no time limit
+        uint256 expiresAt;
+        // Last decryption request, 0 if none
+        uint256 decryptionRequestedAt;
+        bool revealed;
+        uint32 qualityScore;
+        // Settled and its accumulator dropped, only the revealed score is kept
+        bool archived;
+        // Model the accumulator was built with, the model version when the batch opened
+        uint256 modelVersion;
+        // noiseBound when the batch opened, the revealed score is the sum plus a uniform draw in [0, noiseBound),
+        // biased upward by (noiseBound - 1) / 2 on average
+        uint32 noiseBound;
+        // What the oracle decrypts: the accumulator plus noise drawn once, on the first request, so that
+        // repeated requests reveal the same value and cannot be averaged out
+        euint32 noisyAccumulator;
         mapping(address => bool) hasSubmitted;
     }
 
+    /// @dev Each submission adds `quality * weight + bonus` to its batch accumulator, in uint32 arithmetic.
+    struct QualityModel {
+        uint32 weight;
+        uint32 bonus;
+        bool registered;
+    }
+
+    /// @dev Encrypted statistics of the raw submitted qualities of a batch, the quality model does not apply.
+    struct BatchStats {
+        euint32 maxQuality;
+        euint32 minQuality;
+        euint32 masterpieceCount;
+        euint32[HISTOGRAM_BUCKETS] histogram;
+        // masterpieceThreshold when the batch opened
+        uint32 masterpieceThreshold;
+        // Last stats decryption request, 0 if none
+        uint256 decryptionRequestedAt;
+        bool revealed;
+        RevealedStats revealedStats;
+    }
+
+    struct RevealedStats {
+        uint32 maxQuality;
+        uint32 minQuality;
+        uint32 masterpieceCount;
+        uint32[HISTOGRAM_BUCKETS] histogram;
+    }
+
+    struct StatsDecryptionContext {
+        uint256 batchId;
+        bytes32 stateHash;
+        bool processed;
+        address requester;
+    }
+
     struct DecryptionContext {
         uint256 batchId;
-        uint256 modelVersion;
         bytes32 stateHash;
         bool processed;
         address requester;
@@ -78,14 +160,34 @@ contract CraftingQualityFHE is SepoliaConfig {
     event CooldownUpdated(address indexed user, uint256 cooldown);
     event BatchOpened(uint256 indexed batchId, uint256 createdAt);
     event BatchClosed(uint256 indexed batchId, uint256 closedAt);
+    event BatchArchived(uint256 indexed batchId, uint32 qualityScore);
+    event BatchConfigUpdated(uint256 duration, uint256 sizeLimit);
     event CraftingSubmitted(address indexed crafter, uint256 indexed batchId, bytes32 encryptedQuality);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, address indexed requester);
     event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 qualityScore);
     event ModelVersionUpdated(uint256 newVersion);
+    event ModelRegistered(uint256 indexed version, uint32 weight, uint32 bonus);
+    event MasterpieceThresholdUpdated(uint32 threshold);
+    event DecryptionPrivacyUpdated(uint256 minBatchSubmissions, uint256 minStatsSubmissions, uint32 noiseBound);
+    event StatsDecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, address indexed requester);
+    event StatsDecryptionCompleted(
+        uint256 indexed requestId,
+        uint256 indexed batchId,
+        uint32 maxQuality,
+        uint32 minQuality,
+        uint32 masterpieceCount,
+        uint32[HISTOGRAM_BUCKETS] histogram
+    );
 
     constructor() {
         owner = msg.sender;
+        _registerModel(1, 1, 0);
         modelVersion = 1;
+        batchDuration = DEFAULT_BATCH_DURATION;
+        batchSizeLimit = MAX_BATCH_SIZE;
+        masterpieceThreshold = DEFAULT_MASTERPIECE_THRESHOLD;
+        minBatchSubmissions = 1;
+        minStatsSubmissions = DEFAULT_MIN_STATS_SUBMISSIONS;
         _openNewBatch();
     }
 
@@ -114,60 +216,145 @@ contract CraftingQualityFHE is SepoliaConfig {
         emit CooldownUpdated(user, cooldown);
     }
 
+    /// @notice Registers the formula parameters of a model version, see QualityModel. Versions are immutable
+    ///         once registered.
+    function registerModel(uint256 version, uint32 weight, uint32 bonus) external onlyOwner {
+        _registerModel(version, weight, bonus);
+    }
+
+    /// @notice Batches opened afterwards accumulate under `newVersion`. Existing batches keep the version they
+    ///         opened under, and so do their pending decryption requests.
     function setModelVersion(uint256 newVersion) external onlyOwner {
+        if (!qualityModels[newVersion].registered) revert InvalidModel();
         modelVersion = newVersion;
         emit ModelVersionUpdated(newVersion);
     }
 
+    /// @notice `duration` applies to batches opened afterwards, `sizeLimit` to open batches as well.
+    function setBatchConfig(uint256 duration, uint256 sizeLimit) external onlyOwner {
+        if (sizeLimit == 0 || sizeLimit > MAX_BATCH_SIZE) revert InvalidBatchConfig();
+        batchDuration = duration;
+        batchSizeLimit = sizeLimit;
+        emit BatchConfigUpdated(duration, sizeLimit);
+    }
+
+    /// @notice `minSubmissions` and `minStats` apply to every later decryption request, `bound` to
+    ///         batches opened afterwards. `bound` must be 0 or odd.
+    function setDecryptionPrivacy(uint256 minSubmissions, uint256 minStats, uint32 bound) external onlyOwner {
+        if (minSubmissions == 0 || minStats < minSubmissions || minStats > MAX_BATCH_SIZE) {
+            revert InvalidPrivacyConfig();
+        }
+        if (bound % 2 == 0 && bound != 0) revert InvalidPrivacyConfig();
+        minBatchSubmissions = minSubmissions;
+        minStatsSubmissions = minStats;
+        noiseBound = bound;
+        emit DecryptionPrivacyUpdated(minSubmissions, minStats, bound);
+    }
+
+    /// @notice Applies to batches opened afterwards, open batches keep counting against their own threshold.
+    function setMasterpieceThreshold(uint32 threshold) external onlyOwner {
+        if (threshold == 0 || threshold > MAX_QUALITY) revert InvalidThreshold();
+        masterpieceThreshold = threshold;
+        emit MasterpieceThresholdUpdated(threshold);
+    }
+
     function openNewBatch() external onlyOwner {
         _openNewBatch();
     }
 
+    /// @notice Closes a batch without opening the next one, see closeDueBatch for the rolling close.
     function closeBatch(uint256 batchId) external onlyOwner {
+        if (!batches[batchId].active) revert BatchNotActive();
+        _closeBatch(batchId);
+    }
+
+    /// @notice Anyone, typically a keeper, can close a batch past its expiry or size limit. When it is the
+    ///         current batch the next one opens in its place.
+    function closeDueBatch(uint256 batchId) external whenNotPaused {
         Batch storage batch = batches[batchId];
-        if (!batch.active) revert BatchClosed();
-        batch.active = false;
-        batch.closedAt = block.timestamp;
-        emit BatchClosed(batchId, block.timestamp);
+        if (!batch.active) revert BatchNotActive();
+        if (!_isDue(batch)) revert BatchNotDue();
+        _closeBatch(batchId);
+        if (batchId == currentBatchId) _openNewBatch();
+    }
+
+    /// @notice Drops the accumulator and stats of a closed batch once its score was revealed, and its stats
+    ///         too when it holds minStatsSubmissions. Batches with fewer submissions than minBatchSubmissions
+    ///         are archived as they are. Anyone can archive, the revealed values stay readable.
+    function archiveBatch(uint256 batchId) external {
+        Batch storage batch = batches[batchId];
+        if (batch.id == 0 || batch.active || batch.archived) revert BatchNotSettled();
+        if (batch.submissionCount >= minBatchSubmissions) {
+            if (!batch.revealed) revert BatchNotSettled();
+            if (batch.submissionCount >= minStatsSubmissions && !batchStats[batchId].revealed) {
+                revert BatchNotSettled();
+            }
+        }
+        batch.archived = true;
+        batch.qualityAccumulator = euint32.wrap(bytes32(0));
+        batch.noisyAccumulator = euint32.wrap(bytes32(0));
+        _dropStats(batchStats[batchId]);
+        emit BatchArchived(batchId, batch.qualityScore);
     }
 
     function submitCraftingQuality(
         uint256 batchId,
-        euint32 encryptedQuality
+        externalEuint32 encryptedQuality,
+        bytes calldata inputProof
     ) external onlyProvider whenNotPaused checkCooldown(userCooldowns[msg.sender] == 0 ? MIN_INTERVAL : userCooldowns[msg.sender]) {
         Batch storage batch = batches[batchId];
-        if (!batch.active) revert BatchClosed();
-        if (batch.submissionCount >= MAX_BATCH_SIZE) revert BatchFull();
+        if (batch.id == 0) revert BatchNotActive();
+        // A submission reaching a closed batch goes to the current batch instead. The first one reaching an
+        // expired or full batch closes it
+        if (!batch.active || _isDue(batch)) {
+            if (batch.active) _closeBatch(batchId);
+            batchId = _rollingBatchId();
+            batch = batches[batchId];
+        }
         if (batch.hasSubmitted[msg.sender]) revert ReplayDetected();
 
-        _initIfNeeded(batch.qualityAccumulator);
-        batch.qualityAccumulator = FHE.add(batch.qualityAccumulator, encryptedQuality);
+        euint32 quality = FHE.fromExternal(encryptedQuality, inputProof);
+        // The submitter can read their own quality back from the emitted handle
+        FHE.allowThis(quality);
+        FHE.allow(quality, msg.sender);
+        batch.qualityAccumulator = FHE.add(
+            _initIfNeeded(batch.qualityAccumulator),
+            _score(quality, qualityModels[batch.modelVersion])
+        );
+        FHE.allowThis(batch.qualityAccumulator);
+        _recordStats(batchStats[batchId], quality);
         batch.submissionCount++;
         batch.hasSubmitted[msg.sender] = true;
         submissionCount++;
         lastActionAt[msg.sender] = block.timestamp;
 
-        emit CraftingSubmitted(msg.sender, batchId, FHE.toBytes32(encryptedQuality));
+        emit CraftingSubmitted(msg.sender, batchId, FHE.toBytes32(quality));
+
+        if (batch.submissionCount >= batchSizeLimit) {
+            _closeBatch(batchId);
+            if (batchId == currentBatchId) _openNewBatch();
+        }
     }
 
     function requestBatchQualityDecryption(uint256 batchId) external whenNotPaused checkCooldown(MIN_INTERVAL) {
         Batch storage batch = batches[batchId];
-        if (batch.submissionCount == 0) revert InvalidRequest();
-        if (batch.active) revert BatchClosed();
+        if (batch.submissionCount == 0 || batch.archived) revert InvalidRequest();
+        if (batch.active) revert BatchStillOpen();
+        if (batch.submissionCount < minBatchSubmissions) revert TooFewSubmissions();
 
         bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(batch.qualityAccumulator);
+        cts[0] = FHE.toBytes32(_noisyAccumulator(batch));
         bytes32 stateHash = _hashCiphertexts(cts);
         uint256 requestId = FHE.requestDecryption(cts, this.completeBatchQualityDecryption.selector);
 
         decryptionContexts[requestId] = DecryptionContext({
             batchId: batchId,
-            modelVersion: modelVersion,
             stateHash: stateHash,
             processed: false,
             requester: msg.sender
         });
 
+        batch.decryptionRequestedAt = block.timestamp;
         lastActionAt[msg.sender] = block.timestamp;
         emit DecryptionRequested(requestId, batchId, msg.sender);
     }
@@ -177,39 +364,203 @@ contract CraftingQualityFHE is SepoliaConfig {
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        if (decryptionContexts[requestId].processed) revert ReplayDetected();
-        if (decryptionContexts[requestId].modelVersion != modelVersion) revert StaleWrite();
+        DecryptionContext storage context = decryptionContexts[requestId];
+        if (context.processed) revert ReplayDetected();
+        if (context.batchId == 0) revert InvalidRequest();
 
-        Batch storage batch = batches[decryptionContexts[requestId].batchId];
+        Batch storage batch = batches[context.batchId];
         bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(batch.qualityAccumulator);
+        cts[0] = FHE.toBytes32(batch.noisyAccumulator);
         bytes32 currHash = _hashCiphertexts(cts);
 
-        if (currHash != decryptionContexts[requestId].stateHash) revert InvalidDecryption();
+        if (currHash != context.stateHash) revert InvalidDecryption();
         FHE.checkSignatures(requestId, cleartexts, proof);
 
         uint32 qualityScore = abi.decode(cleartexts, (uint32));
-        decryptionContexts[requestId].processed = true;
+        context.processed = true;
+        batch.revealed = true;
+        batch.qualityScore = qualityScore;
+
+        emit DecryptionCompleted(requestId, context.batchId, qualityScore);
+    }
+
+    /// @notice Asks the oracle to reveal the max, min, masterpiece count and histogram of a closed batch
+    ///         in one request. Individual qualities stay private. The values are exact, no noise is added,
+    ///         so the batch needs minStatsSubmissions submissions.
+    function requestBatchStatsDecryption(uint256 batchId) external whenNotPaused checkCooldown(MIN_INTERVAL) {
+        Batch storage batch = batches[batchId];
+        if (batch.submissionCount == 0 || batch.archived) revert InvalidRequest();
+        if (batch.active) revert BatchStillOpen();
+        if (batch.submissionCount < minStatsSubmissions) revert TooFewSubmissions();
+
+        bytes32[] memory cts = _statsCiphertexts(batchStats[batchId]);
+        uint256 requestId = FHE.requestDecryption(cts, this.completeBatchStatsDecryption.selector);
+        statsDecryptionContexts[requestId] = StatsDecryptionContext({
+            batchId: batchId,
+            stateHash: _hashCiphertexts(cts),
+            processed: false,
+            requester: msg.sender
+        });
+
+        batchStats[batchId].decryptionRequestedAt = block.timestamp;
+        lastActionAt[msg.sender] = block.timestamp;
+        emit StatsDecryptionRequested(requestId, batchId, msg.sender);
+    }
+
+    function completeBatchStatsDecryption(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        StatsDecryptionContext storage context = statsDecryptionContexts[requestId];
+        if (context.processed) revert ReplayDetected();
+        if (context.batchId == 0) revert InvalidRequest();
+
+        BatchStats storage stats = batchStats[context.batchId];
+        if (_hashCiphertexts(_statsCiphertexts(stats)) != context.stateHash) revert InvalidDecryption();
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        // The values come in _statsCiphertexts order, which is the field order of the static RevealedStats tuple
+        RevealedStats memory revealed = abi.decode(cleartexts, (RevealedStats));
+        context.processed = true;
+        stats.revealed = true;
+        stats.revealedStats = revealed;
+
+        emit StatsDecryptionCompleted(
+            requestId,
+            context.batchId,
+            revealed.maxQuality,
+            revealed.minQuality,
+            revealed.masterpieceCount,
+            revealed.histogram
+        );
+    }
 
-        emit DecryptionCompleted(requestId, decryptionContexts[requestId].batchId, qualityScore);
+    function getBatchStats(uint256 batchId) external view returns (BatchStats memory) {
+        return batchStats[batchId];
     }
 
     function _openNewBatch() internal {
-        if (currentBatchId >= MAX_BATCHES) revert BatchFull();
         currentBatchId++;
         Batch storage newBatch = batches[currentBatchId];
         newBatch.id = currentBatchId;
         newBatch.active = true;
         newBatch.createdAt = block.timestamp;
+        newBatch.expiresAt = batchDuration == 0 ? 0 : block.timestamp + batchDuration;
+        newBatch.modelVersion = modelVersion;
+        newBatch.noiseBound = noiseBound;
         newBatch.qualityAccumulator = FHE.asEuint32(0);
+        FHE.allowThis(newBatch.qualityAccumulator);
+
+        BatchStats storage stats = batchStats[currentBatchId];
+        euint32 lowest = FHE.asEuint32(type(uint32).max);
+        FHE.allowThis(lowest);
+        stats.maxQuality = newBatch.qualityAccumulator;
+        stats.minQuality = lowest;
+        stats.masterpieceCount = newBatch.qualityAccumulator;
+        for (uint256 i = 0; i < HISTOGRAM_BUCKETS; i++) {
+            stats.histogram[i] = newBatch.qualityAccumulator;
+        }
+        stats.masterpieceThreshold = masterpieceThreshold;
         emit BatchOpened(currentBatchId, block.timestamp);
     }
 
+    function _closeBatch(uint256 batchId) internal {
+        Batch storage batch = batches[batchId];
+        batch.active = false;
+        batch.closedAt = block.timestamp;
+        emit BatchClosed(batchId, block.timestamp);
+    }
+
+    function _isDue(Batch storage batch) internal view returns (bool) {
+        return
+            (batch.expiresAt != 0 && block.timestamp >= batch.expiresAt) ||
+            batch.submissionCount >= batchSizeLimit;
+    }
+
+    /// @dev The current batch if it still takes submissions, otherwise a newly opened one.
+    function _rollingBatchId() internal returns (uint256) {
+        Batch storage current = batches[currentBatchId];
+        if (current.active && !_isDue(current)) return currentBatchId;
+        if (current.active) _closeBatch(currentBatchId);
+        _openNewBatch();
+        return currentBatchId;
+    }
+
+    function _registerModel(uint256 version, uint32 weight, uint32 bonus) internal {
+        if (version == 0 || weight == 0 || qualityModels[version].registered) revert InvalidModel();
+        qualityModels[version] = QualityModel({ weight: weight, bonus: bonus, registered: true });
+        emit ModelRegistered(version, weight, bonus);
+    }
+
+    function _score(euint32 quality, QualityModel storage model) internal returns (euint32) {
+        if (model.weight != 1) quality = FHE.mul(quality, model.weight);
+        if (model.bonus != 0) quality = FHE.add(quality, model.bonus);
+        return quality;
+    }
+
+    function _noisyAccumulator(Batch storage batch) internal returns (euint32) {
+        if (!FHE.isInitialized(batch.noisyAccumulator)) {
+            euint32 noisy = batch.qualityAccumulator;
+            if (batch.noiseBound != 0) {
+                noisy = FHE.add(noisy, FHE.rem(FHE.randEuint32(), batch.noiseBound));
+                FHE.allowThis(noisy);
+            }
+            batch.noisyAccumulator = noisy;
+        }
+        return batch.noisyAccumulator;
+    }
+
+    function _recordStats(BatchStats storage stats, euint32 quality) internal {
+        stats.maxQuality = FHE.max(stats.maxQuality, quality);
+        FHE.allowThis(stats.maxQuality);
+        stats.minQuality = FHE.min(stats.minQuality, quality);
+        FHE.allowThis(stats.minQuality);
+        stats.masterpieceCount = _increment(
+            stats.masterpieceCount,
+            FHE.ge(quality, stats.masterpieceThreshold)
+        );
+
+        // reached: quality is at least the lower bound of bucket i
+        ebool reached = FHE.asEbool(true);
+        for (uint256 i = 0; i < HISTOGRAM_BUCKETS; i++) {
+            ebool inBucket = reached;
+            if (i + 1 < HISTOGRAM_BUCKETS) {
+                ebool nextReached = FHE.ge(quality, uint32(i + 1) * HISTOGRAM_BUCKET_WIDTH);
+                inBucket = FHE.and(reached, FHE.not(nextReached));
+                reached = nextReached;
+            }
+            stats.histogram[i] = _increment(stats.histogram[i], inBucket);
+        }
+    }
+
+    function _increment(euint32 counter, ebool condition) internal returns (euint32) {
+        euint32 updated = FHE.select(condition, FHE.add(counter, 1), counter);
+        FHE.allowThis(updated);
+        return updated;
+    }
+
+    /// @dev Max, min, masterpiece count, then the histogram buckets in order.
+    function _statsCiphertexts(BatchStats storage stats) internal view returns (bytes32[] memory cts) {
+        cts = new bytes32[](3 + HISTOGRAM_BUCKETS);
+        cts[0] = FHE.toBytes32(stats.maxQuality);
+        cts[1] = FHE.toBytes32(stats.minQuality);
+        cts[2] = FHE.toBytes32(stats.masterpieceCount);
+        for (uint256 i = 0; i < HISTOGRAM_BUCKETS; i++) {
+            cts[3 + i] = FHE.toBytes32(stats.histogram[i]);
+        }
+    }
+
+    function _dropStats(BatchStats storage stats) internal {
+        stats.maxQuality = euint32.wrap(bytes32(0));
+        stats.minQuality = euint32.wrap(bytes32(0));
+        stats.masterpieceCount = euint32.wrap(bytes32(0));
+        for (uint256 i = 0; i < HISTOGRAM_BUCKETS; i++) {
+            stats.histogram[i] = euint32.wrap(bytes32(0));
+        }
+    }
+
     function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
         return keccak256(abi.encode(cts));
     }
 
-    function _initIfNeeded(euint32 x) internal pure returns (euint32) {
+    function _initIfNeeded(euint32 x) internal returns (euint32) {
         if (!FHE.isInitialized(x)) {
             return FHE.asEuint32(0);
         }
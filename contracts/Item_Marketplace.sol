@@ -0,0 +1,235 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+import { FHE, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { ReentrancyGuard } from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import { ItemRegistryFHE } from "./Item_Registry_FHE.sol";
+
+/// @notice Fixed-price sales of crafted items for ETH or the game token. Listings are non-custodial: the seller
+///         keeps the item, and with it access to its encrypted fields, until a buyer settles. The registry then
+///         re-keys the fields to the buyer as part of the transfer.
+contract ItemMarketplace is SepoliaConfig, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    error NotOwner();
+    error NotSeller();
+    error InvalidListing();
+    error ListingNotFound();
+    error ListingNotActive();
+    error AlreadyListed();
+    error MarketplaceNotApproved();
+    error GameTokenNotSet();
+    error IncorrectPayment();
+    error PaymentFailed();
+    error ClaimNotVerified();
+    error UnknownClaimRequest();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    enum Currency {
+        Eth,
+        GameToken
+    }
+
+    enum ListingStatus {
+        Active,
+        Cancelled,
+        Sold
+    }
+
+    enum ClaimStatus {
+        None,
+        Pending,
+        // The item's quality is at least the claimed threshold
+        Verified,
+        Refuted
+    }
+
+    struct Listing {
+        uint256 id;
+        uint256 itemId;
+        address seller;
+        Currency currency;
+        uint256 price;
+        // Claimed minimum quality, 0 without a claim
+        uint32 claimThreshold;
+        ClaimStatus claimStatus;
+        ListingStatus status;
+        address buyer;
+        uint256 createdAt;
+        uint256 closedAt;
+    }
+
+    ItemRegistryFHE public immutable registry;
+    address public owner;
+    IERC20 public gameToken;
+
+    mapping(uint256 => Listing) private listings;
+    // Item id => its latest active listing, the listing may be stale if the seller no longer owns the item
+    mapping(uint256 => uint256) public activeListingOf;
+    // Pending quality claims, oracle request id => listing id
+    mapping(uint256 => uint256) private claimRequests;
+    uint256 public listingCount;
+
+    event GameTokenUpdated(address indexed gameToken);
+    event ItemListed(
+        uint256 indexed listingId,
+        uint256 indexed itemId,
+        address indexed seller,
+        Currency currency,
+        uint256 price,
+        uint32 claimThreshold
+    );
+    event ListingCancelled(uint256 indexed listingId, uint256 indexed itemId);
+    event ItemSold(
+        uint256 indexed listingId,
+        uint256 indexed itemId,
+        address indexed buyer,
+        address seller,
+        Currency currency,
+        uint256 price
+    );
+    event QualityClaimRequested(uint256 indexed listingId, uint256 indexed requestId, uint32 threshold);
+    event QualityClaimRevealed(uint256 indexed listingId, uint256 indexed requestId, bool holds);
+
+    constructor(ItemRegistryFHE registry_) {
+        registry = registry_;
+        owner = msg.sender;
+    }
+
+    function setGameToken(IERC20 token) external onlyOwner {
+        gameToken = token;
+        emit GameTokenUpdated(address(token));
+    }
+
+    /// @notice Lists one of the caller's items, the marketplace must be approved for it. With a non-zero
+    ///         `claimThreshold` the oracle publicly decrypts whether the item's quality reaches it, the exact
+    ///         quality stays private.
+    function list(
+        uint256 itemId,
+        Currency currency,
+        uint256 price,
+        uint32 claimThreshold
+    ) external returns (uint256) {
+        if (registry.ownerOf(itemId) != msg.sender) revert NotSeller();
+        if (registry.getApproved(itemId) != address(this) && !registry.isApprovedForAll(msg.sender, address(this))) {
+            revert MarketplaceNotApproved();
+        }
+        if (price == 0) revert InvalidListing();
+        if (currency == Currency.GameToken && address(gameToken) == address(0)) revert GameTokenNotSet();
+        _closeStaleListing(itemId);
+
+        uint256 listingId = ++listingCount;
+        Listing storage listing = listings[listingId];
+        listing.id = listingId;
+        listing.itemId = itemId;
+        listing.seller = msg.sender;
+        listing.currency = currency;
+        listing.price = price;
+        listing.claimThreshold = claimThreshold;
+        listing.createdAt = block.timestamp;
+        activeListingOf[itemId] = listingId;
+        emit ItemListed(listingId, itemId, msg.sender, currency, price, claimThreshold);
+
+        if (claimThreshold != 0) {
+            _requestQualityClaim(listing);
+        }
+        return listingId;
+    }
+
+    function cancel(uint256 listingId) external {
+        Listing storage listing = _activeListing(listingId);
+        if (listing.seller != msg.sender) revert NotSeller();
+        _close(listing, ListingStatus.Cancelled);
+        emit ListingCancelled(listingId, listing.itemId);
+    }
+
+    /// @notice Pays the seller and transfers the item. ETH listings take exactly `price` as value, game token
+    ///         listings need an allowance of `price` and no value. Listings with a quality claim only sell once the
+    ///         oracle verified it, a refuted listing has to be cancelled and listed again without the claim.
+    function buy(uint256 listingId) external payable nonReentrant {
+        Listing storage listing = _activeListing(listingId);
+        // The seller moved the item since listing it
+        if (registry.ownerOf(listing.itemId) != listing.seller) revert ListingNotActive();
+        if (listing.seller == msg.sender) revert InvalidListing();
+        if (listing.claimStatus != ClaimStatus.None && listing.claimStatus != ClaimStatus.Verified) {
+            revert ClaimNotVerified();
+        }
+        uint256 expectedValue = listing.currency == Currency.Eth ? listing.price : 0;
+        if (msg.value != expectedValue) revert IncorrectPayment();
+
+        listing.buyer = msg.sender;
+        _close(listing, ListingStatus.Sold);
+        registry.transferFrom(listing.seller, msg.sender, listing.itemId);
+        if (listing.currency == Currency.Eth) {
+            (bool paid, ) = listing.seller.call{ value: listing.price }("");
+            if (!paid) revert PaymentFailed();
+        } else {
+            gameToken.safeTransferFrom(msg.sender, listing.seller, listing.price);
+        }
+        emit ItemSold(listingId, listing.itemId, msg.sender, listing.seller, listing.currency, listing.price);
+    }
+
+    function completeQualityClaim(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        uint256 listingId = claimRequests[requestId];
+        if (listingId == 0) revert UnknownClaimRequest();
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool holds = abi.decode(cleartexts, (bool));
+        delete claimRequests[requestId];
+        listings[listingId].claimStatus = holds ? ClaimStatus.Verified : ClaimStatus.Refuted;
+        emit QualityClaimRevealed(listingId, requestId, holds);
+    }
+
+    function getListing(uint256 listingId) public view returns (Listing memory) {
+        if (listingId == 0 || listingId > listingCount) revert ListingNotFound();
+        return listings[listingId];
+    }
+
+    /// @notice Listings `offset + 1` to `offset + limit` in creation order.
+    function getListings(uint256 offset, uint256 limit) external view returns (Listing[] memory page) {
+        if (offset >= listingCount) return new Listing[](0);
+        uint256 end = offset + limit > listingCount ? listingCount : offset + limit;
+        page = new Listing[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = listings[i + 1];
+        }
+    }
+
+    function _requestQualityClaim(Listing storage listing) internal {
+        ebool claim = registry.qualityAtLeast(listing.itemId, listing.claimThreshold);
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(claim);
+        uint256 requestId = FHE.requestDecryption(cts, this.completeQualityClaim.selector);
+        claimRequests[requestId] = listing.id;
+        listing.claimStatus = ClaimStatus.Pending;
+        emit QualityClaimRequested(listing.id, requestId, listing.claimThreshold);
+    }
+
+    /// @dev A listing left active by a seller who transferred the item is cancelled when the item is relisted.
+    function _closeStaleListing(uint256 itemId) internal {
+        uint256 previousId = activeListingOf[itemId];
+        if (previousId == 0) return;
+        Listing storage previous = listings[previousId];
+        if (previous.seller == msg.sender) revert AlreadyListed();
+        _close(previous, ListingStatus.Cancelled);
+        emit ListingCancelled(previousId, itemId);
+    }
+
+    function _activeListing(uint256 listingId) internal view returns (Listing storage listing) {
+        if (listingId == 0 || listingId > listingCount) revert ListingNotFound();
+        listing = listings[listingId];
+        if (listing.status != ListingStatus.Active) revert ListingNotActive();
+    }
+
+    function _close(Listing storage listing, ListingStatus status) internal {
+        listing.status = status;
+        listing.closedAt = block.timestamp;
+        delete activeListingOf[listing.itemId];
+    }
+}
@@ -0,0 +1,536 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+import { FHE, ebool, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import { Base64 } from "@openzeppelin/contracts/utils/Base64.sol";
+import { Strings } from "@openzeppelin/contracts/utils/Strings.sol";
+import { CraftingMaterials } from "./Crafting_Materials.sol";
+import { RecipeBookFHE } from "./Recipe_Book_FHE.sol";
+
+/// @notice Crafted items, each an ERC-721 token whose id is the item id. The encrypted fields travel with the
+///         token: every transfer re-keys them to the new owner, see _rotateHandles.
+contract ItemRegistryFHE is SepoliaConfig, ERC721 {
+    error NotItemOwner();
+    error ItemNotFound();
+    error InvalidItem();
+    error InvalidRecipient();
+    error NotOwner();
+    error InvalidThreshold();
+    error RevealAlreadyRequested();
+    error UnknownRevealRequest();
+    error NothingToPublish();
+    error RecipeBookNotSet();
+    error MaterialInventoryNotSet();
+    error InventoryRequired();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier onlyItemOwner(uint256 itemId) {
+        if (items[itemId].owner == address(0)) revert ItemNotFound();
+        if (items[itemId].owner != msg.sender) revert NotItemOwner();
+        _;
+    }
+
+    enum ItemStatus {
+        Pending,
+        Crafted,
+        Failed
+    }
+
+    enum MasterpieceReveal {
+        Hidden,
+        Requested,
+        Revealed
+    }
+
+    struct Item {
+        uint256 id;
+        address owner;
+        string name;
+        uint32 baseQuality;
+        euint32 quality;
+        euint32 catalyst;
+        // quality >= masterpieceThreshold at crafting time
+        ebool masterpiece;
+        string[] materials;
+        ItemStatus status;
+        MasterpieceReveal masterpieceReveal;
+        // Only meaningful once masterpieceReveal is Revealed
+        bool isMasterpiece;
+        uint256 createdAt;
+    }
+
+    uint256 public constant MAX_NAME_LENGTH = 64;
+    uint256 public constant MAX_MATERIALS = 16;
+    uint32 public constant MAX_QUALITY = 100;
+    // Catalyst effects above the cap count as the cap, the bonus is a tenth of the effect
+    uint32 public constant MAX_CATALYST_EFFECT = 100;
+    uint32 public constant CATALYST_DIVISOR = 10;
+    // Recipe catalyst multipliers are percentages
+    uint32 public constant MULTIPLIER_SCALE = 100;
+    // Luck is drawn in [0, LUCK_RANGE), randEuint32 requires a power of two
+    uint32 public constant LUCK_RANGE = 32;
+    uint32 public constant DEFAULT_MASTERPIECE_THRESHOLD = 90;
+
+    // Running totals per crafter, the item's creator rather than its current owner
+    struct CrafterStats {
+        euint32 qualitySum;
+        uint32 craftedCount;
+        bool averagePending;
+    }
+
+    struct PublishedAverage {
+        uint32 averageQuality;
+        uint32 sampleSize;
+        uint256 publishedAt;
+    }
+
+    struct AverageRequest {
+        address crafter;
+        uint32 sampleSize;
+    }
+
+    address public owner;
+    // Applies to items crafted after it is set, existing flags are never recomputed
+    uint32 public masterpieceThreshold;
+    RecipeBookFHE public recipeBook;
+    // Once set, every craft burns the materials it uses and free-text materials are refused
+    CraftingMaterials public materialInventory;
+
+    mapping(uint256 => Item) private items;
+    mapping(address => uint256[]) private ownedItems;
+    // Position of an item in its owner's ownedItems list, plus one
+    mapping(uint256 => uint256) private ownedIndex;
+    // Pending masterpiece reveals, oracle request id => item id
+    mapping(uint256 => uint256) private revealRequests;
+    mapping(address => CrafterStats) private crafterStats;
+    // Averages of the crafters who opted in to the leaderboard
+    mapping(address => PublishedAverage) public publishedAverages;
+    mapping(uint256 => AverageRequest) private averageRequests;
+    uint256 public itemCount;
+
+    // Carries every creation-time field so indexers can rebuild items from logs alone
+    event ItemCreated(
+        uint256 indexed itemId,
+        address indexed owner,
+        string name,
+        uint32 baseQuality,
+        string[] materials,
+        bytes32 encryptedQuality,
+        bytes32 encryptedCatalyst,
+        bytes32 encryptedMasterpiece,
+        uint256 createdAt
+    );
+    event ItemStatusUpdated(uint256 indexed itemId, ItemStatus status);
+    // Emitted with the ERC-721 Transfer, carries the handles the item holds from now on
+    event ItemTransferred(
+        uint256 indexed itemId,
+        address indexed from,
+        address indexed to,
+        bytes32 encryptedQuality,
+        bytes32 encryptedCatalyst,
+        bytes32 encryptedMasterpiece
+    );
+    event MasterpieceThresholdUpdated(uint32 threshold);
+    event MasterpieceRevealRequested(uint256 indexed itemId, uint256 indexed requestId);
+    event MasterpieceRevealed(uint256 indexed itemId, uint256 indexed requestId, bool isMasterpiece);
+    event AverageQualityRequested(address indexed crafter, uint256 indexed requestId);
+    event AverageQualityPublished(
+        address indexed crafter,
+        uint256 indexed requestId,
+        uint32 averageQuality,
+        uint32 sampleSize
+    );
+    event AverageQualityWithdrawn(address indexed crafter);
+    event RecipeBookUpdated(address indexed recipeBook);
+    event ItemCraftedWithRecipe(uint256 indexed itemId, uint256 indexed recipeId);
+    event MaterialInventoryUpdated(address indexed materialInventory);
+    event MaterialsConsumed(uint256 indexed itemId, address indexed crafter, uint256[] materialIds, uint256[] amounts);
+
+    constructor() ERC721("Crafted Item", "CRAFT") {
+        owner = msg.sender;
+        masterpieceThreshold = DEFAULT_MASTERPIECE_THRESHOLD;
+    }
+
+    function setMasterpieceThreshold(uint32 threshold) external onlyOwner {
+        if (threshold == 0 || threshold > MAX_QUALITY) revert InvalidThreshold();
+        masterpieceThreshold = threshold;
+        emit MasterpieceThresholdUpdated(threshold);
+    }
+
+    /// @notice The recipe book must also list this contract as a consumer for recipe crafting to work.
+    function setRecipeBook(RecipeBookFHE book) external onlyOwner {
+        recipeBook = book;
+        emit RecipeBookUpdated(address(book));
+    }
+
+    /// @notice The inventory must also list this contract as a consumer for crafting to work.
+    function setMaterialInventory(CraftingMaterials inventory) external onlyOwner {
+        materialInventory = inventory;
+        emit MaterialInventoryUpdated(address(inventory));
+    }
+
+    /// @notice Crafts an item. Its quality is evaluated homomorphically from the base quality, the
+    ///         encrypted catalyst effect and on-chain randomness, so nobody, the crafter included, picks it.
+    ///         Only available while no material inventory is set, use createItemFromMaterials otherwise.
+    function createItem(
+        string calldata name,
+        uint32 baseQuality,
+        string[] calldata materials,
+        externalEuint32 encryptedCatalyst,
+        bytes calldata inputProof
+    ) external returns (uint256) {
+        if (address(materialInventory) != address(0)) revert InventoryRequired();
+        _validateItem(name, materials.length, baseQuality);
+        euint32 catalyst = FHE.fromExternal(encryptedCatalyst, inputProof);
+        euint32 bonus = FHE.div(FHE.min(catalyst, MAX_CATALYST_EFFECT), CATALYST_DIVISOR);
+        return _createItem(name, baseQuality, materials, catalyst, bonus);
+    }
+
+    /// @notice Crafts an item like createItem, burning `amounts` of the caller's `materialIds` in the same
+    ///         transaction. The item records the names of the materials used.
+    function createItemFromMaterials(
+        string calldata name,
+        uint32 baseQuality,
+        uint256[] calldata materialIds,
+        uint256[] calldata amounts,
+        externalEuint32 encryptedCatalyst,
+        bytes calldata inputProof
+    ) external returns (uint256) {
+        if (address(materialInventory) == address(0)) revert MaterialInventoryNotSet();
+        _validateItem(name, materialIds.length, baseQuality);
+        if (amounts.length != materialIds.length) revert InvalidItem();
+        string[] memory materials = new string[](materialIds.length);
+        for (uint256 i = 0; i < materialIds.length; i++) {
+            if (amounts[i] == 0) revert InvalidItem();
+            materials[i] = materialInventory.getMaterial(materialIds[i]).name;
+        }
+
+        euint32 catalyst = FHE.fromExternal(encryptedCatalyst, inputProof);
+        euint32 bonus = FHE.div(FHE.min(catalyst, MAX_CATALYST_EFFECT), CATALYST_DIVISOR);
+        uint256 itemId = _createItem(name, baseQuality, materials, catalyst, bonus);
+        _consumeMaterials(itemId, materialIds, amounts);
+        return itemId;
+    }
+
+    /// @notice Crafts an item with a recipe the caller may use. The recipe's capped material bonus is added and its
+    ///         multiplier scales the catalyst bonus, all on ciphertexts, so the recipe is never revealed. The
+    ///         item takes the recipe's materials, one unit of each is burned when an inventory is set.
+    function createItemWithRecipe(
+        string calldata name,
+        uint32 baseQuality,
+        uint256 recipeId,
+        externalEuint32 encryptedCatalyst,
+        bytes calldata inputProof
+    ) external returns (uint256) {
+        if (address(recipeBook) == address(0)) revert RecipeBookNotSet();
+        (string[] memory materials, euint32 materialBonus, euint32 multiplier) = recipeBook.useRecipe(
+            recipeId,
+            msg.sender
+        );
+        _validateItem(name, materials.length, baseQuality);
+        euint32 catalyst = FHE.fromExternal(encryptedCatalyst, inputProof);
+        euint32 catalystBonus = FHE.div(
+            FHE.mul(FHE.min(catalyst, MAX_CATALYST_EFFECT), multiplier),
+            CATALYST_DIVISOR * MULTIPLIER_SCALE
+        );
+        uint256 itemId = _createItem(
+            name,
+            baseQuality,
+            materials,
+            catalyst,
+            FHE.add(catalystBonus, materialBonus)
+        );
+        emit ItemCraftedWithRecipe(itemId, recipeId);
+        if (address(materialInventory) != address(0)) {
+            uint256[] memory materialIds = new uint256[](materials.length);
+            uint256[] memory amounts = new uint256[](materials.length);
+            for (uint256 i = 0; i < materials.length; i++) {
+                materialIds[i] = materialInventory.idOf(materials[i]);
+                amounts[i] = 1;
+            }
+            _consumeMaterials(itemId, materialIds, amounts);
+        }
+        return itemId;
+    }
+
+    function setItemStatus(uint256 itemId, ItemStatus status) external onlyItemOwner(itemId) {
+        items[itemId].status = status;
+        emit ItemStatusUpdated(itemId, status);
+    }
+
+    /// @notice Owner-only transfer that, unlike transferFrom, refuses sending the item to oneself.
+    function transferItem(uint256 itemId, address to) external onlyItemOwner(itemId) {
+        if (to == address(0) || to == msg.sender) revert InvalidRecipient();
+        _transfer(msg.sender, to, itemId);
+    }
+
+    /// @notice Encrypted `quality >= threshold`, only allowed to the caller, which must own the item or be
+    ///         approved for it. Lets e.g. a marketplace publish a quality claim without the exact value.
+    function qualityAtLeast(uint256 itemId, uint32 threshold) external returns (ebool) {
+        address itemOwner = _requireOwned(itemId);
+        if (!_isAuthorized(itemOwner, msg.sender, itemId)) revert NotItemOwner();
+        if (threshold == 0 || threshold > MAX_QUALITY) revert InvalidThreshold();
+        ebool claim = FHE.ge(items[itemId].quality, threshold);
+        FHE.allow(claim, msg.sender);
+        return claim;
+    }
+
+    /// @notice Publicly reveals whether the item is a masterpiece through the decryption oracle.
+    ///         Only the boolean is decrypted, the quality itself stays private.
+    function requestMasterpieceReveal(uint256 itemId) external onlyItemOwner(itemId) returns (uint256) {
+        Item storage item = items[itemId];
+        if (item.masterpieceReveal != MasterpieceReveal.Hidden) revert RevealAlreadyRequested();
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(item.masterpiece);
+        uint256 requestId = FHE.requestDecryption(cts, this.completeMasterpieceReveal.selector);
+        revealRequests[requestId] = itemId;
+        item.masterpieceReveal = MasterpieceReveal.Requested;
+
+        emit MasterpieceRevealRequested(itemId, requestId);
+        return requestId;
+    }
+
+    function completeMasterpieceReveal(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        uint256 itemId = revealRequests[requestId];
+        if (itemId == 0) revert UnknownRevealRequest();
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool isMasterpiece = abi.decode(cleartexts, (bool));
+        delete revealRequests[requestId];
+        Item storage item = items[itemId];
+        item.isMasterpiece = isMasterpiece;
+        item.masterpieceReveal = MasterpieceReveal.Revealed;
+        emit MasterpieceRevealed(itemId, requestId, isMasterpiece);
+    }
+
+    /// @notice Opts in to the leaderboard by publishing the caller's average quality through the oracle.
+    ///         The average is divided homomorphically, individual qualities stay private. Call again to refresh.
+    function publishAverageQuality() external returns (uint256) {
+        CrafterStats storage stats = crafterStats[msg.sender];
+        if (stats.craftedCount == 0) revert NothingToPublish();
+        if (stats.averagePending) revert RevealAlreadyRequested();
+
+        euint32 average = FHE.div(stats.qualitySum, stats.craftedCount);
+        FHE.allowThis(average);
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(average);
+        uint256 requestId = FHE.requestDecryption(cts, this.completeAverageQuality.selector);
+        averageRequests[requestId] = AverageRequest({ crafter: msg.sender, sampleSize: stats.craftedCount });
+        stats.averagePending = true;
+
+        emit AverageQualityRequested(msg.sender, requestId);
+        return requestId;
+    }
+
+    function completeAverageQuality(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        AverageRequest memory request = averageRequests[requestId];
+        if (request.crafter == address(0)) revert UnknownRevealRequest();
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        uint32 averageQuality = abi.decode(cleartexts, (uint32));
+        delete averageRequests[requestId];
+        crafterStats[request.crafter].averagePending = false;
+        publishedAverages[request.crafter] = PublishedAverage({
+            averageQuality: averageQuality,
+            sampleSize: request.sampleSize,
+            publishedAt: block.timestamp
+        });
+        emit AverageQualityPublished(request.crafter, requestId, averageQuality, request.sampleSize);
+    }
+
+    /// @notice Opts out of the leaderboard. Values already published stay in past events.
+    function withdrawAverageQuality() external {
+        delete publishedAverages[msg.sender];
+        emit AverageQualityWithdrawn(msg.sender);
+    }
+
+    /// @notice Encrypted quality sum (readable by the crafter) and number of items crafted.
+    function crafterStatsOf(address crafter) external view returns (euint32 qualitySum, uint32 craftedCount) {
+        CrafterStats storage stats = crafterStats[crafter];
+        return (stats.qualitySum, stats.craftedCount);
+    }
+
+    function getItem(uint256 itemId) external view returns (Item memory) {
+        if (items[itemId].owner == address(0)) revert ItemNotFound();
+        return items[itemId];
+    }
+
+    /// @notice Items `offset + 1` to `offset + limit` in creation order.
+    function getItems(uint256 offset, uint256 limit) external view returns (Item[] memory page) {
+        if (offset >= itemCount) return new Item[](0);
+        uint256 end = offset + limit > itemCount ? itemCount : offset + limit;
+        page = new Item[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = items[i + 1];
+        }
+    }
+
+    function itemsOf(address account) external view returns (uint256[] memory) {
+        return ownedItems[account];
+    }
+
+    /// @notice On-chain JSON metadata. Public fields are listed, encrypted ones are marked as redacted.
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        Item storage item = items[tokenId];
+        string memory materials;
+        for (uint256 i = 0; i < item.materials.length; i++) {
+            materials = string.concat(materials, i == 0 ? "" : ", ", item.materials[i]);
+        }
+        string memory masterpiece = item.masterpieceReveal != MasterpieceReveal.Revealed
+            ? '"redacted"'
+            : (item.isMasterpiece ? "true" : "false");
+        bytes memory json = abi.encodePacked(
+            '{"name":"',
+            Strings.escapeJSON(item.name),
+            '","description":"Crafted item, encrypted fields are redacted","attributes":[',
+            '{"trait_type":"Base Quality","value":',
+            Strings.toString(item.baseQuality),
+            '},{"trait_type":"Status","value":"',
+            _statusName(item.status),
+            '"},{"trait_type":"Materials","value":"',
+            Strings.escapeJSON(materials),
+            '"},{"trait_type":"Quality","value":"redacted"},{"trait_type":"Catalyst","value":"redacted"}',
+            ',{"trait_type":"Masterpiece","value":',
+            masterpiece,
+            '},{"display_type":"date","trait_type":"Crafted At","value":',
+            Strings.toString(item.createdAt),
+            "}]}"
+        );
+        return string.concat("data:application/json;base64,", Base64.encode(json));
+    }
+
+    function _validateItem(string calldata name, uint256 materialCount, uint32 baseQuality) internal pure {
+        if (bytes(name).length == 0 || bytes(name).length > MAX_NAME_LENGTH) revert InvalidItem();
+        if (materialCount == 0 || materialCount > MAX_MATERIALS) revert InvalidItem();
+        if (baseQuality > MAX_QUALITY) revert InvalidItem();
+    }
+
+    function _createItem(
+        string calldata name,
+        uint32 baseQuality,
+        string[] memory materials,
+        euint32 catalyst,
+        euint32 bonus
+    ) internal returns (uint256) {
+        euint32 quality = _computeQuality(baseQuality, bonus);
+        FHE.allowThis(quality);
+        FHE.allow(quality, msg.sender);
+        FHE.allowThis(catalyst);
+        FHE.allow(catalyst, msg.sender);
+        ebool masterpiece = FHE.ge(quality, masterpieceThreshold);
+        FHE.allowThis(masterpiece);
+        FHE.allow(masterpiece, msg.sender);
+        _recordQuality(msg.sender, quality);
+
+        uint256 itemId = ++itemCount;
+        Item storage item = items[itemId];
+        item.id = itemId;
+        item.owner = msg.sender;
+        item.name = name;
+        item.baseQuality = baseQuality;
+        item.quality = quality;
+        item.catalyst = catalyst;
+        item.masterpiece = masterpiece;
+        item.materials = materials;
+        item.status = ItemStatus.Crafted;
+        item.createdAt = block.timestamp;
+        _addToOwner(msg.sender, itemId);
+        _mint(msg.sender, itemId);
+
+        emit ItemCreated(
+            itemId,
+            msg.sender,
+            name,
+            baseQuality,
+            materials,
+            FHE.toBytes32(quality),
+            FHE.toBytes32(catalyst),
+            FHE.toBytes32(masterpiece),
+            block.timestamp
+        );
+        emit ItemStatusUpdated(itemId, ItemStatus.Crafted);
+        return itemId;
+    }
+
+    /// @dev min(base + bonus + luck, MAX_QUALITY), the bonus comes from the catalyst and the recipe if any
+    function _computeQuality(uint32 baseQuality, euint32 bonus) internal returns (euint32) {
+        euint32 luck = FHE.randEuint32(LUCK_RANGE);
+        return FHE.min(FHE.add(FHE.add(bonus, baseQuality), luck), MAX_QUALITY);
+    }
+
+    function _consumeMaterials(uint256 itemId, uint256[] memory materialIds, uint256[] memory amounts) internal {
+        materialInventory.consume(msg.sender, materialIds, amounts);
+        emit MaterialsConsumed(itemId, msg.sender, materialIds, amounts);
+    }
+
+    function _recordQuality(address crafter, euint32 quality) internal {
+        CrafterStats storage stats = crafterStats[crafter];
+        euint32 sum = FHE.isInitialized(stats.qualitySum) ? FHE.add(stats.qualitySum, quality) : quality;
+        FHE.allowThis(sum);
+        FHE.allow(sum, crafter);
+        stats.qualitySum = sum;
+        stats.craftedCount++;
+    }
+
+    /// @dev Keeps the item record and owner index in sync with every ERC-721 transfer, mints are indexed by
+    ///      _createItem and items are never burned.
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address from) {
+        from = super._update(to, tokenId, auth);
+        if (from == address(0)) return from;
+        Item storage item = items[tokenId];
+        _removeFromOwner(from, tokenId);
+        _addToOwner(to, tokenId);
+        item.owner = to;
+        _rotateHandles(item, to);
+        emit ItemTransferred(
+            tokenId,
+            from,
+            to,
+            FHE.toBytes32(item.quality),
+            FHE.toBytes32(item.catalyst),
+            FHE.toBytes32(item.masterpiece)
+        );
+    }
+
+    /// @dev The ACL cannot revoke a grant, so the encrypted fields are moved to fresh handles that only the
+    ///      new owner is allowed on. The previous owner keeps its old handles, i.e. the values it could already
+    ///      decrypt, but loses access to whatever the item carries from now on.
+    function _rotateHandles(Item storage item, address to) internal {
+        item.quality = FHE.add(item.quality, 0);
+        item.catalyst = FHE.add(item.catalyst, 0);
+        item.masterpiece = FHE.or(item.masterpiece, false);
+        FHE.allowThis(item.quality);
+        FHE.allow(item.quality, to);
+        FHE.allowThis(item.catalyst);
+        FHE.allow(item.catalyst, to);
+        FHE.allowThis(item.masterpiece);
+        FHE.allow(item.masterpiece, to);
+    }
+
+    function _statusName(ItemStatus status) internal pure returns (string memory) {
+        if (status == ItemStatus.Pending) return "Pending";
+        return status == ItemStatus.Crafted ? "Crafted" : "Failed";
+    }
+
+    function _addToOwner(address account, uint256 itemId) internal {
+        ownedItems[account].push(itemId);
+        ownedIndex[itemId] = ownedItems[account].length;
+    }
+
+    function _removeFromOwner(address account, uint256 itemId) internal {
+        uint256[] storage owned = ownedItems[account];
+        uint256 index = ownedIndex[itemId] - 1;
+        uint256 lastId = owned[owned.length - 1];
+        owned[index] = lastId;
+        ownedIndex[lastId] = index + 1;
+        owned.pop();
+        delete ownedIndex[itemId];
+    }
+}
@@ -0,0 +1,269 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+import { FHE, ebool, eaddress, euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ReentrancyGuard } from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import { ItemRegistryFHE } from "./Item_Registry_FHE.sol";
+
+/// @notice Sealed-bid, first-price auctions for revealed masterpieces. Bids are encrypted euint64 amounts of
+///         PRICE_UNIT (1 gwei, so up to about 18.4 billion ETH), backed by a public ETH deposit in wei that caps
+///         them. The running highest bid and its bidder are kept encrypted, only the winner and the clearing
+///         price are decrypted when the auction closes. Reserve and clearing prices are in PRICE_UNIT too.
+contract MasterpieceAuction is SepoliaConfig, ReentrancyGuard {
+    error NotSeller();
+    error NotMasterpiece();
+    error InvalidAuction();
+    error AuctionNotFound();
+    error AuctionNotOpen();
+    error AuctionNotEnded();
+    error InvalidBid();
+    error BidAlreadyPlaced();
+    error NothingToWithdraw();
+    error PaymentFailed();
+    error UnknownCloseRequest();
+    error CloseNotStalled();
+
+    enum AuctionStatus {
+        Open,
+        // Waiting for the oracle to decrypt the winner and the clearing price
+        Closing,
+        Settled,
+        Cancelled
+    }
+
+    struct Auction {
+        uint256 id;
+        uint256 itemId;
+        address seller;
+        // Public minimum in PRICE_UNIT, bids below it count as zero
+        uint64 reservePrice;
+        uint256 endTime;
+        // Set when closing: past it, anyone can cancel the auction if the oracle has not answered
+        uint256 closeDeadline;
+        AuctionStatus status;
+        uint32 bidCount;
+        euint64 highestBid;
+        eaddress highestBidder;
+        // Zero address when nobody placed a valid bid
+        address winner;
+        // In PRICE_UNIT
+        uint64 clearingPrice;
+        bool sellerPaid;
+    }
+
+    struct Bid {
+        // In wei
+        uint256 deposit;
+        // The bid as it competed: zero if above the deposit or below the reserve. Readable by the bidder
+        euint64 amount;
+        bool withdrawn;
+    }
+
+    uint256 public constant MIN_DURATION = 1 hours;
+    uint256 public constant MAX_DURATION = 30 days;
+    uint256 public constant CLOSE_TIMEOUT = 1 days;
+    uint256 public constant PRICE_UNIT = 1 gwei;
+
+    ItemRegistryFHE public immutable registry;
+
+    mapping(uint256 => Auction) private auctions;
+    mapping(uint256 => mapping(address => Bid)) private bids;
+    // Pending closes, oracle request id => auction id
+    mapping(uint256 => uint256) private closeRequests;
+    uint256 public auctionCount;
+
+    event AuctionCreated(
+        uint256 indexed auctionId,
+        uint256 indexed itemId,
+        address indexed seller,
+        uint64 reservePrice,
+        uint256 endTime
+    );
+    event BidPlaced(uint256 indexed auctionId, address indexed bidder, uint256 deposit);
+    event AuctionCancelled(uint256 indexed auctionId);
+    event AuctionClosing(uint256 indexed auctionId, uint256 indexed requestId);
+    event AuctionSettled(uint256 indexed auctionId, address indexed winner, uint64 clearingPrice);
+    event Withdrawn(uint256 indexed auctionId, address indexed account, uint256 amount);
+
+    constructor(ItemRegistryFHE registry_) {
+        registry = registry_;
+    }
+
+    /// @notice Escrows one of the caller's revealed masterpieces, the auction contract must be approved for it.
+    ///         The item is re-keyed to the auction while it runs and to the winner, or back to the seller, after.
+    function createAuction(uint256 itemId, uint64 reservePrice, uint256 duration) external returns (uint256) {
+        if (registry.ownerOf(itemId) != msg.sender) revert NotSeller();
+        ItemRegistryFHE.Item memory item = registry.getItem(itemId);
+        if (item.masterpieceReveal != ItemRegistryFHE.MasterpieceReveal.Revealed || !item.isMasterpiece) {
+            revert NotMasterpiece();
+        }
+        if (duration < MIN_DURATION || duration > MAX_DURATION) revert InvalidAuction();
+
+        uint256 auctionId = ++auctionCount;
+        Auction storage auction = auctions[auctionId];
+        auction.id = auctionId;
+        auction.itemId = itemId;
+        auction.seller = msg.sender;
+        auction.reservePrice = reservePrice;
+        auction.endTime = block.timestamp + duration;
+        registry.transferFrom(msg.sender, address(this), itemId);
+
+        emit AuctionCreated(auctionId, itemId, msg.sender, reservePrice, auction.endTime);
+        return auctionId;
+    }
+
+    /// @notice Places the caller's sealed bid, at most one per auction. `msg.value` is the deposit: a bid above
+    ///         it or below the reserve price silently counts as zero, so the deposit only reveals an upper bound.
+    ///         Wei below a whole PRICE_UNIT do not count towards the cap but are refunded with the deposit.
+    function bid(uint256 auctionId, externalEuint64 encryptedBid, bytes calldata inputProof) external payable {
+        Auction storage auction = _auction(auctionId);
+        if (auction.status != AuctionStatus.Open || block.timestamp >= auction.endTime) revert AuctionNotOpen();
+        if (msg.sender == auction.seller) revert InvalidBid();
+        uint256 cap = msg.value / PRICE_UNIT;
+        if (cap == 0 || cap > type(uint64).max || cap < auction.reservePrice) revert InvalidBid();
+        Bid storage placed = bids[auctionId][msg.sender];
+        if (placed.deposit != 0) revert BidAlreadyPlaced();
+
+        euint64 amount = FHE.fromExternal(encryptedBid, inputProof);
+        ebool valid = FHE.and(FHE.ge(amount, auction.reservePrice), FHE.le(amount, uint64(cap)));
+        amount = FHE.select(valid, amount, FHE.asEuint64(0));
+        eaddress bidder = FHE.asEaddress(msg.sender);
+        if (auction.bidCount == 0) {
+            auction.highestBid = amount;
+            auction.highestBidder = bidder;
+        } else {
+            // Strictly greater, ties go to the earlier bid
+            ebool higher = FHE.gt(amount, auction.highestBid);
+            auction.highestBid = FHE.select(higher, amount, auction.highestBid);
+            auction.highestBidder = FHE.select(higher, bidder, auction.highestBidder);
+        }
+        FHE.allowThis(auction.highestBid);
+        FHE.allowThis(auction.highestBidder);
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        auction.bidCount++;
+        placed.deposit = msg.value;
+        placed.amount = amount;
+
+        emit BidPlaced(auctionId, msg.sender, msg.value);
+    }
+
+    /// @notice Seller only, before any bid was placed. Returns the item.
+    function cancel(uint256 auctionId) external {
+        Auction storage auction = _auction(auctionId);
+        if (auction.seller != msg.sender) revert NotSeller();
+        if (auction.status != AuctionStatus.Open || auction.bidCount != 0) revert AuctionNotOpen();
+        auction.status = AuctionStatus.Cancelled;
+        registry.transferFrom(address(this), auction.seller, auction.itemId);
+        emit AuctionCancelled(auctionId);
+    }
+
+    /// @notice Anyone can close an ended auction. Without bids it settles at once, otherwise the oracle is asked
+    ///         to decrypt the highest bid and its bidder, and nothing else.
+    function close(uint256 auctionId) external returns (uint256) {
+        Auction storage auction = _auction(auctionId);
+        if (auction.status != AuctionStatus.Open) revert AuctionNotOpen();
+        if (block.timestamp < auction.endTime) revert AuctionNotEnded();
+        if (auction.bidCount == 0) {
+            _settle(auction, address(0), 0);
+            return 0;
+        }
+
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(auction.highestBid);
+        cts[1] = FHE.toBytes32(auction.highestBidder);
+        uint256 requestId = FHE.requestDecryption(cts, this.completeClose.selector);
+        closeRequests[requestId] = auctionId;
+        auction.status = AuctionStatus.Closing;
+        auction.closeDeadline = block.timestamp + CLOSE_TIMEOUT;
+        emit AuctionClosing(auctionId, requestId);
+        return requestId;
+    }
+
+    function completeClose(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        uint256 auctionId = closeRequests[requestId];
+        // The auction may have been cancelled as stalled in the meantime
+        if (auctionId == 0 || auctions[auctionId].status != AuctionStatus.Closing) revert UnknownCloseRequest();
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        (uint64 clearingPrice, address winner) = abi.decode(cleartexts, (uint64, address));
+        delete closeRequests[requestId];
+        // Every bid was invalid, i.e. counted as zero
+        if (clearingPrice == 0) winner = address(0);
+        _settle(auctions[auctionId], winner, clearingPrice);
+    }
+
+    /// @notice Anyone can cancel an auction whose close the oracle did not complete within CLOSE_TIMEOUT. The item
+    ///         goes back to the seller and every bidder can withdraw their full deposit. A late callback reverts.
+    function cancelStalledClose(uint256 auctionId) external {
+        Auction storage auction = _auction(auctionId);
+        if (auction.status != AuctionStatus.Closing || block.timestamp < auction.closeDeadline) {
+            revert CloseNotStalled();
+        }
+        auction.status = AuctionStatus.Cancelled;
+        registry.transferFrom(address(this), auction.seller, auction.itemId);
+        emit AuctionCancelled(auctionId);
+    }
+
+    /// @notice Pays out what the caller is owed once the auction settled: the deposit for losing bidders, the
+    ///         deposit minus the clearing price for the winner and the clearing price for the seller. Bidders of
+    ///         a cancelled auction get their full deposit back.
+    function withdraw(uint256 auctionId) external nonReentrant {
+        uint256 amount = withdrawableOf(auctionId, msg.sender);
+        if (amount == 0) revert NothingToWithdraw();
+        Auction storage auction = auctions[auctionId];
+        if (msg.sender == auction.seller) {
+            auction.sellerPaid = true;
+        } else {
+            bids[auctionId][msg.sender].withdrawn = true;
+        }
+        (bool paid, ) = msg.sender.call{ value: amount }("");
+        if (!paid) revert PaymentFailed();
+        emit Withdrawn(auctionId, msg.sender, amount);
+    }
+
+    function withdrawableOf(uint256 auctionId, address account) public view returns (uint256) {
+        Auction storage auction = _auction(auctionId);
+        if (auction.status != AuctionStatus.Settled && auction.status != AuctionStatus.Cancelled) return 0;
+        if (account == auction.seller) {
+            return auction.sellerPaid ? 0 : uint256(auction.clearingPrice) * PRICE_UNIT;
+        }
+        Bid storage placed = bids[auctionId][account];
+        if (placed.withdrawn) return 0;
+        return
+            account == auction.winner
+                ? placed.deposit - uint256(auction.clearingPrice) * PRICE_UNIT
+                : placed.deposit;
+    }
+
+    function getAuction(uint256 auctionId) external view returns (Auction memory) {
+        return _auction(auctionId);
+    }
+
+    /// @notice Auctions `offset + 1` to `offset + limit` in creation order.
+    function getAuctions(uint256 offset, uint256 limit) external view returns (Auction[] memory page) {
+        if (offset >= auctionCount) return new Auction[](0);
+        uint256 end = offset + limit > auctionCount ? auctionCount : offset + limit;
+        page = new Auction[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = auctions[i + 1];
+        }
+    }
+
+    function bidOf(uint256 auctionId, address bidder) external view returns (Bid memory) {
+        return bids[auctionId][bidder];
+    }
+
+    function _settle(Auction storage auction, address winner, uint64 clearingPrice) internal {
+        auction.status = AuctionStatus.Settled;
+        auction.winner = winner;
+        auction.clearingPrice = clearingPrice;
+        registry.transferFrom(address(this), winner == address(0) ? auction.seller : winner, auction.itemId);
+        emit AuctionSettled(auction.id, winner, clearingPrice);
+    }
+
+    function _auction(uint256 auctionId) internal view returns (Auction storage auction) {
+        if (auctionId == 0 || auctionId > auctionCount) revert AuctionNotFound();
+        return auctions[auctionId];
+    }
+}
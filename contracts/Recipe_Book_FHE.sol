@@ -0,0 +1,158 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @notice Secret crafting recipes. Material names are public, the weights and the catalyst multiplier are
+///         encrypted. A recipe's material weights are additive: crafting adds their sum to the quality, capped at
+///         MAX_MATERIAL_BONUS, so a weight only counts until the cap is reached. Use rights are kept by the contract
+///         and only the recipe owner grants them, sharing also allows the grantee to decrypt the recipe's handles.
+///         ACL grants cannot be revoked, so neither are use rights. Handles a grantee re-allows through the ACL can
+///         be decrypted but not crafted with.
+contract RecipeBookFHE is SepoliaConfig {
+    error NotOwner();
+    error NotConsumer();
+    error RecipeNotFound();
+    error NotRecipeOwner();
+    error InvalidRecipe();
+    error RecipeNotAllowed();
+    error InvalidRecipient();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier onlyRecipeOwner(uint256 recipeId) {
+        if (recipes[recipeId].owner == address(0)) revert RecipeNotFound();
+        if (recipes[recipeId].owner != msg.sender) revert NotRecipeOwner();
+        _;
+    }
+
+    struct Recipe {
+        uint256 id;
+        address owner;
+        string name;
+        string[] materials;
+        // Quality points each material adds, capped at MAX_MATERIAL_WEIGHT
+        euint32[] materialWeights;
+        // Percentage applied to the catalyst bonus, 100 keeps it unchanged
+        euint32 catalystMultiplier;
+        // min(sum of the weights, MAX_MATERIAL_BONUS), the bonus crafting adds to the quality
+        euint32 cappedMaterialBonus;
+        uint256 createdAt;
+    }
+
+    uint256 public constant MAX_NAME_LENGTH = 64;
+    uint256 public constant MAX_MATERIALS = 16;
+    uint32 public constant MAX_MATERIAL_WEIGHT = 10;
+    uint32 public constant MAX_MATERIAL_BONUS = 20;
+    uint32 public constant MAX_CATALYST_MULTIPLIER = 300;
+
+    address public owner;
+    // Contracts allowed to compute on recipes, i.e. ItemRegistryFHE
+    mapping(address => bool) public consumers;
+    mapping(uint256 => Recipe) private recipes;
+    mapping(address => uint256[]) private ownedRecipes;
+    // Recipe id => addresses the owner shared it with, written by shareRecipe only
+    mapping(uint256 => mapping(address => bool)) private grants;
+    uint256 public recipeCount;
+
+    event ConsumerUpdated(address indexed consumer, bool allowed);
+    event RecipeCreated(uint256 indexed recipeId, address indexed owner, string name, string[] materials);
+    event RecipeShared(uint256 indexed recipeId, address indexed grantee);
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    function setConsumer(address consumer, bool allowed) external onlyOwner {
+        consumers[consumer] = allowed;
+        emit ConsumerUpdated(consumer, allowed);
+    }
+
+    /// @param encryptedWeights One weight per material, encrypted with the multiplier under `inputProof`
+    function createRecipe(
+        string calldata name,
+        string[] calldata materials,
+        externalEuint32[] calldata encryptedWeights,
+        externalEuint32 encryptedMultiplier,
+        bytes calldata inputProof
+    ) external returns (uint256) {
+        if (bytes(name).length == 0 || bytes(name).length > MAX_NAME_LENGTH) revert InvalidRecipe();
+        if (materials.length == 0 || materials.length > MAX_MATERIALS) revert InvalidRecipe();
+        if (encryptedWeights.length != materials.length) revert InvalidRecipe();
+
+        uint256 recipeId = ++recipeCount;
+        Recipe storage recipe = recipes[recipeId];
+        euint32 bonus = FHE.asEuint32(0);
+        for (uint256 i = 0; i < encryptedWeights.length; i++) {
+            euint32 weight = FHE.min(FHE.fromExternal(encryptedWeights[i], inputProof), MAX_MATERIAL_WEIGHT);
+            _allowOwner(weight, msg.sender);
+            recipe.materialWeights.push(weight);
+            bonus = FHE.add(bonus, weight);
+        }
+        bonus = FHE.min(bonus, MAX_MATERIAL_BONUS);
+        _allowOwner(bonus, msg.sender);
+        euint32 multiplier = FHE.min(FHE.fromExternal(encryptedMultiplier, inputProof), MAX_CATALYST_MULTIPLIER);
+        _allowOwner(multiplier, msg.sender);
+
+        recipe.id = recipeId;
+        recipe.owner = msg.sender;
+        recipe.name = name;
+        recipe.materials = materials;
+        recipe.catalystMultiplier = multiplier;
+        recipe.cappedMaterialBonus = bonus;
+        recipe.createdAt = block.timestamp;
+        ownedRecipes[msg.sender].push(recipeId);
+
+        emit RecipeCreated(recipeId, msg.sender, name, materials);
+        return recipeId;
+    }
+
+    /// @notice Lets `grantee` craft with the recipe and decrypt its parameters.
+    function shareRecipe(uint256 recipeId, address grantee) external onlyRecipeOwner(recipeId) {
+        if (grantee == address(0) || grantee == msg.sender) revert InvalidRecipient();
+        grants[recipeId][grantee] = true;
+        Recipe storage recipe = recipes[recipeId];
+        for (uint256 i = 0; i < recipe.materialWeights.length; i++) {
+            FHE.allow(recipe.materialWeights[i], grantee);
+        }
+        FHE.allow(recipe.cappedMaterialBonus, grantee);
+        FHE.allow(recipe.catalystMultiplier, grantee);
+        emit RecipeShared(recipeId, grantee);
+    }
+
+    function canUse(uint256 recipeId, address account) public view returns (bool) {
+        Recipe storage recipe = recipes[recipeId];
+        if (recipe.owner == address(0)) revert RecipeNotFound();
+        return account == recipe.owner || grants[recipeId][account];
+    }
+
+    /// @notice Hands the crafting parameters to a consumer contract for the current transaction only.
+    function useRecipe(
+        uint256 recipeId,
+        address crafter
+    ) external returns (string[] memory materials, euint32 cappedMaterialBonus, euint32 catalystMultiplier) {
+        if (!consumers[msg.sender]) revert NotConsumer();
+        if (!canUse(recipeId, crafter)) revert RecipeNotAllowed();
+        Recipe storage recipe = recipes[recipeId];
+        FHE.allowTransient(recipe.cappedMaterialBonus, msg.sender);
+        FHE.allowTransient(recipe.catalystMultiplier, msg.sender);
+        return (recipe.materials, recipe.cappedMaterialBonus, recipe.catalystMultiplier);
+    }
+
+    function getRecipe(uint256 recipeId) external view returns (Recipe memory) {
+        if (recipes[recipeId].owner == address(0)) revert RecipeNotFound();
+        return recipes[recipeId];
+    }
+
+    function recipesOf(address account) external view returns (uint256[] memory) {
+        return ownedRecipes[account];
+    }
+
+    function _allowOwner(euint32 value, address account) internal {
+        FHE.allowThis(value);
+        FHE.allow(value, account);
+    }
+}
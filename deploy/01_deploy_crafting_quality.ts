@@ -0,0 +1,18 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  // hardhat-deploy compares the bytecode with the recorded deployment and
+  // reuses it when nothing changed, so re-running this script is a no-op.
+  await deploy("CraftingQualityFHE", {
+    from: deployer,
+    log: true,
+  });
+};
+
+export default func;
+func.id = "deploy_craftingQualityFHE";
+func.tags = ["CraftingQualityFHE"];
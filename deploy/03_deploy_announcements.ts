@@ -0,0 +1,16 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  await deploy("CraftingAnnouncements", {
+    from: deployer,
+    log: true,
+  });
+};
+
+export default func;
+func.id = "deploy_craftingAnnouncements";
+func.tags = ["CraftingAnnouncements"];
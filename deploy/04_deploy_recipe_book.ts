@@ -0,0 +1,37 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, get, read } = hre.deployments;
+
+  const recipeBook = await deploy("RecipeBookFHE", {
+    from: deployer,
+    log: true,
+  });
+
+  // The registry crafts with recipes, wire both sides unless already done
+  const registry = await get("ItemRegistryFHE");
+  if (!(await read("RecipeBookFHE", "consumers", registry.address))) {
+    await execute(
+      "RecipeBookFHE",
+      { from: deployer, log: true },
+      "setConsumer",
+      registry.address,
+      true,
+    );
+  }
+  if ((await read("ItemRegistryFHE", "recipeBook")) !== recipeBook.address) {
+    await execute(
+      "ItemRegistryFHE",
+      { from: deployer, log: true },
+      "setRecipeBook",
+      recipeBook.address,
+    );
+  }
+};
+
+export default func;
+func.id = "deploy_recipeBookFHE";
+func.tags = ["RecipeBookFHE"];
+func.dependencies = ["ItemRegistryFHE"];
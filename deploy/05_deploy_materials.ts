@@ -0,0 +1,60 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Seeded into an empty catalog, more can be added with addMaterial
+const STARTER_MATERIALS: [name: string, tier: number][] = [
+  ["Iron Ore", 1],
+  ["Leather", 1],
+  ["Coal", 1],
+  ["Silver", 2],
+  ["Moonstone", 3],
+  ["Mithril", 4],
+  ["Dragon Scale", 5],
+];
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, get, read } = hre.deployments;
+  const options = { from: deployer, log: true };
+
+  const inventory = await deploy("CraftingMaterials", options);
+
+  // hardhat-deploy reads return ethers v5 BigNumbers
+  if (String(await read("CraftingMaterials", "materialCount")) === "0") {
+    for (const [name, tier] of STARTER_MATERIALS) {
+      await execute("CraftingMaterials", options, "addMaterial", name, tier);
+    }
+  }
+  // Anyone can mint materials through the faucet, never enable it on live networks
+  const faucet = !hre.network.live;
+  if ((await read("CraftingMaterials", "faucetEnabled")) !== faucet) {
+    await execute("CraftingMaterials", options, "setFaucetEnabled", faucet);
+  }
+
+  // The registry burns materials when crafting, wire both sides unless already done
+  const registry = await get("ItemRegistryFHE");
+  if (!(await read("CraftingMaterials", "consumers", registry.address))) {
+    await execute(
+      "CraftingMaterials",
+      options,
+      "setConsumer",
+      registry.address,
+      true,
+    );
+  }
+  if (
+    (await read("ItemRegistryFHE", "materialInventory")) !== inventory.address
+  ) {
+    await execute(
+      "ItemRegistryFHE",
+      options,
+      "setMaterialInventory",
+      inventory.address,
+    );
+  }
+};
+
+export default func;
+func.id = "deploy_craftingMaterials";
+func.tags = ["CraftingMaterials"];
+func.dependencies = ["ItemRegistryFHE"];
@@ -0,0 +1,20 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, read } = hre.deployments;
+  const options = { from: deployer, log: true };
+
+  await deploy("CraftingGold", options);
+
+  // Anyone can mint gold through the faucet, never enable it on live networks
+  const faucet = !hre.network.live;
+  if ((await read("CraftingGold", "faucetEnabled")) !== faucet) {
+    await execute("CraftingGold", options, "setFaucetEnabled", faucet);
+  }
+};
+
+export default func;
+func.id = "deploy_craftingGold";
+func.tags = ["CraftingGold"];
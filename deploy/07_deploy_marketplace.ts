@@ -0,0 +1,21 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, get, read } = hre.deployments;
+  const options = { from: deployer, log: true };
+
+  const registry = await get("ItemRegistryFHE");
+  await deploy("ItemMarketplace", { ...options, args: [registry.address] });
+
+  const gold = await get("CraftingGold");
+  if ((await read("ItemMarketplace", "gameToken")) !== gold.address) {
+    await execute("ItemMarketplace", options, "setGameToken", gold.address);
+  }
+};
+
+export default func;
+func.id = "deploy_itemMarketplace";
+func.tags = ["ItemMarketplace"];
+func.dependencies = ["ItemRegistryFHE", "CraftingGold"];
@@ -0,0 +1,19 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get } = hre.deployments;
+
+  const registry = await get("ItemRegistryFHE");
+  await deploy("MasterpieceAuction", {
+    from: deployer,
+    args: [registry.address],
+    log: true,
+  });
+};
+
+export default func;
+func.id = "deploy_masterpieceAuction";
+func.tags = ["MasterpieceAuction"];
+func.dependencies = ["ItemRegistryFHE"];
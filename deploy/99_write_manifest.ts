@@ -0,0 +1,66 @@
+import fs from "fs";
+import path from "path";
+import { keccak256, toUtf8Bytes } from "ethers";
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+interface ManifestEntry {
+  address: string;
+  transactionHash: string | null;
+  blockNumber: number | null;
+  abiHash: string;
+}
+
+interface Manifest {
+  network: string;
+  chainId: number;
+  contracts: Record<string, ManifestEntry>;
+}
+
+/**
+ * Summarises every deployment known to hardhat-deploy for the current
+ * network into deployments/manifest.<network>.json. The file only depends
+ * on what is deployed, so re-running without changes rewrites it verbatim.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  // The hardhat network only persists deployments when served by
+  // `npx hardhat node`, which hardhat-deploy records under "localhost".
+  const networkName =
+    hre.network.name === "hardhat" ? "localhost" : hre.network.name;
+  const deployments = await hre.deployments.all();
+  const { chainId } = await hre.ethers.provider.getNetwork();
+
+  const contracts: Record<string, ManifestEntry> = {};
+  for (const name of Object.keys(deployments).sort()) {
+    const deployment = deployments[name];
+    contracts[name] = {
+      address: deployment.address,
+      transactionHash: deployment.transactionHash ?? null,
+      blockNumber: deployment.receipt?.blockNumber ?? null,
+      abiHash: keccak256(toUtf8Bytes(JSON.stringify(deployment.abi))),
+    };
+  }
+
+  const manifest: Manifest = {
+    network: networkName,
+    chainId: Number(chainId),
+    contracts,
+  };
+  const manifestPath = path.join(
+    hre.config.paths.deployments,
+    `manifest.${networkName}.json`,
+  );
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+  console.log(
+    `Wrote ${path.relative(hre.config.paths.root, manifestPath)} (${Object.keys(contracts).length} contracts)`,
+  );
+};
+
+export default func;
+func.tags = ["manifest"];
+func.runAtTheEnd = true;
+// The in-process hardhat network forgets its deployments on exit, there is
+// nothing worth recording for it.
+func.skip = async (hre: HardhatRuntimeEnvironment) =>
+  !hre.network.saveDeployments;
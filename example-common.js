@@ -1,3 +0,0 @@
-import axios from 'axios';
-
-export const service = () => { return null; };
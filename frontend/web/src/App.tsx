@@ -1,11 +1,26 @@
 // App.tsx
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { Link, useMatch } from "react-router-dom";
+import { craftingQualityAddress, getAnnouncementsReadOnly, getAnnouncementsWithSigner, getAuctionReadOnly, getAuctionWithSigner, getCraftingReadOnly, getItemRegistryReadOnly, getItemRegistryWithSigner, getMarketplaceReadOnly, getMarketplaceWithSigner, getMaterialsReadOnly, getMaterialsWithSigner, getRecipeBookReadOnly, getRecipeBookWithSigner, getSigner, itemRegistryAddress, network } from "./contract";
+import { userDecryptUint32 } from "./fhe";
+import { getItemIndexer } from "./indexer";
+import type { ItemIndexer } from "../../../src/ItemIndexer";
+import { Announcement, AnnouncementPriority, isAnnouncementActive } from "../../../src/AnnouncementsClient";
+import { buildLeaderboard, LeaderboardSource, recentSeasons } from "../../../src/leaderboard";
+import { HistoryEntry, HistoryStatus, playerHistory } from "../../../src/history";
+import type { Recipe } from "../../../src/RecipeBookClient";
+import type { ItemMetadata } from "../../../src/ItemRegistryClient";
+import type { Auction } from "../../../src/AuctionClient";
+import { Currency, isBuyable, Listing, Sale } from "../../../src/MarketplaceClient";
+import type { MaterialBalance } from "../../../src/MaterialsClient";
+import AdminConsole from "./components/AdminConsole";
+import BatchAnalytics from "./components/BatchAnalytics";
+import DecryptionRequests from "./components/DecryptionRequests";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount } from 'wagmi';
 
 // Interface for crafting items
 interface CraftingItem {
@@ -18,64 +33,60 @@ interface CraftingItem {
   status: "pending" | "crafted" | "failed";
   catalyst?: string;
   materials: string[];
+  masterpieceReveal: "hidden" | "requested" | "revealed";
+  // Publicly decrypted by the oracle, null until revealed
+  isMasterpiece: boolean | null;
 }
 
-// Interface for crafting history
-interface CraftingHistory {
-  id: string;
-  itemName: string;
-  result: string;
-  timestamp: number;
-  quality: number;
-}
+// Catalyst strings map to an effect in [0, 100). The effect is encrypted
+// client side, the contract turns it into a quality bonus homomorphically.
+const catalystEffect = (catalyst: string): number =>
+  catalyst.length > 0 ? Number(BigInt(ethers.keccak256(ethers.toUtf8Bytes(catalyst))) % 100n) : 0;
 
-// Interface for leaderboard entry
-interface LeaderboardEntry {
-  address: string;
-  craftedCount: number;
-  masterpieces: number;
-  avgQuality: number;
-}
+// Caps applied by RecipeBookFHE, values above are clamped on-chain
+const MAX_MATERIAL_WEIGHT = 10;
+const MAX_MATERIAL_BONUS = 20;
+const MAX_CATALYST_MULTIPLIER = 300;
 
-// System announcement interface
-interface Announcement {
-  id: string;
-  title: string;
-  content: string;
-  timestamp: number;
-  priority: "low" | "medium" | "high";
-}
+const ANNOUNCEMENTS_PAGE_SIZE = 5;
+const HISTORY_PAGE_SIZE = 10;
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
+const HISTORY_STATUS_LABELS: Record<HistoryStatus, string> = {
+  pending: "Pending",
+  crafted: "Success",
+  failed: "Failed",
+  submitted: "Submitted",
+  closed: "Batch Closed"
 };
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
-};
+// Both ETH and the game token use 18 decimals
+const formatPrice = (price: bigint, currency: Currency) =>
+  `${ethers.formatEther(price)} ${currency === "eth" ? "ETH" : "GOLD"}`;
 
-// FHE-based quality calculation with random factors
-const calculateQuality = (baseQuality: number, catalyst: string): number => {
-  // Simulate FHE computation with catalyst effect
-  const catalystEffect = catalyst.length > 0 ? 
-    (parseInt(ethers.keccak256(ethers.toUtf8Bytes(catalyst))) % 100) / 100 : 0;
-  
-  // Base quality + random factor + catalyst effect
-  const randomFactor = Math.random() * 20;
-  let finalQuality = baseQuality + randomFactor + (catalystEffect * 10);
-  
-  // Cap at 100
-  return Math.min(100, Math.max(0, finalQuality));
+const CLAIM_LABELS: Record<Listing["claimStatus"], string> = {
+  none: "",
+  pending: "checking...",
+  verified: "verified",
+  refuted: "refuted"
 };
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+const AUCTION_DURATIONS = [
+  { label: "1 hour", hours: 1 },
+  { label: "1 day", hours: 24 },
+  { label: "3 days", hours: 72 },
+  { label: "7 days", hours: 168 },
+];
+
+const SEASONS = recentSeasons(4);
+const LEADERBOARD_WINDOWS = [
+  { label: "Any time", days: 0 },
+  { label: "Last 24h", days: 1 },
+  { label: "Last 7 days", days: 7 },
+  { label: "Last 30 days", days: 30 },
+];
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
   const [items, setItems] = useState<CraftingItem[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -86,200 +97,483 @@ const App: React.FC = () => {
     name: "", 
     baseQuality: 50, 
     catalyst: "",
-    materials: [""]
+    // Material id => units burned by the craft
+    materials: {} as Record<string, number>,
+    // Crafting with a recipe burns one unit of each of the recipe's materials instead
+    recipeId: ""
+  });
+  // The connected account's balance of every catalog material
+  const [inventory, setInventory] = useState<MaterialBalance[]>([]);
+  const [faucetEnabled, setFaucetEnabled] = useState(false);
+  const [isClaiming, setIsClaiming] = useState(false);
+  // Owned recipes first, then the ones shared with the connected account
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [showRecipeForm, setShowRecipeForm] = useState(false);
+  const [isSavingRecipe, setIsSavingRecipe] = useState(false);
+  const [newRecipe, setNewRecipe] = useState({
+    name: "",
+    materials: [{ name: "", weight: 5 }],
+    multiplier: 100
   });
-  const [craftingHistory, setCraftingHistory] = useState<CraftingHistory[]>([]);
-  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [sharingRecipe, setSharingRecipe] = useState<string | null>(null);
+  const [shareGrantee, setShareGrantee] = useState("");
+  // History entries shown so far, grows as the list is scrolled
+  const [historyLimit, setHistoryLimit] = useState(HISTORY_PAGE_SIZE);
+  const [decryptedHistory, setDecryptedHistory] = useState<Record<string, number>>({});
+  const [decryptingEntry, setDecryptingEntry] = useState<string | null>(null);
+  const historyEndRef = useRef<HTMLDivElement | null>(null);
+  const [indexedSource, setIndexedSource] = useState<LeaderboardSource | null>(null);
+  const [leaderboardFilter, setLeaderboardFilter] = useState({ season: "", batchId: "", windowDays: 0 });
+  const [isPublishing, setIsPublishing] = useState(false);
   const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  // Id the next announcements page starts below, null once everything is loaded
+  const [announcementsCursor, setAnnouncementsCursor] = useState<bigint | null>(null);
+  const [canPublish, setCanPublish] = useState(false);
+  const [showAnnouncementForm, setShowAnnouncementForm] = useState(false);
+  const [isPostingAnnouncement, setIsPostingAnnouncement] = useState(false);
+  const [newAnnouncement, setNewAnnouncement] = useState({
+    title: "",
+    content: "",
+    priority: "medium" as AnnouncementPriority,
+    batchId: "",
+    expiresInDays: 0
+  });
   const [selectedItem, setSelectedItem] = useState<CraftingItem | null>(null);
   const [decryptedQuality, setDecryptedQuality] = useState<number | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [tokenOwner, setTokenOwner] = useState<string | null>(null);
+  const [tokenMetadata, setTokenMetadata] = useState<ItemMetadata | null>(null);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [showMyTokens, setShowMyTokens] = useState(false);
+  const [listings, setListings] = useState<Listing[]>([]);
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [marketTab, setMarketTab] = useState<"listings" | "history">("listings");
+  const [tradingListing, setTradingListing] = useState<string | null>(null);
+  const [auctions, setAuctions] = useState<Auction[]>([]);
+  // Per auction, what the connected account can withdraw and whether it already bid
+  const [auctionPositions, setAuctionPositions] = useState<Record<string, { withdrawable: bigint; hasBid: boolean }>>({});
+  const [bidForm, setBidForm] = useState({ auctionId: "", amount: "", deposit: "" });
+  const [busyAuction, setBusyAuction] = useState<string | null>(null);
+  const [craftingOwner, setCraftingOwner] = useState<string | null>(null);
+  const adminRoute = useMatch("/admin");
   
   // Stats for dashboard
+  const visibleItems = showMyTokens ? items.filter(i => i.owner.toLowerCase() === address?.toLowerCase()) : items;
+  // Listings stay active on-chain when the seller moves the item, those cannot be bought
+  const itemNames = new Map(items.map(i => [i.id, i.name]));
+  const openListings = listings.filter(l =>
+    l.status === "active" && items.find(i => i.id === l.itemId.toString())?.owner.toLowerCase() === l.seller.toLowerCase());
   const craftedCount = items.filter(i => i.status === "crafted").length;
   const failedCount = items.filter(i => i.status === "failed").length;
-  const masterpieces = items.filter(i => {
-    if (i.status !== "crafted") return false;
-    const quality = FHEDecryptNumber(i.encryptedQuality);
-    return quality >= 90;
-  }).length;
+  // Only publicly revealed flags count, qualities themselves stay encrypted
+  const masterpieces = items.filter(i => i.isMasterpiece === true).length;
+
+  // Counts follow the filters, averages are only known for crafters who published theirs
+  const leaderboard = indexedSource ? buildLeaderboard(indexedSource, {
+    season: SEASONS.find(season => season.id === leaderboardFilter.season),
+    batchId: leaderboardFilter.batchId || undefined,
+    from: leaderboardFilter.windowDays > 0 ? Math.floor(Date.now() / 1000) - leaderboardFilter.windowDays * 86400 : undefined
+  }).slice(0, 10) : [];
+
+  // Rebuilt from indexed events, so it survives reloads and follows new blocks
+  const history = indexedSource && address ? playerHistory(indexedSource, address) : [];
+  const hasMoreHistory = history.length > historyLimit;
 
   useEffect(() => {
     loadItems().finally(() => setLoading(false));
-    loadCraftingHistory();
-    loadLeaderboard();
     loadAnnouncements();
-    
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
+    loadMarket();
+    // New blocks are synced into the indexer cache, items follow its state
+    let unsubscribe: (() => void) | null = null;
+    let unsubscribeAnnouncements: (() => void) | null = null;
+    let cancelled = false;
+    getItemIndexer()
+      .then(indexer => { if (!cancelled) unsubscribe = indexer.subscribe(showIndexedItems); })
+      .catch(e => console.error("Item indexer unavailable:", e));
+    getAnnouncementsReadOnly()
+      .then(client => { if (!cancelled) unsubscribeAnnouncements = client.subscribe(showAnnouncement); })
+      .catch(e => console.error("Announcements unavailable:", e));
+    return () => { cancelled = true; unsubscribe?.(); unsubscribeAnnouncements?.(); };
+  }, []);
+
+  useEffect(() => {
+    setHistoryLimit(HISTORY_PAGE_SIZE);
+    setDecryptedHistory({});
+  }, [address]);
+
+  // Infinite scroll: show the next page once the end of the list is visible
+  useEffect(() => {
+    const sentinel = historyEndRef.current;
+    if (!sentinel || !hasMoreHistory) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) setHistoryLimit(limit => limit + HISTORY_PAGE_SIZE);
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreHistory, historyLimit]);
+
+  useEffect(() => {
+    setRecipes([]);
+    setInventory([]);
+    if (address) { loadRecipes(address); loadInventory(address); }
+    loadAuctions();
+  }, [address]);
+
+  useEffect(() => {
+    getMaterialsReadOnly()
+      .then(client => client.faucetEnabled())
+      .then(setFaucetEnabled)
+      .catch(e => console.error("Materials unavailable:", e));
   }, []);
 
+  // The admin link is only a shortcut, the console checks ownership itself
+  useEffect(() => {
+    getCraftingReadOnly()
+      .then(client => client.owner())
+      .then(setCraftingOwner)
+      .catch(e => console.error("Owner lookup failed:", e));
+  }, [address]);
+
+  useEffect(() => {
+    setCanPublish(false);
+    if (!address) return;
+    getAnnouncementsReadOnly()
+      .then(client => client.isPublisher(address))
+      .then(setCanPublish)
+      .catch(e => console.error("Publisher check failed:", e));
+  }, [address]);
+
+  // Ownership is read from the token itself, the indexed owner may lag a transfer
+  const selectedItemId = selectedItem?.id;
+  useEffect(() => {
+    setTokenOwner(null);
+    setTokenMetadata(null);
+    if (!selectedItemId) return;
+    getItemRegistryReadOnly()
+      .then(registry => Promise.all([registry.ownerOf(selectedItemId), registry.tokenMetadata(selectedItemId)]))
+      .then(([owner, metadata]) => { setTokenOwner(owner); setTokenMetadata(metadata); })
+      .catch(e => console.error("Token lookup failed:", e));
+  }, [selectedItemId]);
+
+  const showIndexedItems = (indexer: ItemIndexer) => {
+    setItems(indexer.items.map(item => ({
+      id: item.id,
+      name: item.name,
+      baseQuality: item.baseQuality,
+      encryptedQuality: item.encryptedQuality,
+      timestamp: item.createdAt,
+      owner: item.owner,
+      status: item.status,
+      catalyst: item.encryptedCatalyst,
+      materials: item.materials,
+      masterpieceReveal: item.masterpieceReveal,
+      isMasterpiece: item.isMasterpiece
+    })));
+    setIndexedSource({ items: indexer.items, batches: indexer.batches, averages: indexer.averages });
+  };
+
   const loadItems = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
-      
-      const keysBytes = await contract.getData("item_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing item keys:", e); }
-      }
-      
-      const list: CraftingItem[] = [];
-      for (const key of keys) {
-        try {
-          const itemBytes = await contract.getData(`item_${key}`);
-          if (itemBytes.length > 0) {
-            try {
-              const itemData = JSON.parse(ethers.toUtf8String(itemBytes));
-              list.push({ 
-                id: key, 
-                name: itemData.name, 
-                baseQuality: itemData.baseQuality,
-                encryptedQuality: itemData.encryptedQuality, 
-                timestamp: itemData.timestamp, 
-                owner: itemData.owner, 
-                status: itemData.status || "pending",
-                catalyst: itemData.catalyst,
-                materials: itemData.materials || []
-              });
-            } catch (e) { console.error(`Error parsing item data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading item ${key}:`, e); }
-      }
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setItems(list);
+      const indexer = await getItemIndexer();
+      await indexer.sync();
+      showIndexedItems(indexer);
     } catch (e) { console.error("Error loading items:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
 
-  const loadCraftingHistory = () => {
-    // Simulate loading crafting history
-    const mockHistory: CraftingHistory[] = [
-      { id: "1", itemName: "Dragon Sword", result: "Success", timestamp: Date.now() - 86400000, quality: 87 },
-      { id: "2", itemName: "Phoenix Shield", result: "Success", timestamp: Date.now() - 172800000, quality: 92 },
-      { id: "3", itemName: "Titanium Armor", result: "Failed", timestamp: Date.now() - 259200000, quality: 45 },
-    ];
-    setCraftingHistory(mockHistory);
+  const loadRecipes = async (account: string) => {
+    try {
+      const client = await getRecipeBookReadOnly();
+      const [owned, shared] = await Promise.all([client.recipesOf(account), client.sharedWith(account)]);
+      setRecipes([...owned, ...shared]);
+    } catch (e) { console.error("Error loading recipes:", e); }
   };
 
-  const loadLeaderboard = () => {
-    // Simulate loading leaderboard
-    const mockLeaderboard: LeaderboardEntry[] = [
-      { address: "0x742d35Cc6634C893292...", craftedCount: 42, masterpieces: 5, avgQuality: 78.5 },
-      { address: "0x5aAeb6053F3E94C9b9A...", craftedCount: 38, masterpieces: 3, avgQuality: 75.2 },
-      { address: "0x4B0897b0513fdC7C541...", craftedCount: 35, masterpieces: 4, avgQuality: 76.8 },
-    ];
-    setLeaderboard(mockLeaderboard);
+  const loadInventory = async (account: string) => {
+    try {
+      const client = await getMaterialsReadOnly();
+      setInventory(await client.balancesOf(account));
+    } catch (e) { console.error("Error loading inventory:", e); }
+  };
+
+  // Test networks only, mints a starter stack of every catalog material
+  const claimStarterMaterials = async () => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    setIsClaiming(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Claiming starter materials..." });
+    try {
+      const client = await getMaterialsWithSigner();
+      await client.faucet(inventory.map(({ material }) => material.id));
+      setTransactionStatus({ visible: true, status: "success", message: "Starter materials added to your inventory" });
+      await loadInventory(address);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? 
+        "Transaction rejected by user" : "Claiming failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } finally {
+      setIsClaiming(false);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
   };
 
-  const loadAnnouncements = () => {
-    // Simulate loading announcements
-    const mockAnnouncements: Announcement[] = [
-      { 
-        id: "1", 
-        title: "System Maintenance", 
-        content: "The crafting system will undergo maintenance on Friday from 2-4 AM UTC.", 
-        timestamp: Date.now() - 3600000, 
-        priority: "medium" 
-      },
-      { 
-        id: "2", 
-        title: "New Catalyst Items", 
-        content: "New FHE-encrypted catalyst items have been added to the game!", 
-        timestamp: Date.now() - 86400000, 
-        priority: "high" 
-      },
-      { 
-        id: "3", 
-        title: "Crafting Contest", 
-        content: "Join our crafting contest for a chance to win rare materials!", 
-        timestamp: Date.now() - 172800000, 
-        priority: "low" 
-      },
-    ];
-    setAnnouncements(mockAnnouncements);
+  const loadMarket = async () => {
+    try {
+      const client = await getMarketplaceReadOnly();
+      const [all, completed] = await Promise.all([client.loadListings(), client.sales()]);
+      setListings(all);
+      setSales(completed.reverse());
+    } catch (e) { console.error("Error loading marketplace:", e); }
   };
 
-  const craftItem = async () => {
+  // Approves the marketplace for the item if needed, the item stays in the seller's wallet until sold
+  const listItem = async (item: CraftingItem, currency: Currency, price: string, qualityClaim: number) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
+    let amount: bigint;
+    try { amount = ethers.parseEther(price); } catch { alert("Please enter a valid price"); return; }
+    if (amount <= 0n) { alert("Please enter a valid price"); return; }
+    setTradingListing(item.id);
+    setTransactionStatus({ visible: true, status: "pending", message: "Listing item..." });
+    try {
+      const client = await getMarketplaceWithSigner();
+      const { claimRequestId } = await client.list({ itemId: item.id, currency, price: amount, qualityClaim });
+      await loadMarket();
+      if (claimRequestId !== null) {
+        setTransactionStatus({ visible: true, status: "pending", message: "Waiting for the oracle to check the quality claim..." });
+        const { holds } = await client.waitForQualityClaim(claimRequestId);
+        await loadMarket();
+        setTransactionStatus({ visible: true, status: holds ? "success" : "error", message: holds ? `Quality ≥ ${qualityClaim} verified` : `Quality claim refuted, the item cannot be bought until you relist it without the claim` });
+      } else {
+        setTransactionStatus({ visible: true, status: "success", message: "Item listed" });
+      }
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? 
+        "Transaction rejected by user" : "Listing failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } finally {
+      setTradingListing(null);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const cancelListing = async (listing: Listing) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTradingListing(listing.id.toString());
+    setTransactionStatus({ visible: true, status: "pending", message: "Cancelling listing..." });
+    try {
+      const client = await getMarketplaceWithSigner();
+      await client.cancel(listing.id);
+      setTransactionStatus({ visible: true, status: "success", message: "Listing cancelled" });
+      await loadMarket();
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? 
+        "Transaction rejected by user" : "Cancelling failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } finally {
+      setTradingListing(null);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // On settlement the registry re-keys the item's encrypted fields to the buyer
+  const buyListing = async (listing: Listing) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    const claim = listing.qualityClaim === null ? "It has no quality claim." : `The oracle verified its quality is at least ${listing.qualityClaim}.`;
+    if (!window.confirm(`Buy item #${listing.itemId} for ${formatPrice(listing.price, listing.currency)}? ${claim}`)) return;
+    setTradingListing(listing.id.toString());
+    setTransactionStatus({ visible: true, status: "pending", message: "Buying item..." });
+    try {
+      const client = await getMarketplaceWithSigner();
+      await client.buy(listing.id);
+      setTransactionStatus({ visible: true, status: "success", message: "Item bought, you can now decrypt its quality" });
+      await Promise.all([loadMarket(), loadItems()]);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? 
+        "Transaction rejected by user" : "Purchase failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } finally {
+      setTradingListing(null);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const loadAuctions = async () => {
+    try {
+      const client = await getAuctionReadOnly();
+      const all = await client.loadAuctions();
+      setAuctions(all);
+      if (!address) { setAuctionPositions({}); return; }
+      const positions = await Promise.all(all.map(async auction => {
+        const [withdrawable, placed] = await Promise.all([
+          client.withdrawableOf(auction.id, address),
+          client.bidOf(auction.id, address)
+        ]);
+        return [auction.id.toString(), { withdrawable, hasBid: placed !== null }] as const;
+      }));
+      setAuctionPositions(Object.fromEntries(positions));
+    } catch (e) { console.error("Error loading auctions:", e); }
+  };
+
+  // Runs one auction transaction with the shared status modal
+  const runAuctionAction = async (auctionId: string, pending: string, action: () => Promise<string>) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setBusyAuction(auctionId);
+    setTransactionStatus({ visible: true, status: "pending", message: pending });
+    try {
+      const message = await action();
+      setTransactionStatus({ visible: true, status: "success", message });
+      await Promise.all([loadAuctions(), loadItems()]);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? 
+        "Transaction rejected by user" : "Auction action failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } finally {
+      setBusyAuction(null);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // The item is escrowed by the auction contract until it settles
+  const startAuction = async (item: CraftingItem, reservePrice: string, durationHours: number) => {
+    let reserve: bigint;
+    try { reserve = ethers.parseEther(reservePrice || "0"); } catch { alert("Please enter a valid reserve price"); return; }
+    await runAuctionAction(`item-${item.id}`, "Starting auction...", async () => {
+      const client = await getAuctionWithSigner();
+      await client.createAuction({ itemId: item.id, reservePrice: reserve, duration: durationHours * 3600 });
+      setSelectedItem(null);
+      return "Auction started, bids stay sealed until it closes";
+    });
+  };
+
+  // The bid is encrypted client side, only the deposit is public
+  const placeBid = async (auction: Auction) => {
+    let amount: bigint;
+    let deposit: bigint;
+    try {
+      amount = ethers.parseEther(bidForm.amount);
+      deposit = ethers.parseEther(bidForm.deposit || bidForm.amount);
+    } catch { alert("Please enter a valid bid"); return; }
+    if (deposit < amount) { alert("The deposit must cover your bid"); return; }
+    await runAuctionAction(auction.id.toString(), "Encrypting and placing your sealed bid...", async () => {
+      const client = await getAuctionWithSigner();
+      await client.placeBid({ auctionId: auction.id, amount, deposit });
+      setBidForm({ auctionId: "", amount: "", deposit: "" });
+      return "Sealed bid placed";
+    });
+  };
+
+  const closeAuction = async (auction: Auction) =>
+    runAuctionAction(auction.id.toString(), "Closing auction...", async () => {
+      const client = await getAuctionWithSigner();
+      const { requestId } = await client.close(auction.id);
+      if (requestId !== null) {
+        setTransactionStatus({ visible: true, status: "pending", message: "Waiting for the oracle to decrypt the winner..." });
+      }
+      const { winner, clearingPrice } = await client.waitForSettlement(auction.id);
+      return winner && clearingPrice !== null ?
+        `Won by ${winner.substring(0, 8)}... for ${ethers.formatEther(clearingPrice)} ETH` : "No valid bid, the item went back to the seller";
+    });
+
+  const cancelAuction = async (auction: Auction) =>
+    runAuctionAction(auction.id.toString(), "Cancelling auction...", async () => {
+      const client = await getAuctionWithSigner();
+      await client.cancel(auction.id);
+      return "Auction cancelled, the item is back in your wallet";
+    });
+
+  // The oracle never answered the close, so the item and every deposit are released
+  const cancelStalledAuction = async (auction: Auction) =>
+    runAuctionAction(auction.id.toString(), "Cancelling stalled auction...", async () => {
+      const client = await getAuctionWithSigner();
+      await client.cancelStalledClose(auction.id);
+      return "Auction cancelled, deposits can be withdrawn in full";
+    });
+
+  const withdrawFromAuction = async (auction: Auction) =>
+    runAuctionAction(auction.id.toString(), "Withdrawing...", async () => {
+      const client = await getAuctionWithSigner();
+      await client.withdraw(auction.id);
+      return "Funds withdrawn";
+    });
+
+  const loadAnnouncements = async (cursor?: bigint) => {
+    try {
+      const client = await getAnnouncementsReadOnly();
+      const page = await client.loadPage(cursor, { pageSize: ANNOUNCEMENTS_PAGE_SIZE });
+      setAnnouncements(prev => cursor === undefined ? page.announcements : [...prev, ...page.announcements]);
+      setAnnouncementsCursor(page.nextCursor);
+    } catch (e) { console.error("Error loading announcements:", e); }
+  };
+
+  // Live updates: new announcements are prepended, withdrawn ones disappear
+  const showAnnouncement = (announcement: Announcement) => {
+    setAnnouncements(prev => {
+      const others = prev.filter(a => a.id !== announcement.id);
+      if (!isAnnouncementActive(announcement)) return others;
+      return [announcement, ...others].sort((a, b) => (a.id > b.id ? -1 : 1));
+    });
+  };
+
+  const postAnnouncement = async () => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setIsPostingAnnouncement(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Publishing announcement..." });
+    try {
+      const client = await getAnnouncementsWithSigner();
+      const { announcement } = await client.publish({
+        title: newAnnouncement.title,
+        content: newAnnouncement.content,
+        priority: newAnnouncement.priority,
+        batchId: newAnnouncement.batchId ? BigInt(newAnnouncement.batchId) : undefined,
+        expiresAt: newAnnouncement.expiresInDays > 0 ? Math.floor(Date.now() / 1000) + newAnnouncement.expiresInDays * 86400 : undefined
+      });
+      showAnnouncement(announcement);
+      setTransactionStatus({ visible: true, status: "success", message: "Announcement published" });
+      setShowAnnouncementForm(false);
+      setNewAnnouncement({ title: "", content: "", priority: "medium", batchId: "", expiresInDays: 0 });
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? 
+        "Transaction rejected by user" : "Publishing failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } finally {
+      setIsPostingAnnouncement(false);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const craftItem = async () => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
     setCrafting(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting quality with ZAMA FHE..." });
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting catalyst with ZAMA FHE..." });
     
     try {
-      // Calculate final quality with FHE simulation
-      const finalQuality = calculateQuality(newItemData.baseQuality, newItemData.catalyst);
-      const encryptedQuality = FHEEncryptNumber(finalQuality);
-      
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const itemId = `item-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const itemData = { 
-        name: newItemData.name, 
+      const registry = await getItemRegistryWithSigner();
+      const { item } = newItemData.recipeId ? await registry.createItemWithRecipe({
+        name: newItemData.name,
         baseQuality: newItemData.baseQuality,
-        encryptedQuality: encryptedQuality, 
-        timestamp: Math.floor(Date.now() / 1000), 
-        owner: address, 
-        status: finalQuality >= 30 ? "crafted" : "failed",
-        catalyst: newItemData.catalyst,
-        materials: newItemData.materials.filter(m => m.trim() !== "")
-      };
-      
-      await contract.setData(`item_${itemId}`, ethers.toUtf8Bytes(JSON.stringify(itemData)));
-      
-      // Update keys
-      const keysBytes = await contract.getData("item_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(itemId);
-      await contract.setData("item_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
-      
-      // Add to crafting history
-      const historyEntry: CraftingHistory = {
-        id: itemId,
-        itemName: newItemData.name,
-        result: finalQuality >= 30 ? "Success" : "Failed",
-        timestamp: Date.now(),
-        quality: finalQuality
-      };
-      setCraftingHistory(prev => [historyEntry, ...prev]);
+        recipeId: BigInt(newItemData.recipeId),
+        catalyst: catalystEffect(newItemData.catalyst)
+      }) : await registry.createItemFromMaterials({
+        name: newItemData.name,
+        baseQuality: newItemData.baseQuality,
+        materials: Object.entries(newItemData.materials)
+          .filter(([, amount]) => amount > 0)
+          .map(([id, amount]) => ({ id: BigInt(id), amount })),
+        catalyst: catalystEffect(newItemData.catalyst)
+      });
       
       setTransactionStatus({ 
         visible: true, 
         status: "success", 
-        message: `Item crafted ${finalQuality >= 30 ? 'successfully' : 'but failed'}! Quality: ${finalQuality.toFixed(1)}` 
+        message: `Item crafted! Encrypted quality: ${item.encryptedQuality.substring(0, 10)}...` 
       });
       
-      await loadItems();
+      await Promise.all([loadItems(), loadInventory(address)]);
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCraftModal(false);
-        setNewItemData({ name: "", baseQuality: 50, catalyst: "", materials: [""] });
+        setNewItemData({ name: "", baseQuality: 50, catalyst: "", materials: {}, recipeId: "" });
       }, 3000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction") ? 
@@ -289,32 +583,155 @@ const App: React.FC = () => {
     } finally { setCrafting(false); }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
+  const decryptWithSignature = async (item: CraftingItem): Promise<number | null> => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      const signer = await getSigner();
+      const quality = await userDecryptUint32(item.encryptedQuality, itemRegistryAddress(), signer);
+      return quality;
     } catch (e) { console.error("Decryption failed:", e); return null; } 
     finally { setIsDecrypting(false); }
   };
 
-  const addMaterialField = () => {
-    setNewItemData({...newItemData, materials: [...newItemData.materials, ""]});
+  const decryptHistoryEntry = async (entry: HistoryEntry) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setDecryptingEntry(entry.key);
+    try {
+      const signer = await getSigner();
+      const contractAddress = entry.kind === "item" ? itemRegistryAddress() : craftingQualityAddress();
+      const quality = await userDecryptUint32(entry.encryptedQuality, contractAddress, signer);
+      setDecryptedHistory(prev => ({ ...prev, [entry.key]: quality }));
+    } catch (e) { console.error("Decryption failed:", e); }
+    finally { setDecryptingEntry(null); }
   };
 
-  const removeMaterialField = (index: number) => {
-    const newMaterials = [...newItemData.materials];
-    newMaterials.splice(index, 1);
-    setNewItemData({...newItemData, materials: newMaterials});
+  const revealMasterpiece = async (item: CraftingItem) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setIsRevealing(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Requesting masterpiece reveal..." });
+    try {
+      const registry = await getItemRegistryWithSigner();
+      const { requestId } = await registry.requestMasterpieceReveal(item.id);
+      setSelectedItem(prev => prev && prev.id === item.id ? { ...prev, masterpieceReveal: "requested" } : prev);
+      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for the decryption oracle..." });
+      const { isMasterpiece } = await registry.waitForMasterpieceReveal(requestId);
+      setSelectedItem(prev => prev && prev.id === item.id ? { ...prev, masterpieceReveal: "revealed", isMasterpiece } : prev);
+      setTransactionStatus({ visible: true, status: "success", message: isMasterpiece ? "It's a masterpiece!" : "Not a masterpiece this time" });
+      await loadItems();
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? 
+        "Transaction rejected by user" : "Reveal failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } finally {
+      setIsRevealing(false);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
   };
 
-  const updateMaterial = (index: number, value: string) => {
-    const newMaterials = [...newItemData.materials];
-    newMaterials[index] = value;
-    setNewItemData({...newItemData, materials: newMaterials});
+  // The contract re-keys the encrypted fields, the sender loses access to them
+  const transferItem = async (item: CraftingItem, to: string) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (!ethers.isAddress(to)) { alert("Please enter a valid address"); return; }
+    if (!window.confirm(`Transfer "${item.name}" to ${to}? Only the recipient will be able to decrypt its quality afterwards.`)) return;
+    setIsTransferring(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Transferring item token..." });
+    try {
+      const registry = await getItemRegistryWithSigner();
+      await registry.transferItem(item.id, to);
+      setTransactionStatus({ visible: true, status: "success", message: `Item sent to ${to.substring(0, 8)}...` });
+      setSelectedItem(null);
+      setDecryptedQuality(null);
+      await loadItems();
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? 
+        "Transaction rejected by user" : "Transfer failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } finally {
+      setIsTransferring(false);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Opt in to the leaderboard average, only the homomorphic average is decrypted
+  const publishAverage = async () => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setIsPublishing(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Requesting average quality decryption..." });
+    try {
+      const registry = await getItemRegistryWithSigner();
+      const { requestId } = await registry.publishAverageQuality();
+      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for the decryption oracle..." });
+      const { averageQuality, sampleSize } = await registry.waitForAverageQuality(requestId);
+      setTransactionStatus({ visible: true, status: "success", message: `Average quality ${averageQuality} over ${sampleSize} items published` });
+      await loadItems();
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? 
+        "Transaction rejected by user" : "Publishing failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } finally {
+      setIsPublishing(false);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Weights and multiplier are encrypted client side, only their owner and grantees can read them
+  const saveRecipe = async () => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    setIsSavingRecipe(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting recipe with ZAMA FHE..." });
+    try {
+      const client = await getRecipeBookWithSigner();
+      const materials = newRecipe.materials.filter(m => m.name.trim() !== "");
+      await client.createRecipe({
+        name: newRecipe.name,
+        materials: materials.map(m => m.name),
+        weights: materials.map(m => m.weight),
+        catalystMultiplier: newRecipe.multiplier
+      });
+      setTransactionStatus({ visible: true, status: "success", message: "Recipe saved" });
+      setShowRecipeForm(false);
+      setNewRecipe({ name: "", materials: [{ name: "", weight: 5 }], multiplier: 100 });
+      await loadRecipes(address);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? 
+        "Transaction rejected by user" : "Saving recipe failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } finally {
+      setIsSavingRecipe(false);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Grants are ACL permissions: permanent, and they let the grantee decrypt the recipe
+  const shareRecipe = async (recipe: Recipe) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (!ethers.isAddress(shareGrantee)) { alert("Please enter a valid address"); return; }
+    if (!window.confirm(`Share "${recipe.name}" with ${shareGrantee}? This cannot be undone and reveals the recipe to them.`)) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Granting recipe use rights..." });
+    try {
+      const client = await getRecipeBookWithSigner();
+      await client.shareRecipe(recipe.id, shareGrantee);
+      setTransactionStatus({ visible: true, status: "success", message: `Recipe shared with ${shareGrantee.substring(0, 8)}...` });
+      setSharingRecipe(null);
+      setShareGrantee("");
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") ? 
+        "Transaction rejected by user" : "Sharing failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } finally {
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const updateRecipeMaterial = (index: number, field: "name" | "weight", value: string) => {
+    const materials = [...newRecipe.materials];
+    materials[index] = { ...materials[index], [field]: field === "weight" ? Number(value) : value };
+    setNewRecipe({ ...newRecipe, materials });
+  };
+
+  const setMaterialAmount = (materialId: string, amount: number) => {
+    setNewItemData({...newItemData, materials: {...newItemData.materials, [materialId]: amount}});
   };
 
   const isOwner = (itemAddress: string) => address?.toLowerCase() === itemAddress.toLowerCase();
@@ -337,10 +754,14 @@ const App: React.FC = () => {
           <button onClick={() => setShowCraftModal(true)} className="craft-item-btn metal-button">
             <div className="hammer-icon"></div>Craft Item
           </button>
+          {address && craftingOwner?.toLowerCase() === address.toLowerCase() && (
+            <Link to={adminRoute ? "/" : "/admin"} className="metal-button admin-link">{adminRoute ? "Forge" : "Admin"}</Link>
+          )}
           <div className="wallet-connect-wrapper"><ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/></div>
         </div>
       </header>
       
+      {adminRoute ? <AdminConsole address={address} /> : (
       <div className="main-content">
         <div className="welcome-banner">
           <div className="welcome-text">
@@ -378,34 +799,197 @@ const App: React.FC = () => {
           {/* Leaderboard Panel */}
           <div className="dashboard-panel metal-panel">
             <h3>Top Crafters</h3>
+            <div className="leaderboard-filters">
+              <select className="metal-input" value={leaderboardFilter.season}
+                onChange={(e) => setLeaderboardFilter({...leaderboardFilter, season: e.target.value})}>
+                <option value="">All seasons</option>
+                {SEASONS.map(season => <option key={season.id} value={season.id}>{season.id}</option>)}
+              </select>
+              <select className="metal-input" value={leaderboardFilter.batchId}
+                onChange={(e) => setLeaderboardFilter({...leaderboardFilter, batchId: e.target.value})}>
+                <option value="">All batches</option>
+                {indexedSource?.batches.map(batch => <option key={batch.id} value={batch.id}>Batch #{batch.id}</option>)}
+              </select>
+              <select className="metal-input" value={leaderboardFilter.windowDays}
+                onChange={(e) => setLeaderboardFilter({...leaderboardFilter, windowDays: Number(e.target.value)})}>
+                {LEADERBOARD_WINDOWS.map(w => <option key={w.days} value={w.days}>{w.label}</option>)}
+              </select>
+            </div>
             <div className="leaderboard-list">
+              {leaderboard.length === 0 && <div className="leaderboard-empty">No crafting activity for these filters</div>}
               {leaderboard.map((entry, index) => (
-                <div className="leaderboard-entry" key={index}>
+                <div className={`leaderboard-entry ${entry.address.toLowerCase() === address?.toLowerCase() ? "own" : ""}`} key={entry.address}>
                   <div className="rank">#{index + 1}</div>
                   <div className="address">{entry.address.substring(0, 8)}...{entry.address.substring(34)}</div>
                   <div className="stats">
                     <span className="crafted">{entry.craftedCount} crafted</span>
                     <span className="masterpieces">{entry.masterpieces} master</span>
+                    {entry.averageQuality !== null && (
+                      <span className="avg-quality" title={`Over ${entry.sampleSize} items, all time`}>avg {entry.averageQuality}</span>
+                    )}
                   </div>
                 </div>
               ))}
             </div>
+            {isConnected && (
+              <button className="metal-button publish-average" onClick={publishAverage} disabled={isPublishing}>
+                {isPublishing ? "Publishing..." : "Publish My Average Quality"}
+              </button>
+            )}
           </div>
           
           {/* Announcements Panel */}
           <div className="dashboard-panel metal-panel">
             <h3>System Announcements</h3>
+            {canPublish && (
+              <button className="metal-button announcement-toggle" onClick={() => setShowAnnouncementForm(!showAnnouncementForm)}>
+                {showAnnouncementForm ? "Cancel" : "New Announcement"}
+              </button>
+            )}
+            {canPublish && showAnnouncementForm && (
+              <div className="announcement-form">
+                <input type="text" className="metal-input" placeholder="Title" maxLength={80}
+                  value={newAnnouncement.title} onChange={(e) => setNewAnnouncement({...newAnnouncement, title: e.target.value})} />
+                <textarea className="metal-input" placeholder="Content" maxLength={1000}
+                  value={newAnnouncement.content} onChange={(e) => setNewAnnouncement({...newAnnouncement, content: e.target.value})} />
+                <div className="announcement-form-row">
+                  <select className="metal-input" value={newAnnouncement.priority}
+                    onChange={(e) => setNewAnnouncement({...newAnnouncement, priority: e.target.value as AnnouncementPriority})}>
+                    <option value="low">Low</option>
+                    <option value="medium">Medium</option>
+                    <option value="high">High</option>
+                  </select>
+                  <input type="number" className="metal-input" placeholder="Batch # (optional)" min={1}
+                    value={newAnnouncement.batchId} onChange={(e) => setNewAnnouncement({...newAnnouncement, batchId: e.target.value})} />
+                  <select className="metal-input" value={newAnnouncement.expiresInDays}
+                    onChange={(e) => setNewAnnouncement({...newAnnouncement, expiresInDays: Number(e.target.value)})}>
+                    <option value={0}>Never expires</option>
+                    <option value={1}>Expires in 1 day</option>
+                    <option value={7}>Expires in 7 days</option>
+                    <option value={30}>Expires in 30 days</option>
+                  </select>
+                </div>
+                <button className="metal-button primary" onClick={postAnnouncement}
+                  disabled={isPostingAnnouncement || !newAnnouncement.title.trim() || !newAnnouncement.content.trim()}>
+                  {isPostingAnnouncement ? "Publishing..." : "Publish"}
+                </button>
+              </div>
+            )}
             <div className="announcements-list">
+              {announcements.length === 0 && <div className="announcement-time">No announcements</div>}
               {announcements.map(announcement => (
-                <div className={`announcement ${announcement.priority}`} key={announcement.id}>
+                <div className={`announcement ${announcement.priority}`} key={announcement.id.toString()}>
                   <div className="announcement-title">{announcement.title}</div>
                   <div className="announcement-content">{announcement.content}</div>
                   <div className="announcement-time">
-                    {new Date(announcement.timestamp).toLocaleDateString()}
+                    {new Date(announcement.createdAt * 1000).toLocaleDateString()}
+                    {announcement.batchId !== null && <span className="announcement-batch">Batch #{announcement.batchId.toString()}</span>}
+                    {announcement.expiresAt !== null && <span> · until {new Date(announcement.expiresAt * 1000).toLocaleDateString()}</span>}
                   </div>
                 </div>
               ))}
             </div>
+            {announcementsCursor !== null && (
+              <button className="metal-button announcements-more" onClick={() => loadAnnouncements(announcementsCursor)}>
+                Load More
+              </button>
+            )}
+          </div>
+
+          {/* Inventory Panel */}
+          <div className="dashboard-panel metal-panel">
+            <h3>Material Inventory</h3>
+            <div className="inventory-list">
+              {!isConnected && <div className="recipe-empty">Connect your wallet to see your materials</div>}
+              {isConnected && inventory.map(({ material, balance }) => (
+                <div className="inventory-entry" key={material.id.toString()}>
+                  <span className={`material-name tier-${material.tier}`}>{material.name}</span>
+                  <span className="material-tier">Tier {material.tier}</span>
+                  <span className="material-balance">{balance.toString()}</span>
+                </div>
+              ))}
+            </div>
+            {isConnected && faucetEnabled && (
+              <button className="metal-button inventory-faucet" onClick={claimStarterMaterials} disabled={isClaiming || inventory.length === 0}>
+                {isClaiming ? "Claiming..." : "Claim Starter Materials"}
+              </button>
+            )}
+          </div>
+
+          {/* Recipe Book Panel */}
+          <div className="dashboard-panel metal-panel">
+            <h3>Recipe Book</h3>
+            {isConnected && (
+              <button className="metal-button recipe-toggle" onClick={() => setShowRecipeForm(!showRecipeForm)}>
+                {showRecipeForm ? "Cancel" : "New Recipe"}
+              </button>
+            )}
+            {isConnected && showRecipeForm && (
+              <div className="recipe-form">
+                <input type="text" className="metal-input" placeholder="Recipe name" maxLength={64}
+                  value={newRecipe.name} onChange={(e) => setNewRecipe({...newRecipe, name: e.target.value})} />
+                {newRecipe.materials.map((material, index) => (
+                  <div className="recipe-material" key={index}>
+                    <select className="metal-input" value={material.name}
+                      onChange={(e) => updateRecipeMaterial(index, "name", e.target.value)}>
+                      <option value="">Material #{index + 1}</option>
+                      {inventory.map(({ material: m }) => <option key={m.id.toString()} value={m.name}>{m.name}</option>)}
+                    </select>
+                    <input type="number" className="metal-input" min={0} max={MAX_MATERIAL_WEIGHT} title="Secret quality points this material adds"
+                      value={material.weight} onChange={(e) => updateRecipeMaterial(index, "weight", e.target.value)} />
+                    {newRecipe.materials.length > 1 && (
+                      <button type="button" className="remove-material-btn"
+                        onClick={() => setNewRecipe({...newRecipe, materials: newRecipe.materials.filter((_, i) => i !== index)})}>
+                        &times;
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button type="button" className="add-material-btn metal-button"
+                  onClick={() => setNewRecipe({...newRecipe, materials: [...newRecipe.materials, { name: "", weight: 5 }]})}>
+                  + Add Material
+                </button>
+                <div className="input-help">
+                  Material bonus: {Math.min(newRecipe.materials.reduce((sum, m) => sum + Math.min(m.weight, MAX_MATERIAL_WEIGHT), 0), MAX_MATERIAL_BONUS)} (weights add up, capped at {MAX_MATERIAL_BONUS})
+                </div>
+                <label>Catalyst multiplier: {newRecipe.multiplier}%</label>
+                <input type="range" className="quality-slider" min={0} max={MAX_CATALYST_MULTIPLIER}
+                  value={newRecipe.multiplier} onChange={(e) => setNewRecipe({...newRecipe, multiplier: Number(e.target.value)})} />
+                <button className="metal-button primary" onClick={saveRecipe}
+                  disabled={isSavingRecipe || !newRecipe.name.trim() || newRecipe.materials.every(m => !m.name.trim())}>
+                  {isSavingRecipe ? "Encrypting..." : "Save Recipe"}
+                </button>
+              </div>
+            )}
+            <div className="recipes-list">
+              {!isConnected && <div className="recipe-empty">Connect your wallet to see your recipes</div>}
+              {isConnected && recipes.length === 0 && <div className="recipe-empty">No recipes yet</div>}
+              {recipes.map(recipe => {
+                const owned = recipe.owner.toLowerCase() === address?.toLowerCase();
+                return (
+                  <div className="recipe" key={recipe.id.toString()}>
+                    <div className="recipe-title">
+                      {recipe.name}
+                      <span className={`recipe-tag ${owned ? "owned" : "shared"}`}>{owned ? "Owned" : "Shared"}</span>
+                    </div>
+                    <div className="recipe-materials">{recipe.materials.join(", ")}</div>
+                    {owned && sharingRecipe !== recipe.id.toString() && (
+                      <button className="decrypt-link" onClick={() => { setSharingRecipe(recipe.id.toString()); setShareGrantee(""); }}>
+                        Share
+                      </button>
+                    )}
+                    {owned && sharingRecipe === recipe.id.toString() && (
+                      <div className="recipe-share">
+                        <input type="text" className="metal-input" placeholder="0x... address"
+                          value={shareGrantee} onChange={(e) => setShareGrantee(e.target.value)} />
+                        <button className="metal-button" onClick={() => shareRecipe(recipe)}>Grant</button>
+                        <button className="metal-button" onClick={() => setSharingRecipe(null)}>Cancel</button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
           </div>
         </div>
         
@@ -415,28 +999,47 @@ const App: React.FC = () => {
             <h2>Your Crafting History</h2>
           </div>
           <div className="history-list metal-panel">
-            {craftingHistory.length === 0 ? (
+            {history.length === 0 ? (
               <div className="no-history">
                 <div className="no-history-icon"></div>
                 <p>No crafting history found</p>
                 <button className="metal-button primary" onClick={() => setShowCraftModal(true)}>Craft Your First Item</button>
               </div>
             ) : (
-              craftingHistory.map(record => (
-                <div className="history-record" key={record.id}>
+              history.slice(0, historyLimit).map(entry => (
+                <div className="history-record" key={entry.key}>
                   <div className="record-main">
-                    <div className="item-name">{record.itemName}</div>
-                    <div className={`result ${record.result.toLowerCase()}`}>{record.result}</div>
+                    <div className="item-name">{entry.kind === "item" ? entry.itemName : "Quality Submission"}</div>
+                    <div className={`result ${entry.status}`}>{HISTORY_STATUS_LABELS[entry.status]}</div>
                   </div>
                   <div className="record-details">
-                    <div className="quality">Quality: {record.quality.toFixed(1)}</div>
+                    <div className="quality">
+                      Quality: {entry.key in decryptedHistory ? decryptedHistory[entry.key] : "Encrypted"}
+                      {!(entry.key in decryptedHistory) && (
+                        <button className="decrypt-link" onClick={() => decryptHistoryEntry(entry)} disabled={decryptingEntry !== null}>
+                          {decryptingEntry === entry.key ? "Decrypting..." : "Decrypt"}
+                        </button>
+                      )}
+                    </div>
+                    <div className="batch">{entry.batchId !== null ? `Batch #${entry.batchId}` : "No batch"}</div>
                     <div className="timestamp">
-                      {new Date(record.timestamp).toLocaleDateString()}
+                      {entry.timestamp !== null ? new Date(entry.timestamp * 1000).toLocaleDateString() : `Block ${entry.blockNumber}`}
                     </div>
                   </div>
+                  <div className="record-tx">
+                    {network.explorerUrl ? (
+                      <a href={`${network.explorerUrl}/tx/${entry.transactionHash}`} target="_blank" rel="noreferrer">
+                        {entry.transactionHash.substring(0, 10)}...{entry.transactionHash.substring(58)}
+                      </a>
+                    ) : (
+                      <span>{entry.transactionHash.substring(0, 10)}...{entry.transactionHash.substring(58)}</span>
+                    )}
+                    <span> · block {entry.blockNumber}</span>
+                  </div>
                 </div>
               ))
             )}
+            {hasMoreHistory && <div className="history-end" ref={historyEndRef}>Loading more...</div>}
           </div>
         </div>
         
@@ -445,6 +1048,9 @@ const App: React.FC = () => {
           <div className="section-header">
             <h2>Crafted Items</h2>
             <div className="header-actions">
+              <button onClick={() => setShowMyTokens(!showMyTokens)} className={`metal-button ${showMyTokens ? "primary" : ""}`} disabled={!isConnected}>
+                {showMyTokens ? "All Items" : "My Tokens"}
+              </button>
               <button onClick={loadItems} className="refresh-btn metal-button" disabled={isRefreshing}>
                 {isRefreshing ? "Refreshing..." : "Refresh"}
               </button>
@@ -453,20 +1059,20 @@ const App: React.FC = () => {
           <div className="items-list metal-panel">
             <div className="table-header">
               <div className="header-cell">Name</div>
-              <div className="header-cell">Owner</div>
+              <div className="header-cell">Token Owner</div>
               <div className="header-cell">Date</div>
               <div className="header-cell">Status</div>
               <div className="header-cell">Actions</div>
             </div>
-            {items.length === 0 ? (
+            {visibleItems.length === 0 ? (
               <div className="no-items">
                 <div className="no-items-icon"></div>
                 <p>No crafted items found</p>
                 <button className="metal-button primary" onClick={() => setShowCraftModal(true)}>Craft First Item</button>
               </div>
-            ) : items.map(item => (
+            ) : visibleItems.map(item => (
               <div className="item-row" key={item.id} onClick={() => setSelectedItem(item)}>
-                <div className="table-cell item-name">{item.name}</div>
+                <div className="table-cell item-name">#{item.id} {item.name}</div>
                 <div className="table-cell">{item.owner.substring(0, 6)}...{item.owner.substring(38)}</div>
                 <div className="table-cell">{new Date(item.timestamp * 1000).toLocaleDateString()}</div>
                 <div className="table-cell">
@@ -481,7 +1087,164 @@ const App: React.FC = () => {
             ))}
           </div>
         </div>
+        
+        <DecryptionRequests address={address} />
+        
+        <BatchAnalytics address={address} />
+        
+        {/* Auctions Section */}
+        <div className="items-section">
+          <div className="section-header">
+            <h2>Masterpiece Auctions</h2>
+            <div className="header-actions">
+              <button onClick={loadAuctions} className="refresh-btn metal-button">Refresh</button>
+            </div>
+          </div>
+          <div className="auctions-list">
+            {auctions.length === 0 && <div className="no-items metal-panel"><p>No auctions yet, start one from a revealed masterpiece</p></div>}
+            {auctions.map(auction => {
+              const id = auction.id.toString();
+              const position = auctionPositions[id];
+              const ended = auction.endTime * 1000 <= Date.now();
+              const isSeller = isOwner(auction.seller);
+              const stalled = auction.closeDeadline !== null && auction.closeDeadline * 1000 <= Date.now();
+              return (
+                <div className={`auction metal-panel ${auction.status}`} key={id}>
+                  <div className="auction-title">
+                    <span>#{auction.itemId.toString()} {itemNames.get(auction.itemId.toString())}</span>
+                    <span className={`status-badge ${auction.status}`}>{auction.status}</span>
+                  </div>
+                  <div className="auction-details">
+                    <span>Reserve {ethers.formatEther(auction.reservePrice)} ETH</span>
+                    <span>{auction.bidCount} sealed bid{auction.bidCount === 1 ? "" : "s"}</span>
+                    <span>{ended ? "Ended" : "Ends"} {new Date(auction.endTime * 1000).toLocaleString()}</span>
+                  </div>
+                  {auction.status === "settled" && (
+                    <div className="auction-result">
+                      {auction.winner && auction.clearingPrice !== null
+                        ? `Won by ${auction.winner.substring(0, 6)}...${auction.winner.substring(38)} for ${ethers.formatEther(auction.clearingPrice)} ETH`
+                        : "No valid bid, returned to the seller"}
+                    </div>
+                  )}
+                  {auction.status === "closing" && (
+                    <div className="auction-result">
+                      {stalled ? "The decryption oracle did not answer in time" : "Waiting for the decryption oracle..."}
+                    </div>
+                  )}
+                  <div className="auction-actions">
+                    {auction.status === "open" && !ended && !isSeller && !position?.hasBid && (
+                      bidForm.auctionId === id ? (
+                        <div className="recipe-share">
+                          <input type="text" className="metal-input" placeholder="Sealed bid (ETH)"
+                            value={bidForm.amount} onChange={(e) => setBidForm({...bidForm, amount: e.target.value})} />
+                          <input type="text" className="metal-input" placeholder="Deposit (ETH, public)"
+                            value={bidForm.deposit} onChange={(e) => setBidForm({...bidForm, deposit: e.target.value})} />
+                          <button className="metal-button primary" onClick={() => placeBid(auction)} disabled={busyAuction === id}>Bid</button>
+                          <button className="metal-button" onClick={() => setBidForm({ auctionId: "", amount: "", deposit: "" })}>Cancel</button>
+                        </div>
+                      ) : (
+                        <button className="metal-button" onClick={() => setBidForm({ auctionId: id, amount: "", deposit: "" })} disabled={!isConnected}>
+                          Place Sealed Bid
+                        </button>
+                      )
+                    )}
+                    {auction.status === "open" && position?.hasBid && <span className="auction-note">You placed a sealed bid</span>}
+                    {auction.status === "open" && isSeller && auction.bidCount === 0 && !ended && (
+                      <button className="metal-button" onClick={() => cancelAuction(auction)} disabled={busyAuction === id}>Cancel Auction</button>
+                    )}
+                    {auction.status === "open" && ended && (
+                      <button className="metal-button primary" onClick={() => closeAuction(auction)} disabled={!isConnected || busyAuction === id}>
+                        Close &amp; Reveal Winner
+                      </button>
+                    )}
+                    {auction.status === "closing" && stalled && (
+                      <button className="metal-button primary" onClick={() => cancelStalledAuction(auction)} disabled={!isConnected || busyAuction === id}>
+                        Cancel &amp; Refund Deposits
+                      </button>
+                    )}
+                    {position && position.withdrawable > 0n && (
+                      <button className="metal-button primary" onClick={() => withdrawFromAuction(auction)} disabled={busyAuction === id}>
+                        Withdraw {ethers.formatEther(position.withdrawable)} ETH
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+        
+        {/* Marketplace Section */}
+        <div className="items-section">
+          <div className="section-header">
+            <h2>Marketplace</h2>
+            <div className="header-actions">
+              <button onClick={() => setMarketTab("listings")} className={`metal-button ${marketTab === "listings" ? "primary" : ""}`}>
+                For Sale ({openListings.length})
+              </button>
+              <button onClick={() => setMarketTab("history")} className={`metal-button ${marketTab === "history" ? "primary" : ""}`}>
+                Sales History
+              </button>
+              <button onClick={loadMarket} className="refresh-btn metal-button">Refresh</button>
+            </div>
+          </div>
+          {marketTab === "listings" ? (
+            <div className="items-list metal-panel">
+              <div className="table-header">
+                <div className="header-cell">Item</div>
+                <div className="header-cell">Seller</div>
+                <div className="header-cell">Price</div>
+                <div className="header-cell">Quality Claim</div>
+                <div className="header-cell">Actions</div>
+              </div>
+              {openListings.length === 0 && <div className="no-items"><p>No items for sale, list one from its details</p></div>}
+              {openListings.map(listing => (
+                <div className="item-row" key={listing.id.toString()}>
+                  <div className="table-cell item-name">#{listing.itemId.toString()} {itemNames.get(listing.itemId.toString())}</div>
+                  <div className="table-cell">{listing.seller.substring(0, 6)}...{listing.seller.substring(38)}</div>
+                  <div className="table-cell">{formatPrice(listing.price, listing.currency)}</div>
+                  <div className="table-cell">
+                    {listing.qualityClaim === null ? "None" : (
+                      <span className={`claim-badge ${listing.claimStatus}`}>≥ {listing.qualityClaim} {CLAIM_LABELS[listing.claimStatus]}</span>
+                    )}
+                  </div>
+                  <div className="table-cell actions">
+                    {isOwner(listing.seller) ? (
+                      <button className="action-btn metal-button" onClick={() => cancelListing(listing)}
+                        disabled={tradingListing === listing.id.toString()}>Cancel</button>
+                    ) : (
+                      <button className="action-btn metal-button primary" onClick={() => buyListing(listing)}
+                        disabled={!isConnected || !isBuyable(listing) || tradingListing === listing.id.toString()}
+                        title={isBuyable(listing) ? undefined : `Quality claim ${CLAIM_LABELS[listing.claimStatus]}, not for sale until verified`}>Buy</button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="items-list metal-panel">
+              <div className="table-header">
+                <div className="header-cell">Item</div>
+                <div className="header-cell">Seller</div>
+                <div className="header-cell">Buyer</div>
+                <div className="header-cell">Price</div>
+                <div className="header-cell">Block</div>
+              </div>
+              {sales.length === 0 && <div className="no-items"><p>No sales yet</p></div>}
+              {sales.map(sale => (
+                <div className={`item-row ${isOwner(sale.buyer) || isOwner(sale.seller) ? "own-sale" : ""}`} key={sale.transactionHash}>
+                  <div className="table-cell item-name">#{sale.itemId.toString()} {itemNames.get(sale.itemId.toString())}</div>
+                  <div className="table-cell">{sale.seller.substring(0, 6)}...{sale.seller.substring(38)}</div>
+                  <div className="table-cell">{sale.buyer.substring(0, 6)}...{sale.buyer.substring(38)}</div>
+                  <div className="table-cell">{formatPrice(sale.price, sale.currency)}</div>
+                  <div className="table-cell">{sale.blockNumber}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
+      )}
       
       {/* Craft Modal */}
       {showCraftModal && (
@@ -491,9 +1254,9 @@ const App: React.FC = () => {
           crafting={crafting} 
           itemData={newItemData} 
           setItemData={setNewItemData}
-          addMaterialField={addMaterialField}
-          removeMaterialField={removeMaterialField}
-          updateMaterial={updateMaterial}
+          recipes={recipes}
+          inventory={inventory}
+          setMaterialAmount={setMaterialAmount}
         />
       )}
       
@@ -506,7 +1269,19 @@ const App: React.FC = () => {
           setDecryptedQuality={setDecryptedQuality}
           isDecrypting={isDecrypting}
           decryptWithSignature={decryptWithSignature}
-          isOwner={isOwner(selectedItem.owner)}
+          isRevealing={isRevealing}
+          revealMasterpiece={revealMasterpiece}
+          isOwner={isOwner(tokenOwner ?? selectedItem.owner)}
+          tokenOwner={tokenOwner}
+          metadata={tokenMetadata}
+          isTransferring={isTransferring}
+          transferItem={transferItem}
+          listing={openListings.find(l => l.itemId.toString() === selectedItem.id) ?? null}
+          isListing={tradingListing === selectedItem.id}
+          listItem={listItem}
+          cancelListing={cancelListing}
+          isStartingAuction={busyAuction === `item-${selectedItem.id}`}
+          startAuction={startAuction}
         />
       )}
       
@@ -553,9 +1328,9 @@ interface CraftModalProps {
   crafting: boolean;
   itemData: any;
   setItemData: (data: any) => void;
-  addMaterialField: () => void;
-  removeMaterialField: (index: number) => void;
-  updateMaterial: (index: number, value: string) => void;
+  inventory: MaterialBalance[];
+  setMaterialAmount: (materialId: string, amount: number) => void;
+  recipes: Recipe[];
 }
 
 const CraftModal: React.FC<CraftModalProps> = ({ 
@@ -564,20 +1339,26 @@ const CraftModal: React.FC<CraftModalProps> = ({
   crafting, 
   itemData, 
   setItemData,
-  addMaterialField,
-  removeMaterialField,
-  updateMaterial
+  inventory,
+  setMaterialAmount,
+  recipes
 }) => {
+  const recipe = recipes.find(r => r.id.toString() === itemData.recipeId);
+  const owned = inventory.filter(({ balance }) => balance > 0n);
+  const balanceOf = (name: string) => inventory.find(({ material }) => material.name === name)?.balance ?? 0n;
+  const missing = recipe ? recipe.materials.filter(name => balanceOf(name) < 1n) : [];
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setItemData({ ...itemData, [name]: value });
   };
 
   const handleSubmit = () => {
-    if (!itemData.name || itemData.materials.filter((m: string) => m.trim() !== "").length === 0) { 
+    if (!itemData.name || (!recipe && !Object.values(itemData.materials).some((amount: any) => amount > 0))) { 
       alert("Please fill required fields"); 
       return; 
     }
+    if (missing.length > 0) { alert(`Missing materials: ${missing.join(", ")}`); return; }
     onSubmit();
   };
 
@@ -636,37 +1417,47 @@ const CraftModal: React.FC<CraftModalProps> = ({
               />
               <div className="input-help">Encrypted catalyst that will affect quality unpredictably</div>
             </div>
+
+            <div className="form-group">
+              <label>Recipe (Optional)</label>
+              <select name="recipeId" value={itemData.recipeId} onChange={handleChange} className="metal-input">
+                <option value="">No recipe</option>
+                {recipes.map(r => <option key={r.id.toString()} value={r.id.toString()}>{r.name}</option>)}
+              </select>
+              <div className="input-help">The secret material bonus is added to the quality and the multiplier scales the catalyst bonus, without revealing either</div>
+            </div>
           </div>
           
-          <div className="materials-section">
-            <label>Materials *</label>
-            {itemData.materials.map((material: string, index: number) => (
-              <div key={index} className="material-input-group">
-                <input
-                  type="text"
-                  value={material}
-                  onChange={(e) => updateMaterial(index, e.target.value)}
-                  placeholder={`Material #${index + 1}...`}
-                  className="metal-input"
-                />
-                {itemData.materials.length > 1 && (
-                  <button 
-                    type="button" 
-                    onClick={() => removeMaterialField(index)}
-                    className="remove-material-btn"
-                  >
-                    &times;
-                  </button>
-                )}
-              </div>
-            ))}
-            <button type="button" onClick={addMaterialField} className="add-material-btn metal-button">
-              + Add Material
-            </button>
-          </div>
+          {recipe ? (
+            <div className="materials-section">
+              <label>Materials (one of each is used)</label>
+              <div className="recipe-materials">{recipe.materials.join(", ")}</div>
+              {missing.length > 0 && <div className="input-help missing">Missing: {missing.join(", ")}</div>}
+            </div>
+          ) : (
+            <div className="materials-section">
+              <label>Materials *</label>
+              {owned.length === 0 && <div className="input-help">Your inventory is empty</div>}
+              {owned.map(({ material, balance }) => (
+                <div key={material.id.toString()} className="material-input-group">
+                  <span className={`material-name tier-${material.tier}`}>{material.name}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={Number(balance)}
+                    value={itemData.materials[material.id.toString()] ?? 0}
+                    onChange={(e) => setMaterialAmount(material.id.toString(), Math.min(Number(e.target.value), Number(balance)))}
+                    className="metal-input"
+                  />
+                  <span className="material-balance">/ {balance.toString()}</span>
+                </div>
+              ))}
+              <div className="input-help">Chosen materials are burned from your inventory when the item is crafted</div>
+            </div>
+          )}
           
           <div className="encryption-preview">
-            <h4>FHE Quality Simulation</h4>
+            <h4>FHE Quality Computation</h4>
             <div className="preview-container">
               <div className="plain-data">
                 <span>Base Quality:</span>
@@ -679,7 +1470,7 @@ const CraftModal: React.FC<CraftModalProps> = ({
               </div>
             </div>
             <div className="preview-help">
-              Actual quality will be calculated homomorphically using ZAMA FHE
+              Quality is computed on-chain from the base quality, your encrypted catalyst, your recipe if any and encrypted luck
             </div>
           </div>
         </div>
@@ -701,8 +1492,20 @@ interface ItemDetailModalProps {
   decryptedQuality: number | null;
   setDecryptedQuality: (value: number | null) => void;
   isDecrypting: boolean;
-  decryptWithSignature: (encryptedData: string) => Promise<number | null>;
+  decryptWithSignature: (item: CraftingItem) => Promise<number | null>;
+  isRevealing: boolean;
+  revealMasterpiece: (item: CraftingItem) => Promise<void>;
   isOwner: boolean;
+  tokenOwner: string | null;
+  metadata: ItemMetadata | null;
+  isTransferring: boolean;
+  transferItem: (item: CraftingItem, to: string) => Promise<void>;
+  listing: Listing | null;
+  isListing: boolean;
+  listItem: (item: CraftingItem, currency: Currency, price: string, qualityClaim: number) => Promise<void>;
+  cancelListing: (listing: Listing) => Promise<void>;
+  isStartingAuction: boolean;
+  startAuction: (item: CraftingItem, reservePrice: string, durationHours: number) => Promise<void>;
 }
 
 const ItemDetailModal: React.FC<ItemDetailModalProps> = ({ 
@@ -712,14 +1515,31 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
   setDecryptedQuality, 
   isDecrypting, 
   decryptWithSignature,
-  isOwner
+  isRevealing,
+  revealMasterpiece,
+  isOwner,
+  tokenOwner,
+  metadata,
+  isTransferring,
+  transferItem,
+  listing,
+  isListing,
+  listItem,
+  cancelListing,
+  isStartingAuction,
+  startAuction
 }) => {
+  const [auctionForm, setAuctionForm] = useState({ reservePrice: "", durationHours: 24 });
+  const [recipient, setRecipient] = useState("");
+  const [sale, setSale] = useState<{ currency: Currency; price: string; qualityClaim: number }>({ currency: "eth", price: "", qualityClaim: 0 });
+  const owner = tokenOwner ?? item.owner;
+
   const handleDecrypt = async () => {
     if (decryptedQuality !== null) { 
       setDecryptedQuality(null); 
       return; 
     }
-    const decrypted = await decryptWithSignature(item.encryptedQuality);
+    const decrypted = await decryptWithSignature(item);
     if (decrypted !== null) setDecryptedQuality(decrypted);
   };
 
@@ -727,7 +1547,7 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
     <div className="modal-overlay">
       <div className="item-detail-modal metal-panel">
         <div className="modal-header">
-          <h2>{item.name} Details</h2>
+          <h2>{item.name} <span className="token-id">#{item.id}</span></h2>
           <button onClick={onClose} className="close-modal">&times;</button>
         </div>
         <div className="modal-body">
@@ -737,8 +1557,8 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
               <strong>{item.name}</strong>
             </div>
             <div className="info-item">
-              <span>Owner:</span>
-              <strong>{item.owner.substring(0, 6)}...{item.owner.substring(38)}</strong>
+              <span>Token Owner:</span>
+              <strong>{owner.substring(0, 6)}...{owner.substring(38)}</strong>
             </div>
             <div className="info-item">
               <span>Date Crafted:</span>
@@ -748,6 +1568,14 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
               <span>Status:</span>
               <strong className={`status-badge ${item.status}`}>{item.status}</strong>
             </div>
+            <div className="info-item">
+              <span>Masterpiece:</span>
+              <strong>
+                {item.masterpieceReveal === "revealed" ? (
+                  item.isMasterpiece ? <span className="masterpiece-badge">Masterpiece!</span> : "No"
+                ) : item.masterpieceReveal === "requested" ? "Reveal pending..." : "Hidden"}
+              </strong>
+            </div>
             
             {item.catalyst && (
               <div className="info-item">
@@ -757,6 +1585,22 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
             )}
           </div>
           
+          {metadata && (
+            <div className="token-metadata">
+              <h3>Token Metadata</h3>
+              <div className="metadata-grid">
+                {metadata.attributes.map(attribute => (
+                  <div key={attribute.trait_type} className={`metadata-attribute ${attribute.value === "redacted" ? "redacted" : ""}`}>
+                    <span>{attribute.trait_type}</span>
+                    <strong>
+                      {attribute.display_type === "date" ? new Date(Number(attribute.value) * 1000).toLocaleDateString() : String(attribute.value)}
+                    </strong>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          
           <div className="materials-list">
             <h3>Materials Used</h3>
             <div className="materials-grid">
@@ -793,14 +1637,97 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                 )}
               </button>
             )}
+            {isOwner && item.masterpieceReveal === "hidden" && (
+              <button 
+                className="decrypt-btn metal-button" 
+                onClick={() => revealMasterpiece(item)} 
+                disabled={isRevealing}
+              >
+                {isRevealing ? <span className="decrypt-spinner"></span> : "Reveal Masterpiece Status Publicly"}
+              </button>
+            )}
           </div>
           
+          {isOwner && (
+            <div className="token-transfer">
+              <h3>Sell on the Marketplace</h3>
+              {listing ? (
+                <div className="recipe-share">
+                  <span className="listing-summary">
+                    Listed for {formatPrice(listing.price, listing.currency)}
+                    {listing.qualityClaim !== null && ` · quality ≥ ${listing.qualityClaim} ${CLAIM_LABELS[listing.claimStatus]}`}
+                  </span>
+                  <button className="metal-button" onClick={() => cancelListing(listing)}>Cancel Listing</button>
+                </div>
+              ) : (
+                <>
+                  <div className="recipe-share">
+                    <input type="text" className="metal-input" placeholder="Price"
+                      value={sale.price} onChange={(e) => setSale({...sale, price: e.target.value})} />
+                    <select className="metal-input" value={sale.currency}
+                      onChange={(e) => setSale({...sale, currency: e.target.value as Currency})}>
+                      <option value="eth">ETH</option>
+                      <option value="gameToken">GOLD</option>
+                    </select>
+                    <button className="metal-button" onClick={() => listItem(item, sale.currency, sale.price, sale.qualityClaim)} disabled={isListing}>
+                      {isListing ? "Listing..." : "List"}
+                    </button>
+                  </div>
+                  <label>Prove quality at least: {sale.qualityClaim === 0 ? "no claim" : sale.qualityClaim}</label>
+                  <input type="range" className="quality-slider" min={0} max={100} step={5}
+                    value={sale.qualityClaim} onChange={(e) => setSale({...sale, qualityClaim: Number(e.target.value)})} />
+                  <div className="decryption-notice">
+                    <div className="warning-icon"></div>
+                    <span>The oracle publishes whether the claim holds, never the quality itself</span>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+          
+          {isOwner && item.isMasterpiece === true && !listing && (
+            <div className="token-transfer">
+              <h3>Sealed-Bid Auction</h3>
+              <div className="recipe-share">
+                <input type="text" className="metal-input" placeholder="Reserve price (ETH)"
+                  value={auctionForm.reservePrice} onChange={(e) => setAuctionForm({...auctionForm, reservePrice: e.target.value})} />
+                <select className="metal-input" value={auctionForm.durationHours}
+                  onChange={(e) => setAuctionForm({...auctionForm, durationHours: Number(e.target.value)})}>
+                  {AUCTION_DURATIONS.map(d => <option key={d.hours} value={d.hours}>{d.label}</option>)}
+                </select>
+                <button className="metal-button" onClick={() => startAuction(item, auctionForm.reservePrice, auctionForm.durationHours)} disabled={isStartingAuction}>
+                  {isStartingAuction ? "Starting..." : "Start Auction"}
+                </button>
+              </div>
+              <div className="decryption-notice">
+                <div className="warning-icon"></div>
+                <span>The item is held by the auction until it closes, only the winner and price are ever decrypted</span>
+              </div>
+            </div>
+          )}
+          
+          {isOwner && (
+            <div className="token-transfer">
+              <h3>Transfer Token</h3>
+              <div className="recipe-share">
+                <input type="text" className="metal-input" placeholder="0x... recipient"
+                  value={recipient} onChange={(e) => setRecipient(e.target.value)} />
+                <button className="metal-button" onClick={() => transferItem(item, recipient)} disabled={isTransferring}>
+                  {isTransferring ? "Transferring..." : "Transfer"}
+                </button>
+              </div>
+              <div className="decryption-notice">
+                <div className="warning-icon"></div>
+                <span>Encrypted fields are re-keyed for the recipient, you lose access to them</span>
+              </div>
+            </div>
+          )}
+          
           {decryptedQuality !== null && (
             <div className="decrypted-data-section">
               <h3>Decrypted Quality</h3>
-              <div className={`quality-display ${decryptedQuality >= 90 ? 'masterpiece' : decryptedQuality >= 70 ? 'good' : 'poor'}`}>
+              <div className={`quality-display ${item.isMasterpiece ? 'masterpiece' : decryptedQuality >= 70 ? 'good' : 'poor'}`}>
                 {decryptedQuality.toFixed(1)}
-                {decryptedQuality >= 90 && <span className="masterpiece-badge">Masterpiece!</span>}
               </div>
               <div className="decryption-notice">
                 <div className="warning-icon"></div>
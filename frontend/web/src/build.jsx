@@ -1,3 +0,0 @@
-import React from 'react';
-
-interface report-paymentProps { data: string }
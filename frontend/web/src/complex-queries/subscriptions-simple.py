@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\complex-queries\subscriptions-simple.py
-// Generated at: 2025-10-19T06:36:32.932Z
\ No newline at end of file
@@ -0,0 +1,448 @@
+// AdminConsole.tsx
+import React, { useEffect, useState } from "react";
+import { ContractTransactionReceipt, ethers } from "ethers";
+import { Link } from "react-router-dom";
+import type { BatchInfo, CraftingProvider, QualityModel } from "../../../../src/CraftingClient";
+import { noiseOffset } from "../../../../src/CraftingClient";
+import { sendAndWait } from "../../../../src/transactions";
+import { config, getCraftingReadOnly, getCraftingWithSigner, network } from "../contract";
+
+interface AdminConsoleProps {
+  address?: string;
+}
+
+interface ContractState {
+  owner: string;
+  paused: boolean;
+  modelVersion: bigint;
+  batchDuration: bigint;
+  batchSizeLimit: bigint;
+  masterpieceThreshold: bigint;
+  minSubmissions: bigint;
+  minStatsSubmissions: bigint;
+  noiseBound: bigint;
+}
+
+// One owner transaction, newest first in the receipt log
+interface LogEntry {
+  id: number;
+  action: string;
+  status: "pending" | "success" | "error";
+  at: number;
+  hash?: string;
+  blockNumber?: number;
+  gasUsed?: bigint;
+  error?: string;
+}
+
+const shortAddress = (a: string) => `${a.substring(0, 6)}...${a.substring(38)}`;
+
+const formatTime = (seconds: bigint) => seconds === 0n ? "-" : new Date(Number(seconds) * 1000).toLocaleString();
+
+const batchState = (batch: BatchInfo) =>
+  batch.archived ? "archived" : batch.active ? "open" : batch.qualityScore !== null ? "revealed" : "closed";
+
+export default function AdminConsole({ address }: AdminConsoleProps) {
+  const [state, setState] = useState<ContractState | null>(null);
+  const [providers, setProviders] = useState<CraftingProvider[]>([]);
+  const [batches, setBatches] = useState<BatchInfo[]>([]);
+  const [log, setLog] = useState<LogEntry[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [newProvider, setNewProvider] = useState("");
+  const [cooldowns, setCooldowns] = useState<Record<string, string>>({});
+  const [models, setModels] = useState<QualityModel[]>([]);
+  const [modelVersion, setModelVersion] = useState("");
+  const [newModel, setNewModel] = useState({ version: "", weight: "", bonus: "" });
+  const [batchConfig, setBatchConfig] = useState({ durationHours: "", sizeLimit: "" });
+  const [newOwner, setNewOwner] = useState("");
+  const [threshold, setThreshold] = useState("");
+  const [privacy, setPrivacy] = useState({ minSubmissions: "", minStatsSubmissions: "", noiseBound: "" });
+
+  const isOwner = !!state && !!address && state.owner.toLowerCase() === address.toLowerCase();
+
+  const load = async () => {
+    try {
+      const client = await getCraftingReadOnly();
+      const [owner, paused, version, { duration, sizeLimit }, all, registered, qualityModels, masterpieceThreshold, { minSubmissions, minStatsSubmissions, noiseBound }] = await Promise.all([
+        client.owner(),
+        client.paused(),
+        client.modelVersion(),
+        client.batchConfig(),
+        client.loadBatches(),
+        client.providers(config.startBlocks?.CraftingQualityFHE ?? 0),
+        client.qualityModels(config.startBlocks?.CraftingQualityFHE ?? 0),
+        client.masterpieceThreshold(),
+        client.decryptionPrivacy()
+      ]);
+      setState({ owner, paused, modelVersion: version, batchDuration: duration, batchSizeLimit: sizeLimit, masterpieceThreshold, minSubmissions, minStatsSubmissions, noiseBound });
+      setBatches(all);
+      setProviders(registered);
+      setModels(qualityModels);
+    } catch (e) { console.error("Error loading admin state:", e); }
+  };
+
+  useEffect(() => { load(); }, [address]);
+
+  // Confirms, sends and records one owner transaction in the receipt log
+  const run = async (action: string, confirmation: string, send: (client: Awaited<ReturnType<typeof getCraftingWithSigner>>) => Promise<ContractTransactionReceipt>) => {
+    if (!window.confirm(confirmation)) return false;
+    const id = Date.now();
+    const update = (entry: Partial<LogEntry>) => setLog(entries => entries.map(e => e.id === id ? { ...e, ...entry } : e));
+    setLog(entries => [{ id, action, status: "pending", at: id }, ...entries]);
+    setBusy(true);
+    try {
+      const receipt = await send(await getCraftingWithSigner());
+      update({ status: "success", hash: receipt.hash, blockNumber: receipt.blockNumber, gasUsed: receipt.gasUsed });
+      await load();
+      return true;
+    } catch (e: any) {
+      const error = e.message?.includes("user rejected transaction") ? "Transaction rejected by user" : e.message || "Unknown error";
+      update({ status: "error", error });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addProvider = async () => {
+    if (!ethers.isAddress(newProvider)) { alert("Please enter a valid address"); return; }
+    if (await run(`Add provider ${shortAddress(newProvider)}`, `Allow ${newProvider} to submit crafting qualities?`,
+      client => client.addProvider(newProvider))) setNewProvider("");
+  };
+
+  const removeProvider = (provider: string) =>
+    run(`Remove provider ${shortAddress(provider)}`, `Remove ${provider}? It will no longer be able to submit.`,
+      client => client.removeProvider(provider));
+
+  const saveCooldown = async (provider: string) => {
+    const value = cooldowns[provider] ?? "";
+    if (!/^\d+$/.test(value)) { alert("Cooldown must be a whole number of seconds"); return; }
+    if (await run(`Set cooldown of ${shortAddress(provider)} to ${value}s`,
+      `Set the cooldown of ${provider} to ${value === "0" ? "the default interval" : `${value} seconds`}?`,
+      client => client.setUserCooldown(provider, value))) setCooldowns({ ...cooldowns, [provider]: "" });
+  };
+
+  const togglePause = () => {
+    const pause = !state?.paused;
+    return run(pause ? "Pause crafting" : "Resume crafting",
+      pause ? "Pause the game? Submissions and decryption requests will be rejected until resumed." : "Resume the game?",
+      client => client.setPaused(pause));
+  };
+
+  const updateModelVersion = async () => {
+    if (!models.some(m => m.version.toString() === modelVersion)) { alert("Please pick a registered model version"); return; }
+    if (await run(`Set model version to ${modelVersion}`,
+      `Set the model version to ${modelVersion}? Batches opened from now on accumulate under it. Existing batches and their pending decryptions keep the version they were opened with.`,
+      client => client.setModelVersion(modelVersion))) setModelVersion("");
+  };
+
+  const registerModel = async () => {
+    const { version, weight, bonus } = newModel;
+    if (![version, weight, bonus].every(v => /^\d+$/.test(v)) || version === "0" || weight === "0") {
+      alert("Please enter a version and a weight above 0, and a whole bonus"); return;
+    }
+    if (models.some(m => m.version.toString() === version)) { alert(`Model version ${version} is already registered`); return; }
+    if (await run(`Register model v${version}`,
+      `Register model version ${version}, scoring each submission as quality × ${weight} + ${bonus}? Registered models cannot be changed.`,
+      client => client.registerModel({ version: BigInt(version), weight: BigInt(weight), bonus: BigInt(bonus) }))) {
+      setNewModel({ version: "", weight: "", bonus: "" });
+    }
+  };
+
+  const updateThreshold = async () => {
+    const value = Number(threshold);
+    if (!Number.isInteger(value) || value < 1 || value > 100) { alert("Threshold must be a whole quality between 1 and 100"); return; }
+    if (await run(`Set masterpiece threshold to ${value}`,
+      `Count qualities of ${value} and above as masterpieces in the stats of batches opened from now on?`,
+      client => client.setMasterpieceThreshold(value))) setThreshold("");
+  };
+
+  const updatePrivacy = async () => {
+    const minSubmissions = privacy.minSubmissions || String(state?.minSubmissions ?? "");
+    const minStatsSubmissions = privacy.minStatsSubmissions || String(state?.minStatsSubmissions ?? "");
+    const noiseBound = privacy.noiseBound || String(state?.noiseBound ?? "");
+    if (![minSubmissions, minStatsSubmissions, noiseBound].every(v => /^\d+$/.test(v)) || minSubmissions === "0") {
+      alert("Please enter at least 1 submission and a whole noise bound"); return;
+    }
+    if (Number(minStatsSubmissions) < Number(minSubmissions) || Number(minStatsSubmissions) > 100) {
+      alert("The stats minimum must lie between the decryption minimum and 100"); return;
+    }
+    if (Number(noiseBound) % 2 === 0 && noiseBound !== "0") { alert("The noise bound must be 0 or odd"); return; }
+    if (await run(`Set decryption minimum to ${minSubmissions}, stats minimum to ${minStatsSubmissions} and noise bound to ${noiseBound}`,
+      `Refuse decryptions of batches with fewer than ${minSubmissions} submissions from now on, and stats reveals of batches with fewer than ${minStatsSubmissions}? The max, min and histogram are revealed exactly, without noise, so in small batches they expose individual qualities. ${noiseBound === "0" ? "Batches opened afterwards reveal exact sums." : `Batches opened afterwards add noise between 0 and ${Number(noiseBound) - 1} to the revealed sum, ${(Number(noiseBound) - 1) / 2} on average, which the SDK subtracts again.`} Closed batches below the minimum can then only be archived.`,
+      client => client.setDecryptionPrivacy({ minSubmissions: BigInt(minSubmissions), minStatsSubmissions: BigInt(minStatsSubmissions), noiseBound: BigInt(noiseBound) }))) {
+      setPrivacy({ minSubmissions: "", minStatsSubmissions: "", noiseBound: "" });
+    }
+  };
+
+  const updateBatchConfig = async () => {
+    const hours = Number(batchConfig.durationHours || Number(state?.batchDuration ?? 0n) / 3600);
+    const sizeLimit = batchConfig.sizeLimit || String(state?.batchSizeLimit ?? "");
+    if (!Number.isInteger(hours) || hours < 0 || !/^\d+$/.test(sizeLimit)) { alert("Please enter whole hours and a whole size limit"); return; }
+    if (await run(`Set batch duration to ${hours}h and size limit to ${sizeLimit}`,
+      `Batches opened from now on will run ${hours === 0 ? "without a time limit" : `for ${hours} hours`}, and every batch closes at ${sizeLimit} submissions. Continue?`,
+      client => client.setBatchConfig({ duration: BigInt(hours * 3600), sizeLimit: BigInt(sizeLimit) }))) {
+      setBatchConfig({ durationHours: "", sizeLimit: "" });
+    }
+  };
+
+  // openBatch() resolves to the new batch id, the log needs the receipt
+  const openBatch = () =>
+    run("Open a new batch", "Open a new batch? Earlier batches stay open until they close.",
+      client => sendAndWait(() => client.contract.openNewBatch()));
+
+  const closeBatch = (batch: BatchInfo) =>
+    run(`Close batch #${batch.id}`, `Close batch #${batch.id} with ${batch.submissionCount} submissions? No new batch opens automatically.`,
+      client => client.closeBatch(batch.id));
+
+  const transferOwnership = async () => {
+    if (!ethers.isAddress(newOwner)) { alert("Please enter a valid address"); return; }
+    if (await run(`Transfer ownership to ${shortAddress(newOwner)}`,
+      `Transfer ownership to ${newOwner}? You will lose access to this console, this cannot be undone from here.`,
+      client => client.transferOwnership(newOwner))) setNewOwner("");
+  };
+
+  if (!state) return (
+    <div className="main-content">
+      <div className="no-items metal-panel"><p>Loading contract state...</p></div>
+    </div>
+  );
+
+  if (!isOwner) return (
+    <div className="main-content">
+      <div className="no-items metal-panel">
+        <p>The admin console is only available to the CraftingQualityFHE owner ({shortAddress(state.owner)}).</p>
+        <Link to="/" className="metal-button">Back to the forge</Link>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="main-content admin-console">
+      <div className="section-header">
+        <h2>Admin Console</h2>
+        <div className="header-actions">
+          <button onClick={load} className="refresh-btn metal-button">Refresh</button>
+          <Link to="/" className="metal-button">Back to the forge</Link>
+        </div>
+      </div>
+
+      <div className="dashboard-panels">
+        <div className="dashboard-panel metal-panel">
+          <h3>Game State</h3>
+          <div className="stats-grid">
+            <div className="stat-item">
+              <div className={`stat-value ${state.paused ? "paused" : ""}`}>{state.paused ? "Paused" : "Live"}</div>
+              <div className="stat-label">Crafting</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">v{state.modelVersion.toString()}</div>
+              <div className="stat-label">Model</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">{state.batchDuration === 0n ? "∞" : `${Number(state.batchDuration) / 3600}h`}</div>
+              <div className="stat-label">Batch Duration</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">{state.batchSizeLimit.toString()}</div>
+              <div className="stat-label">Batch Size</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">{state.minSubmissions.toString()}</div>
+              <div className="stat-label">Min. Submissions</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">{state.minStatsSubmissions.toString()}</div>
+              <div className="stat-label">Min. for Exact Stats</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">{state.noiseBound === 0n ? "Off" : `< ${state.noiseBound}`}</div>
+              <div className="stat-label">Noise</div>
+            </div>
+          </div>
+          <div className="admin-form">
+            <button className={`metal-button ${state.paused ? "primary" : ""}`} onClick={togglePause} disabled={busy}>
+              {state.paused ? "Resume Game" : "Pause Game"}
+            </button>
+          </div>
+          <div className="admin-form">
+            <select className="metal-input" value={modelVersion} onChange={(e) => setModelVersion(e.target.value)}>
+              <option value="">Model version (v{state.modelVersion.toString()})</option>
+              {models.filter(m => m.version !== state.modelVersion).map(m => (
+                <option key={m.version.toString()} value={m.version.toString()}>v{m.version.toString()}</option>
+              ))}
+            </select>
+            <button className="metal-button" onClick={updateModelVersion} disabled={busy || !modelVersion}>Set Version</button>
+          </div>
+          <div className="admin-form">
+            <input type="number" className="metal-input" placeholder={`Duration hours (${Number(state.batchDuration) / 3600})`} min={0}
+              value={batchConfig.durationHours} onChange={(e) => setBatchConfig({...batchConfig, durationHours: e.target.value})} />
+            <input type="number" className="metal-input" placeholder={`Size limit (${state.batchSizeLimit})`} min={1}
+              value={batchConfig.sizeLimit} onChange={(e) => setBatchConfig({...batchConfig, sizeLimit: e.target.value})} />
+            <button className="metal-button" onClick={updateBatchConfig}
+              disabled={busy || (!batchConfig.durationHours && !batchConfig.sizeLimit)}>Save Batches</button>
+          </div>
+          <div className="admin-form">
+            <input type="number" className="metal-input" placeholder={`Masterpiece threshold (${state.masterpieceThreshold})`} min={1} max={100}
+              value={threshold} onChange={(e) => setThreshold(e.target.value)} />
+            <button className="metal-button" onClick={updateThreshold} disabled={busy || !threshold}>Set Threshold</button>
+          </div>
+          <div className="admin-form">
+            <input type="number" className="metal-input" placeholder={`Min. submissions (${state.minSubmissions})`} min={1}
+              value={privacy.minSubmissions} onChange={(e) => setPrivacy({...privacy, minSubmissions: e.target.value})} />
+            <input type="number" className="metal-input" placeholder={`Min. for exact stats (${state.minStatsSubmissions})`} min={1} max={100}
+              title="Max, min and histogram are revealed without noise, keep this well above the decryption minimum"
+              value={privacy.minStatsSubmissions} onChange={(e) => setPrivacy({...privacy, minStatsSubmissions: e.target.value})} />
+            <input type="number" className="metal-input" placeholder={`Noise bound, odd (${state.noiseBound})`} min={0}
+              title="Only the revealed sum is noised, the stats are exact"
+              value={privacy.noiseBound} onChange={(e) => setPrivacy({...privacy, noiseBound: e.target.value})} />
+            <button className="metal-button" onClick={updatePrivacy}
+              disabled={busy || (!privacy.minSubmissions && !privacy.minStatsSubmissions && !privacy.noiseBound)}>Save Privacy</button>
+          </div>
+          <div className="admin-form">
+            <input type="text" className="metal-input" placeholder="New owner (0x...)"
+              value={newOwner} onChange={(e) => setNewOwner(e.target.value)} />
+            <button className="metal-button danger" onClick={transferOwnership} disabled={busy || !newOwner}>Transfer Ownership</button>
+          </div>
+        </div>
+
+        <div className="dashboard-panel metal-panel">
+          <h3>Transaction Log</h3>
+          <div className="admin-log">
+            {log.length === 0 && <p className="no-items">Owner transactions sent from this console appear here</p>}
+            {log.map(entry => (
+              <div key={entry.id} className={`admin-log-entry ${entry.status}`}>
+                <div className="admin-log-action">
+                  <strong>{entry.action}</strong>
+                  <span className={`status-badge ${entry.status}`}>{entry.status}</span>
+                </div>
+                <div className="admin-log-details">
+                  <span>{new Date(entry.at).toLocaleTimeString()}</span>
+                  {entry.blockNumber !== undefined && <span>Block {entry.blockNumber}</span>}
+                  {entry.gasUsed !== undefined && <span>Gas {entry.gasUsed.toString()}</span>}
+                  {entry.hash && (network.explorerUrl
+                    ? <a href={`${network.explorerUrl}/tx/${entry.hash}`} target="_blank" rel="noreferrer">{entry.hash.substring(0, 10)}...</a>
+                    : <span>{entry.hash.substring(0, 10)}...</span>)}
+                  {entry.error && <span className="admin-log-error">{entry.error}</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="items-section">
+        <div className="section-header">
+          <h2>Providers</h2>
+          <div className="header-actions admin-form">
+            <input type="text" className="metal-input" placeholder="Provider address (0x...)"
+              value={newProvider} onChange={(e) => setNewProvider(e.target.value)} />
+            <button className="metal-button primary" onClick={addProvider} disabled={busy || !newProvider}>Add Provider</button>
+          </div>
+        </div>
+        <div className="items-list metal-panel">
+          <div className="table-header">
+            <div className="header-cell">Provider</div>
+            <div className="header-cell">Cooldown</div>
+            <div className="header-cell">Last Action</div>
+            <div className="header-cell">Added At Block</div>
+            <div className="header-cell">Actions</div>
+          </div>
+          {providers.length === 0 && <div className="no-items"><p>No providers registered</p></div>}
+          {providers.map(provider => (
+            <div className="item-row" key={provider.address}>
+              <div className="table-cell">{shortAddress(provider.address)}</div>
+              <div className="table-cell">
+                <input type="number" className="metal-input" min={0}
+                  placeholder={provider.cooldown === 0n ? "default" : `${provider.cooldown}s`}
+                  value={cooldowns[provider.address] ?? ""}
+                  onChange={(e) => setCooldowns({ ...cooldowns, [provider.address]: e.target.value })} />
+              </div>
+              <div className="table-cell">{formatTime(provider.lastActionAt)}</div>
+              <div className="table-cell">{provider.addedAtBlock}</div>
+              <div className="table-cell actions">
+                <button className="action-btn metal-button" onClick={() => saveCooldown(provider.address)}
+                  disabled={busy || !cooldowns[provider.address]}>Save</button>
+                <button className="action-btn metal-button danger" onClick={() => removeProvider(provider.address)} disabled={busy}>Remove</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="items-section">
+        <div className="section-header">
+          <h2>Quality Models</h2>
+          <div className="header-actions admin-form">
+            <input type="number" className="metal-input" placeholder="Version" min={1}
+              value={newModel.version} onChange={(e) => setNewModel({...newModel, version: e.target.value})} />
+            <input type="number" className="metal-input" placeholder="Weight" min={1}
+              value={newModel.weight} onChange={(e) => setNewModel({...newModel, weight: e.target.value})} />
+            <input type="number" className="metal-input" placeholder="Bonus" min={0}
+              value={newModel.bonus} onChange={(e) => setNewModel({...newModel, bonus: e.target.value})} />
+            <button className="metal-button primary" onClick={registerModel}
+              disabled={busy || !newModel.version || !newModel.weight}>Register Model</button>
+          </div>
+        </div>
+        <div className="items-list metal-panel">
+          <div className="table-header">
+            <div className="header-cell">Version</div>
+            <div className="header-cell">Weight</div>
+            <div className="header-cell">Bonus</div>
+            <div className="header-cell">Batches</div>
+            <div className="header-cell">State</div>
+          </div>
+          {models.map(model => (
+            <div className="item-row" key={model.version.toString()}>
+              <div className="table-cell">v{model.version.toString()}</div>
+              <div className="table-cell">× {model.weight.toString()}</div>
+              <div className="table-cell">+ {model.bonus.toString()}</div>
+              <div className="table-cell">{batches.filter(b => b.modelVersion === model.version).length}</div>
+              <div className="table-cell">
+                {model.version === state.modelVersion && <span className="status-badge open">current</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="items-section">
+        <div className="section-header">
+          <h2>Batches</h2>
+          <div className="header-actions">
+            <button className="metal-button primary" onClick={openBatch} disabled={busy}>Open New Batch</button>
+          </div>
+        </div>
+        <div className="items-list metal-panel">
+          <div className="table-header">
+            <div className="header-cell">Batch</div>
+            <div className="header-cell">State</div>
+            <div className="header-cell">Submissions</div>
+            <div className="header-cell">Expires / Closed</div>
+            <div className="header-cell">Actions</div>
+          </div>
+          {batches.map(batch => (
+            <div className="item-row" key={batch.id.toString()}>
+              <div className="table-cell">#{batch.id.toString()} <span className="admin-model">
+                v{batch.modelVersion.toString()}{batch.noiseBound !== 0n && `, noise < ${batch.noiseBound}`}
+              </span></div>
+              <div className="table-cell">
+                <span className={`status-badge ${batchState(batch)}`}>{batchState(batch)}</span>
+                {batch.qualityScore !== null && <span className="admin-score">
+                  score {batch.qualityScore.toString()}{batch.noiseBound !== 0n && ` (≈${batch.qualityScore - noiseOffset(batch.noiseBound)} without noise)`}
+                </span>}
+              </div>
+              <div className="table-cell">{batch.submissionCount.toString()}</div>
+              <div className="table-cell">{formatTime(batch.active ? batch.expiresAt : batch.closedAt)}</div>
+              <div className="table-cell actions">
+                {batch.active && (
+                  <button className="action-btn metal-button" onClick={() => closeBatch(batch)} disabled={busy}>Close</button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
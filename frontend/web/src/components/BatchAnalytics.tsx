@@ -0,0 +1,158 @@
+// BatchAnalytics.tsx
+import React, { useEffect, useState } from "react";
+import { BarElement, CategoryScale, Chart as ChartJS, LinearScale, Tooltip } from "chart.js";
+import { Bar } from "react-chartjs-2";
+import type { BatchInfo, BatchStats, HistogramBucket } from "../../../../src/CraftingClient";
+import { getCraftingReadOnly, getCraftingWithSigner } from "../contract";
+
+ChartJS.register(BarElement, CategoryScale, LinearScale, Tooltip);
+
+interface BatchAnalyticsProps {
+  address?: string;
+}
+
+const bucketLabel = (bucket: HistogramBucket) =>
+  bucket.to === null ? `${bucket.from}+` : `${bucket.from}-${bucket.to - 1n}`;
+
+export default function BatchAnalytics({ address }: BatchAnalyticsProps) {
+  const [batches, setBatches] = useState<BatchInfo[]>([]);
+  const [buckets, setBuckets] = useState<HistogramBucket[]>([]);
+  const [minSubmissions, setMinSubmissions] = useState(10n);
+  const [batchId, setBatchId] = useState<bigint | null>(null);
+  const [stats, setStats] = useState<BatchStats | null>(null);
+  const [requested, setRequested] = useState<Set<string>>(new Set());
+  const [requesting, setRequesting] = useState(false);
+
+  // Closed batches with submissions, the only ones whose stats can be revealed
+  const loadBatches = async () => {
+    try {
+      const client = await getCraftingReadOnly();
+      const [all, ranges, privacy] = await Promise.all([client.loadBatches(), client.histogramBuckets(), client.decryptionPrivacy()]);
+      const closed = all.filter(b => !b.active && b.submissionCount > 0n);
+      setBatches(closed);
+      setBuckets(ranges);
+      setMinSubmissions(privacy.minStatsSubmissions);
+      setBatchId(current => current ?? closed[0]?.id ?? null);
+    } catch (e) { console.error("Error loading batches:", e); }
+  };
+
+  useEffect(() => { loadBatches(); }, []);
+
+  // Reloads when the oracle reveals the stats of the selected batch
+  useEffect(() => {
+    if (batchId === null) { setStats(null); return; }
+    let cancelled = false;
+    let unsubscribe: (() => void) | null = null;
+    getCraftingReadOnly()
+      .then(client => {
+        if (cancelled) return;
+        const load = () => client.getBatchStats(batchId)
+          .then(loaded => { if (!cancelled) setStats(loaded); })
+          .catch(e => console.error("Error loading batch stats:", e));
+        load();
+        const filter = client.contract.filters.StatsDecryptionCompleted(undefined, batchId);
+        client.contract.on(filter, load);
+        unsubscribe = () => { client.contract.off(filter, load); };
+      })
+      .catch(e => console.error("Crafting contract unavailable:", e));
+    return () => { cancelled = true; unsubscribe?.(); };
+  }, [batchId]);
+
+  const batch = batches.find(b => b.id === batchId);
+  const revealed = stats?.revealed ?? null;
+  const tooFew = !!batch && batch.submissionCount < minSubmissions;
+  const waiting = batchId !== null && !revealed && requested.has(batchId.toString());
+
+  const requestReveal = async () => {
+    if (batchId === null) return;
+    if (!window.confirm(`Ask the decryption oracle to reveal the statistics of batch #${batchId}? Individual qualities stay private.`)) return;
+    setRequesting(true);
+    try {
+      const client = await getCraftingWithSigner();
+      await client.requestBatchStatsDecryption(batchId);
+      setRequested(all => new Set(all).add(batchId.toString()));
+    } catch (e: any) {
+      if (!e.message?.includes("user rejected transaction")) alert(`Reveal request failed: ${e.message || "Unknown error"}`);
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const chartData = {
+    labels: buckets.map(bucketLabel),
+    datasets: [{
+      label: "Submissions",
+      data: revealed?.histogram.map(Number) ?? [],
+      backgroundColor: "rgba(212, 175, 55, 0.7)",
+      borderColor: "#d4af37",
+      borderWidth: 1
+    }]
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: { tooltip: { callbacks: { title: (items: { label: string }[]) => `Quality ${items[0]?.label}` } } },
+    scales: {
+      x: { ticks: { color: "#ecf0f1" }, grid: { color: "rgba(236, 240, 241, 0.1)" } },
+      y: { beginAtZero: true, ticks: { color: "#ecf0f1", precision: 0 }, grid: { color: "rgba(236, 240, 241, 0.1)" } }
+    }
+  };
+
+  return (
+    <div className="items-section">
+      <div className="section-header">
+        <h2>Batch Analytics</h2>
+        <div className="header-actions">
+          <select className="metal-input" value={batchId?.toString() ?? ""} onChange={(e) => setBatchId(e.target.value ? BigInt(e.target.value) : null)}>
+            {batches.length === 0 && <option value="">No closed batch yet</option>}
+            {batches.map(b => <option key={b.id.toString()} value={b.id.toString()}>Batch #{b.id.toString()}</option>)}
+          </select>
+          <button onClick={loadBatches} className="refresh-btn metal-button">Refresh</button>
+        </div>
+      </div>
+      {batch && stats && (
+        <div className="metal-panel analytics-panel">
+          <div className="stats-grid">
+            <div className="stat-item">
+              <div className="stat-value">{batch.submissionCount.toString()}</div>
+              <div className="stat-label">Submissions</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">{revealed ? revealed.maxQuality.toString() : "Encrypted"}</div>
+              <div className="stat-label">Max Quality</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">{revealed ? revealed.minQuality.toString() : "Encrypted"}</div>
+              <div className="stat-label">Min Quality</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">{revealed ? revealed.masterpieceCount.toString() : "Encrypted"}</div>
+              <div className="stat-label">Masterpieces ({stats.masterpieceThreshold.toString()}+)</div>
+            </div>
+          </div>
+          {revealed ? (
+            <div className="analytics-chart">
+              <Bar data={chartData} options={chartOptions} />
+            </div>
+          ) : (
+            <div className="analytics-locked">
+              {tooFew
+                ? <p>Statistics are revealed exactly, so batches need at least {minSubmissions.toString()} submissions. This one stays encrypted.</p>
+                : batch.archived
+                  ? <p>This batch was archived before its statistics were revealed, they are gone for good.</p>
+                  : waiting
+                    ? <p>Waiting for the decryption oracle...</p>
+                    : <p>The max, min, masterpiece count and quality histogram of this batch are still encrypted.</p>}
+              {!batch.archived && !tooFew && address && (
+                <button className="metal-button primary" onClick={requestReveal} disabled={requesting}>
+                  {requesting ? "Requesting..." : waiting ? "Request Again" : "Reveal Statistics"}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
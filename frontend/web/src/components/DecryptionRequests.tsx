@@ -0,0 +1,118 @@
+// DecryptionRequests.tsx
+import React, { useEffect, useState } from "react";
+import type { DecryptionTracker, TrackedDecryption } from "../../../../src/DecryptionTracker";
+import { getCraftingWithSigner, getDecryptionTracker, network } from "../contract";
+
+interface DecryptionRequestsProps {
+  address?: string;
+}
+
+// Requests the oracle has not answered for this long are stale
+const TIMEOUTS = [
+  { seconds: 10 * 60, label: "Stale after 10 min" },
+  { seconds: 60 * 60, label: "Stale after 1 hour" },
+  { seconds: 24 * 60 * 60, label: "Stale after 1 day" }
+];
+
+const STATE_TITLES: Record<TrackedDecryption["state"], string> = {
+  pending: "Waiting for the decryption oracle",
+  completed: "Revealed by the oracle",
+  stale: "The oracle has not answered within the selected timeout, the batch can be requested again",
+  failed: "The batch was archived first, the oracle answer will be rejected"
+};
+
+export default function DecryptionRequests({ address }: DecryptionRequestsProps) {
+  const [requests, setRequests] = useState<TrackedDecryption[]>([]);
+  const [staleAfter, setStaleAfter] = useState(TIMEOUTS[0].seconds);
+  const [refresh, setRefresh] = useState<(() => void) | null>(null);
+  const [tracker, setTracker] = useState<DecryptionTracker | null>(null);
+  const [reissuing, setReissuing] = useState<bigint | null>(null);
+
+  // Reloads on every request, completion or archived batch
+  useEffect(() => {
+    let cancelled = false;
+    let unsubscribe: (() => void) | null = null;
+    getDecryptionTracker(staleAfter)
+      .then(tracker => {
+        if (cancelled) return;
+        const load = () => tracker.requests()
+          .then(all => { if (!cancelled) setRequests(all); })
+          .catch(e => console.error("Error loading decryption requests:", e));
+        load();
+        setTracker(tracker);
+        setRefresh(() => load);
+        unsubscribe = tracker.subscribe(load);
+      })
+      .catch(e => console.error("Decryption tracker unavailable:", e));
+    return () => { cancelled = true; unsubscribe?.(); };
+  }, [staleAfter]);
+
+  // The tracker reloads on the new DecryptionRequested event
+  const reissue = async (request: TrackedDecryption) => {
+    if (!tracker) return;
+    if (!window.confirm(`Request batch #${request.batchId} again? The oracle has not answered request #${request.requestId}.`)) return;
+    setReissuing(request.requestId);
+    try {
+      await tracker.reissue(request.requestId, await getCraftingWithSigner());
+    } catch (e: any) {
+      if (!e.message?.includes("user rejected transaction")) alert(`Re-issue failed: ${e.message || "Unknown error"}`);
+    } finally {
+      setReissuing(null);
+    }
+  };
+
+  const counts = requests.reduce<Record<string, number>>((all, r) => ({ ...all, [r.state]: (all[r.state] ?? 0) + 1 }), {});
+
+  return (
+    <div className="items-section">
+      <div className="section-header">
+        <h2>Decryption Requests</h2>
+        <div className="header-actions">
+          <select className="metal-input" value={staleAfter} onChange={(e) => setStaleAfter(Number(e.target.value))}>
+            {TIMEOUTS.map(t => <option key={t.seconds} value={t.seconds}>{t.label}</option>)}
+          </select>
+          <button onClick={() => refresh?.()} className="refresh-btn metal-button" disabled={!refresh}>Refresh</button>
+        </div>
+      </div>
+      <div className="decryption-summary">
+        <span>{counts.pending ?? 0} pending</span>
+        {(counts.stale ?? 0) > 0 && <span className="stale">{counts.stale} stale</span>}
+        <span>{counts.completed ?? 0} completed</span>
+        <span>{counts.failed ?? 0} failed</span>
+      </div>
+      <div className="items-list metal-panel">
+        <div className="table-header">
+          <div className="header-cell">Request</div>
+          <div className="header-cell">Requester</div>
+          <div className="header-cell">Batch</div>
+          <div className="header-cell">Model</div>
+          <div className="header-cell">State</div>
+        </div>
+        {requests.length === 0 && <div className="no-items"><p>No decryption requested yet</p></div>}
+        {requests.map(request => (
+          <div className={`item-row ${request.requester.toLowerCase() === address?.toLowerCase() ? "own-request" : ""}`}
+            key={request.requestId.toString()}>
+            <div className="table-cell">
+              {network.explorerUrl
+                ? <a href={`${network.explorerUrl}/tx/${request.transactionHash}`} target="_blank" rel="noreferrer">#{request.requestId.toString()}</a>
+                : `#${request.requestId.toString()}`}
+              <span className="request-time">{new Date(request.requestedAt * 1000).toLocaleString()}</span>
+            </div>
+            <div className="table-cell">{request.requester.substring(0, 6)}...{request.requester.substring(38)}</div>
+            <div className="table-cell">#{request.batchId.toString()}</div>
+            <div className="table-cell">v{request.modelVersion.toString()}</div>
+            <div className="table-cell" title={STATE_TITLES[request.state]}>
+              <span className={`status-badge ${request.state}`}>{request.state}</span>
+              {request.qualityScore !== null && <span className="request-score">score {request.qualityScore.toString()}</span>}
+              {request.reissuable && address && (
+                <button className="action-btn metal-button" onClick={() => reissue(request)} disabled={reissuing !== null}>
+                  {reissuing === request.requestId ? "Requesting..." : "Re-issue"}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,40 +1,37 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import { AnnouncementsClient } from "../../../src/AnnouncementsClient";
+import { AuctionClient } from "../../../src/AuctionClient";
+import { CraftingClient } from "../../../src/CraftingClient";
+import { DecryptionTracker } from "../../../src/DecryptionTracker";
+import { ItemRegistryClient } from "../../../src/ItemRegistryClient";
+import { MarketplaceClient } from "../../../src/MarketplaceClient";
+import { MaterialsClient } from "../../../src/MaterialsClient";
+import { requireContractAddress } from "../../../src/networks";
+import { RecipeBookClient } from "../../../src/RecipeBookClient";
+import { getFhevmBackend } from "./fhe";
+import { config, network } from "./network";
 
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export { config, network };
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
-  }
-};
+export const itemRegistryAddress = () => requireContractAddress(network, "ItemRegistryFHE");
+export const craftingQualityAddress = () => requireContractAddress(network, "CraftingQualityFHE");
+export const announcementsAddress = () => requireContractAddress(network, "CraftingAnnouncements");
+export const materialsAddress = () => requireContractAddress(network, "CraftingMaterials");
+export const recipeBookAddress = () => requireContractAddress(network, "RecipeBookFHE");
+export const marketplaceAddress = () => requireContractAddress(network, "ItemMarketplace");
+export const auctionAddress = () => requireContractAddress(network, "MasterpieceAuction");
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
+// Returns a provider on the first RPC url of the selected network that answers
+export const getReadProvider = async () => {
+  for (const url of network.rpcUrls.filter((u) => u.startsWith("http"))) {
     try {
       const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
+        name: network.name,
+        chainId: network.chainId
       });
       
-      const blockNumber = await Promise.race([
+      await Promise.race([
         provider.getBlockNumber(),
         new Promise((_, reject) => 
           setTimeout(() => reject(new Error("RPC timeout")), 10000)
@@ -43,44 +40,91 @@ const getTestnetProvider = async () => {
       
       return provider;
     } catch (error) {
+      console.warn(`RPC ${url} unavailable:`, error);
     }
   }
   
-  throw new Error("All RPC providers failed");
+  throw new Error(`All ${network.name} RPC providers failed`);
 };
 
-export async function getContractReadOnly() {
-  try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
-      return null;
-    }
-    
-    return contract;
-  } catch (error) {
-    console.error("Failed to create read-only contract:", error);
-    return null;
-  }
-}
-
-export async function getContractWithSigner() {
+export async function getSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  return provider.getSigner();
+}
+
+export async function getCraftingReadOnly() {
+  return CraftingClient.connect(craftingQualityAddress(), await getReadProvider());
+}
+
+export async function getCraftingWithSigner() {
+  return CraftingClient.connect(craftingQualityAddress(), await getSigner());
+}
+
+// Events are scanned from the exported deployment block of CraftingQualityFHE
+export async function getDecryptionTracker(timeout: number) {
+  return new DecryptionTracker(await getCraftingReadOnly(), {
+    timeout,
+    fromBlock: config.startBlocks?.CraftingQualityFHE ?? 0
+  });
+}
+
+export async function getItemRegistryReadOnly() {
+  return ItemRegistryClient.connect(itemRegistryAddress(), await getReadProvider());
+}
+
+export async function getItemRegistryWithSigner() {
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    const signer = await getSigner();
+    return ItemRegistryClient.connect(itemRegistryAddress(), signer, await getFhevmBackend());
   } catch (error) {
-    console.error("Failed to create contract with signer:", error);
+    console.error("Failed to create item registry with signer:", error);
     throw error;
   }
 }
 
+export async function getAnnouncementsReadOnly() {
+  return AnnouncementsClient.connect(announcementsAddress(), await getReadProvider());
+}
+
+export async function getAnnouncementsWithSigner() {
+  return AnnouncementsClient.connect(announcementsAddress(), await getSigner());
+}
+
+export async function getMaterialsReadOnly() {
+  return MaterialsClient.connect(materialsAddress(), await getReadProvider());
+}
+
+export async function getMaterialsWithSigner() {
+  return MaterialsClient.connect(materialsAddress(), await getSigner());
+}
+
+export async function getRecipeBookReadOnly() {
+  return RecipeBookClient.connect(recipeBookAddress(), await getReadProvider());
+}
+
+export async function getRecipeBookWithSigner() {
+  return RecipeBookClient.connect(recipeBookAddress(), await getSigner(), await getFhevmBackend());
+}
+
+export async function getMarketplaceReadOnly() {
+  return MarketplaceClient.connect(marketplaceAddress(), await getReadProvider());
+}
+
+export async function getMarketplaceWithSigner() {
+  return MarketplaceClient.connect(marketplaceAddress(), await getSigner());
+}
+
+export async function getAuctionReadOnly() {
+  return AuctionClient.connect(auctionAddress(), await getReadProvider());
+}
+
+export async function getAuctionWithSigner() {
+  return AuctionClient.connect(auctionAddress(), await getSigner(), await getFhevmBackend());
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
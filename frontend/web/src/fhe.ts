@@ -0,0 +1,101 @@
+// fhe.ts
+import { ethers } from "ethers";
+// The node typings describe the same instance as the web build without pulling
+// in DOM types, which keeps this module loadable from the hardhat suite
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/node";
+
+// Subset of the relayer-sdk instance the app relies on. Both the relayer-sdk
+// instance and the FHEVM mock (@fhevm/mock-utils, or `hre.fhevm` in hardhat)
+// satisfy it, so either can be plugged in. The factories for both live in
+// fheBackends.ts.
+export type FhevmBackend = Pick<
+  FhevmInstance,
+  "createEncryptedInput" | "generateKeypair" | "createEIP712" | "userDecrypt" | "publicDecrypt"
+>;
+
+export interface EncryptedInput {
+  handle: string;
+  inputProof: string;
+}
+
+const DECRYPTION_DURATION_DAYS = 10;
+
+let backendPromise: Promise<FhevmBackend> | null = null;
+let createDefaultBackend: (() => Promise<FhevmBackend>) | null = null;
+
+/**
+ * Registers how the backend is built on first use when none was set through
+ * `setFhevmBackend`. The app registers the one matching the FHEVM mode of the
+ * selected network at startup.
+ */
+export function setDefaultFhevmBackend(factory: (() => Promise<FhevmBackend>) | null) {
+  createDefaultBackend = factory;
+  backendPromise = null;
+}
+
+/**
+ * Replaces the backend used by the encryption helpers. Pass `null` to fall
+ * back to the registered default.
+ */
+export function setFhevmBackend(backend: FhevmBackend | null) {
+  backendPromise = backend ? Promise.resolve(backend) : null;
+}
+
+export function getFhevmBackend(): Promise<FhevmBackend> {
+  if (!backendPromise) {
+    if (!createDefaultBackend) {
+      return Promise.reject(new Error("No FHEVM backend configured"));
+    }
+    const pending = createDefaultBackend();
+    backendPromise = pending.catch((e) => {
+      backendPromise = null;
+      throw e;
+    });
+  }
+  return backendPromise;
+}
+
+export async function encryptUint32(contractAddress: string, userAddress: string, value: number): Promise<EncryptedInput> {
+  if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+    throw new Error(`Value out of uint32 range: ${value}`);
+  }
+  const backend = await getFhevmBackend();
+  const { handles, inputProof } = await backend.createEncryptedInput(contractAddress, userAddress).add32(value).encrypt();
+  return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+/**
+ * Decrypts handles the signer was granted access to. A fresh keypair is
+ * generated per call and authorised with an EIP-712 signature, so nothing
+ * needs to be persisted between sessions.
+ */
+export async function userDecrypt(
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<Record<string, bigint | boolean | string>> {
+  const backend = await getFhevmBackend();
+  const keypair = backend.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = backend.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, DECRYPTION_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  return backend.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress })),
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    startTimestamp,
+    DECRYPTION_DURATION_DAYS
+  );
+}
+
+export async function userDecryptUint32(handle: string, contractAddress: string, signer: ethers.Signer): Promise<number> {
+  const results = await userDecrypt([handle], contractAddress, signer);
+  return Number(results[handle]);
+}
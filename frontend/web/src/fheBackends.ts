@@ -0,0 +1,56 @@
+// fheBackends.ts
+import { ethers } from "ethers";
+import type { NetworkConfig } from "../../../src/networks";
+import type { FhevmBackend } from "./fhe";
+import { network } from "./network";
+
+function requireField(target: NetworkConfig, field: keyof NetworkConfig["fhevm"]): string {
+  const value = target.fhevm[field];
+  if (typeof value !== "string") {
+    throw new Error(`Network ${target.name} has no FHEVM ${field}`);
+  }
+  return value;
+}
+
+export async function createRelayerBackend(
+  eip1193: any = (window as any).ethereum,
+  target: NetworkConfig = network
+): Promise<FhevmBackend> {
+  if (!eip1193) {
+    throw new Error("No injected wallet");
+  }
+  const { initSDK, createInstance } = await import("@zama-fhe/relayer-sdk/web");
+  await initSDK();
+  return createInstance({
+    aclContractAddress: requireField(target, "aclContractAddress"),
+    kmsContractAddress: requireField(target, "kmsContractAddress"),
+    inputVerifierContractAddress: requireField(target, "inputVerifierContractAddress"),
+    verifyingContractAddressDecryption: requireField(target, "verifyingContractAddressDecryption"),
+    verifyingContractAddressInputVerification: requireField(target, "verifyingContractAddressInputVerification"),
+    chainId: target.chainId,
+    gatewayChainId: target.fhevm.gatewayChainId,
+    relayerUrl: requireField(target, "relayerUrl"),
+    network: eip1193,
+  });
+}
+
+// The hardhat node reports its mock host contracts through a custom RPC method
+export async function createMockBackend(target: NetworkConfig = network): Promise<FhevmBackend> {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = new ethers.JsonRpcProvider(target.rpcUrls[0]);
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    verifyingContractAddressDecryption: requireField(target, "verifyingContractAddressDecryption"),
+    verifyingContractAddressInputVerification: requireField(target, "verifyingContractAddressInputVerification"),
+    chainId: target.chainId,
+    gatewayChainId: target.fhevm.gatewayChainId,
+  });
+}
+
+// Backend matching the FHEVM mode of the selected network
+export function createNetworkBackend(target: NetworkConfig = network): Promise<FhevmBackend> {
+  return target.fhevm.mode === "mock" ? createMockBackend(target) : createRelayerBackend(undefined, target);
+}
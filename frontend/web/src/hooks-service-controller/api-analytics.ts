@@ -1,3 +0,0 @@
-import React from 'react';
-
-export default function utils-gateway-adapter() { return <div>Component</div>; }
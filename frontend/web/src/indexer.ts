@@ -0,0 +1,76 @@
+// indexer.ts
+import { IndexerSnapshot, IndexerStore, ItemIndexer } from "../../../src/ItemIndexer";
+import { getReadProvider } from "./contract";
+import { config, network } from "./network";
+
+const DB_NAME = "crafting-indexer";
+const STORE_NAME = "snapshots";
+
+// Persists indexer snapshots per chain and contract set, so a page reload
+// only fetches the blocks mined since the last visit
+export class IndexedDbStore implements IndexerStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async load(key: string): Promise<IndexerSnapshot | undefined> {
+    return this.run<IndexerSnapshot | undefined>("readonly", (store) => store.get(key));
+  }
+
+  async save(snapshot: IndexerSnapshot): Promise<void> {
+    await this.run("readwrite", (store) => store.put(snapshot));
+  }
+}
+
+let indexerPromise: Promise<ItemIndexer> | null = null;
+
+// Scanning starts at the oldest exported deployment, before that there is nothing to index
+const startBlock = () => {
+  const blocks = Object.values(config.startBlocks ?? {});
+  return blocks.length > 0 ? Math.min(...blocks) : 0;
+};
+
+export function getItemIndexer(): Promise<ItemIndexer> {
+  if (!indexerPromise) {
+    indexerPromise = getReadProvider()
+      .then((provider) =>
+        ItemIndexer.connect(
+          {
+            itemRegistry: network.contracts.ItemRegistryFHE,
+            craftingQuality: network.contracts.CraftingQualityFHE
+          },
+          provider,
+          {
+            store: new IndexedDbStore(),
+            startBlock: startBlock()
+          }
+        )
+      )
+      .catch((e) => {
+        indexerPromise = null;
+        throw e;
+      });
+  }
+  return indexerPromise;
+}
@@ -0,0 +1,36 @@
+// network.ts
+import { defineChain } from "viem";
+import { ContractAddresses, ContractName, NetworkConfig, NetworkName, resolveNetwork } from "../../../src/networks";
+import configJson from "./config.json";
+
+export interface FrontendConfig {
+  network: NetworkName;
+  chainId: number;
+  contractAddress: string;
+  deployer: string;
+  contracts: ContractAddresses;
+  // Deployment block of each exported contract, where event indexing starts
+  startBlocks?: Partial<Record<ContractName, number>>;
+}
+
+export const config = configJson as FrontendConfig;
+
+// VITE_CRAFTING_NETWORK overrides the network of the exported config.json,
+// every other VITE_<NETWORK>_* variable overrides a single registry value.
+export const network: NetworkConfig = resolveNetwork(import.meta.env, {
+  prefix: "VITE_",
+  defaultNetwork: config.network,
+  deployments: [{ chainId: config.chainId, contracts: config.contracts }],
+});
+
+export const chain = defineChain({
+  id: network.chainId,
+  name: network.name,
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: {
+    default: { http: network.rpcUrls.filter((url) => url.startsWith("http")) },
+  },
+  blockExplorers: network.explorerUrl
+    ? { default: { name: "Explorer", url: network.explorerUrl } }
+    : undefined,
+});
@@ -1,10 +1,21 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  // Only VITE_* variables reach the bundle (through import.meta.env), so
+  // deployer keys in the same shell or .env never end up client side
   define: {
-    'process.env': process.env
+    'process.env': {}
+  },
+  resolve: {
+    // The SDK and network registry live in the root src/ and must share our ethers
+    dedupe: ["ethers"]
+  },
+  server: {
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), "../../src", "../../types"]
+    }
   },
   esbuild: {
     target: "es2022",
@@ -12,7 +23,13 @@ export default defineConfig({
       'import-assertions': true
     }
   },
+  // The relayer SDK spawns its own module as a worker and loads its wasm via
+  // import.meta.url, which breaks once esbuild pre-bundles it into .vite/deps
+  worker: {
+    format: "es"
+  },
   optimizeDeps: {
+    exclude: ["@zama-fhe/relayer-sdk"],
     esbuildOptions: {
       target: "es2022",
       supported: {
@@ -1,19 +1,63 @@
-import { HardhatUserConfig } from "hardhat/config";
+import "dotenv/config";
+import { HardhatUserConfig, vars } from "hardhat/config";
+import {
+  HttpNetworkAccountsUserConfig,
+  NetworksUserConfig,
+} from "hardhat/types";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
+// Wraps the Hardhat network provider, so it must come before the FHEVM plugin
+import "./tasks/hardhatNetworkReverts";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+
+import "./tasks/decryptionOracle";
+import "./tasks/exportFrontend";
+import { getNetwork, NETWORK_NAMES, selectedNetworkName } from "./src/networks";
+
+// Deployer keys come from the environment (or a .env file), falling back to
+// the hardhat configuration variables store (`npx hardhat vars set ...`).
+// A private key takes precedence over a mnemonic.
+function readVar(name: string): string {
+  return process.env[name] ?? vars.get(name, "");
+}
+
+function deployerAccounts(): HttpNetworkAccountsUserConfig {
+  const privateKey = readVar("DEPLOYER_PRIVATE_KEY");
+  if (privateKey) {
+    return [privateKey];
+  }
+  const mnemonic = readVar("MNEMONIC");
+  return mnemonic ? { mnemonic } : [];
+}
+
+// localhost, localFhevm and sepolia come from the shared network registry,
+// see src/networks.ts for the environment variables they read.
+function registryNetworks(): NetworksUserConfig {
+  const networks: NetworksUserConfig = {};
+  for (const name of NETWORK_NAMES) {
+    const network = getNetwork(name, process.env);
+    networks[name] = {
+      chainId: network.chainId,
+      url: network.rpcUrls[0],
+      accounts: network.fhevm.mode === "mock" ? "remote" : deployerAccounts(),
+    };
+  }
+  return networks;
+}
 
 const config: HardhatUserConfig = {
-  defaultNetwork: "hardhat",
+  // CRAFTING_NETWORK switches every command to the same network the
+  // frontend and the scripts use
+  defaultNetwork: selectedNetworkName(process.env) ?? "hardhat",
+  namedAccounts: {
+    deployer: 0,
+  },
   networks: {
     hardhat: {
       chainId: 31337,
     },
-    sepolia: {
-      chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
-    },
+    ...registryNetworks(),
   },
   solidity: {
     version: "0.8.24",
@@ -34,6 +78,8 @@ const config: HardhatUserConfig = {
     tests: "./test",
     cache: "./cache",
     artifacts: "./artifacts",
+    deploy: "./deploy",
+    deployments: "./deployments",
   },
   typechain: {
     outDir: "types",
@@ -41,7 +87,7 @@ const config: HardhatUserConfig = {
   },
   etherscan: {
     apiKey: {
-      sepolia: "",
+      sepolia: readVar("ETHERSCAN_API_KEY"),
     },
   },
   gasReporter: {
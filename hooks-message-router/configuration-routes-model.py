@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\hooks-message-router\configuration-routes-model.py
-// Generated at: 2025-10-19T06:36:32.908Z
\ No newline at end of file
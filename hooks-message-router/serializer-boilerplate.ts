@@ -1,3 +0,0 @@
-import { useState, useEffect } from 'react';
-
-export default function global() { return <div>Component</div>; }
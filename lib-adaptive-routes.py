@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\lib-adaptive-routes.py
-// Generated at: 2025-10-19T06:36:32.897Z
\ No newline at end of file
@@ -0,0 +1,117 @@
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import { JsonRpcProvider, Signer, Wallet } from "ethers";
+import { BatchKeeper } from "../src/BatchKeeper";
+import { CraftingClient } from "../src/CraftingClient";
+import {
+  Deployment,
+  NetworkConfig,
+  requireContractAddress,
+  resolveNetwork,
+  selectedNetworkName,
+} from "../src/networks";
+
+/**
+ * Closes due CraftingQualityFHE batches, requests their decryption and
+ * archives them once revealed, see src/BatchKeeper.ts.
+ *
+ * Example:
+ *   - CRAFTING_NETWORK=localhost npm run keeper -- --once
+ *   - CRAFTING_NETWORK=sepolia KEEPER_PRIVATE_KEY=0x... npm run keeper
+ *
+ * The contract address comes from `<NETWORK>_CRAFTING_QUALITY_FHE_ADDRESS`
+ * or deployments/manifest.<network>.json. Optional variables:
+ * KEEPER_INTERVAL_SECONDS (60), KEEPER_RETRY_AFTER_SECONDS (3600) and
+ * KEEPER_ARCHIVE=false to keep settled batches.
+ */
+
+function readManifest(network: string): Deployment[] {
+  const manifestPath = path.join(
+    __dirname,
+    "..",
+    "deployments",
+    `manifest.${network}.json`,
+  );
+  if (!fs.existsSync(manifestPath)) return [];
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as {
+    chainId: number;
+    contracts: Record<string, { address: string }>;
+  };
+  return [
+    {
+      chainId: manifest.chainId,
+      contracts: Object.fromEntries(
+        Object.entries(manifest.contracts).map(([name, { address }]) => [
+          name,
+          address,
+        ]),
+      ),
+    },
+  ];
+}
+
+function readSeconds(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isSafeInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${raw}"`);
+  }
+  return value;
+}
+
+// Mock networks are served by `npx hardhat node`, whose accounts are unlocked
+async function keeperSigner(
+  network: NetworkConfig,
+  provider: JsonRpcProvider,
+): Promise<Signer> {
+  const privateKey =
+    process.env.KEEPER_PRIVATE_KEY ?? process.env.DEPLOYER_PRIVATE_KEY;
+  if (privateKey) return new Wallet(privateKey, provider);
+  if (network.fhevm.mode === "mock") return provider.getSigner(0);
+  throw new Error(
+    `Set KEEPER_PRIVATE_KEY to the account paying for keeper transactions on ${network.name}`,
+  );
+}
+
+async function main() {
+  const options = { defaultNetwork: "localhost" } as const;
+  const network = resolveNetwork(process.env, {
+    ...options,
+    deployments: readManifest(selectedNetworkName(process.env, options)!),
+  });
+  const provider = new JsonRpcProvider(network.rpcUrls[0], network.chainId);
+  const signer = await keeperSigner(network, provider);
+  const client = CraftingClient.connect(
+    requireContractAddress(network, "CraftingQualityFHE"),
+    signer,
+  );
+  const keeper = new BatchKeeper(client, {
+    retryAfter: readSeconds("KEEPER_RETRY_AFTER_SECONDS", 60 * 60),
+    archive: process.env.KEEPER_ARCHIVE !== "false",
+    log: (message) => console.log(`[${new Date().toISOString()}] ${message}`),
+  });
+  console.log(
+    `Keeping batches of ${await client.getAddress()} on ${network.name} as ${await signer.getAddress()}`,
+  );
+
+  if (process.argv.includes("--once")) {
+    const actions = await keeper.runOnce();
+    console.log(`Sent ${actions.length} transaction(s)`);
+  } else {
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    process.once("SIGTERM", () => controller.abort());
+    await keeper.run(
+      readSeconds("KEEPER_INTERVAL_SECONDS", 60) * 1000,
+      controller.signal,
+    );
+  }
+  provider.destroy();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
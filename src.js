@@ -1,3 +0,0 @@
-import { useState, useEffect } from 'react';
-
-export const order = () => { return null; };
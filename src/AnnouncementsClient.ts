@@ -0,0 +1,245 @@
+import {
+  AddressLike,
+  BaseContract,
+  BigNumberish,
+  ContractEventPayload,
+  ContractRunner,
+  ContractTransactionReceipt,
+} from "ethers";
+import {
+  CraftingAnnouncements,
+  CraftingAnnouncements__factory,
+} from "../types";
+import { CraftingError } from "./errors";
+import { parseEvents, sendAndWait } from "./transactions";
+
+export type AnnouncementPriority = "low" | "medium" | "high";
+
+// Same order as CraftingAnnouncements.Priority
+export const ANNOUNCEMENT_PRIORITIES: readonly AnnouncementPriority[] = [
+  "low",
+  "medium",
+  "high",
+];
+
+export interface Announcement {
+  id: bigint;
+  publisher: string;
+  title: string;
+  content: string;
+  priority: AnnouncementPriority;
+  /** Linked crafting batch, null when the announcement is not about one */
+  batchId: bigint | null;
+  createdAt: number;
+  /** Unix seconds, null for announcements that never expire */
+  expiresAt: number | null;
+  withdrawn: boolean;
+}
+
+export interface NewAnnouncement {
+  title: string;
+  content: string;
+  priority: AnnouncementPriority;
+  batchId?: BigNumberish;
+  expiresAt?: number;
+}
+
+export interface PublishedAnnouncement {
+  announcement: Announcement;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface AnnouncementPage {
+  /** Newest first */
+  announcements: Announcement[];
+  /** Pass to the next loadPage call, null once the oldest page was loaded */
+  nextCursor: bigint | null;
+}
+
+export interface LoadPageOptions {
+  pageSize?: number;
+  /** Keep withdrawn and expired announcements */
+  includeInactive?: boolean;
+}
+
+export type AnnouncementListener = (announcement: Announcement) => void;
+
+export interface SubscribeOptions {
+  /**
+   * Called when an announcement cannot be refreshed after its event, or the
+   * listener throws. Logged with console.error by default.
+   */
+  onError?: (error: unknown) => void;
+}
+
+const DEFAULT_PAGE_SIZE = 10;
+
+function toAnnouncement(
+  raw: CraftingAnnouncements.AnnouncementStructOutput,
+): Announcement {
+  return {
+    id: raw.id,
+    publisher: raw.publisher,
+    title: raw.title,
+    content: raw.content,
+    priority: ANNOUNCEMENT_PRIORITIES[Number(raw.priority)],
+    batchId: raw.batchId === 0n ? null : raw.batchId,
+    createdAt: Number(raw.createdAt),
+    expiresAt: raw.expiresAt === 0n ? null : Number(raw.expiresAt),
+    withdrawn: raw.withdrawn,
+  };
+}
+
+/** Whether the announcement should still be shown at `now` (unix seconds). */
+export function isAnnouncementActive(
+  announcement: Announcement,
+  now = Math.floor(Date.now() / 1000),
+): boolean {
+  return (
+    !announcement.withdrawn &&
+    (announcement.expiresAt === null || announcement.expiresAt > now)
+  );
+}
+
+export class AnnouncementsClient {
+  readonly contract: CraftingAnnouncements;
+
+  constructor(contract: CraftingAnnouncements) {
+    this.contract = contract;
+  }
+
+  static connect(address: string, runner: ContractRunner): AnnouncementsClient {
+    return new AnnouncementsClient(
+      CraftingAnnouncements__factory.connect(address, runner),
+    );
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  async announcementCount(): Promise<bigint> {
+    return this.contract.announcementCount();
+  }
+
+  async getAnnouncement(announcementId: BigNumberish): Promise<Announcement> {
+    return toAnnouncement(await this.contract.getAnnouncement(announcementId));
+  }
+
+  /**
+   * One page of announcements, newest first. `cursor` is the id the page
+   * starts below; omit it for the latest page. Inactive announcements are
+   * filtered after fetching, so a page may hold fewer than `pageSize`.
+   */
+  async loadPage(
+    cursor?: bigint,
+    options: LoadPageOptions = {},
+  ): Promise<AnnouncementPage> {
+    const pageSize = BigInt(options.pageSize ?? DEFAULT_PAGE_SIZE);
+    const before = cursor ?? (await this.announcementCount()) + 1n;
+    const offset = before - 1n > pageSize ? before - 1n - pageSize : 0n;
+    const page =
+      before > 1n
+        ? await this.contract.getAnnouncements(offset, before - 1n - offset)
+        : [];
+    // Expiry is judged on chain time, like the contract's isActive
+    const now = options.includeInactive ? 0 : await this.chainTime();
+    const announcements = page
+      .map(toAnnouncement)
+      .reverse()
+      .filter((a) => options.includeInactive || isAnnouncementActive(a, now));
+    return {
+      announcements,
+      nextCursor: offset > 0n ? offset + 1n : null,
+    };
+  }
+
+  private async chainTime(): Promise<number> {
+    const block = await this.contract.runner?.provider?.getBlock("latest");
+    return block?.timestamp ?? Math.floor(Date.now() / 1000);
+  }
+
+  async isPublisher(account: AddressLike): Promise<boolean> {
+    return this.contract.isPublisher(account);
+  }
+
+  /** Owner or publisher only. */
+  async publish(
+    newAnnouncement: NewAnnouncement,
+  ): Promise<PublishedAnnouncement> {
+    const receipt = await sendAndWait(() =>
+      this.contract.publish(
+        newAnnouncement.title,
+        newAnnouncement.content,
+        ANNOUNCEMENT_PRIORITIES.indexOf(newAnnouncement.priority),
+        newAnnouncement.batchId ?? 0,
+        newAnnouncement.expiresAt ?? 0,
+      ),
+    );
+    const [event] = parseEvents(
+      this.contract.interface,
+      receipt,
+      "AnnouncementPublished",
+    );
+    if (!event) {
+      throw new CraftingError("publish did not emit AnnouncementPublished");
+    }
+    return {
+      announcement: await this.getAnnouncement(event.args.announcementId),
+      receipt,
+    };
+  }
+
+  /** Publisher of the announcement or owner only. */
+  async withdraw(
+    announcementId: BigNumberish,
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.withdraw(announcementId));
+  }
+
+  /** Owner only. */
+  async addPublisher(
+    publisher: AddressLike,
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.addPublisher(publisher));
+  }
+
+  /** Owner only. */
+  async removePublisher(
+    publisher: AddressLike,
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.removePublisher(publisher));
+  }
+
+  /**
+   * Calls `listener` with the current state of every announcement published
+   * or withdrawn from now on. Returns the function removing the subscription.
+   */
+  subscribe(
+    listener: AnnouncementListener,
+    options: SubscribeOptions = {},
+  ): () => void {
+    const onError =
+      options.onError ??
+      ((e) => console.error("Announcement refresh failed:", e));
+    const contract = this.contract as BaseContract;
+    const filters = [
+      this.contract.filters.AnnouncementPublished(),
+      this.contract.filters.AnnouncementWithdrawn(),
+    ];
+    const onEvent = (...args: unknown[]) => {
+      const { log } = args[args.length - 1] as ContractEventPayload;
+      this.getAnnouncement(log.args.announcementId)
+        .then(listener)
+        .catch(onError);
+    };
+    for (const filter of filters) {
+      void contract.on(filter, onEvent);
+    }
+    return () => {
+      for (const filter of filters) {
+        void contract.off(filter, onEvent);
+      }
+    };
+  }
+}
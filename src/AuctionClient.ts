@@ -0,0 +1,338 @@
+import {
+  AddressLike,
+  BaseContract,
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ZeroAddress,
+} from "ethers";
+import {
+  ItemRegistryFHE__factory,
+  MasterpieceAuction,
+  MasterpieceAuction__factory,
+} from "../types";
+import { FhevmEncryptor } from "./CraftingClient";
+import { CraftingError } from "./errors";
+import { WaitForRevealOptions } from "./ItemRegistryClient";
+import {
+  parseEvents,
+  requireSigner,
+  sendAndWait,
+  waitForEvent,
+} from "./transactions";
+
+export type AuctionStatus = "open" | "closing" | "settled" | "cancelled";
+
+// Same order as MasterpieceAuction.AuctionStatus
+export const AUCTION_STATUSES: readonly AuctionStatus[] = [
+  "open",
+  "closing",
+  "settled",
+  "cancelled",
+];
+
+/**
+ * Wei per unit of the contract's prices (MasterpieceAuction.PRICE_UNIT).
+ * The client takes and returns wei, which must be whole units.
+ */
+export const AUCTION_PRICE_UNIT = 10n ** 9n;
+
+export interface Auction {
+  id: bigint;
+  itemId: bigint;
+  seller: string;
+  /** In wei, bids below it count as zero */
+  reservePrice: bigint;
+  endTime: number;
+  status: AuctionStatus;
+  /** While closing, when anyone may cancel it if the oracle has not answered. Null otherwise */
+  closeDeadline: number | null;
+  bidCount: number;
+  /** Null until settled, and when nobody placed a valid bid */
+  winner: string | null;
+  /** Winning bid in wei, null until settled with a winner */
+  clearingPrice: bigint | null;
+}
+
+export interface PlacedBid {
+  /** Public ETH deposit, caps the bid */
+  deposit: bigint;
+  /** Handle of the bid as it competed, zero if it was invalid. Readable by the bidder */
+  encryptedAmount: string;
+  withdrawn: boolean;
+}
+
+export interface NewAuction {
+  itemId: BigNumberish;
+  /** In wei, a whole number of AUCTION_PRICE_UNIT */
+  reservePrice: bigint;
+  /** In seconds */
+  duration: number;
+}
+
+export interface NewBid {
+  auctionId: BigNumberish;
+  /**
+   * Sealed amount in wei, encrypted before leaving the client. A whole
+   * number of AUCTION_PRICE_UNIT, at most about 18.4 billion ETH
+   */
+  amount: bigint;
+  /** ETH sent along, must cover `amount` for the bid to count */
+  deposit: bigint;
+}
+
+export interface CreatedAuction {
+  auction: Auction;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface AuctionCloseRequest {
+  auctionId: bigint;
+  /** Null when the auction had no bids and settled in the same transaction */
+  requestId: bigint | null;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface AuctionSettlement {
+  auctionId: bigint;
+  winner: string | null;
+  clearingPrice: bigint | null;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+const MAX_PRICE = MAX_UINT64 * AUCTION_PRICE_UNIT;
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_CLOSE_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Wei to the contract's price units, rejecting amounts it cannot represent
+function toPriceUnits(wei: bigint, label: string): bigint {
+  if (wei < 0n || wei > MAX_PRICE || wei % AUCTION_PRICE_UNIT !== 0n) {
+    throw new CraftingError(
+      `${label} must be a whole number of gwei between 0 and ${MAX_PRICE} wei, got ${wei}`,
+    );
+  }
+  return wei / AUCTION_PRICE_UNIT;
+}
+
+function toAuction(raw: MasterpieceAuction.AuctionStructOutput): Auction {
+  const status = AUCTION_STATUSES[Number(raw.status)];
+  const winner = raw.winner === ZeroAddress ? null : raw.winner;
+  return {
+    id: raw.id,
+    itemId: raw.itemId,
+    seller: raw.seller,
+    reservePrice: raw.reservePrice * AUCTION_PRICE_UNIT,
+    endTime: Number(raw.endTime),
+    status,
+    closeDeadline: status === "closing" ? Number(raw.closeDeadline) : null,
+    bidCount: Number(raw.bidCount),
+    winner,
+    clearingPrice: winner ? raw.clearingPrice * AUCTION_PRICE_UNIT : null,
+  };
+}
+
+export class AuctionClient {
+  readonly contract: MasterpieceAuction;
+  private readonly fhevm?: FhevmEncryptor;
+
+  constructor(contract: MasterpieceAuction, fhevm?: FhevmEncryptor) {
+    this.contract = contract;
+    this.fhevm = fhevm;
+  }
+
+  static connect(
+    address: string,
+    runner: ContractRunner,
+    fhevm?: FhevmEncryptor,
+  ): AuctionClient {
+    return new AuctionClient(
+      MasterpieceAuction__factory.connect(address, runner),
+      fhevm,
+    );
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  async getAuction(auctionId: BigNumberish): Promise<Auction> {
+    return toAuction(await this.contract.getAuction(auctionId));
+  }
+
+  /** Every auction, newest first, fetched `pageSize` at a time. */
+  async loadAuctions(pageSize = DEFAULT_PAGE_SIZE): Promise<Auction[]> {
+    const count = await this.contract.auctionCount();
+    const auctions: Auction[] = [];
+    for (let offset = 0n; offset < count; offset += BigInt(pageSize)) {
+      const page = await this.contract.getAuctions(offset, pageSize);
+      auctions.push(...page.map(toAuction));
+    }
+    return auctions.sort((a, b) => Number(b.id - a.id));
+  }
+
+  /** The account's bid, null if it did not bid. */
+  async bidOf(
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+  ): Promise<PlacedBid | null> {
+    const raw = await this.contract.bidOf(auctionId, bidder);
+    if (raw.deposit === 0n) return null;
+    return {
+      deposit: raw.deposit,
+      encryptedAmount: raw.amount,
+      withdrawn: raw.withdrawn,
+    };
+  }
+
+  /** Wei the account can withdraw from a settled or cancelled auction. */
+  async withdrawableOf(
+    auctionId: BigNumberish,
+    account: AddressLike,
+  ): Promise<bigint> {
+    return this.contract.withdrawableOf(auctionId, account);
+  }
+
+  /**
+   * Puts one of the connected account's revealed masterpieces up for
+   * auction, approving the auction contract for it first if needed.
+   */
+  async createAuction(newAuction: NewAuction): Promise<CreatedAuction> {
+    const reservePrice = toPriceUnits(newAuction.reservePrice, "Reserve price");
+    const signer = requireSigner(this.contract.runner, "AuctionClient");
+    const auctionAddress = await this.getAddress();
+    const registry = ItemRegistryFHE__factory.connect(
+      await this.contract.registry(),
+      signer,
+    );
+    const approved =
+      (await registry.getApproved(newAuction.itemId)) === auctionAddress ||
+      (await registry.isApprovedForAll(
+        await signer.getAddress(),
+        auctionAddress,
+      ));
+    if (!approved) {
+      await sendAndWait(() =>
+        registry.approve(auctionAddress, newAuction.itemId),
+      );
+    }
+
+    const receipt = await sendAndWait(() =>
+      this.contract.createAuction(
+        newAuction.itemId,
+        reservePrice,
+        newAuction.duration,
+      ),
+    );
+    const [event] = parseEvents(
+      this.contract.interface,
+      receipt,
+      "AuctionCreated",
+    );
+    if (!event) {
+      throw new CraftingError("createAuction did not emit AuctionCreated");
+    }
+    return { auction: await this.getAuction(event.args.auctionId), receipt };
+  }
+
+  /**
+   * Encrypts the bid for the connected account and places it with
+   * `deposit` as value. A bid above the deposit or below the reserve is
+   * accepted but counts as zero, the contract cannot tell the bidder.
+   */
+  async placeBid(newBid: NewBid): Promise<ContractTransactionReceipt> {
+    if (!this.fhevm) {
+      throw new CraftingError(
+        "AuctionClient was created without an FHEVM instance",
+      );
+    }
+    const amount = toPriceUnits(newBid.amount, "Bid");
+    if (amount === 0n) {
+      throw new CraftingError("Bid must be positive");
+    }
+    if (newBid.amount > newBid.deposit) {
+      throw new CraftingError("The deposit must cover the bid");
+    }
+    const signer = requireSigner(this.contract.runner, "AuctionClient");
+    const { handles, inputProof } = await this.fhevm
+      .createEncryptedInput(await this.getAddress(), await signer.getAddress())
+      .add64(amount)
+      .encrypt();
+    return sendAndWait(() =>
+      this.contract.bid(newBid.auctionId, handles[0], inputProof, {
+        value: newBid.deposit,
+      }),
+    );
+  }
+
+  /** Seller only, while nobody has bid. */
+  async cancel(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.cancel(auctionId));
+  }
+
+  /**
+   * Closes an ended auction. With bids, the oracle decrypts the winner and
+   * the clearing price, wait for it with waitForSettlement.
+   */
+  async close(auctionId: BigNumberish): Promise<AuctionCloseRequest> {
+    const receipt = await sendAndWait(() => this.contract.close(auctionId));
+    const [event] = parseEvents(
+      this.contract.interface,
+      receipt,
+      "AuctionClosing",
+    );
+    return {
+      auctionId: BigInt(auctionId),
+      requestId: event ? event.args.requestId : null,
+      receipt,
+    };
+  }
+
+  /** Resolves once the auction settled, whether it was closed already or not. */
+  async waitForSettlement(
+    auctionId: BigNumberish,
+    options: WaitForRevealOptions = {},
+  ): Promise<AuctionSettlement> {
+    const id = BigInt(auctionId);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_CLOSE_TIMEOUT_MS;
+    return waitForEvent(
+      this.contract as BaseContract,
+      this.contract.filters.AuctionSettled(id),
+      (log) => {
+        const winner = log.args.winner === ZeroAddress ? null : log.args.winner;
+        return {
+          auctionId: log.args.auctionId,
+          winner,
+          clearingPrice: winner
+            ? log.args.clearingPrice * AUCTION_PRICE_UNIT
+            : null,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+        };
+      },
+      {
+        timeoutMs,
+        fromBlock: options.fromBlock,
+        onTimeout: () =>
+          new CraftingError(`Auction ${id} not settled after ${timeoutMs}ms`),
+      },
+    );
+  }
+
+  /**
+   * Cancels an auction whose close the oracle left unanswered past its
+   * `closeDeadline`. The item returns to the seller and every deposit
+   * becomes withdrawable in full.
+   */
+  async cancelStalledClose(
+    auctionId: BigNumberish,
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.cancelStalledClose(auctionId));
+  }
+
+  /** Refunds the deposit, or pays the seller, once the auction settled or was cancelled. */
+  async withdraw(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.withdraw(auctionId));
+  }
+}
@@ -0,0 +1,165 @@
+import { BatchInfo, CraftingClient } from "./CraftingClient";
+import { CraftingError } from "./errors";
+import { requireSigner, sleep } from "./transactions";
+
+export type KeeperActionKind =
+  | "close"
+  | "requestDecryption"
+  | "requestStatsDecryption"
+  | "archive";
+
+export interface KeeperAction {
+  kind: KeeperActionKind;
+  batchId: bigint;
+  transactionHash: string;
+}
+
+export interface BatchKeeperOptions {
+  /** Seconds after which an unanswered sum or stats decryption request is sent again */
+  retryAfter?: number;
+  /** Archive settled batches, on by default */
+  archive?: boolean;
+  log?: (message: string) => void;
+}
+
+const DEFAULT_RETRY_AFTER = 60 * 60;
+
+/**
+ * Drives the batch lifecycle of CraftingQualityFHE: closes batches past
+ * their expiry or size limit, asks the oracle to reveal the quality sum and
+ * then the stats of closed batches, and archives the settled ones, which
+ * drops whatever is still encrypted. Batches below the decryption minimum
+ * are archived without a reveal, those below the stats minimum without a
+ * stats reveal. Every step is permissionless, any funded account can run it.
+ * Decryption requests are subject to the contract's MIN_INTERVAL cooldown, so
+ * at most one is sent per run and the others wait for the following runs.
+ */
+export class BatchKeeper {
+  readonly client: CraftingClient;
+  private readonly retryAfter: bigint;
+  private readonly archive: boolean;
+  private readonly log: (message: string) => void;
+  // Batches below it are archived and never looked at again
+  private firstLiveBatchId = 1n;
+
+  constructor(client: CraftingClient, options: BatchKeeperOptions = {}) {
+    this.client = client;
+    this.retryAfter = BigInt(options.retryAfter ?? DEFAULT_RETRY_AFTER);
+    this.archive = options.archive ?? true;
+    this.log = options.log ?? (() => {});
+  }
+
+  /** One pass over the live batches, returns the transactions it sent. */
+  async runOnce(): Promise<KeeperAction[]> {
+    const contract = this.client.contract;
+    const runner = contract.runner;
+    if (!runner?.provider) {
+      throw new CraftingError("BatchKeeper needs a runner with a provider");
+    }
+    const block = await runner.provider.getBlock("latest");
+    if (!block) {
+      throw new CraftingError("Could not read the latest block");
+    }
+    const now = BigInt(block.timestamp);
+    const [
+      currentBatchId,
+      { sizeLimit },
+      paused,
+      minInterval,
+      { minSubmissions, minStatsSubmissions },
+    ] = await Promise.all([
+      this.client.currentBatchId(),
+      this.client.batchConfig(),
+      contract.paused(),
+      contract.MIN_INTERVAL(),
+      this.client.decryptionPrivacy(),
+    ]);
+    const keeper = await requireSigner(runner, "BatchKeeper").getAddress();
+    let canRequest =
+      !paused && now >= (await contract.lastActionAt(keeper)) + minInterval;
+
+    const actions: KeeperAction[] = [];
+    const act = async (
+      kind: KeeperActionKind,
+      batchId: bigint,
+      send: () => Promise<{ hash: string }>,
+    ) => {
+      try {
+        const { hash } = await send();
+        actions.push({ kind, batchId, transactionHash: hash });
+        this.log(`${kind} batch ${batchId} (${hash})`);
+        return true;
+      } catch (e) {
+        this.log(`${kind} batch ${batchId} failed: ${(e as Error).message}`);
+        return false;
+      }
+    };
+
+    const due = (requestedAt: bigint) =>
+      requestedAt === 0n || now >= requestedAt + this.retryAfter;
+
+    let contiguous = true;
+    for (let id = this.firstLiveBatchId; id <= currentBatchId; id++) {
+      let batch = await this.client.getBatch(id);
+      if (batch.active && !paused && isDue(batch, now, sizeLimit)) {
+        if (await act("close", id, () => this.client.closeDueBatch(id))) {
+          batch = await this.client.getBatch(id);
+        }
+      }
+      if (batch.active || batch.archived) {
+        if (batch.archived && contiguous) this.firstLiveBatchId = id + 1n;
+        contiguous &&= batch.archived;
+        continue;
+      }
+      contiguous = false;
+
+      // Batches below the decryption minimum are archived unrevealed
+      const revealable = batch.submissionCount >= minSubmissions;
+      if (revealable && batch.qualityScore === null) {
+        if (due(batch.decryptionRequestedAt) && canRequest) {
+          canRequest = false;
+          await act("requestDecryption", id, async () => ({
+            hash: (await this.client.requestBatchDecryption(id)).receipt.hash,
+          }));
+        }
+        continue;
+      }
+      // Stats are only revealed from the stricter stats minimum on
+      const stats =
+        batch.submissionCount >= minStatsSubmissions
+          ? await this.client.getBatchStats(id)
+          : null;
+      if (stats && stats.revealed === null) {
+        if (due(stats.decryptionRequestedAt) && canRequest) {
+          canRequest = false;
+          await act("requestStatsDecryption", id, async () => ({
+            hash: (await this.client.requestBatchStatsDecryption(id)).receipt
+              .hash,
+          }));
+        }
+      } else if (this.archive) {
+        await act("archive", id, () => this.client.archiveBatch(id));
+      }
+    }
+    return actions;
+  }
+
+  /** Runs a pass every `intervalMs` until `signal` aborts. */
+  async run(intervalMs: number, signal?: AbortSignal): Promise<void> {
+    while (!signal?.aborted) {
+      try {
+        await this.runOnce();
+      } catch (e) {
+        this.log(`Keeper pass failed: ${(e as Error).message}`);
+      }
+      await sleep(intervalMs, signal);
+    }
+  }
+}
+
+function isDue(batch: BatchInfo, now: bigint, sizeLimit: bigint): boolean {
+  return (
+    (batch.expiresAt !== 0n && now >= batch.expiresAt) ||
+    batch.submissionCount >= sizeLimit
+  );
+}
@@ -0,0 +1,669 @@
+import {
+  AddressLike,
+  BaseContract,
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  LogDescription,
+  Signer,
+} from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/node";
+import { CraftingQualityFHE, CraftingQualityFHE__factory } from "../types";
+import { CraftingError, DecryptionTimeoutError } from "./errors";
+import {
+  parseEvents,
+  requireSigner,
+  sendAndWait,
+  waitForEvent,
+} from "./transactions";
+
+/**
+ * Anything able to build encrypted inputs: a relayer-sdk instance, the
+ * FHEVM mock instance, or `hre.fhevm` inside hardhat.
+ */
+export type FhevmEncryptor = Pick<FhevmInstance, "createEncryptedInput">;
+
+export interface BatchInfo {
+  id: bigint;
+  active: boolean;
+  createdAt: bigint;
+  closedAt: bigint;
+  submissionCount: bigint;
+  qualityAccumulator: string;
+  /** 0 when the batch has no time limit */
+  expiresAt: bigint;
+  /** Last decryption request, 0 if none */
+  decryptionRequestedAt: bigint;
+  /** Revealed quality sum, null until the oracle answered */
+  qualityScore: bigint | null;
+  archived: boolean;
+  /** Model version the batch accumulates under, the current one when it opened */
+  modelVersion: bigint;
+  /**
+   * Exclusive upper bound of the uniform noise added to the revealed score,
+   * fixed when the batch opened. 0 when the score is the exact sum.
+   */
+  noiseBound: bigint;
+}
+
+export interface BatchConfig {
+  /** Lifetime of newly opened batches in seconds, 0 for no time limit */
+  duration: bigint;
+  /** Submissions after which a batch closes */
+  sizeLimit: bigint;
+}
+
+/**
+ * Statistics of the raw qualities submitted to a batch, kept encrypted on
+ * chain and revealed together by one decryption request.
+ */
+export interface BatchStats {
+  batchId: bigint;
+  /** Quality from which a submission counts as a masterpiece, fixed when the batch opened */
+  masterpieceThreshold: bigint;
+  /** Last stats decryption request, 0 if none */
+  decryptionRequestedAt: bigint;
+  /** Ciphertext handles, zero once the batch is archived */
+  encrypted: {
+    maxQuality: string;
+    minQuality: string;
+    masterpieceCount: string;
+    histogram: string[];
+  };
+  /** Null until the oracle answered a stats decryption request */
+  revealed: RevealedBatchStats | null;
+}
+
+export interface RevealedBatchStats {
+  maxQuality: bigint;
+  minQuality: bigint;
+  /** Submissions at or above the masterpiece threshold */
+  masterpieceCount: bigint;
+  /** Submissions per bucket, in histogramBuckets() order */
+  histogram: bigint[];
+}
+
+/** Qualities from `from` included to `to` excluded, `to` is null for the last bucket. */
+export interface HistogramBucket {
+  from: bigint;
+  to: bigint | null;
+}
+
+export interface DecryptionPrivacy {
+  /** Batches with fewer submissions cannot be decrypted */
+  minSubmissions: bigint;
+  /**
+   * Stricter floor for the stats reveal, at least `minSubmissions`. The
+   * max, min and histogram are revealed exactly, without noise.
+   */
+  minStatsSubmissions: bigint;
+  /** Noise bound of batches opened afterwards, 0 for exact sums, else odd */
+  noiseBound: bigint;
+}
+
+/** Each submission adds `quality * weight + bonus` to its batch. */
+export interface QualityModel {
+  version: bigint;
+  weight: bigint;
+  bonus: bigint;
+}
+
+export interface CraftingProvider {
+  address: string;
+  /** Seconds between two submissions, 0 when the MIN_INTERVAL default applies */
+  cooldown: bigint;
+  lastActionAt: bigint;
+  /** Block of the ProviderAdded event that registered it last */
+  addedAtBlock: number;
+}
+
+export interface Submission {
+  batchId: bigint;
+  crafter: string;
+  encryptedQuality: string;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface DecryptionRequest {
+  requestId: bigint;
+  batchId: bigint;
+  requester: string;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface DecryptionResult {
+  requestId: bigint;
+  batchId: bigint;
+  /**
+   * Estimate of the quality sum: the revealed score minus the mean noise
+   * `noiseOffset(noiseBound)`, never below 0. Equal to `revealedScore` for
+   * batches without noise.
+   */
+  qualityScore: bigint;
+  /** Score as revealed by the oracle, including the noise */
+  revealedScore: bigint;
+  /** Model version whose formula produced the score */
+  modelVersion: bigint;
+  /** The revealed score includes a uniform draw in [0, noiseBound), 0 for none */
+  noiseBound: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface StatsDecryptionResult extends RevealedBatchStats {
+  requestId: bigint;
+  batchId: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface WaitForDecryptionOptions {
+  timeoutMs?: number;
+  fromBlock?: number;
+}
+
+const DEFAULT_DECRYPTION_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_UINT32 = 0xffffffff;
+
+/**
+ * Mean of the uniform noise in [0, noiseBound) added to a revealed score.
+ * The contract only accepts odd bounds, so the offset is a whole number.
+ */
+export function noiseOffset(noiseBound: bigint): bigint {
+  return noiseBound === 0n ? 0n : (noiseBound - 1n) / 2n;
+}
+
+export class CraftingClient {
+  readonly contract: CraftingQualityFHE;
+  private readonly fhevm?: FhevmEncryptor;
+
+  constructor(contract: CraftingQualityFHE, fhevm?: FhevmEncryptor) {
+    this.contract = contract;
+    this.fhevm = fhevm;
+  }
+
+  static connect(
+    address: string,
+    runner: ContractRunner,
+    fhevm?: FhevmEncryptor,
+  ): CraftingClient {
+    return new CraftingClient(
+      CraftingQualityFHE__factory.connect(address, runner),
+      fhevm,
+    );
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  async getBatch(batchId: BigNumberish): Promise<BatchInfo> {
+    const batch = await this.contract.batches(batchId);
+    return {
+      id: batch.id,
+      active: batch.active,
+      createdAt: batch.createdAt,
+      closedAt: batch.closedAt,
+      submissionCount: batch.submissionCount,
+      qualityAccumulator: batch.qualityAccumulator,
+      expiresAt: batch.expiresAt,
+      decryptionRequestedAt: batch.decryptionRequestedAt,
+      qualityScore: batch.revealed ? batch.qualityScore : null,
+      archived: batch.archived,
+      modelVersion: batch.modelVersion,
+      noiseBound: batch.noiseBound,
+    };
+  }
+
+  async getBatchStats(batchId: BigNumberish): Promise<BatchStats> {
+    const stats = await this.contract.getBatchStats(batchId);
+    const { revealedStats } = stats;
+    return {
+      batchId: BigInt(batchId),
+      masterpieceThreshold: stats.masterpieceThreshold,
+      decryptionRequestedAt: stats.decryptionRequestedAt,
+      encrypted: {
+        maxQuality: stats.maxQuality,
+        minQuality: stats.minQuality,
+        masterpieceCount: stats.masterpieceCount,
+        histogram: [...stats.histogram],
+      },
+      revealed: stats.revealed
+        ? {
+            maxQuality: revealedStats.maxQuality,
+            minQuality: revealedStats.minQuality,
+            masterpieceCount: revealedStats.masterpieceCount,
+            histogram: [...revealedStats.histogram],
+          }
+        : null,
+    };
+  }
+
+  /** Quality ranges of the histogram buckets, lowest first. */
+  async histogramBuckets(): Promise<HistogramBucket[]> {
+    const [count, width] = await Promise.all([
+      this.contract.HISTOGRAM_BUCKETS(),
+      this.contract.HISTOGRAM_BUCKET_WIDTH(),
+    ]);
+    return Array.from({ length: Number(count) }, (_, i) => ({
+      from: BigInt(i) * width,
+      to: BigInt(i) + 1n < count ? (BigInt(i) + 1n) * width : null,
+    }));
+  }
+
+  async currentBatchId(): Promise<bigint> {
+    return this.contract.currentBatchId();
+  }
+
+  /** Every batch, newest first. */
+  async loadBatches(): Promise<BatchInfo[]> {
+    const ids: bigint[] = [];
+    for (let id = await this.currentBatchId(); id > 0n; id--) ids.push(id);
+    return Promise.all(ids.map((id) => this.getBatch(id)));
+  }
+
+  async owner(): Promise<string> {
+    return this.contract.owner();
+  }
+
+  async paused(): Promise<boolean> {
+    return this.contract.paused();
+  }
+
+  async modelVersion(): Promise<bigint> {
+    return this.contract.modelVersion();
+  }
+
+  /**
+   * Registered providers, rebuilt from ProviderAdded and ProviderRemoved
+   * events, in the order they were last added.
+   */
+  async providers(fromBlock = 0): Promise<CraftingProvider[]> {
+    const [added, removed] = await Promise.all([
+      this.contract.queryFilter(
+        this.contract.filters.ProviderAdded(),
+        fromBlock,
+      ),
+      this.contract.queryFilter(
+        this.contract.filters.ProviderRemoved(),
+        fromBlock,
+      ),
+    ]);
+    const events = [
+      ...added.map((log) => ({ log, active: true })),
+      ...removed.map((log) => ({ log, active: false })),
+    ].sort(
+      (a, b) =>
+        a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index,
+    );
+
+    const active = new Map<string, number>();
+    for (const { log, active: isAdded } of events) {
+      const provider = log.args.provider;
+      if (isAdded && !active.has(provider)) {
+        active.set(provider, log.blockNumber);
+      } else if (!isAdded) {
+        active.delete(provider);
+      }
+    }
+    return Promise.all(
+      [...active].map(async ([address, addedAtBlock]) => ({
+        address,
+        cooldown: await this.contract.userCooldowns(address),
+        lastActionAt: await this.contract.lastActionAt(address),
+        addedAtBlock,
+      })),
+    );
+  }
+
+  /** Owner only. */
+  async addProvider(
+    provider: AddressLike,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.addProvider(provider));
+  }
+
+  /** Owner only. */
+  async removeProvider(
+    provider: AddressLike,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.removeProvider(provider));
+  }
+
+  /** Owner only, blocks submissions and decryption requests while paused. */
+  async setPaused(paused: boolean): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.setPaused(paused));
+  }
+
+  /** Owner only, a `cooldown` of 0 restores the MIN_INTERVAL default. */
+  async setUserCooldown(
+    user: AddressLike,
+    cooldown: BigNumberish,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.setUserCooldown(user, cooldown));
+  }
+
+  /** The registered model `version`, null if there is none. */
+  async qualityModel(version: BigNumberish): Promise<QualityModel | null> {
+    const model = await this.contract.qualityModels(version);
+    if (!model.registered) return null;
+    return {
+      version: BigInt(version),
+      weight: model.weight,
+      bonus: model.bonus,
+    };
+  }
+
+  /** Every registered model, rebuilt from ModelRegistered events. */
+  async qualityModels(fromBlock = 0): Promise<QualityModel[]> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.ModelRegistered(),
+      fromBlock,
+    );
+    return logs
+      .map((log) => ({
+        version: log.args.version,
+        weight: log.args.weight,
+        bonus: log.args.bonus,
+      }))
+      .sort((a, b) => (a.version < b.version ? -1 : 1));
+  }
+
+  /** Owner only, a version can be registered once. */
+  async registerModel(
+    model: QualityModel,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() =>
+      this.contract.registerModel(model.version, model.weight, model.bonus),
+    );
+  }
+
+  /**
+   * Owner only, `version` must be registered. Only batches opened afterwards
+   * accumulate under it: existing batches, and their pending decryptions,
+   * keep the version they opened with.
+   */
+  async setModelVersion(
+    version: BigNumberish,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.setModelVersion(version));
+  }
+
+  async decryptionPrivacy(): Promise<DecryptionPrivacy> {
+    const [minSubmissions, minStatsSubmissions, noiseBound] = await Promise.all(
+      [
+        this.contract.minBatchSubmissions(),
+        this.contract.minStatsSubmissions(),
+        this.contract.noiseBound(),
+      ],
+    );
+    return { minSubmissions, minStatsSubmissions, noiseBound };
+  }
+
+  /**
+   * Owner only. Both floors apply to every later decryption request,
+   * `noiseBound` to batches opened afterwards and must be 0 or odd.
+   */
+  async setDecryptionPrivacy(
+    privacy: DecryptionPrivacy,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() =>
+      this.contract.setDecryptionPrivacy(
+        privacy.minSubmissions,
+        privacy.minStatsSubmissions,
+        privacy.noiseBound,
+      ),
+    );
+  }
+
+  async masterpieceThreshold(): Promise<bigint> {
+    return this.contract.masterpieceThreshold();
+  }
+
+  /**
+   * Owner only, between 1 and MAX_QUALITY. Open batches keep counting
+   * masterpieces against the threshold they opened with.
+   */
+  async setMasterpieceThreshold(
+    threshold: BigNumberish,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.setMasterpieceThreshold(threshold));
+  }
+
+  /** Owner only, hands every owner operation over to `newOwner`. */
+  async transferOwnership(
+    newOwner: AddressLike,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.transferOwnership(newOwner));
+  }
+
+  async batchConfig(): Promise<BatchConfig> {
+    const [duration, sizeLimit] = await Promise.all([
+      this.contract.batchDuration(),
+      this.contract.batchSizeLimit(),
+    ]);
+    return { duration, sizeLimit };
+  }
+
+  /** Owner only. `duration` only applies to batches opened afterwards. */
+  async setBatchConfig(
+    config: BatchConfig,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() =>
+      this.contract.setBatchConfig(config.duration, config.sizeLimit),
+    );
+  }
+
+  /** Opens a new batch (owner only) and returns its id. */
+  async openBatch(): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.openNewBatch());
+    const [event] = this.parseEvents(receipt, "BatchOpened");
+    if (!event) {
+      throw new CraftingError("openNewBatch did not emit BatchOpened");
+    }
+    return event.args.batchId;
+  }
+
+  /** Closes an active batch (owner only). */
+  async closeBatch(batchId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.closeBatch(batchId));
+  }
+
+  /**
+   * Closes a batch past its expiry or size limit, open to anyone. The next
+   * batch opens when it was the current one.
+   */
+  async closeDueBatch(
+    batchId: BigNumberish,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.closeDueBatch(batchId));
+  }
+
+  /**
+   * Drops the accumulator and stats of a batch whose score and stats were
+   * both revealed, or of one below the decryption minimum, open to anyone.
+   */
+  async archiveBatch(
+    batchId: BigNumberish,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.archiveBatch(batchId));
+  }
+
+  /**
+   * Encrypts `value` for the connected provider and submits it to `batchId`.
+   * The clear value never leaves this process. When `batchId` is closed, or
+   * past its expiry or size limit, the submission lands in the current
+   * batch, opened first if needed, and the returned `batchId` is the one it
+   * was recorded in. Only unknown batch ids revert, with BatchNotActive.
+   */
+  async submitQuality(
+    batchId: BigNumberish,
+    value: number | bigint,
+  ): Promise<Submission> {
+    if (!this.fhevm) {
+      throw new CraftingError(
+        "CraftingClient was created without an FHEVM instance",
+      );
+    }
+    if (
+      value < 0 ||
+      value > MAX_UINT32 ||
+      (typeof value === "number" && !Number.isInteger(value))
+    ) {
+      throw new CraftingError(`Quality must be a uint32, got ${value}`);
+    }
+    const crafter = await this.signer().getAddress();
+    const { handles, inputProof } = await this.fhevm
+      .createEncryptedInput(await this.getAddress(), crafter)
+      .add32(value)
+      .encrypt();
+
+    const receipt = await this.send(() =>
+      this.contract.submitCraftingQuality(batchId, handles[0], inputProof),
+    );
+    const [event] = this.parseEvents(receipt, "CraftingSubmitted");
+    if (!event) {
+      throw new CraftingError(
+        "submitCraftingQuality did not emit CraftingSubmitted",
+      );
+    }
+    return {
+      batchId: event.args.batchId,
+      crafter: event.args.crafter,
+      encryptedQuality: event.args.encryptedQuality,
+      receipt,
+    };
+  }
+
+  /**
+   * Asks the decryption oracle to reveal the quality sum of a closed batch,
+   * plus the batch's noise when its `noiseBound` is not 0. The batch needs
+   * at least `minSubmissions` submissions.
+   */
+  async requestBatchDecryption(
+    batchId: BigNumberish,
+  ): Promise<DecryptionRequest> {
+    const receipt = await this.send(() =>
+      this.contract.requestBatchQualityDecryption(batchId),
+    );
+    const [event] = this.parseEvents(receipt, "DecryptionRequested");
+    if (!event) {
+      throw new CraftingError(
+        "requestBatchQualityDecryption did not emit DecryptionRequested",
+      );
+    }
+    return {
+      requestId: event.args.requestId,
+      batchId: event.args.batchId,
+      requester: event.args.requester,
+      receipt,
+    };
+  }
+
+  /**
+   * Resolves once the oracle callback has emitted DecryptionCompleted for
+   * `requestId`. Past events are checked first, so calling this after the
+   * callback landed resolves immediately. `modelVersion` and `noiseBound`
+   * are read from the batch, and `qualityScore` is corrected for the mean
+   * noise of noisy batches.
+   */
+  async waitForDecryption(
+    requestId: BigNumberish,
+    options: WaitForDecryptionOptions = {},
+  ): Promise<DecryptionResult> {
+    const id = BigInt(requestId);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_DECRYPTION_TIMEOUT_MS;
+    const result = await waitForEvent(
+      this.contract as BaseContract,
+      this.contract.filters.DecryptionCompleted(id),
+      (log) => ({
+        requestId: log.args.requestId,
+        batchId: log.args.batchId,
+        revealedScore: log.args.qualityScore,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      }),
+      {
+        timeoutMs,
+        fromBlock: options.fromBlock,
+        onTimeout: () => new DecryptionTimeoutError(id, timeoutMs),
+      },
+    );
+    const { modelVersion, noiseBound } = await this.getBatch(result.batchId);
+    const offset = noiseOffset(noiseBound);
+    const qualityScore =
+      result.revealedScore > offset ? result.revealedScore - offset : 0n;
+    return { ...result, qualityScore, modelVersion, noiseBound };
+  }
+
+  /**
+   * Asks the decryption oracle to reveal the max, min, masterpiece count and
+   * histogram of a closed batch, all in one request. These values are exact,
+   * the batch needs at least `minStatsSubmissions` submissions.
+   */
+  async requestBatchStatsDecryption(
+    batchId: BigNumberish,
+  ): Promise<DecryptionRequest> {
+    const receipt = await this.send(() =>
+      this.contract.requestBatchStatsDecryption(batchId),
+    );
+    const [event] = this.parseEvents(receipt, "StatsDecryptionRequested");
+    if (!event) {
+      throw new CraftingError(
+        "requestBatchStatsDecryption did not emit StatsDecryptionRequested",
+      );
+    }
+    return {
+      requestId: event.args.requestId,
+      batchId: event.args.batchId,
+      requester: event.args.requester,
+      receipt,
+    };
+  }
+
+  /** Like waitForDecryption, for a StatsDecryptionCompleted event. */
+  async waitForStatsDecryption(
+    requestId: BigNumberish,
+    options: WaitForDecryptionOptions = {},
+  ): Promise<StatsDecryptionResult> {
+    const id = BigInt(requestId);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_DECRYPTION_TIMEOUT_MS;
+    return waitForEvent(
+      this.contract as BaseContract,
+      this.contract.filters.StatsDecryptionCompleted(id),
+      (log) => ({
+        requestId: log.args.requestId,
+        batchId: log.args.batchId,
+        maxQuality: log.args.maxQuality,
+        minQuality: log.args.minQuality,
+        masterpieceCount: log.args.masterpieceCount,
+        histogram: [...log.args.histogram],
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      }),
+      {
+        timeoutMs,
+        fromBlock: options.fromBlock,
+        onTimeout: () => new DecryptionTimeoutError(id, timeoutMs),
+      },
+    );
+  }
+
+  private signer(): Signer {
+    return requireSigner(this.contract.runner, "CraftingClient");
+  }
+
+  private async send(
+    fn: () => Promise<ContractTransactionResponse>,
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(fn);
+  }
+
+  private parseEvents(
+    receipt: ContractTransactionReceipt,
+    name: string,
+  ): LogDescription[] {
+    return parseEvents(this.contract.interface, receipt, name);
+  }
+}
@@ -0,0 +1,205 @@
+import { BaseContract, BigNumberish } from "ethers";
+import { CraftingClient, DecryptionRequest } from "./CraftingClient";
+import { CraftingError } from "./errors";
+
+/**
+ * - pending: the oracle has not answered yet
+ * - completed: DecryptionCompleted was emitted
+ * - stale: the oracle has not answered within the tracker timeout
+ * - failed: the batch was archived first, the callback reverts
+ *   InvalidDecryption
+ */
+export type DecryptionState = "pending" | "completed" | "stale" | "failed";
+
+export interface TrackedDecryption {
+  requestId: bigint;
+  batchId: bigint;
+  requester: string;
+  /** Model version the batch accumulated under, the one producing the score */
+  modelVersion: bigint;
+  state: DecryptionState;
+  /**
+   * Stale while no other request of the batch can reveal it, the batch
+   * should be requested again
+   */
+  reissuable: boolean;
+  /** Unix seconds */
+  requestedAt: number;
+  requestedAtBlock: number;
+  transactionHash: string;
+  /** Revealed quality sum, null until completed */
+  qualityScore: bigint | null;
+  completedAtBlock: number | null;
+  completionTransactionHash: string | null;
+}
+
+export interface DecryptionTrackerOptions {
+  /** Seconds without an oracle answer after which a request is stale */
+  timeout?: number;
+  /** First block scanned for events, usually the deployment block */
+  fromBlock?: number;
+}
+
+const DEFAULT_TIMEOUT = 10 * 60;
+
+/**
+ * Follows batch decryption requests from `DecryptionRequested` to the
+ * oracle callback. Reverted callbacks leave no event behind, so requests
+ * the callback can no longer settle are recognised from contract state.
+ */
+export class DecryptionTracker {
+  readonly client: CraftingClient;
+  private readonly timeout: number;
+  private readonly fromBlock: number;
+  // Block timestamps never change, requests only need them once
+  private readonly timestamps = new Map<number, number>();
+
+  constructor(client: CraftingClient, options: DecryptionTrackerOptions = {}) {
+    this.client = client;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.fromBlock = options.fromBlock ?? 0;
+  }
+
+  /** Every decryption request, newest first. */
+  async requests(): Promise<TrackedDecryption[]> {
+    const contract = this.client.contract;
+    const provider = contract.runner?.provider;
+    if (!provider) {
+      throw new CraftingError(
+        "DecryptionTracker needs a runner with a provider",
+      );
+    }
+    const [requested, completed, latest] = await Promise.all([
+      contract.queryFilter(
+        contract.filters.DecryptionRequested(),
+        this.fromBlock,
+      ),
+      contract.queryFilter(
+        contract.filters.DecryptionCompleted(),
+        this.fromBlock,
+      ),
+      provider.getBlock("latest"),
+    ]);
+    if (!latest) {
+      throw new CraftingError("Could not read the latest block");
+    }
+    const completions = new Map(
+      completed.map((log) => [log.args.requestId, log]),
+    );
+
+    const batchIds = new Set(requested.map((log) => log.args.batchId));
+    const batches = new Map(
+      await Promise.all(
+        [...batchIds].map(
+          async (id) => [id, await this.client.getBatch(id)] as const,
+        ),
+      ),
+    );
+
+    const requests = await Promise.all(
+      requested.map(async (log): Promise<TrackedDecryption> => {
+        const { requestId, batchId, requester } = log.args;
+        const completion = completions.get(requestId);
+        const batch = batches.get(batchId)!;
+        const requestedAt = await this.timestamp(log.blockNumber);
+        const age = latest.timestamp - requestedAt;
+
+        let state: DecryptionState = "pending";
+        if (completion) state = "completed";
+        else if (batch.archived) state = "failed";
+        else if (age >= this.timeout) state = "stale";
+
+        return {
+          requestId,
+          batchId,
+          requester,
+          modelVersion: batch.modelVersion,
+          state,
+          reissuable: false,
+          requestedAt,
+          requestedAtBlock: log.blockNumber,
+          transactionHash: log.transactionHash,
+          qualityScore: completion?.args.qualityScore ?? null,
+          completedAtBlock: completion?.blockNumber ?? null,
+          completionTransactionHash: completion?.transactionHash ?? null,
+        };
+      }),
+    );
+    requests.sort(
+      (a, b) =>
+        b.requestedAtBlock - a.requestedAtBlock ||
+        Number(b.requestId - a.requestId),
+    );
+    // Only the newest stale request of a batch is flagged, and none once a
+    // pending or completed request of the batch makes re-issuing moot
+    const covered = new Set(
+      requests
+        .filter(({ state }) => state === "pending" || state === "completed")
+        .map(({ batchId }) => batchId),
+    );
+    for (const request of requests) {
+      if (request.state !== "stale" || covered.has(request.batchId)) continue;
+      request.reissuable = batches.get(request.batchId)!.qualityScore === null;
+      covered.add(request.batchId);
+    }
+    return requests;
+  }
+
+  /**
+   * Requests the batch of a reissuable request again. `client` sends the
+   * transaction and needs a signer, the tracker's own client by default.
+   */
+  async reissue(
+    requestId: BigNumberish,
+    client: CraftingClient = this.client,
+  ): Promise<DecryptionRequest> {
+    const id = BigInt(requestId);
+    const request = (await this.requests()).find((r) => r.requestId === id);
+    if (!request) {
+      throw new CraftingError(`Unknown decryption request ${id}`);
+    }
+    if (!request.reissuable) {
+      throw new CraftingError(
+        `Decryption request ${id} is not stale, or its batch was already requested again`,
+      );
+    }
+    return client.requestBatchDecryption(request.batchId);
+  }
+
+  /**
+   * Calls `listener` whenever a request may have changed state: new
+   * requests and completions and archived batches.
+   * Returns a function that stops listening.
+   */
+  subscribe(listener: () => void): () => void {
+    const contract = this.client.contract as BaseContract;
+    const filters = [
+      this.client.contract.filters.DecryptionRequested(),
+      this.client.contract.filters.DecryptionCompleted(),
+      this.client.contract.filters.BatchArchived(),
+    ];
+    const onEvent = () => listener();
+    for (const filter of filters) {
+      void contract.on(filter, onEvent);
+    }
+    return () => {
+      for (const filter of filters) {
+        void contract.off(filter, onEvent);
+      }
+    };
+  }
+
+  private async timestamp(blockNumber: number): Promise<number> {
+    let timestamp = this.timestamps.get(blockNumber);
+    if (timestamp === undefined) {
+      const block =
+        await this.client.contract.runner!.provider!.getBlock(blockNumber);
+      if (!block) {
+        throw new CraftingError(`Could not read block ${blockNumber}`);
+      }
+      timestamp = block.timestamp;
+      this.timestamps.set(blockNumber, timestamp);
+    }
+    return timestamp;
+  }
+}
@@ -0,0 +1,455 @@
+import {
+  BaseContract,
+  ContractRunner,
+  EventLog,
+  Interface,
+  Provider,
+} from "ethers";
+import {
+  CraftingQualityFHE,
+  CraftingQualityFHE__factory,
+  ItemRegistryFHE,
+  ItemRegistryFHE__factory,
+} from "../types";
+import { CraftingError } from "./errors";
+import {
+  ItemStatus,
+  ITEM_STATUSES,
+  MasterpieceReveal,
+} from "./ItemRegistryClient";
+
+export interface IndexedItem {
+  id: string;
+  owner: string;
+  /** Account that crafted the item, unchanged by transfers */
+  crafter: string;
+  name: string;
+  baseQuality: number;
+  /** Handles of the current owner, re-keyed on every transfer */
+  encryptedQuality: string;
+  encryptedCatalyst: string;
+  encryptedMasterpiece: string;
+  /** Quality handle from ItemCreated, the one the crafter can decrypt */
+  crafterEncryptedQuality: string;
+  materials: string[];
+  status: ItemStatus;
+  masterpieceReveal: MasterpieceReveal;
+  isMasterpiece: boolean | null;
+  createdAt: number;
+  /** Position and transaction of the ItemCreated event */
+  createdAtBlock: number;
+  createdAtLogIndex: number;
+  transactionHash: string;
+  /** Block of the last event that touched the item */
+  updatedAtBlock: number;
+}
+
+export interface IndexedSubmission {
+  crafter: string;
+  encryptedQuality: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+export interface IndexedAverage {
+  crafter: string;
+  averageQuality: number;
+  sampleSize: number;
+  blockNumber: number;
+}
+
+export interface IndexedBatch {
+  id: string;
+  active: boolean;
+  createdAt: number;
+  closedAt: number;
+  submissions: IndexedSubmission[];
+}
+
+/**
+ * Everything the indexer knows, as persisted by an IndexerStore. Ids are
+ * decimal strings so snapshots survive JSON and structured cloning alike.
+ */
+export interface IndexerSnapshot {
+  version: number;
+  /** Chain id and indexed addresses, a snapshot is only reused for the same key */
+  key: string;
+  lastSyncedBlock: number;
+  items: Record<string, IndexedItem>;
+  batches: Record<string, IndexedBatch>;
+  /** Published average qualities, keyed by lowercased crafter address */
+  averages: Record<string, IndexedAverage>;
+}
+
+export interface IndexerStore {
+  load(key: string): Promise<IndexerSnapshot | undefined>;
+  save(snapshot: IndexerSnapshot): Promise<void>;
+}
+
+/** Keeps snapshots for the lifetime of the process, used by scripts and tests. */
+export class MemoryIndexerStore implements IndexerStore {
+  private readonly snapshots = new Map<string, IndexerSnapshot>();
+
+  async load(key: string): Promise<IndexerSnapshot | undefined> {
+    const snapshot = this.snapshots.get(key);
+    return snapshot && structuredClone(snapshot);
+  }
+
+  async save(snapshot: IndexerSnapshot): Promise<void> {
+    this.snapshots.set(snapshot.key, structuredClone(snapshot));
+  }
+}
+
+export interface IndexedContracts {
+  itemRegistry?: ItemRegistryFHE;
+  craftingQuality?: CraftingQualityFHE;
+}
+
+export interface ItemIndexerOptions {
+  store?: IndexerStore;
+  /** First block to scan, usually the oldest deployment block. */
+  startBlock?: number;
+  /** Blocks per queryFilter call, halved while the RPC rejects the range. */
+  chunkSize?: number;
+  /** Blocks to stay behind the head so the cache never holds reorged logs. */
+  confirmations?: number;
+  /**
+   * Called when a sync triggered by a new block fails, logged with
+   * console.error by default.
+   */
+  onError?: (error: unknown) => void;
+}
+
+export type IndexerListener = (indexer: ItemIndexer) => void;
+
+const SNAPSHOT_VERSION = 6;
+const DEFAULT_CHUNK_SIZE = 2000;
+const MIN_CHUNK_SIZE = 16;
+
+const ITEM_EVENTS = [
+  "ItemCreated",
+  "ItemStatusUpdated",
+  "ItemTransferred",
+  "MasterpieceRevealRequested",
+  "MasterpieceRevealed",
+  "AverageQualityPublished",
+  "AverageQualityWithdrawn",
+];
+const CRAFTING_EVENTS = ["BatchOpened", "BatchClosed", "CraftingSubmitted"];
+
+// One topic filter matching any of `events`, so a chunk costs a single
+// queryFilter call per contract.
+function topicFilter(iface: Interface, events: string[]): string[][] {
+  return [events.map((name) => iface.getEvent(name)!.topicHash)];
+}
+
+function emptySnapshot(key: string, startBlock: number): IndexerSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    key,
+    lastSyncedBlock: startBlock - 1,
+    items: {},
+    batches: {},
+    averages: {},
+  };
+}
+
+/**
+ * Rebuilds item and batch state from ItemRegistryFHE and CraftingQualityFHE
+ * events. Logs are fetched in block chunks from the last synced block, and
+ * the resulting snapshot is persisted so a reload only scans new blocks.
+ */
+export class ItemIndexer {
+  readonly contracts: IndexedContracts;
+  private readonly provider: Provider;
+  private readonly store: IndexerStore;
+  private readonly startBlock: number;
+  private readonly chunkSize: number;
+  private readonly confirmations: number;
+  private readonly onError: (error: unknown) => void;
+  private snapshot?: IndexerSnapshot;
+  private syncing?: Promise<void>;
+  private readonly listeners = new Set<IndexerListener>();
+  private readonly onBlock = () => {
+    this.sync().catch(this.onError);
+  };
+
+  constructor(
+    contracts: IndexedContracts,
+    provider: Provider,
+    options: ItemIndexerOptions = {},
+  ) {
+    if (!contracts.itemRegistry && !contracts.craftingQuality) {
+      throw new CraftingError("ItemIndexer needs at least one contract");
+    }
+    this.contracts = contracts;
+    this.provider = provider;
+    this.store = options.store ?? new MemoryIndexerStore();
+    this.startBlock = options.startBlock ?? 0;
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.confirmations = options.confirmations ?? 0;
+    this.onError =
+      options.onError ?? ((e) => console.error("Indexer sync failed:", e));
+  }
+
+  static connect(
+    addresses: { itemRegistry?: string; craftingQuality?: string },
+    provider: Provider,
+    options?: ItemIndexerOptions,
+  ): ItemIndexer {
+    const runner: ContractRunner = provider;
+    return new ItemIndexer(
+      {
+        itemRegistry: addresses.itemRegistry
+          ? ItemRegistryFHE__factory.connect(addresses.itemRegistry, runner)
+          : undefined,
+        craftingQuality: addresses.craftingQuality
+          ? CraftingQualityFHE__factory.connect(
+              addresses.craftingQuality,
+              runner,
+            )
+          : undefined,
+      },
+      provider,
+      options,
+    );
+  }
+
+  get lastSyncedBlock(): number {
+    return this.snapshot?.lastSyncedBlock ?? this.startBlock - 1;
+  }
+
+  /** Indexed items, newest first. */
+  get items(): IndexedItem[] {
+    return Object.values(this.snapshot?.items ?? {}).sort(
+      (a, b) => b.createdAt - a.createdAt || Number(b.id) - Number(a.id),
+    );
+  }
+
+  /** Indexed batches in id order. */
+  get batches(): IndexedBatch[] {
+    return Object.values(this.snapshot?.batches ?? {}).sort(
+      (a, b) => Number(a.id) - Number(b.id),
+    );
+  }
+
+  /** Averages of the crafters who opted in to the leaderboard. */
+  get averages(): IndexedAverage[] {
+    return Object.values(this.snapshot?.averages ?? {});
+  }
+
+  /**
+   * Catches up to the current head. Concurrent calls share the sync in
+   * flight instead of scanning the same blocks twice.
+   */
+  async sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.catchUp().finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Calls `listener` whenever a new block brought indexed events. Returns
+   * the function removing the subscription.
+   */
+  subscribe(listener: IndexerListener): () => void {
+    if (this.listeners.size === 0) {
+      void this.provider.on("block", this.onBlock);
+    }
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        void this.provider.off("block", this.onBlock);
+      }
+    };
+  }
+
+  private async cacheKey(): Promise<string> {
+    const { chainId } = await this.provider.getNetwork();
+    const addresses = await Promise.all(
+      [this.contracts.itemRegistry, this.contracts.craftingQuality].map(
+        async (contract) => (await contract?.getAddress()) ?? "-",
+      ),
+    );
+    return [chainId.toString(), ...addresses].join(":").toLowerCase();
+  }
+
+  private async load(): Promise<IndexerSnapshot> {
+    if (!this.snapshot) {
+      const key = await this.cacheKey();
+      const stored = await this.store.load(key);
+      this.snapshot =
+        stored?.version === SNAPSHOT_VERSION
+          ? stored
+          : emptySnapshot(key, this.startBlock);
+    }
+    return this.snapshot;
+  }
+
+  private async catchUp(): Promise<void> {
+    let snapshot = await this.load();
+    const latest = await this.provider.getBlockNumber();
+    let changed = false;
+    // A cache ahead of the chain means a restarted dev node, not a reorg
+    if (snapshot.lastSyncedBlock > latest) {
+      snapshot = this.snapshot = emptySnapshot(snapshot.key, this.startBlock);
+      changed = true;
+    }
+
+    const head = latest - this.confirmations;
+    const syncedBefore = snapshot.lastSyncedBlock;
+    let chunkSize = this.chunkSize;
+    let from = snapshot.lastSyncedBlock + 1;
+    while (from <= head) {
+      const to = Math.min(head, from + chunkSize - 1);
+      let logs: EventLog[];
+      try {
+        logs = await this.fetchLogs(from, to);
+      } catch (e) {
+        if (chunkSize <= MIN_CHUNK_SIZE) {
+          throw e;
+        }
+        chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(chunkSize / 2));
+        continue;
+      }
+      for (const log of logs) {
+        this.apply(snapshot, log);
+      }
+      snapshot.lastSyncedBlock = to;
+      from = to + 1;
+      if (logs.length > 0) {
+        changed = true;
+        // Persist as we go so an interrupted first sync resumes mid-way
+        await this.store.save(snapshot);
+      }
+    }
+
+    if (snapshot.lastSyncedBlock !== syncedBefore) {
+      await this.store.save(snapshot);
+    }
+    if (changed) {
+      for (const listener of this.listeners) {
+        listener(this);
+      }
+    }
+  }
+
+  private async fetchLogs(from: number, to: number): Promise<EventLog[]> {
+    const queries: Promise<unknown[]>[] = [];
+    const { itemRegistry, craftingQuality } = this.contracts;
+    if (itemRegistry) {
+      queries.push(
+        (itemRegistry as BaseContract).queryFilter(
+          topicFilter(itemRegistry.interface, ITEM_EVENTS),
+          from,
+          to,
+        ),
+      );
+    }
+    if (craftingQuality) {
+      queries.push(
+        (craftingQuality as BaseContract).queryFilter(
+          topicFilter(craftingQuality.interface, CRAFTING_EVENTS),
+          from,
+          to,
+        ),
+      );
+    }
+    return (await Promise.all(queries))
+      .flat()
+      .filter((log): log is EventLog => log instanceof EventLog)
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  }
+
+  private apply(snapshot: IndexerSnapshot, log: EventLog) {
+    const args = log.args;
+    switch (log.eventName) {
+      case "ItemCreated":
+        snapshot.items[args.itemId.toString()] = {
+          id: args.itemId.toString(),
+          owner: args.owner,
+          crafter: args.owner,
+          name: args.name,
+          baseQuality: Number(args.baseQuality),
+          encryptedQuality: args.encryptedQuality,
+          encryptedCatalyst: args.encryptedCatalyst,
+          encryptedMasterpiece: args.encryptedMasterpiece,
+          crafterEncryptedQuality: args.encryptedQuality,
+          materials: [...args.materials],
+          status: "pending",
+          masterpieceReveal: "hidden",
+          isMasterpiece: null,
+          createdAt: Number(args.createdAt),
+          createdAtBlock: log.blockNumber,
+          createdAtLogIndex: log.index,
+          transactionHash: log.transactionHash,
+          updatedAtBlock: log.blockNumber,
+        };
+        break;
+      case "ItemStatusUpdated":
+      case "ItemTransferred":
+      case "MasterpieceRevealRequested":
+      case "MasterpieceRevealed": {
+        const item = snapshot.items[args.itemId.toString()];
+        if (!item) break;
+        if (log.eventName === "ItemStatusUpdated") {
+          item.status = ITEM_STATUSES[Number(args.status)];
+        } else if (log.eventName === "ItemTransferred") {
+          // Transfers re-key the encrypted fields to the new owner
+          item.owner = args.to;
+          item.encryptedQuality = args.encryptedQuality;
+          item.encryptedCatalyst = args.encryptedCatalyst;
+          item.encryptedMasterpiece = args.encryptedMasterpiece;
+        } else if (log.eventName === "MasterpieceRevealRequested") {
+          item.masterpieceReveal = "requested";
+        } else {
+          item.masterpieceReveal = "revealed";
+          item.isMasterpiece = args.isMasterpiece;
+        }
+        item.updatedAtBlock = log.blockNumber;
+        break;
+      }
+      case "AverageQualityPublished":
+        snapshot.averages[args.crafter.toLowerCase()] = {
+          crafter: args.crafter,
+          averageQuality: Number(args.averageQuality),
+          sampleSize: Number(args.sampleSize),
+          blockNumber: log.blockNumber,
+        };
+        break;
+      case "AverageQualityWithdrawn":
+        delete snapshot.averages[args.crafter.toLowerCase()];
+        break;
+      case "BatchOpened":
+        snapshot.batches[args.batchId.toString()] = {
+          id: args.batchId.toString(),
+          active: true,
+          createdAt: Number(args.createdAt),
+          closedAt: 0,
+          submissions: [],
+        };
+        break;
+      case "BatchClosed": {
+        const batch = snapshot.batches[args.batchId.toString()];
+        if (!batch) break;
+        batch.active = false;
+        batch.closedAt = Number(args.closedAt);
+        break;
+      }
+      case "CraftingSubmitted":
+        snapshot.batches[args.batchId.toString()]?.submissions.push({
+          crafter: args.crafter,
+          encryptedQuality: args.encryptedQuality,
+          blockNumber: log.blockNumber,
+          logIndex: log.index,
+          transactionHash: log.transactionHash,
+        });
+        break;
+    }
+  }
+}
@@ -0,0 +1,484 @@
+import {
+  AddressLike,
+  BaseContract,
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionReceipt,
+  decodeBase64,
+  resolveAddress,
+  toUtf8String,
+  ZeroAddress,
+} from "ethers";
+import { ItemRegistryFHE, ItemRegistryFHE__factory } from "../types";
+import { FhevmEncryptor } from "./CraftingClient";
+import { CraftingError, DecryptionTimeoutError } from "./errors";
+import { MaterialAmount } from "./MaterialsClient";
+import {
+  parseEvents,
+  requireSigner,
+  sendAndWait,
+  waitForEvent,
+} from "./transactions";
+
+export type ItemStatus = "pending" | "crafted" | "failed";
+
+// Same order as ItemRegistryFHE.ItemStatus
+export const ITEM_STATUSES: readonly ItemStatus[] = [
+  "pending",
+  "crafted",
+  "failed",
+];
+
+export type MasterpieceReveal = "hidden" | "requested" | "revealed";
+
+// Same order as ItemRegistryFHE.MasterpieceReveal
+export const MASTERPIECE_REVEALS: readonly MasterpieceReveal[] = [
+  "hidden",
+  "requested",
+  "revealed",
+];
+
+export interface Item {
+  id: bigint;
+  owner: string;
+  name: string;
+  baseQuality: number;
+  /** Handle of the encrypted quality, readable by the owner */
+  encryptedQuality: string;
+  /** Handle of the encrypted catalyst effect, readable by the owner */
+  encryptedCatalyst: string;
+  /** Handle of the encrypted `quality >= threshold` flag, readable by the owner */
+  encryptedMasterpiece: string;
+  materials: string[];
+  status: ItemStatus;
+  masterpieceReveal: MasterpieceReveal;
+  /** Publicly decrypted masterpiece flag, null until revealed */
+  isMasterpiece: boolean | null;
+  createdAt: number;
+}
+
+/** ERC-721 metadata served by tokenURI, encrypted fields read "redacted". */
+export interface ItemMetadata {
+  name: string;
+  description: string;
+  attributes: {
+    trait_type: string;
+    value: string | number | boolean;
+    display_type?: string;
+  }[];
+}
+
+export interface NewItem {
+  name: string;
+  baseQuality: number;
+  materials: string[];
+  /** Catalyst effect, encrypted before leaving the client; capped on-chain */
+  catalyst: number;
+}
+
+export interface NewInventoryItem {
+  name: string;
+  baseQuality: number;
+  /** Burned from the connected account's inventory by the craft */
+  materials: MaterialAmount[];
+  /** Catalyst effect, encrypted before leaving the client; capped on-chain */
+  catalyst: number;
+}
+
+export interface NewRecipeItem {
+  name: string;
+  baseQuality: number;
+  /** Recipe owned by or shared with the connected account */
+  recipeId: BigNumberish;
+  /** Catalyst effect, scaled by the recipe's encrypted multiplier on-chain */
+  catalyst: number;
+}
+
+export interface CreatedItem {
+  item: Item;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface MasterpieceRevealRequest {
+  itemId: bigint;
+  requestId: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface MasterpieceRevealResult {
+  itemId: bigint;
+  requestId: bigint;
+  isMasterpiece: boolean;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface AverageQualityRequest {
+  crafter: string;
+  requestId: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface PublishedAverage {
+  crafter: string;
+  averageQuality: number;
+  /** Number of items the average was computed over */
+  sampleSize: number;
+}
+
+export interface AverageQualityResult extends PublishedAverage {
+  requestId: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface WaitForRevealOptions {
+  timeoutMs?: number;
+  fromBlock?: number;
+}
+
+const MAX_UINT32 = 0xffffffff;
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_REVEAL_TIMEOUT_MS = 10 * 60 * 1000;
+
+function toItem(raw: ItemRegistryFHE.ItemStructOutput): Item {
+  const masterpieceReveal = MASTERPIECE_REVEALS[Number(raw.masterpieceReveal)];
+  return {
+    id: raw.id,
+    owner: raw.owner,
+    name: raw.name,
+    baseQuality: Number(raw.baseQuality),
+    encryptedQuality: raw.quality,
+    encryptedCatalyst: raw.catalyst,
+    encryptedMasterpiece: raw.masterpiece,
+    materials: [...raw.materials],
+    status: ITEM_STATUSES[Number(raw.status)],
+    masterpieceReveal,
+    isMasterpiece: masterpieceReveal === "revealed" ? raw.isMasterpiece : null,
+    createdAt: Number(raw.createdAt),
+  };
+}
+
+function assertUint32(label: string, value: number) {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_UINT32) {
+    throw new CraftingError(`${label} must be a uint32, got ${value}`);
+  }
+}
+
+export class ItemRegistryClient {
+  readonly contract: ItemRegistryFHE;
+  private readonly fhevm?: FhevmEncryptor;
+
+  constructor(contract: ItemRegistryFHE, fhevm?: FhevmEncryptor) {
+    this.contract = contract;
+    this.fhevm = fhevm;
+  }
+
+  static connect(
+    address: string,
+    runner: ContractRunner,
+    fhevm?: FhevmEncryptor,
+  ): ItemRegistryClient {
+    return new ItemRegistryClient(
+      ItemRegistryFHE__factory.connect(address, runner),
+      fhevm,
+    );
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  async itemCount(): Promise<number> {
+    return Number(await this.contract.itemCount());
+  }
+
+  async getItem(itemId: BigNumberish): Promise<Item> {
+    return toItem(await this.contract.getItem(itemId));
+  }
+
+  /** Every registered item, newest first, fetched `pageSize` at a time. */
+  async loadItems(pageSize = DEFAULT_PAGE_SIZE): Promise<Item[]> {
+    const count = await this.itemCount();
+    const items: Item[] = [];
+    for (let offset = 0; offset < count; offset += pageSize) {
+      const page = await this.contract.getItems(offset, pageSize);
+      items.push(...page.map(toItem));
+    }
+    return items.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async itemsOf(owner: AddressLike): Promise<Item[]> {
+    const ids = await this.contract.itemsOf(owner);
+    return Promise.all(ids.map((id) => this.getItem(id)));
+  }
+
+  /**
+   * Encrypts the catalyst for the connected account and crafts the item.
+   * The contract computes the quality, read it back from the returned
+   * item's `encryptedQuality` handle.
+   */
+  async createItem(newItem: NewItem): Promise<CreatedItem> {
+    assertUint32("Base quality", newItem.baseQuality);
+    const { handle, inputProof } = await this.encryptCatalyst(newItem.catalyst);
+    const receipt = await sendAndWait(() =>
+      this.contract.createItem(
+        newItem.name,
+        newItem.baseQuality,
+        newItem.materials,
+        handle,
+        inputProof,
+      ),
+    );
+    return this.createdItem(receipt);
+  }
+
+  /**
+   * Crafts from the material inventory, burning the given amounts in the
+   * same transaction. Required once the registry has an inventory set.
+   */
+  async createItemFromMaterials(
+    newItem: NewInventoryItem,
+  ): Promise<CreatedItem> {
+    assertUint32("Base quality", newItem.baseQuality);
+    const { handle, inputProof } = await this.encryptCatalyst(newItem.catalyst);
+    const receipt = await sendAndWait(() =>
+      this.contract.createItemFromMaterials(
+        newItem.name,
+        newItem.baseQuality,
+        newItem.materials.map((m) => m.id),
+        newItem.materials.map((m) => m.amount),
+        handle,
+        inputProof,
+      ),
+    );
+    return this.createdItem(receipt);
+  }
+
+  /** Whether crafts must go through createItemFromMaterials. */
+  async usesMaterialInventory(): Promise<boolean> {
+    return (await this.contract.materialInventory()) !== ZeroAddress;
+  }
+
+  /**
+   * Crafts with a secret recipe: the item takes the recipe's materials, and
+   * the recipe's weights and multiplier are applied to the quality without
+   * being revealed. One unit of each recipe material is burned when the
+   * registry has a material inventory.
+   */
+  async createItemWithRecipe(newItem: NewRecipeItem): Promise<CreatedItem> {
+    assertUint32("Base quality", newItem.baseQuality);
+    const { handle, inputProof } = await this.encryptCatalyst(newItem.catalyst);
+    const receipt = await sendAndWait(() =>
+      this.contract.createItemWithRecipe(
+        newItem.name,
+        newItem.baseQuality,
+        newItem.recipeId,
+        handle,
+        inputProof,
+      ),
+    );
+    return this.createdItem(receipt);
+  }
+
+  private async encryptCatalyst(catalyst: number) {
+    if (!this.fhevm) {
+      throw new CraftingError(
+        "ItemRegistryClient was created without an FHEVM instance",
+      );
+    }
+    assertUint32("Catalyst", catalyst);
+    const owner = await requireSigner(
+      this.contract.runner,
+      "ItemRegistryClient",
+    ).getAddress();
+    const { handles, inputProof } = await this.fhevm
+      .createEncryptedInput(await this.getAddress(), owner)
+      .add32(catalyst)
+      .encrypt();
+    return { handle: handles[0], inputProof };
+  }
+
+  private async createdItem(
+    receipt: ContractTransactionReceipt,
+  ): Promise<CreatedItem> {
+    const [event] = parseEvents(
+      this.contract.interface,
+      receipt,
+      "ItemCreated",
+    );
+    if (!event) {
+      throw new CraftingError("createItem did not emit ItemCreated");
+    }
+    return { item: await this.getItem(event.args.itemId), receipt };
+  }
+
+  async setItemStatus(
+    itemId: BigNumberish,
+    status: ItemStatus,
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() =>
+      this.contract.setItemStatus(itemId, ITEM_STATUSES.indexOf(status)),
+    );
+  }
+
+  /**
+   * Transfers the item token. Its encrypted fields move to fresh handles only
+   * `to` can decrypt, handles read before the transfer become stale.
+   */
+  async transferItem(
+    itemId: BigNumberish,
+    to: AddressLike,
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.transferItem(itemId, to));
+  }
+
+  /** Current token owner, the same account as `getItem(itemId).owner`. */
+  async ownerOf(itemId: BigNumberish): Promise<string> {
+    return this.contract.ownerOf(itemId);
+  }
+
+  async tokenMetadata(itemId: BigNumberish): Promise<ItemMetadata> {
+    const uri = await this.contract.tokenURI(itemId);
+    const prefix = "data:application/json;base64,";
+    if (!uri.startsWith(prefix)) {
+      throw new CraftingError(`Unexpected token URI for item ${itemId}`);
+    }
+    return JSON.parse(toUtf8String(decodeBase64(uri.slice(prefix.length))));
+  }
+
+  async masterpieceThreshold(): Promise<number> {
+    return Number(await this.contract.masterpieceThreshold());
+  }
+
+  /** Owner only. Applies to items crafted afterwards. */
+  async setMasterpieceThreshold(
+    threshold: number,
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.setMasterpieceThreshold(threshold));
+  }
+
+  /**
+   * Asks the decryption oracle to publish whether the item is a masterpiece.
+   * Only the flag is decrypted, the quality stays private.
+   */
+  async requestMasterpieceReveal(
+    itemId: BigNumberish,
+  ): Promise<MasterpieceRevealRequest> {
+    const receipt = await sendAndWait(() =>
+      this.contract.requestMasterpieceReveal(itemId),
+    );
+    const [event] = parseEvents(
+      this.contract.interface,
+      receipt,
+      "MasterpieceRevealRequested",
+    );
+    if (!event) {
+      throw new CraftingError(
+        "requestMasterpieceReveal did not emit MasterpieceRevealRequested",
+      );
+    }
+    return {
+      itemId: event.args.itemId,
+      requestId: event.args.requestId,
+      receipt,
+    };
+  }
+
+  /** Resolves once the oracle callback revealed the flag for `requestId`. */
+  async waitForMasterpieceReveal(
+    requestId: BigNumberish,
+    options: WaitForRevealOptions = {},
+  ): Promise<MasterpieceRevealResult> {
+    const id = BigInt(requestId);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_REVEAL_TIMEOUT_MS;
+    return waitForEvent(
+      this.contract as BaseContract,
+      this.contract.filters.MasterpieceRevealed(undefined, id),
+      (log) => ({
+        itemId: log.args.itemId,
+        requestId: log.args.requestId,
+        isMasterpiece: log.args.isMasterpiece,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      }),
+      {
+        timeoutMs,
+        fromBlock: options.fromBlock,
+        onTimeout: () => new DecryptionTimeoutError(id, timeoutMs),
+      },
+    );
+  }
+
+  /**
+   * Opts the connected account in to the leaderboard: the contract divides
+   * its encrypted quality sum homomorphically and has the oracle decrypt
+   * only the average. Calling again refreshes the published value.
+   */
+  async publishAverageQuality(): Promise<AverageQualityRequest> {
+    const receipt = await sendAndWait(() =>
+      this.contract.publishAverageQuality(),
+    );
+    const [event] = parseEvents(
+      this.contract.interface,
+      receipt,
+      "AverageQualityRequested",
+    );
+    if (!event) {
+      throw new CraftingError(
+        "publishAverageQuality did not emit AverageQualityRequested",
+      );
+    }
+    return {
+      crafter: event.args.crafter,
+      requestId: event.args.requestId,
+      receipt,
+    };
+  }
+
+  /** Resolves once the oracle callback published the average for `requestId`. */
+  async waitForAverageQuality(
+    requestId: BigNumberish,
+    options: WaitForRevealOptions = {},
+  ): Promise<AverageQualityResult> {
+    const id = BigInt(requestId);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_REVEAL_TIMEOUT_MS;
+    return waitForEvent(
+      this.contract as BaseContract,
+      this.contract.filters.AverageQualityPublished(undefined, id),
+      (log) => ({
+        crafter: log.args.crafter,
+        requestId: log.args.requestId,
+        averageQuality: Number(log.args.averageQuality),
+        sampleSize: Number(log.args.sampleSize),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      }),
+      {
+        timeoutMs,
+        fromBlock: options.fromBlock,
+        onTimeout: () => new DecryptionTimeoutError(id, timeoutMs),
+      },
+    );
+  }
+
+  /** Removes the connected account's average from the leaderboard. */
+  async withdrawAverageQuality(): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.withdrawAverageQuality());
+  }
+
+  /** The crafter's published average, null if they have not opted in. */
+  async publishedAverage(
+    crafter: AddressLike,
+  ): Promise<PublishedAverage | null> {
+    const published = await this.contract.publishedAverages(crafter);
+    if (published.sampleSize === 0n) {
+      return null;
+    }
+    return {
+      crafter: await resolveAddress(crafter),
+      averageQuality: Number(published.averageQuality),
+      sampleSize: Number(published.sampleSize),
+    };
+  }
+}
@@ -0,0 +1,319 @@
+import {
+  AbiCoder,
+  concat,
+  dataLength,
+  dataSlice,
+  getBytes,
+  hexlify,
+  Interface,
+  isHexString,
+  Signer,
+  solidityPacked,
+} from "ethers";
+import { CraftingError } from "./errors";
+import { sleep } from "./transactions";
+
+/**
+ * - drop: the request is never answered
+ * - revert: the callback carries a cleartext the KMS signatures do not
+ *   cover, the contract rejects it
+ */
+export type OracleFailureMode = "drop" | "revert";
+
+/**
+ * - answered: the callback went through
+ * - dropped: left unanswered on purpose by the failure injection
+ * - reverted: the callback was sent and the contract rejected it
+ * - failed: the mock coprocessor still did not know every handle after
+ *   `maxAttempts` passes, the oracle gave up on the request
+ */
+export type OracleAnswerStatus = "answered" | "dropped" | "reverted" | "failed";
+
+export interface OracleAnswer {
+  requestId: bigint;
+  /** Contract whose callback was called */
+  contract: string;
+  status: OracleAnswerStatus;
+  transactionHash: string | null;
+  error?: string;
+}
+
+export interface LocalDecryptionOracleOptions {
+  /** Milliseconds between seeing a request and answering it */
+  delayMs?: number;
+  /** Share of requests that fail, between 0 and 1 */
+  failureRate?: number;
+  failureMode?: OracleFailureMode;
+  /** First block scanned for requests, the latest block by default */
+  fromBlock?: number;
+  /**
+   * Passes a request is tried on while the mock coprocessor does not know
+   * its handles yet, 10 by default
+   */
+  maxAttempts?: number;
+  /** Source of the failure draws, Math.random by default */
+  random?: () => number;
+  log?: (message: string) => void;
+}
+
+/** JSON-RPC methods served by the FHEVM mock of a hardhat node. */
+interface MockRpcProvider {
+  send(method: string, params: unknown[]): Promise<unknown>;
+}
+
+interface QueuedRequest {
+  requestId: bigint;
+  handles: string[];
+  contract: string;
+  callbackSelector: string;
+  dueAt: number;
+  attempts: number;
+}
+
+// Event emitted by the DecryptionOracle contract for FHE.requestDecryption
+const DECRYPTION_ORACLE = new Interface([
+  "event DecryptionRequest(uint256 indexed counter, uint256 requestID, bytes32[] cts, address contractCaller, bytes4 callbackSelector)",
+]);
+
+// Version 0 of the decryption proof extra data, the only one the mock signs
+const EXTRA_DATA = solidityPacked(["uint8"], [0]);
+
+const DEFAULT_MAX_ATTEMPTS = 10;
+
+/**
+ * Stands in for the off-chain decryption oracle on a local FHEVM mock chain
+ * (`npx hardhat node`). It watches `DecryptionRequest` events, reads the
+ * cleartexts from the mock coprocessor and calls the requesting contract
+ * back with KMS signatures the mock KMSVerifier accepts, so
+ * `FHE.checkSignatures` passes exactly as with the real oracle. Answers can
+ * be delayed, dropped or made to revert to exercise the asynchronous flow.
+ * Requests stay queued while the coprocessor does not know their handles,
+ * or while reading them fails, and are tried again on the next passes.
+ */
+export class LocalDecryptionOracle {
+  readonly signer: Signer;
+  private readonly delayMs: number;
+  private readonly failureRate: number;
+  private readonly failureMode: OracleFailureMode;
+  private readonly maxAttempts: number;
+  private readonly random: () => number;
+  private readonly log: (message: string) => void;
+  private nextBlock: number | undefined;
+  private oracleAddress: string | undefined;
+  private readonly queue = new Map<bigint, QueuedRequest>();
+
+  constructor(signer: Signer, options: LocalDecryptionOracleOptions = {}) {
+    const failureRate = options.failureRate ?? 0;
+    if (!(failureRate >= 0 && failureRate <= 1)) {
+      throw new CraftingError(
+        `failureRate must be between 0 and 1, got ${failureRate}`,
+      );
+    }
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+      throw new CraftingError(
+        `maxAttempts must be a positive integer, got ${maxAttempts}`,
+      );
+    }
+    this.signer = signer;
+    this.delayMs = options.delayMs ?? 0;
+    this.failureRate = failureRate;
+    this.failureMode = options.failureMode ?? "drop";
+    this.maxAttempts = maxAttempts;
+    this.random = options.random ?? Math.random;
+    this.log = options.log ?? (() => {});
+    this.nextBlock = options.fromBlock;
+  }
+
+  /** Requests seen but not answered yet. */
+  get pending(): number {
+    return this.queue.size;
+  }
+
+  /** Queues new requests and answers the due ones. */
+  async runOnce(): Promise<OracleAnswer[]> {
+    const provider = this.provider();
+    const latest = await provider.getBlockNumber();
+    const fromBlock = this.nextBlock ?? latest;
+    if (latest >= fromBlock) {
+      const logs = await provider.getLogs({
+        address: await this.decryptionOracle(),
+        topics: [DECRYPTION_ORACLE.getEvent("DecryptionRequest")!.topicHash],
+        fromBlock,
+        toBlock: latest,
+      });
+      for (const log of logs) {
+        const { args } = DECRYPTION_ORACLE.parseLog(log)!;
+        this.queue.set(args.requestID, {
+          requestId: args.requestID,
+          handles: [...args.cts],
+          contract: args.contractCaller,
+          callbackSelector: args.callbackSelector,
+          dueAt: Date.now() + this.delayMs,
+          attempts: 0,
+        });
+        this.log(`Request ${args.requestID} from ${args.contractCaller}`);
+      }
+      this.nextBlock = latest + 1;
+    }
+
+    const answers: OracleAnswer[] = [];
+    for (const request of [...this.queue.values()]) {
+      if (request.dueAt > Date.now()) continue;
+      request.attempts++;
+      const answer = await this.answer(request);
+      if (!answer) {
+        this.log(
+          `Request ${request.requestId} has handles the coprocessor does not know yet, attempt ${request.attempts} of ${this.maxAttempts}`,
+        );
+        continue;
+      }
+      this.queue.delete(request.requestId);
+      this.log(
+        `Request ${answer.requestId} ${answer.status}` +
+          (answer.error ? `: ${answer.error}` : ""),
+      );
+      answers.push(answer);
+    }
+    return answers;
+  }
+
+  /** Polls every `intervalMs` until `signal` aborts. */
+  async run(intervalMs: number, signal?: AbortSignal): Promise<void> {
+    while (!signal?.aborted) {
+      try {
+        await this.runOnce();
+      } catch (e) {
+        this.log(`Oracle pass failed: ${(e as Error).message}`);
+      }
+      await sleep(intervalMs, signal);
+    }
+  }
+
+  /** Null while the request should be tried again on a later pass. */
+  private async answer(request: QueuedRequest): Promise<OracleAnswer | null> {
+    const { requestId, contract } = request;
+    const failing = this.failureRate > 0 && this.random() < this.failureRate;
+    if (failing && this.failureMode === "drop") {
+      return { requestId, contract, status: "dropped", transactionHash: null };
+    }
+
+    const rpc = this.provider();
+    const clearTexts = strings(
+      await rpc.send("fhevm_getClearText", [request.handles]),
+      "fhevm_getClearText",
+    );
+    if (clearTexts.some((clearText) => clearText === "0x")) {
+      if (request.attempts < this.maxAttempts) return null;
+      return {
+        requestId,
+        contract,
+        status: "failed",
+        transactionHash: null,
+        error: `the mock coprocessor did not know every handle after ${request.attempts} attempts`,
+      };
+    }
+    const signed = await rpc.send("fhevm_createDecryptionSignatures", [
+      {
+        handlesBytes32Hex: request.handles,
+        clearTextValuesHex: clearTexts,
+        extraData: EXTRA_DATA,
+      },
+    ]);
+    const { decryptedResult, signatures } = (signed ?? {}) as Record<
+      string,
+      unknown
+    >;
+    if (!isHexString(decryptedResult)) {
+      throw new CraftingError(
+        `fhevm_createDecryptionSignatures returned no decryptedResult for request ${requestId}`,
+      );
+    }
+    const proofSignatures = strings(
+      signatures,
+      "fhevm_createDecryptionSignatures",
+    );
+
+    // numSigners, the KMS signatures, then the extra data
+    const proof = concat([
+      solidityPacked(["uint8"], [proofSignatures.length]),
+      ...proofSignatures,
+      EXTRA_DATA,
+    ]);
+    // The KMS signs the values followed by one trailing word, the offset of
+    // an empty signatures array; the callback takes the abi-encoded values
+    const values = dataSlice(
+      decryptedResult,
+      0,
+      dataLength(decryptedResult) - 32,
+    );
+    const cleartexts = failing ? tamper(values) : values;
+    const data = concat([
+      request.callbackSelector,
+      AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "bytes", "bytes"],
+        [requestId, cleartexts, proof],
+      ),
+    ]);
+
+    let transactionHash: string | null = null;
+    try {
+      const tx = await this.signer.sendTransaction({ to: contract, data });
+      transactionHash = tx.hash;
+      await tx.wait();
+      return { requestId, contract, status: "answered", transactionHash };
+    } catch (e) {
+      return {
+        requestId,
+        contract,
+        status: "reverted",
+        transactionHash,
+        error: (e as Error).message,
+      };
+    }
+  }
+
+  private async decryptionOracle(): Promise<string> {
+    if (!this.oracleAddress) {
+      const metadata = await this.provider().send("fhevm_relayer_metadata", []);
+      const address = (metadata as { DecryptionOracleAddress?: unknown } | null)
+        ?.DecryptionOracleAddress;
+      if (typeof address !== "string") {
+        throw new CraftingError(
+          "The node does not run the FHEVM mock, start it with `npx hardhat node`",
+        );
+      }
+      this.oracleAddress = address;
+    }
+    return this.oracleAddress;
+  }
+
+  private provider() {
+    const provider = this.signer.provider as
+      | (NonNullable<Signer["provider"]> & Partial<MockRpcProvider>)
+      | null;
+    if (!provider?.send) {
+      throw new CraftingError(
+        "LocalDecryptionOracle needs a signer connected to a JSON-RPC provider",
+      );
+    }
+    return provider as NonNullable<Signer["provider"]> & MockRpcProvider;
+  }
+}
+
+function strings(value: unknown, method: string): string[] {
+  if (
+    !Array.isArray(value) ||
+    !value.every((item) => typeof item === "string")
+  ) {
+    throw new CraftingError(`${method} did not return a list of strings`);
+  }
+  return value;
+}
+
+// Flips the lowest bit of the last cleartext, the signatures no longer match
+function tamper(decryptedResult: string): string {
+  const bytes = getBytes(decryptedResult).slice();
+  bytes[bytes.length - 1] ^= 1;
+  return hexlify(bytes);
+}
@@ -0,0 +1,326 @@
+import {
+  AddressLike,
+  BaseContract,
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionReceipt,
+  resolveAddress,
+  ZeroAddress,
+} from "ethers";
+import {
+  CraftingGold__factory,
+  ItemMarketplace,
+  ItemMarketplace__factory,
+  ItemRegistryFHE__factory,
+} from "../types";
+import {
+  ClaimNotVerifiedError,
+  CraftingError,
+  DecryptionTimeoutError,
+} from "./errors";
+import { WaitForRevealOptions } from "./ItemRegistryClient";
+import {
+  parseEvents,
+  requireSigner,
+  sendAndWait,
+  waitForEvent,
+} from "./transactions";
+
+export type Currency = "eth" | "gameToken";
+
+// Same order as ItemMarketplace.Currency
+export const CURRENCIES: readonly Currency[] = ["eth", "gameToken"];
+
+export type ListingStatus = "active" | "cancelled" | "sold";
+
+// Same order as ItemMarketplace.ListingStatus
+export const LISTING_STATUSES: readonly ListingStatus[] = [
+  "active",
+  "cancelled",
+  "sold",
+];
+
+export type QualityClaimStatus = "none" | "pending" | "verified" | "refuted";
+
+// Same order as ItemMarketplace.ClaimStatus
+export const QUALITY_CLAIM_STATUSES: readonly QualityClaimStatus[] = [
+  "none",
+  "pending",
+  "verified",
+  "refuted",
+];
+
+export interface Listing {
+  id: bigint;
+  itemId: bigint;
+  seller: string;
+  currency: Currency;
+  /** In wei, or the game token's smallest unit */
+  price: bigint;
+  /** Claimed minimum quality, null for listings without a claim */
+  qualityClaim: number | null;
+  /** Whether the oracle found the claim to hold, "none" without a claim */
+  claimStatus: QualityClaimStatus;
+  status: ListingStatus;
+  /** Null until sold */
+  buyer: string | null;
+  createdAt: number;
+  /** Null while active */
+  closedAt: number | null;
+}
+
+export interface NewListing {
+  itemId: BigNumberish;
+  currency: Currency;
+  price: BigNumberish;
+  /** Minimum quality to prove publicly, only whether it holds is decrypted */
+  qualityClaim?: number;
+}
+
+export interface CreatedListing {
+  listing: Listing;
+  /** Oracle request deciding the quality claim, null without a claim */
+  claimRequestId: bigint | null;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface Sale {
+  listingId: bigint;
+  itemId: bigint;
+  seller: string;
+  buyer: string;
+  currency: Currency;
+  price: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface SalesFilter {
+  itemId?: BigNumberish;
+  /** Sales where this account bought or sold */
+  account?: AddressLike;
+  fromBlock?: number;
+}
+
+export interface QualityClaimResult {
+  listingId: bigint;
+  requestId: bigint;
+  holds: boolean;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+function toListing(raw: ItemMarketplace.ListingStructOutput): Listing {
+  const claimThreshold = Number(raw.claimThreshold);
+  return {
+    id: raw.id,
+    itemId: raw.itemId,
+    seller: raw.seller,
+    currency: CURRENCIES[Number(raw.currency)],
+    price: raw.price,
+    qualityClaim: claimThreshold === 0 ? null : claimThreshold,
+    claimStatus: QUALITY_CLAIM_STATUSES[Number(raw.claimStatus)],
+    status: LISTING_STATUSES[Number(raw.status)],
+    buyer: raw.buyer === ZeroAddress ? null : raw.buyer,
+    createdAt: Number(raw.createdAt),
+    closedAt: raw.closedAt === 0n ? null : Number(raw.closedAt),
+  };
+}
+
+/**
+ * Whether the listing can be bought: it is active and its quality claim, if
+ * any, was verified. The marketplace rejects pending and refuted claims.
+ */
+export function isBuyable(listing: Listing): boolean {
+  return (
+    listing.status === "active" &&
+    (listing.claimStatus === "none" || listing.claimStatus === "verified")
+  );
+}
+
+export class MarketplaceClient {
+  readonly contract: ItemMarketplace;
+
+  constructor(contract: ItemMarketplace) {
+    this.contract = contract;
+  }
+
+  static connect(address: string, runner: ContractRunner): MarketplaceClient {
+    return new MarketplaceClient(
+      ItemMarketplace__factory.connect(address, runner),
+    );
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  async getListing(listingId: BigNumberish): Promise<Listing> {
+    return toListing(await this.contract.getListing(listingId));
+  }
+
+  /** Every listing, newest first, fetched `pageSize` at a time. */
+  async loadListings(pageSize = DEFAULT_PAGE_SIZE): Promise<Listing[]> {
+    const count = await this.contract.listingCount();
+    const listings: Listing[] = [];
+    for (let offset = 0n; offset < count; offset += BigInt(pageSize)) {
+      const page = await this.contract.getListings(offset, pageSize);
+      listings.push(...page.map(toListing));
+    }
+    return listings.sort((a, b) => Number(b.id - a.id));
+  }
+
+  /** The item's active listing, null if it is not for sale. */
+  async activeListingOf(itemId: BigNumberish): Promise<Listing | null> {
+    const listingId = await this.contract.activeListingOf(itemId);
+    return listingId === 0n ? null : this.getListing(listingId);
+  }
+
+  /**
+   * Lists one of the connected account's items, approving the marketplace
+   * for it first if needed. The item stays with the seller until sold.
+   */
+  async list(newListing: NewListing): Promise<CreatedListing> {
+    const signer = requireSigner(this.contract.runner, "MarketplaceClient");
+    const seller = await signer.getAddress();
+    const marketplace = await this.getAddress();
+    const registry = ItemRegistryFHE__factory.connect(
+      await this.contract.registry(),
+      signer,
+    );
+    const approved =
+      (await registry.getApproved(newListing.itemId)) === marketplace ||
+      (await registry.isApprovedForAll(seller, marketplace));
+    if (!approved) {
+      await sendAndWait(() => registry.approve(marketplace, newListing.itemId));
+    }
+
+    const receipt = await sendAndWait(() =>
+      this.contract.list(
+        newListing.itemId,
+        CURRENCIES.indexOf(newListing.currency),
+        newListing.price,
+        newListing.qualityClaim ?? 0,
+      ),
+    );
+    const [listed] = parseEvents(
+      this.contract.interface,
+      receipt,
+      "ItemListed",
+    );
+    if (!listed) {
+      throw new CraftingError("list did not emit ItemListed");
+    }
+    const [claim] = parseEvents(
+      this.contract.interface,
+      receipt,
+      "QualityClaimRequested",
+    );
+    return {
+      listing: await this.getListing(listed.args.listingId),
+      claimRequestId: claim ? claim.args.requestId : null,
+      receipt,
+    };
+  }
+
+  /** Seller only. */
+  async cancel(listingId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.cancel(listingId));
+  }
+
+  /**
+   * Buys the listing with the connected account. Game token listings first
+   * raise the marketplace's allowance to the price if it is lower. Throws
+   * ClaimNotVerifiedError while the quality claim is pending or refuted.
+   */
+  async buy(listingId: BigNumberish): Promise<ContractTransactionReceipt> {
+    const listing = await this.getListing(listingId);
+    // Checked up front so no allowance is raised for a purchase that reverts
+    if (listing.status === "active" && !isBuyable(listing)) {
+      throw new ClaimNotVerifiedError(
+        "ClaimNotVerified",
+        `Quality claim of listing ${listing.id} is ${listing.claimStatus}, it cannot be bought`,
+      );
+    }
+    if (listing.currency === "eth") {
+      return sendAndWait(() =>
+        this.contract.buy(listingId, { value: listing.price }),
+      );
+    }
+
+    const signer = requireSigner(this.contract.runner, "MarketplaceClient");
+    const token = CraftingGold__factory.connect(
+      await this.contract.gameToken(),
+      signer,
+    );
+    const marketplace = await this.getAddress();
+    if (
+      (await token.allowance(await signer.getAddress(), marketplace)) <
+      listing.price
+    ) {
+      await sendAndWait(() => token.approve(marketplace, listing.price));
+    }
+    return sendAndWait(() => this.contract.buy(listingId));
+  }
+
+  /** Completed sales, oldest first. */
+  async sales(filter: SalesFilter = {}): Promise<Sale[]> {
+    const events = await this.contract.queryFilter(
+      this.contract.filters.ItemSold(undefined, filter.itemId),
+      filter.fromBlock ?? 0,
+    );
+    const account = filter.account
+      ? (await resolveAddress(filter.account)).toLowerCase()
+      : undefined;
+    return events
+      .map((event) => ({
+        listingId: event.args.listingId,
+        itemId: event.args.itemId,
+        seller: event.args.seller,
+        buyer: event.args.buyer,
+        currency: CURRENCIES[Number(event.args.currency)],
+        price: event.args.price,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+      }))
+      .filter(
+        (sale) =>
+          !account ||
+          sale.buyer.toLowerCase() === account ||
+          sale.seller.toLowerCase() === account,
+      );
+  }
+
+  /** Resolves once the oracle callback decided the claim for `requestId`. */
+  async waitForQualityClaim(
+    requestId: BigNumberish,
+    options: WaitForRevealOptions = {},
+  ): Promise<QualityClaimResult> {
+    const id = BigInt(requestId);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_CLAIM_TIMEOUT_MS;
+    return waitForEvent(
+      this.contract as BaseContract,
+      this.contract.filters.QualityClaimRevealed(undefined, id),
+      (log) => ({
+        listingId: log.args.listingId,
+        requestId: log.args.requestId,
+        holds: log.args.holds,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      }),
+      {
+        timeoutMs,
+        fromBlock: options.fromBlock,
+        onTimeout: () => new DecryptionTimeoutError(id, timeoutMs),
+      },
+    );
+  }
+
+  /** Owner only. */
+  async setGameToken(token: AddressLike): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.setGameToken(token));
+  }
+}
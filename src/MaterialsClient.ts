@@ -0,0 +1,119 @@
+import {
+  AddressLike,
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionReceipt,
+  resolveAddress,
+} from "ethers";
+import { CraftingMaterials, CraftingMaterials__factory } from "../types";
+import { sendAndWait } from "./transactions";
+
+export interface Material {
+  id: bigint;
+  name: string;
+  /** 1 (common) to 5 (legendary) */
+  tier: number;
+}
+
+export interface MaterialBalance {
+  material: Material;
+  balance: bigint;
+}
+
+/** A catalog material and how many units a craft burns. */
+export interface MaterialAmount {
+  id: BigNumberish;
+  amount: BigNumberish;
+}
+
+function toMaterial(raw: CraftingMaterials.MaterialStructOutput): Material {
+  return { id: raw.id, name: raw.name, tier: Number(raw.tier) };
+}
+
+export class MaterialsClient {
+  readonly contract: CraftingMaterials;
+
+  constructor(contract: CraftingMaterials) {
+    this.contract = contract;
+  }
+
+  static connect(address: string, runner: ContractRunner): MaterialsClient {
+    return new MaterialsClient(
+      CraftingMaterials__factory.connect(address, runner),
+    );
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  async getMaterial(materialId: BigNumberish): Promise<Material> {
+    return toMaterial(await this.contract.getMaterial(materialId));
+  }
+
+  async catalog(): Promise<Material[]> {
+    return (await this.contract.getCatalog()).map(toMaterial);
+  }
+
+  /** Every catalog material with `account`'s balance, including zeros. */
+  async balancesOf(account: AddressLike): Promise<MaterialBalance[]> {
+    const materials = await this.catalog();
+    const owner = await resolveAddress(account);
+    const balances = await this.contract.balanceOfBatch(
+      materials.map(() => owner),
+      materials.map((m) => m.id),
+    );
+    return materials.map((material, i) => ({
+      material,
+      balance: balances[i],
+    }));
+  }
+
+  async faucetEnabled(): Promise<boolean> {
+    return this.contract.faucetEnabled();
+  }
+
+  /** Test networks only: mints FAUCET_AMOUNT of each material to the caller. */
+  async faucet(
+    materialIds: BigNumberish[],
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.faucet(materialIds));
+  }
+
+  /** Owner only. */
+  async addMaterial(
+    name: string,
+    tier: number,
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.addMaterial(name, tier));
+  }
+
+  /** Owner only. */
+  async mint(
+    to: AddressLike,
+    materials: MaterialAmount[],
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() =>
+      this.contract.mint(
+        to,
+        materials.map((m) => m.id),
+        materials.map((m) => m.amount),
+      ),
+    );
+  }
+
+  /** Owner only. */
+  async setFaucetEnabled(
+    enabled: boolean,
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.setFaucetEnabled(enabled));
+  }
+
+  /** Owner only. */
+  async setConsumer(
+    consumer: AddressLike,
+    allowed: boolean,
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.setConsumer(consumer, allowed));
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  AddressLike,
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionReceipt,
+  resolveAddress,
+} from "ethers";
+import { RecipeBookFHE, RecipeBookFHE__factory } from "../types";
+import { FhevmEncryptor } from "./CraftingClient";
+import { CraftingError } from "./errors";
+import { parseEvents, requireSigner, sendAndWait } from "./transactions";
+
+export interface Recipe {
+  id: bigint;
+  owner: string;
+  name: string;
+  materials: string[];
+  /** Handles of the encrypted weights, one per material */
+  encryptedWeights: string[];
+  /** Handle of the encrypted catalyst multiplier, in percent */
+  encryptedMultiplier: string;
+  /**
+   * Handle of the encrypted bonus the materials add to the quality, the sum
+   * of the weights capped at the contract's MAX_MATERIAL_BONUS
+   */
+  encryptedCappedMaterialBonus: string;
+  createdAt: number;
+}
+
+export interface NewRecipe {
+  name: string;
+  materials: string[];
+  /** Quality points per material, each and their sum capped on-chain */
+  weights: number[];
+  /** Percentage applied to the catalyst bonus, capped on-chain */
+  catalystMultiplier: number;
+}
+
+export interface CreatedRecipe {
+  recipe: Recipe;
+  receipt: ContractTransactionReceipt;
+}
+
+const MAX_UINT32 = 0xffffffff;
+
+function toRecipe(raw: RecipeBookFHE.RecipeStructOutput): Recipe {
+  return {
+    id: raw.id,
+    owner: raw.owner,
+    name: raw.name,
+    materials: [...raw.materials],
+    encryptedWeights: [...raw.materialWeights],
+    encryptedMultiplier: raw.catalystMultiplier,
+    encryptedCappedMaterialBonus: raw.cappedMaterialBonus,
+    createdAt: Number(raw.createdAt),
+  };
+}
+
+function assertUint32(label: string, value: number) {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_UINT32) {
+    throw new CraftingError(`${label} must be a uint32, got ${value}`);
+  }
+}
+
+export class RecipeBookClient {
+  readonly contract: RecipeBookFHE;
+  private readonly fhevm?: FhevmEncryptor;
+
+  constructor(contract: RecipeBookFHE, fhevm?: FhevmEncryptor) {
+    this.contract = contract;
+    this.fhevm = fhevm;
+  }
+
+  static connect(
+    address: string,
+    runner: ContractRunner,
+    fhevm?: FhevmEncryptor,
+  ): RecipeBookClient {
+    return new RecipeBookClient(
+      RecipeBookFHE__factory.connect(address, runner),
+      fhevm,
+    );
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  async getRecipe(recipeId: BigNumberish): Promise<Recipe> {
+    return toRecipe(await this.contract.getRecipe(recipeId));
+  }
+
+  async recipesOf(owner: AddressLike): Promise<Recipe[]> {
+    const ids = await this.contract.recipesOf(owner);
+    return Promise.all(ids.map((id) => this.getRecipe(id)));
+  }
+
+  /**
+   * Recipes other players shared with `grantee`, oldest first. The contract
+   * keeps grants private, so they are found through the RecipeShared events.
+   */
+  async sharedWith(grantee: AddressLike, fromBlock = 0): Promise<Recipe[]> {
+    const events = await this.contract.queryFilter(
+      this.contract.filters.RecipeShared(
+        undefined,
+        await resolveAddress(grantee),
+      ),
+      fromBlock,
+    );
+    const ids = [...new Set(events.map((e) => e.args.recipeId))];
+    return Promise.all(ids.map((id) => this.getRecipe(id)));
+  }
+
+  /** Whether `account` owns the recipe or was granted its use. */
+  async canUse(recipeId: BigNumberish, account: AddressLike): Promise<boolean> {
+    return this.contract.canUse(recipeId, account);
+  }
+
+  /**
+   * Encrypts the weights and the multiplier for the connected account and
+   * stores the recipe. Only the owner and the addresses it is shared with
+   * can decrypt them.
+   */
+  async createRecipe(newRecipe: NewRecipe): Promise<CreatedRecipe> {
+    if (!this.fhevm) {
+      throw new CraftingError(
+        "RecipeBookClient was created without an FHEVM instance",
+      );
+    }
+    if (newRecipe.weights.length !== newRecipe.materials.length) {
+      throw new CraftingError("Recipes need exactly one weight per material");
+    }
+    newRecipe.weights.forEach((w) => assertUint32("Material weight", w));
+    assertUint32("Catalyst multiplier", newRecipe.catalystMultiplier);
+
+    const owner = await requireSigner(
+      this.contract.runner,
+      "RecipeBookClient",
+    ).getAddress();
+    const input = this.fhevm.createEncryptedInput(
+      await this.getAddress(),
+      owner,
+    );
+    for (const weight of newRecipe.weights) {
+      input.add32(weight);
+    }
+    const { handles, inputProof } = await input
+      .add32(newRecipe.catalystMultiplier)
+      .encrypt();
+
+    const receipt = await sendAndWait(() =>
+      this.contract.createRecipe(
+        newRecipe.name,
+        newRecipe.materials,
+        handles.slice(0, -1),
+        handles[handles.length - 1],
+        inputProof,
+      ),
+    );
+    const [event] = parseEvents(
+      this.contract.interface,
+      receipt,
+      "RecipeCreated",
+    );
+    if (!event) {
+      throw new CraftingError("createRecipe did not emit RecipeCreated");
+    }
+    return { recipe: await this.getRecipe(event.args.recipeId), receipt };
+  }
+
+  /**
+   * Recipe owner only. The grant is permanent: the FHE ACL has no revoke,
+   * and the grantee can decrypt the recipe's parameters.
+   */
+  async shareRecipe(
+    recipeId: BigNumberish,
+    grantee: AddressLike,
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.shareRecipe(recipeId, grantee));
+  }
+
+  /** Owner only. */
+  async setConsumer(
+    consumer: AddressLike,
+    allowed: boolean,
+  ): Promise<ContractTransactionReceipt> {
+    return sendAndWait(() => this.contract.setConsumer(consumer, allowed));
+  }
+}
@@ -0,0 +1,401 @@
+import { ErrorDescription, Interface } from "ethers";
+import {
+  CraftingAnnouncements__factory,
+  CraftingGold__factory,
+  CraftingMaterials__factory,
+  CraftingQualityFHE__factory,
+  ItemMarketplace__factory,
+  ItemRegistryFHE__factory,
+  MasterpieceAuction__factory,
+  RecipeBookFHE__factory,
+} from "../types";
+
+// Every contract whose custom errors the SDK knows how to decode
+const CONTRACT_INTERFACES: Interface[] = [
+  CraftingAnnouncements__factory.createInterface(),
+  CraftingGold__factory.createInterface(),
+  CraftingMaterials__factory.createInterface(),
+  CraftingQualityFHE__factory.createInterface(),
+  ItemMarketplace__factory.createInterface(),
+  ItemRegistryFHE__factory.createInterface(),
+  MasterpieceAuction__factory.createInterface(),
+  RecipeBookFHE__factory.createInterface(),
+];
+
+export class CraftingError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Base class for the custom errors declared by the crafting contracts.
+ * `reason` is the Solidity error name, `args` its decoded arguments.
+ */
+export class CraftingContractError extends CraftingError {
+  readonly reason: string;
+  readonly args: unknown[];
+
+  constructor(
+    reason: string,
+    message: string,
+    options?: ErrorOptions & { args?: unknown[] },
+  ) {
+    super(message, options);
+    this.reason = reason;
+    this.args = options?.args ?? [];
+  }
+}
+
+export class NotOwnerError extends CraftingContractError {}
+export class NotProviderError extends CraftingContractError {}
+export class PausedError extends CraftingContractError {}
+export class BatchNotActiveError extends CraftingContractError {}
+export class BatchStillOpenError extends CraftingContractError {}
+export class BatchNotDueError extends CraftingContractError {}
+export class BatchNotSettledError extends CraftingContractError {}
+export class InvalidBatchConfigError extends CraftingContractError {}
+export class CooldownActiveError extends CraftingContractError {}
+export class InvalidRequestError extends CraftingContractError {}
+export class ReplayDetectedError extends CraftingContractError {}
+export class InvalidDecryptionError extends CraftingContractError {}
+export class InvalidModelError extends CraftingContractError {}
+export class InvalidPrivacyConfigError extends CraftingContractError {}
+export class TooFewSubmissionsError extends CraftingContractError {}
+export class NotItemOwnerError extends CraftingContractError {}
+export class ItemNotFoundError extends CraftingContractError {}
+export class InvalidItemError extends CraftingContractError {}
+export class InvalidRecipientError extends CraftingContractError {}
+export class InvalidThresholdError extends CraftingContractError {}
+export class RevealAlreadyRequestedError extends CraftingContractError {}
+export class UnknownRevealRequestError extends CraftingContractError {}
+export class NothingToPublishError extends CraftingContractError {}
+export class NotPublisherError extends CraftingContractError {}
+export class InvalidAnnouncementError extends CraftingContractError {}
+export class AnnouncementNotFoundError extends CraftingContractError {}
+export class NotConsumerError extends CraftingContractError {}
+export class RecipeNotFoundError extends CraftingContractError {}
+export class NotRecipeOwnerError extends CraftingContractError {}
+export class InvalidRecipeError extends CraftingContractError {}
+export class RecipeNotAllowedError extends CraftingContractError {}
+export class RecipeBookNotSetError extends CraftingContractError {}
+export class InvalidMaterialError extends CraftingContractError {}
+export class MaterialNotFoundError extends CraftingContractError {}
+export class FaucetDisabledError extends CraftingContractError {}
+export class MaterialInventoryNotSetError extends CraftingContractError {}
+export class InventoryRequiredError extends CraftingContractError {}
+export class InsufficientMaterialsError extends CraftingContractError {}
+export class NotSellerError extends CraftingContractError {}
+export class InvalidListingError extends CraftingContractError {}
+export class ListingNotFoundError extends CraftingContractError {}
+export class ListingNotActiveError extends CraftingContractError {}
+export class AlreadyListedError extends CraftingContractError {}
+export class MarketplaceNotApprovedError extends CraftingContractError {}
+export class GameTokenNotSetError extends CraftingContractError {}
+export class IncorrectPaymentError extends CraftingContractError {}
+export class PaymentFailedError extends CraftingContractError {}
+export class ClaimNotVerifiedError extends CraftingContractError {}
+export class UnknownClaimRequestError extends CraftingContractError {}
+export class InsufficientFundsError extends CraftingContractError {}
+export class NotMasterpieceError extends CraftingContractError {}
+export class InvalidAuctionError extends CraftingContractError {}
+export class AuctionNotFoundError extends CraftingContractError {}
+export class AuctionNotOpenError extends CraftingContractError {}
+export class AuctionNotEndedError extends CraftingContractError {}
+export class InvalidBidError extends CraftingContractError {}
+export class BidAlreadyPlacedError extends CraftingContractError {}
+export class NothingToWithdrawError extends CraftingContractError {}
+export class UnknownCloseRequestError extends CraftingContractError {}
+export class CloseNotStalledError extends CraftingContractError {}
+
+export class DecryptionTimeoutError extends CraftingError {
+  readonly requestId: bigint;
+
+  constructor(requestId: bigint, timeoutMs: number) {
+    super(`Decryption request ${requestId} not completed after ${timeoutMs}ms`);
+    this.requestId = requestId;
+  }
+}
+
+type ContractErrorClass = new (
+  reason: string,
+  message: string,
+  options?: ErrorOptions & { args?: unknown[] },
+) => CraftingContractError;
+
+const CONTRACT_ERRORS: Record<string, [ContractErrorClass, string]> = {
+  NotOwner: [NotOwnerError, "Caller is not the contract owner"],
+  NotProvider: [NotProviderError, "Caller is not a registered provider"],
+  Paused: [PausedError, "Crafting is paused"],
+  BatchNotActive: [BatchNotActiveError, "Batch is not open"],
+  BatchStillOpen: [
+    BatchStillOpenError,
+    "Batch is still open, close it before decrypting",
+  ],
+  BatchNotDue: [
+    BatchNotDueError,
+    "Batch has not reached its expiry or size limit",
+  ],
+  BatchNotSettled: [
+    BatchNotSettledError,
+    "Batch must be closed and its score revealed before archiving",
+  ],
+  InvalidBatchConfig: [
+    InvalidBatchConfigError,
+    "Batch size limit must be between 1 and MAX_BATCH_SIZE",
+  ],
+  CooldownActive: [CooldownActiveError, "Caller is still in cooldown"],
+  InvalidRequest: [
+    InvalidRequestError,
+    "Batch has no submissions to decrypt or was archived",
+  ],
+  ReplayDetected: [
+    ReplayDetectedError,
+    "Submission or callback was already processed",
+  ],
+  InvalidDecryption: [
+    InvalidDecryptionError,
+    "Batch state changed since the decryption was requested",
+  ],
+  InvalidModel: [
+    InvalidModelError,
+    "Model version is not registered, or cannot be registered again",
+  ],
+  InvalidPrivacyConfig: [
+    InvalidPrivacyConfigError,
+    "Minimum submissions must be at least 1, the stats minimum between it and MAX_BATCH_SIZE, and the noise bound 0 or odd",
+  ],
+  TooFewSubmissions: [
+    TooFewSubmissionsError,
+    "Batch has fewer submissions than the decryption minimum",
+  ],
+  NotItemOwner: [NotItemOwnerError, "Caller does not own this item"],
+  ItemNotFound: [ItemNotFoundError, "Item does not exist"],
+  InvalidItem: [
+    InvalidItemError,
+    "Item name, materials or base quality are empty or out of range",
+  ],
+  InvalidRecipient: [
+    InvalidRecipientError,
+    "Recipient cannot be the zero address or the caller",
+  ],
+  InvalidThreshold: [
+    InvalidThresholdError,
+    "Threshold must be between 1 and the maximum quality",
+  ],
+  RevealAlreadyRequested: [
+    RevealAlreadyRequestedError,
+    "Reveal is already pending or, for masterpieces, already completed",
+  ],
+  UnknownRevealRequest: [
+    UnknownRevealRequestError,
+    "No pending reveal for this request",
+  ],
+  NothingToPublish: [
+    NothingToPublishError,
+    "Caller has not crafted any item yet",
+  ],
+  NotPublisher: [
+    NotPublisherError,
+    "Caller is not allowed to publish or withdraw this announcement",
+  ],
+  InvalidAnnouncement: [
+    InvalidAnnouncementError,
+    "Announcement is empty, too long, already expired or already withdrawn",
+  ],
+  AnnouncementNotFound: [
+    AnnouncementNotFoundError,
+    "Announcement does not exist",
+  ],
+  NotConsumer: [
+    NotConsumerError,
+    "Caller is not an approved consumer contract",
+  ],
+  RecipeNotFound: [RecipeNotFoundError, "Recipe does not exist"],
+  NotRecipeOwner: [NotRecipeOwnerError, "Caller does not own this recipe"],
+  InvalidRecipe: [
+    InvalidRecipeError,
+    "Recipe name or materials are empty, too long or mismatched",
+  ],
+  RecipeNotAllowed: [
+    RecipeNotAllowedError,
+    "Crafter was not granted use of this recipe",
+  ],
+  RecipeBookNotSet: [
+    RecipeBookNotSetError,
+    "Item registry has no recipe book configured",
+  ],
+  InvalidMaterial: [
+    InvalidMaterialError,
+    "Material name is empty, too long or taken, or its tier is out of range",
+  ],
+  MaterialNotFound: [MaterialNotFoundError, "Material is not in the catalog"],
+  FaucetDisabled: [
+    FaucetDisabledError,
+    "The faucet is only enabled on test networks",
+  ],
+  MaterialInventoryNotSet: [
+    MaterialInventoryNotSetError,
+    "Item registry has no material inventory configured",
+  ],
+  InventoryRequired: [
+    InventoryRequiredError,
+    "Crafting must use materials from the inventory",
+  ],
+  NotSeller: [NotSellerError, "Caller does not own the item or listing"],
+  InvalidListing: [
+    InvalidListingError,
+    "Listing price is zero or the seller is buying their own item",
+  ],
+  ListingNotFound: [ListingNotFoundError, "Listing does not exist"],
+  ListingNotActive: [
+    ListingNotActiveError,
+    "Listing was sold, cancelled or the seller no longer owns the item",
+  ],
+  AlreadyListed: [AlreadyListedError, "Item already has an active listing"],
+  MarketplaceNotApproved: [
+    MarketplaceNotApprovedError,
+    "Marketplace is not approved to transfer this item",
+  ],
+  GameTokenNotSet: [
+    GameTokenNotSetError,
+    "Marketplace has no game token configured",
+  ],
+  IncorrectPayment: [
+    IncorrectPaymentError,
+    "Sent value does not match the listing price and currency",
+  ],
+  PaymentFailed: [PaymentFailedError, "Seller did not accept the ETH payment"],
+  ClaimNotVerified: [
+    ClaimNotVerifiedError,
+    "The listing's quality claim is still being checked or was refuted",
+  ],
+  UnknownClaimRequest: [
+    UnknownClaimRequestError,
+    "No pending quality claim for this request",
+  ],
+  NotMasterpiece: [
+    NotMasterpieceError,
+    "Only items publicly revealed as masterpieces can be auctioned",
+  ],
+  InvalidAuction: [
+    InvalidAuctionError,
+    "Auction duration is outside the allowed range",
+  ],
+  AuctionNotFound: [AuctionNotFoundError, "Auction does not exist"],
+  AuctionNotOpen: [
+    AuctionNotOpenError,
+    "Auction is not open for this action, or already has bids",
+  ],
+  AuctionNotEnded: [AuctionNotEndedError, "Auction is still running"],
+  InvalidBid: [
+    InvalidBidError,
+    "Deposit is under 1 gwei, above the bid limit or below the reserve price, or the seller is bidding",
+  ],
+  BidAlreadyPlaced: [
+    BidAlreadyPlacedError,
+    "Caller already bid in this auction",
+  ],
+  NothingToWithdraw: [
+    NothingToWithdrawError,
+    "Nothing left to withdraw from this auction",
+  ],
+  UnknownCloseRequest: [
+    UnknownCloseRequestError,
+    "No pending auction close for this request",
+  ],
+  CloseNotStalled: [
+    CloseNotStalledError,
+    "Auction is not closing, or its close timeout has not passed yet",
+  ],
+  ERC721NonexistentToken: [ItemNotFoundError, "Item does not exist"],
+  ERC721InsufficientApproval: [
+    NotItemOwnerError,
+    "Caller neither owns this item nor is approved for it",
+  ],
+  ERC20InsufficientBalance: [
+    InsufficientFundsError,
+    "Not enough game tokens for this purchase",
+  ],
+  ERC20InsufficientAllowance: [
+    InsufficientFundsError,
+    "Marketplace allowance is below the listing price",
+  ],
+  ERC1155InsufficientBalance: [
+    InsufficientMaterialsError,
+    "Not enough of a material for this craft",
+  ],
+};
+
+function findRevertData(error: unknown, depth = 0): string | undefined {
+  if (!error || typeof error !== "object" || depth > 4) {
+    return undefined;
+  }
+  const e = error as Record<string, unknown>;
+  if (
+    typeof e.data === "string" &&
+    e.data.startsWith("0x") &&
+    e.data.length >= 10
+  ) {
+    return e.data;
+  }
+  for (const key of ["error", "info", "cause"]) {
+    const nested = findRevertData(e[key], depth + 1);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+function parseRevert(data: string): ErrorDescription | null {
+  for (const contractInterface of CONTRACT_INTERFACES) {
+    try {
+      const parsed = contractInterface.parseError(data);
+      if (parsed) return parsed;
+    } catch {
+      // not one of this interface's errors
+    }
+  }
+  return null;
+}
+
+/**
+ * Maps a revert coming out of ethers onto the typed error class for the
+ * matching custom error. Returns undefined when the revert data is missing
+ * or does not belong to one of the crafting contracts.
+ */
+export function decodeCraftingError(
+  error: unknown,
+): CraftingContractError | undefined {
+  if (error instanceof CraftingContractError) {
+    return error;
+  }
+  const data = findRevertData(error);
+  if (!data) {
+    return undefined;
+  }
+  const parsed = parseRevert(data);
+  if (!parsed) {
+    return undefined;
+  }
+  const [ErrorClass, message] = CONTRACT_ERRORS[parsed.name] ?? [
+    CraftingContractError,
+    `Reverted with ${parsed.name}`,
+  ];
+  return new ErrorClass(parsed.name, message, {
+    cause: error,
+    args: [...parsed.args],
+  });
+}
+
+/**
+ * Runs `fn` and rethrows contract reverts as typed errors. Anything that
+ * cannot be decoded is rethrown untouched.
+ */
+export async function withCraftingErrors<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (e) {
+    throw decodeCraftingError(e) ?? e;
+  }
+}
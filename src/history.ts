@@ -0,0 +1,98 @@
+import { IndexedBatch, IndexedItem } from "./ItemIndexer";
+import { ItemStatus } from "./ItemRegistryClient";
+
+/** Item statuses, or the state of the batch a quality was submitted to. */
+export type HistoryStatus = ItemStatus | "submitted" | "closed";
+
+export interface HistoryEntry {
+  /** Stable across syncs: "item:<id>" or "submission:<batchId>" */
+  key: string;
+  /** Items live in ItemRegistryFHE, submissions in CraftingQualityFHE */
+  kind: "item" | "submission";
+  itemId: string | null;
+  itemName: string | null;
+  batchId: string | null;
+  status: HistoryStatus;
+  /** Handle the player can decrypt, the quality is never stored in clear */
+  encryptedQuality: string;
+  /** Unix seconds, null for submissions whose events carry no timestamp */
+  timestamp: number | null;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+/** Indexed state the history is rebuilt from, usually an ItemIndexer. */
+export interface HistorySource {
+  readonly items: IndexedItem[];
+  readonly batches: IndexedBatch[];
+}
+
+// Newest batch that was open when the item was crafted, if any
+function batchAt(
+  batches: IndexedBatch[],
+  timestamp: number,
+): IndexedBatch | undefined {
+  let found: IndexedBatch | undefined;
+  for (const batch of batches) {
+    const open =
+      batch.createdAt <= timestamp &&
+      (batch.active || timestamp <= batch.closedAt);
+    if (open && (!found || Number(batch.id) > Number(found.id))) {
+      found = batch;
+    }
+  }
+  return found;
+}
+
+/**
+ * Everything `player` crafted or submitted, newest first. Items keep
+ * crediting their crafter after a transfer; their batch is the one open
+ * when they were crafted, since the registry does not record one.
+ */
+export function playerHistory(
+  source: HistorySource,
+  player: string,
+): HistoryEntry[] {
+  const account = player.toLowerCase();
+  const entries: HistoryEntry[] = [];
+
+  for (const item of source.items) {
+    if (item.crafter.toLowerCase() !== account) continue;
+    entries.push({
+      key: `item:${item.id}`,
+      kind: "item",
+      itemId: item.id,
+      itemName: item.name,
+      batchId: batchAt(source.batches, item.createdAt)?.id ?? null,
+      status: item.status,
+      encryptedQuality: item.crafterEncryptedQuality,
+      timestamp: item.createdAt,
+      blockNumber: item.createdAtBlock,
+      logIndex: item.createdAtLogIndex,
+      transactionHash: item.transactionHash,
+    });
+  }
+  for (const batch of source.batches) {
+    for (const submission of batch.submissions) {
+      if (submission.crafter.toLowerCase() !== account) continue;
+      entries.push({
+        key: `submission:${batch.id}`,
+        kind: "submission",
+        itemId: null,
+        itemName: null,
+        batchId: batch.id,
+        status: batch.active ? "submitted" : "closed",
+        encryptedQuality: submission.encryptedQuality,
+        timestamp: null,
+        blockNumber: submission.blockNumber,
+        logIndex: submission.logIndex,
+        transactionHash: submission.transactionHash,
+      });
+    }
+  }
+
+  return entries.sort(
+    (a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex,
+  );
+}
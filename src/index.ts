@@ -0,0 +1,15 @@
+export * from "./AnnouncementsClient";
+export * from "./AuctionClient";
+export * from "./BatchKeeper";
+export * from "./CraftingClient";
+export * from "./DecryptionTracker";
+export * from "./errors";
+export * from "./history";
+export * from "./ItemIndexer";
+export * from "./ItemRegistryClient";
+export * from "./leaderboard";
+export * from "./LocalDecryptionOracle";
+export * from "./MarketplaceClient";
+export * from "./MaterialsClient";
+export * from "./networks";
+export * from "./RecipeBookClient";
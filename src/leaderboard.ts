@@ -0,0 +1,149 @@
+import { CraftingError } from "./errors";
+import { IndexedAverage, IndexedBatch, IndexedItem } from "./ItemIndexer";
+
+/** A calendar quarter (UTC), bounds in unix seconds with `end` exclusive. */
+export interface Season {
+  id: string;
+  start: number;
+  end: number;
+}
+
+export interface LeaderboardFilter {
+  /** Only activity of this batch: its submissions and items crafted while it was open */
+  batchId?: string;
+  season?: Season;
+  /** Unix seconds, inclusive */
+  from?: number;
+  /** Unix seconds, exclusive */
+  to?: number;
+}
+
+export interface LeaderboardEntry {
+  address: string;
+  craftedCount: number;
+  /** Items whose masterpiece flag was publicly revealed as true */
+  masterpieces: number;
+  submissions: number;
+  /** Published all-time average, null unless the crafter opted in */
+  averageQuality: number | null;
+  sampleSize: number;
+}
+
+/** Indexed state the leaderboard is computed from, usually an ItemIndexer. */
+export interface LeaderboardSource {
+  readonly items: IndexedItem[];
+  readonly batches: IndexedBatch[];
+  readonly averages: IndexedAverage[];
+}
+
+export function seasonOf(timestamp: number): Season {
+  const date = new Date(timestamp * 1000);
+  const year = date.getUTCFullYear();
+  const quarter = Math.floor(date.getUTCMonth() / 3);
+  return {
+    id: `${year}-Q${quarter + 1}`,
+    start: Date.UTC(year, quarter * 3, 1) / 1000,
+    end: Date.UTC(year, quarter * 3 + 3, 1) / 1000,
+  };
+}
+
+/** The `count` most recent seasons, current one first. */
+export function recentSeasons(
+  count: number,
+  now = Math.floor(Date.now() / 1000),
+): Season[] {
+  const seasons: Season[] = [];
+  let season = seasonOf(now);
+  while (seasons.length < count) {
+    seasons.push(season);
+    season = seasonOf(season.start - 1);
+  }
+  return seasons;
+}
+
+// Intersection of every time bound in the filter, as [start, end)
+function timeWindow(
+  filter: LeaderboardFilter,
+  batch?: IndexedBatch,
+): [number, number] {
+  let start = Math.max(filter.from ?? 0, filter.season?.start ?? 0);
+  let end = Math.min(filter.to ?? Infinity, filter.season?.end ?? Infinity);
+  if (batch) {
+    start = Math.max(start, batch.createdAt);
+    // closedAt is the closing block's timestamp, items of that block count
+    end = Math.min(end, batch.active ? Infinity : batch.closedAt + 1);
+  }
+  return [start, end];
+}
+
+/**
+ * Ranks crafters by revealed masterpieces, then crafted items, then
+ * published average. Counts follow the filter; averages are all-time since
+ * the contract only publishes a single running average per crafter.
+ * Without a batch filter, submissions count when their batch was open
+ * during the time window.
+ */
+export function buildLeaderboard(
+  source: LeaderboardSource,
+  filter: LeaderboardFilter = {},
+): LeaderboardEntry[] {
+  let batches = source.batches;
+  let batch: IndexedBatch | undefined;
+  if (filter.batchId !== undefined) {
+    batch = batches.find((b) => b.id === filter.batchId);
+    if (!batch) {
+      throw new CraftingError(`Unknown batch ${filter.batchId}`);
+    }
+    batches = [batch];
+  }
+  const [start, end] = timeWindow(filter, batch);
+
+  const entries = new Map<string, LeaderboardEntry>();
+  const entryFor = (address: string) => {
+    const key = address.toLowerCase();
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = {
+        address,
+        craftedCount: 0,
+        masterpieces: 0,
+        submissions: 0,
+        averageQuality: null,
+        sampleSize: 0,
+      };
+      entries.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const item of source.items) {
+    if (item.createdAt < start || item.createdAt >= end) continue;
+    const entry = entryFor(item.crafter);
+    entry.craftedCount++;
+    if (item.isMasterpiece === true) {
+      entry.masterpieces++;
+    }
+  }
+  for (const b of batches) {
+    const closedAt = b.active ? Infinity : b.closedAt;
+    if (b.createdAt >= end || closedAt < start) continue;
+    for (const submission of b.submissions) {
+      entryFor(submission.crafter).submissions++;
+    }
+  }
+  for (const average of source.averages) {
+    const entry = entries.get(average.crafter.toLowerCase());
+    if (entry) {
+      entry.averageQuality = average.averageQuality;
+      entry.sampleSize = average.sampleSize;
+    }
+  }
+
+  return [...entries.values()].sort(
+    (a, b) =>
+      b.masterpieces - a.masterpieces ||
+      b.craftedCount - a.craftedCount ||
+      (b.averageQuality ?? -1) - (a.averageQuality ?? -1) ||
+      b.submissions - a.submissions,
+  );
+}
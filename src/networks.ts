@@ -0,0 +1,322 @@
+import { isAddress } from "ethers";
+
+/**
+ * Network registry shared by hardhat.config.ts, the SDK scripts and the Vite
+ * app. Every value has a default below and can be overridden through
+ * environment variables named `<NETWORK>_<FIELD>`, e.g. `SEPOLIA_RPC_URLS`
+ * or `LOCAL_FHEVM_RELAYER_URL`. The Vite app reads the same variables with
+ * a `VITE_` prefix.
+ */
+
+// Defined here rather than in errors.ts: hardhat.config.ts loads this module,
+// and errors.ts depends on the generated types which need the config first.
+export class NetworkConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetworkConfigError";
+  }
+}
+
+export const NETWORK_NAMES = ["localhost", "localFhevm", "sepolia"] as const;
+export type NetworkName = (typeof NETWORK_NAMES)[number];
+
+export const CONTRACT_NAMES = [
+  "CraftingAnnouncements",
+  "CraftingGold",
+  "CraftingMaterials",
+  "CraftingQualityFHE",
+  "ItemMarketplace",
+  "ItemRegistryFHE",
+  "MasterpieceAuction",
+  "RecipeBookFHE",
+] as const;
+export type ContractName = (typeof CONTRACT_NAMES)[number];
+
+export type ContractAddresses = Partial<Record<ContractName, string>>;
+
+/**
+ * - `mock`: `npx hardhat node` with the FHEVM hardhat plugin, inputs and
+ *   decryptions are emulated by @fhevm/mock-utils.
+ * - `relayer`: a real FHEVM coprocessor reached through the Zama relayer.
+ */
+export type FhevmMode = "mock" | "relayer";
+
+export interface FhevmConfig {
+  mode: FhevmMode;
+  relayerUrl?: string;
+  gatewayChainId: number;
+  aclContractAddress?: string;
+  kmsContractAddress?: string;
+  inputVerifierContractAddress?: string;
+  verifyingContractAddressDecryption?: string;
+  verifyingContractAddressInputVerification?: string;
+}
+
+export interface NetworkConfig {
+  name: NetworkName;
+  chainId: number;
+  rpcUrls: string[];
+  explorerUrl?: string;
+  fhevm: FhevmConfig;
+  contracts: ContractAddresses;
+}
+
+export type Env = Record<string, string | boolean | undefined>;
+
+export interface Deployment {
+  chainId: number;
+  contracts: ContractAddresses;
+}
+
+export interface ResolveNetworkOptions {
+  /** Prefix of every variable read from `env`, "VITE_" in the frontend. */
+  prefix?: string;
+  /** Network used when `CRAFTING_NETWORK` is not set. */
+  defaultNetwork?: NetworkName;
+  /**
+   * Known deployments, e.g. an exported config.json. Addresses are picked
+   * from the entry matching the network chain id, env variables win.
+   */
+  deployments?: Deployment[];
+}
+
+export const NETWORK_ENV_VAR = "CRAFTING_NETWORK";
+
+const REGISTRY: Record<NetworkName, NetworkConfig> = {
+  // `npx hardhat node`, the FHEVM plugin deploys its mock contracts on start
+  localhost: {
+    name: "localhost",
+    chainId: 31337,
+    rpcUrls: ["http://localhost:8545"],
+    fhevm: {
+      mode: "mock",
+      gatewayChainId: 55815,
+      verifyingContractAddressDecryption:
+        "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64",
+      verifyingContractAddressInputVerification:
+        "0x812b06e1CDCE800494b79fFE4f925A504a9A9810",
+    },
+    contracts: {},
+  },
+  // Full FHEVM stack running locally. Host contract addresses depend on the
+  // stack deployment and must be provided through the environment.
+  localFhevm: {
+    name: "localFhevm",
+    chainId: 12345,
+    rpcUrls: ["http://localhost:8545"],
+    fhevm: {
+      mode: "relayer",
+      relayerUrl: "http://localhost:3000",
+      gatewayChainId: 54321,
+    },
+    contracts: {},
+  },
+  sepolia: {
+    name: "sepolia",
+    chainId: 11155111,
+    rpcUrls: [
+      "https://ethereum-sepolia-rpc.publicnode.com",
+      "https://sepolia.drpc.org",
+      "https://rpc.sepolia.org",
+    ],
+    explorerUrl: "https://sepolia.etherscan.io",
+    fhevm: {
+      mode: "relayer",
+      relayerUrl: "https://relayer.testnet.zama.cloud",
+      gatewayChainId: 55815,
+      aclContractAddress: "0x687820221192C5B662b25367F70076A37bc79b6c",
+      kmsContractAddress: "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC",
+      inputVerifierContractAddress:
+        "0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4",
+      verifyingContractAddressDecryption:
+        "0xb6E160B1ff80D67Bfe90A85eE06Ce0A2613607D1",
+      verifyingContractAddressInputVerification:
+        "0x7048C39f048125eDa9d678AEbaDfB22F7900a29F",
+    },
+    contracts: {},
+  },
+};
+
+const FHEVM_ADDRESS_FIELDS = [
+  ["aclContractAddress", "ACL_ADDRESS"],
+  ["kmsContractAddress", "KMS_VERIFIER_ADDRESS"],
+  ["inputVerifierContractAddress", "INPUT_VERIFIER_ADDRESS"],
+  ["verifyingContractAddressDecryption", "DECRYPTION_ADDRESS"],
+  ["verifyingContractAddressInputVerification", "INPUT_VERIFICATION_ADDRESS"],
+] as const;
+
+/** "localFhevm" -> "LOCAL_FHEVM", "CraftingQualityFHE" -> "CRAFTING_QUALITY_FHE" */
+function toEnvKey(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .toUpperCase();
+}
+
+export function isNetworkName(name: unknown): name is NetworkName {
+  return NETWORK_NAMES.includes(name as NetworkName);
+}
+
+function readEnv(env: Env, key: string): string | undefined {
+  const value = env[key];
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/**
+ * Name of the network selected through `CRAFTING_NETWORK`, or
+ * `options.defaultNetwork` when unset.
+ */
+export function selectedNetworkName(
+  env: Env,
+  options: ResolveNetworkOptions = {},
+): NetworkName | undefined {
+  const prefix = options.prefix ?? "";
+  const selected = readEnv(env, `${prefix}${NETWORK_ENV_VAR}`);
+  if (selected === undefined) {
+    return options.defaultNetwork;
+  }
+  if (!isNetworkName(selected)) {
+    throw new NetworkConfigError(
+      `${prefix}${NETWORK_ENV_VAR}="${selected}" is not one of ${NETWORK_NAMES.join(", ")}`,
+    );
+  }
+  return selected;
+}
+
+/**
+ * Registry entry for `name` with environment overrides applied. Malformed
+ * values throw a NetworkConfigError listing every problem found.
+ */
+export function getNetwork(
+  name: NetworkName,
+  env: Env = {},
+  options: ResolveNetworkOptions = {},
+): NetworkConfig {
+  const base = REGISTRY[name];
+  if (!base) {
+    throw new NetworkConfigError(`Unknown network "${name}"`);
+  }
+  const key = (field: string) =>
+    `${options.prefix ?? ""}${toEnvKey(name)}_${field}`;
+  const read = (field: string) => readEnv(env, key(field));
+  const errors: string[] = [];
+
+  const parseChainId = (field: string, fallback: number) => {
+    const raw = read(field);
+    if (raw === undefined) return fallback;
+    const value = Number(raw);
+    if (!Number.isSafeInteger(value) || value <= 0) {
+      errors.push(`${key(field)} must be a positive integer, got "${raw}"`);
+    }
+    return value;
+  };
+
+  const rpcUrls =
+    read("RPC_URLS")
+      ?.split(",")
+      .map((url) => url.trim())
+      .filter((url) => url.length > 0) ?? base.rpcUrls;
+  if (rpcUrls.length === 0) {
+    errors.push(`${key("RPC_URLS")} must list at least one url`);
+  }
+  for (const url of rpcUrls) {
+    if (!/^(https?|wss?):\/\//.test(url)) {
+      errors.push(`${key("RPC_URLS")} contains an invalid url "${url}"`);
+    }
+  }
+
+  const explorerUrl = read("EXPLORER_URL") ?? base.explorerUrl;
+  if (explorerUrl !== undefined && !/^https?:\/\//.test(explorerUrl)) {
+    errors.push(`${key("EXPLORER_URL")} is not an http(s) url`);
+  }
+
+  const fhevm: FhevmConfig = {
+    ...base.fhevm,
+    relayerUrl: read("RELAYER_URL") ?? base.fhevm.relayerUrl,
+    gatewayChainId: parseChainId("GATEWAY_CHAIN_ID", base.fhevm.gatewayChainId),
+  };
+  if (
+    fhevm.relayerUrl !== undefined &&
+    !/^https?:\/\//.test(fhevm.relayerUrl)
+  ) {
+    errors.push(`${key("RELAYER_URL")} is not an http(s) url`);
+  }
+  for (const [field, envField] of FHEVM_ADDRESS_FIELDS) {
+    const value = read(envField) ?? base.fhevm[field];
+    if (value !== undefined && !isAddress(value)) {
+      errors.push(`${key(envField)} is not an address: "${value}"`);
+    }
+    if (value !== undefined) fhevm[field] = value;
+  }
+
+  const chainId = parseChainId("CHAIN_ID", base.chainId);
+  const deployed =
+    options.deployments?.find((d) => d.chainId === chainId)?.contracts ?? {};
+  const contracts: ContractAddresses = { ...base.contracts };
+  for (const contract of CONTRACT_NAMES) {
+    const field = `${toEnvKey(contract)}_ADDRESS`;
+    const value = read(field) ?? deployed[contract] ?? base.contracts[contract];
+    if (value === undefined) continue;
+    if (!isAddress(value)) {
+      errors.push(`${key(field)} is not an address: "${value}"`);
+    } else {
+      contracts[contract] = value;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new NetworkConfigError(
+      `Invalid configuration for network ${name}:\n  - ${errors.join("\n  - ")}`,
+    );
+  }
+  return { name, chainId, rpcUrls, explorerUrl, fhevm, contracts };
+}
+
+/**
+ * The network selected by `CRAFTING_NETWORK` (or `options.defaultNetwork`),
+ * checked to be usable: relayer networks need every FHEVM host address.
+ */
+export function resolveNetwork(
+  env: Env,
+  options: ResolveNetworkOptions = {},
+): NetworkConfig {
+  const name = selectedNetworkName(env, options);
+  if (name === undefined) {
+    throw new NetworkConfigError(
+      `No network selected, set ${options.prefix ?? ""}${NETWORK_ENV_VAR} to one of ${NETWORK_NAMES.join(", ")}`,
+    );
+  }
+  const network = getNetwork(name, env, options);
+  if (network.fhevm.mode === "relayer") {
+    const missing = FHEVM_ADDRESS_FIELDS.filter(
+      ([field]) => network.fhevm[field] === undefined,
+    ).map(
+      ([, envField]) => `${options.prefix ?? ""}${toEnvKey(name)}_${envField}`,
+    );
+    if (!network.fhevm.relayerUrl) {
+      missing.unshift(`${options.prefix ?? ""}${toEnvKey(name)}_RELAYER_URL`);
+    }
+    if (missing.length > 0) {
+      throw new NetworkConfigError(
+        `Network ${name} uses the relayer but ${missing.join(", ")} ${missing.length > 1 ? "are" : "is"} not set`,
+      );
+    }
+  }
+  return network;
+}
+
+/** Address of `contract` on `network`, throws when it was never deployed. */
+export function requireContractAddress(
+  network: NetworkConfig,
+  contract: ContractName,
+): string {
+  const address = network.contracts[contract];
+  if (!address) {
+    throw new NetworkConfigError(
+      `${contract} has no known address on ${network.name}, set ${toEnvKey(network.name)}_${toEnvKey(contract)}_ADDRESS or export a deployment`,
+    );
+  }
+  return address;
+}
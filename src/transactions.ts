@@ -0,0 +1,107 @@
+import {
+  BaseContract,
+  ContractEventPayload,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  DeferredTopicFilter,
+  EventLog,
+  Interface,
+  LogDescription,
+  Signer,
+} from "ethers";
+import { CraftingError, withCraftingErrors } from "./errors";
+
+/** Signer behind a contract runner, for calls that need an account. */
+export function requireSigner(runner: unknown, client: string): Signer {
+  const signer = runner as Signer | null;
+  if (!signer || typeof signer.getAddress !== "function") {
+    throw new CraftingError(`${client} needs a signer for this call`);
+  }
+  return signer;
+}
+
+/** Sends a transaction, waits for it and rethrows reverts as typed errors. */
+export async function sendAndWait(
+  fn: () => Promise<ContractTransactionResponse>,
+): Promise<ContractTransactionReceipt> {
+  return withCraftingErrors(async () => {
+    const tx = await fn();
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new CraftingError(`Transaction ${tx.hash} was dropped`);
+    }
+    return receipt;
+  });
+}
+
+export function parseEvents(
+  contractInterface: Interface,
+  receipt: ContractTransactionReceipt,
+  name: string,
+): LogDescription[] {
+  const events: LogDescription[] = [];
+  for (const log of receipt.logs) {
+    const parsed = contractInterface.parseLog(log);
+    if (parsed?.name === name) events.push(parsed);
+  }
+  return events;
+}
+
+/** Resolves after `ms`, or early once `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
+}
+
+export interface WaitForEventOptions {
+  timeoutMs: number;
+  fromBlock?: number;
+  onTimeout: () => Error;
+}
+
+/**
+ * Resolves with the first log matching `filter`, mapped through `toResult`.
+ * Past logs are checked after subscribing, so an event emitted before the
+ * call resolves immediately and one emitted meanwhile is not missed.
+ */
+export function waitForEvent<T>(
+  contract: BaseContract,
+  filter: DeferredTopicFilter,
+  toResult: (log: EventLog) => T,
+  options: WaitForEventOptions,
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    const finish = (result?: T, error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      void contract.off(filter, listener);
+      if (error) reject(error);
+      else resolve(result!);
+    };
+    const listener = (...args: unknown[]) => {
+      const { log } = args[args.length - 1] as ContractEventPayload;
+      finish(toResult(log));
+    };
+    const timer = setTimeout(
+      () => finish(undefined, options.onTimeout()),
+      options.timeoutMs,
+    );
+
+    contract
+      .on(filter, listener)
+      .then(() => contract.queryFilter(filter, options.fromBlock ?? 0))
+      .then(([past]) => {
+        if (past instanceof EventLog) finish(toResult(past));
+      })
+      .catch((e) => finish(undefined, e));
+  });
+}
@@ -0,0 +1,86 @@
+import { task, types } from "hardhat/config";
+import {
+  LocalDecryptionOracle,
+  OracleFailureMode,
+} from "../src/LocalDecryptionOracle";
+
+const FAILURE_MODES: OracleFailureMode[] = ["drop", "revert"];
+
+/**
+ * Answers `FHE.requestDecryption` calls on a local `npx hardhat node`, in
+ * place of the off-chain decryption oracle. See src/LocalDecryptionOracle.ts.
+ *
+ * Example:
+ *   - npx hardhat --network localhost decryption-oracle
+ *   - npx hardhat --network localhost decryption-oracle --delay 30 --failure-rate 0.2 --failure-mode revert
+ */
+task(
+  "decryption-oracle",
+  "Answers decryption requests on a local FHEVM mock node",
+)
+  .addOptionalParam(
+    "delay",
+    "Seconds before a request is answered",
+    0,
+    types.float,
+  )
+  .addOptionalParam(
+    "failureRate",
+    "Share of requests that fail, between 0 and 1",
+    0,
+    types.float,
+  )
+  .addOptionalParam(
+    "failureMode",
+    `How failing requests fail: ${FAILURE_MODES.join(" or ")}`,
+    "drop",
+    types.string,
+  )
+  .addOptionalParam("interval", "Seconds between two polls", 1, types.float)
+  .addOptionalParam(
+    "fromBlock",
+    "First block scanned for requests, the latest one by default",
+    undefined,
+    types.int,
+  )
+  .setAction(async function (
+    taskArguments: {
+      delay: number;
+      failureRate: number;
+      failureMode: string;
+      interval: number;
+      fromBlock?: number;
+    },
+    hre,
+  ) {
+    await hre.fhevm.initializeCLIApi();
+    if (!hre.fhevm.isMock) {
+      throw new Error(
+        `${hre.network.name} runs a real decryption oracle, the stand-in only works against the FHEVM mock`,
+      );
+    }
+    if (
+      !FAILURE_MODES.includes(taskArguments.failureMode as OracleFailureMode)
+    ) {
+      throw new Error(
+        `--failure-mode must be ${FAILURE_MODES.join(" or ")}, got ${taskArguments.failureMode}`,
+      );
+    }
+
+    const [signer] = await hre.ethers.getSigners();
+    const oracle = new LocalDecryptionOracle(signer, {
+      delayMs: taskArguments.delay * 1000,
+      failureRate: taskArguments.failureRate,
+      failureMode: taskArguments.failureMode as OracleFailureMode,
+      fromBlock: taskArguments.fromBlock,
+      log: (message) => console.log(`[${new Date().toISOString()}] ${message}`),
+    });
+
+    console.log(
+      `Answering decryption requests on ${hre.network.name} as ${signer.address}`,
+    );
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    process.once("SIGTERM", () => controller.abort());
+    await oracle.run(taskArguments.interval * 1000, controller.signal);
+  });
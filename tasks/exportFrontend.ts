@@ -0,0 +1,214 @@
+import fs from "fs";
+import path from "path";
+import { Interface, isAddress } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  CONTRACT_NAMES,
+  getNetwork,
+  isNetworkName,
+  NetworkName,
+} from "../src/networks";
+
+/**
+ * Shape of frontend/web/src/config.json. `network` names the registry entry
+ * (RPC, FHEVM gateway, ...) the app connects to, `contractAddress` is the
+ * primary CraftingQualityFHE deployment, `contracts` lists every exported
+ * contract and `startBlocks` their deployment blocks, where the frontend
+ * indexer starts scanning for events.
+ */
+interface FrontendConfig {
+  network: NetworkName;
+  chainId: number;
+  contractAddress: string;
+  deployer: string;
+  contracts: Record<string, string>;
+  startBlocks: Record<string, number>;
+}
+
+interface FrontendAbi {
+  contractName: string;
+  address: string;
+  abi: unknown[];
+}
+
+interface CollectedContract {
+  exported: FrontendAbi;
+  startBlock?: number;
+}
+
+const PRIMARY_CONTRACT = "CraftingQualityFHE";
+
+function validateConfig(config: FrontendConfig): string[] {
+  const errors: string[] = [];
+  const expectedChainId = getNetwork(config.network, process.env).chainId;
+  if (config.chainId !== expectedChainId) {
+    errors.push(
+      `chainId ${config.chainId} does not match the ${config.network} registry entry (${expectedChainId})`,
+    );
+  }
+  if (!isAddress(config.contractAddress)) {
+    errors.push(`contractAddress is not an address: ${config.contractAddress}`);
+  }
+  if (!isAddress(config.deployer)) {
+    errors.push(`deployer is not an address: ${config.deployer}`);
+  }
+  if (config.contracts[PRIMARY_CONTRACT] !== config.contractAddress) {
+    errors.push(`contracts.${PRIMARY_CONTRACT} must equal contractAddress`);
+  }
+  for (const [name, address] of Object.entries(config.contracts)) {
+    if (!isAddress(address)) {
+      errors.push(`contracts.${name} is not an address: ${address}`);
+    }
+  }
+  for (const [name, block] of Object.entries(config.startBlocks)) {
+    if (!Number.isSafeInteger(block) || block < 0) {
+      errors.push(`startBlocks.${name} is not a block number: ${block}`);
+    }
+  }
+  return errors;
+}
+
+function validateAbi(exported: FrontendAbi): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(exported.abi) || exported.abi.length === 0) {
+    return [`${exported.contractName}: abi must be a non-empty array`];
+  }
+  try {
+    new Interface(exported.abi as string[]);
+  } catch (e) {
+    errors.push(`${exported.contractName}: abi does not parse (${e})`);
+  }
+  if (!isAddress(exported.address)) {
+    errors.push(`${exported.contractName}: address is not an address`);
+  }
+  return errors;
+}
+
+async function collectContract(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+): Promise<CollectedContract> {
+  const deployment = await hre.deployments.getOrNull(name);
+  if (!deployment) {
+    throw new Error(
+      `No ${name} deployment on ${hre.network.name}, run \`npx hardhat deploy --network ${hre.network.name}\` first`,
+    );
+  }
+  if (!(await hre.artifacts.artifactExists(name))) {
+    throw new Error(
+      `Missing artifact for ${name}, run \`npx hardhat compile\` first`,
+    );
+  }
+  const artifact = await hre.artifacts.readArtifact(name);
+  // The frontend must talk to the deployed bytecode, not to whatever was
+  // compiled last. A mismatch means the deployment is stale.
+  if (JSON.stringify(artifact.abi) !== JSON.stringify(deployment.abi)) {
+    throw new Error(
+      `The ${name} artifact ABI differs from the one deployed at ${deployment.address} on ${hre.network.name}, redeploy before exporting`,
+    );
+  }
+  return {
+    exported: {
+      contractName: name,
+      address: deployment.address,
+      abi: deployment.abi,
+    },
+    startBlock: deployment.receipt?.blockNumber,
+  };
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost export-frontend
+ *   - npx hardhat --network sepolia export-frontend --out frontend/web/src
+ */
+task(
+  "export-frontend",
+  "Writes config.json and the ABIs of the deployed contracts for the frontend",
+)
+  .addOptionalParam(
+    "out",
+    "Frontend source directory",
+    "frontend/web/src",
+    types.string,
+  )
+  .addOptionalParam(
+    "contracts",
+    "Comma-separated deployment names to export",
+    CONTRACT_NAMES.join(","),
+    types.string,
+  )
+  .setAction(async function (
+    taskArguments: { out: string; contracts: string },
+    hre,
+  ) {
+    const names = taskArguments.contracts
+      .split(",")
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0);
+    if (!names.includes(PRIMARY_CONTRACT)) {
+      names.unshift(PRIMARY_CONTRACT);
+    }
+
+    const network = hre.network.name;
+    if (!isNetworkName(network)) {
+      throw new Error(
+        `Network ${network} is not in the network registry, export from localhost, localFhevm or sepolia`,
+      );
+    }
+
+    const collected: CollectedContract[] = [];
+    for (const name of names) {
+      collected.push(await collectContract(hre, name));
+    }
+    const abis = collected.map((c) => c.exported);
+    const primary = await hre.deployments.get(PRIMARY_CONTRACT);
+    const { chainId } = await hre.ethers.provider.getNetwork();
+
+    const config: FrontendConfig = {
+      network,
+      chainId: Number(chainId),
+      contractAddress: primary.address,
+      deployer:
+        primary.receipt?.from ?? (await hre.getNamedAccounts()).deployer,
+      contracts: Object.fromEntries(
+        abis.map((a) => [a.contractName, a.address]),
+      ),
+      startBlocks: Object.fromEntries(
+        collected.flatMap((c) =>
+          c.startBlock === undefined
+            ? []
+            : [[c.exported.contractName, c.startBlock]],
+        ),
+      ),
+    };
+
+    const errors = [validateConfig(config), ...abis.map(validateAbi)].flat();
+    if (errors.length > 0) {
+      throw new Error(
+        `Refusing to export an invalid frontend config:\n  - ${errors.join("\n  - ")}`,
+      );
+    }
+
+    const outDir = path.resolve(hre.config.paths.root, taskArguments.out);
+    if (!fs.existsSync(outDir)) {
+      throw new Error(`Frontend directory ${outDir} does not exist`);
+    }
+    const abiDir = path.join(outDir, "abi");
+    fs.mkdirSync(abiDir, { recursive: true });
+    for (const exported of abis) {
+      fs.writeFileSync(
+        path.join(abiDir, `${exported.contractName}.json`),
+        JSON.stringify(exported, null, 2) + "\n",
+      );
+      console.log(
+        `Wrote ABI for ${exported.contractName} (${exported.address})`,
+      );
+    }
+    fs.writeFileSync(
+      path.join(outDir, "config.json"),
+      JSON.stringify(config, null, 2) + "\n",
+    );
+    console.log(`Wrote ${path.join(taskArguments.out, "config.json")}`);
+  });
@@ -0,0 +1,47 @@
+import { extendProvider } from "hardhat/config";
+import { ProviderWrapper } from "hardhat/plugins";
+import { RequestArguments } from "hardhat/types";
+
+const SEND_METHODS = ["eth_sendTransaction", "eth_sendRawTransaction"];
+
+/**
+ * The stack trace engine of the in-process Hardhat network cannot follow
+ * some functions of the via-IR build ("call trace has no functionJumpdest
+ * but has already jumped into a function"). Reverts of sent transactions
+ * through them surface as a bare ProviderError, which the FHEVM plugin does
+ * not expect on that network and replaces by "Fhevm assertion failed".
+ *
+ * This wrapper rethrows them as the regular revert error the network raises
+ * when the trace succeeds, with the same message and return data, so custom
+ * errors still decode in tests and in the SDK. It has to be registered
+ * before @fhevm/hardhat-plugin, whose provider then wraps this one.
+ */
+class RevertDataProvider extends ProviderWrapper {
+  async request(args: RequestArguments): Promise<unknown> {
+    try {
+      return await this._wrappedProvider.request(args);
+    } catch (e) {
+      throw SEND_METHODS.includes(args.method) ? toRevertError(e) : e;
+    }
+  }
+}
+
+function toRevertError(e: unknown): unknown {
+  const data = (e as { data?: unknown } | undefined)?.data;
+  if (!(e instanceof Error) || typeof data !== "object" || data === null) {
+    return e;
+  }
+  const { data: returnData, transactionHash } = data as {
+    data?: unknown;
+    transactionHash?: unknown;
+  };
+  if (typeof returnData !== "string") return e;
+  return Object.assign(new Error(e.message, { cause: e }), {
+    data: returnData,
+    transactionHash,
+  });
+}
+
+extendProvider(async (provider, _config, network) =>
+  network === "hardhat" ? new RevertDataProvider(provider) : provider,
+);
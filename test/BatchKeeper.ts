@@ -0,0 +1,156 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { BatchKeeper } from "../src/BatchKeeper";
+import { CraftingClient } from "../src/CraftingClient";
+import { CraftingQualityFHE, CraftingQualityFHE__factory } from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  keeper: HardhatEthersSigner;
+};
+
+const HOUR = 60 * 60;
+const MIN_INTERVAL = 30;
+
+describe("BatchKeeper", function () {
+  let signers: Signers;
+  let contract: CraftingQualityFHE;
+  let keeper: BatchKeeper;
+
+  async function submit(signer: HardhatEthersSigner, quality: number) {
+    const client = CraftingClient.connect(
+      await contract.getAddress(),
+      signer,
+      fhevm,
+    );
+    return client.submitQuality(await contract.currentBatchId(), quality);
+  }
+
+  const kinds = async () =>
+    (await keeper.runOnce()).map(({ kind, batchId }) => `${kind} ${batchId}`);
+
+  before(async function () {
+    const [owner, alice, bob, keeperSigner] = await ethers.getSigners();
+    signers = { owner, alice, bob, keeper: keeperSigner };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in FHEVM mock mode");
+      this.skip();
+    }
+    contract = await (
+      (await ethers.getContractFactory(
+        "CraftingQualityFHE",
+      )) as CraftingQualityFHE__factory
+    ).deploy();
+    await contract.addProvider(signers.alice.address);
+    await contract.addProvider(signers.bob.address);
+    await contract.setBatchConfig(HOUR, 100);
+    // Reveal the stats of single-submission batches too
+    await contract.setDecryptionPrivacy(1, 1, 0);
+    keeper = new BatchKeeper(
+      CraftingClient.connect(await contract.getAddress(), signers.keeper),
+    );
+  });
+
+  // The mock oracle answers pending requests on the next
+  // awaitDecryptionOracle of any suite, settle them here.
+  afterEach(async function () {
+    await fhevm.awaitDecryptionOracle();
+  });
+
+  it("closes, reveals and archives expired batches", async function () {
+    // Batch 1 was opened before the config change and runs for a day
+    await contract.openNewBatch();
+    await submit(signers.alice, 40);
+    await submit(signers.bob, 2);
+    expect(await kinds()).to.deep.eq([]);
+
+    await time.increase(HOUR);
+    expect(await kinds()).to.deep.eq(["close 2", "requestDecryption 2"]);
+    expect(await contract.currentBatchId()).to.eq(3);
+    await fhevm.awaitDecryptionOracle();
+
+    // The stats are revealed before archiving drops them
+    expect(await kinds()).to.deep.eq([]);
+    await time.increase(MIN_INTERVAL);
+    expect(await kinds()).to.deep.eq(["requestStatsDecryption 2"]);
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await kinds()).to.deep.eq(["archive 2"]);
+    const archived = await keeper.client.getBatch(2);
+    expect(archived).to.include({ archived: true, qualityScore: 42n });
+    expect((await keeper.client.getBatchStats(2)).revealed).to.deep.include({
+      maxQuality: 40n,
+      minQuality: 2n,
+    });
+  });
+
+  it("sends one decryption request per cooldown and retries unanswered ones", async function () {
+    await contract.setBatchConfig(HOUR, 1);
+    await submit(signers.alice, 10);
+    await submit(signers.bob, 20);
+    await contract.closeBatch(3);
+
+    expect(await kinds()).to.deep.eq(["requestDecryption 1", "archive 3"]);
+    expect(await kinds()).to.deep.eq([]);
+    await time.increase(MIN_INTERVAL);
+    expect(await kinds()).to.deep.eq(["requestDecryption 2"]);
+    // Still waiting for the oracle, not retried before retryAfter
+    await time.increase(MIN_INTERVAL);
+    expect(await kinds()).to.deep.eq([]);
+
+    await time.increase(HOUR);
+    expect(await kinds()).to.deep.eq(["requestDecryption 1"]);
+    await fhevm.awaitDecryptionOracle();
+    expect((await keeper.client.getBatch(1)).qualityScore).to.eq(10n);
+    expect((await keeper.client.getBatch(2)).qualityScore).to.eq(20n);
+  });
+
+  it("archives batches below the decryption minimum without revealing them", async function () {
+    await contract.setDecryptionPrivacy(2, 2, 0);
+    await submit(signers.alice, 10);
+    await contract.closeBatch(1);
+
+    expect(await kinds()).to.deep.eq(["archive 1"]);
+    expect(await keeper.client.getBatch(1)).to.include({
+      archived: true,
+      qualityScore: null,
+    });
+  });
+
+  it("archives batches below the stats minimum once their sum is revealed", async function () {
+    await contract.setDecryptionPrivacy(1, 2, 0);
+    await submit(signers.alice, 10);
+    await contract.closeBatch(1);
+
+    expect(await kinds()).to.deep.eq(["requestDecryption 1"]);
+    await fhevm.awaitDecryptionOracle();
+    expect(await kinds()).to.deep.eq(["archive 1"]);
+    expect((await keeper.client.getBatchStats(1)).revealed).to.eq(null);
+  });
+
+  it("keeps waiting on requests across model version changes", async function () {
+    await submit(signers.alice, 10);
+    await contract.closeBatch(1);
+    expect(await kinds()).to.deep.eq(["requestDecryption 1"]);
+
+    await contract.registerModel(2, 1, 0);
+    await contract.setModelVersion(2);
+    await time.increase(MIN_INTERVAL);
+    // The request is for the batch's model, it is not sent again
+    expect(await kinds()).to.deep.eq([]);
+
+    await fhevm.awaitDecryptionOracle();
+    expect(await keeper.client.getBatch(1)).to.include({
+      qualityScore: 10n,
+      modelVersion: 1n,
+    });
+    expect(await kinds()).to.deep.eq(["requestStatsDecryption 1"]);
+  });
+});
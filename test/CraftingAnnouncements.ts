@@ -0,0 +1,202 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { AnnouncementsClient } from "../src/AnnouncementsClient";
+import { sleep } from "../src/transactions";
+import {
+  CraftingAnnouncements,
+  CraftingAnnouncements__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const HIGH = 2;
+
+describe("CraftingAnnouncements", function () {
+  let signers: Signers;
+  let contract: CraftingAnnouncements;
+  let address: string;
+
+  before(async function () {
+    const [deployer, alice, bob] = await ethers.getSigners();
+    signers = { deployer, alice, bob };
+  });
+
+  beforeEach(async function () {
+    const factory = (await ethers.getContractFactory(
+      "CraftingAnnouncements",
+    )) as CraftingAnnouncements__factory;
+    contract = await factory.deploy();
+    address = await contract.getAddress();
+  });
+
+  describe("publishing", function () {
+    it("lets the owner and designated publishers publish", async function () {
+      await expect(
+        contract.connect(signers.alice).publish("Hi", "Hi", 0, 0, 0),
+      ).to.be.revertedWithCustomError(contract, "NotPublisher");
+      await expect(contract.addPublisher(signers.alice.address))
+        .to.emit(contract, "PublisherAdded")
+        .withArgs(signers.alice.address);
+      expect(await contract.isPublisher(signers.alice.address)).to.eq(true);
+      expect(await contract.isPublisher(signers.deployer.address)).to.eq(true);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .publish("Contest", "Win ore", HIGH, 3, 0),
+      )
+        .to.emit(contract, "AnnouncementPublished")
+        .withArgs(1, signers.alice.address, 3, HIGH, 0);
+      const announcement = await contract.getAnnouncement(1);
+      expect(announcement.title).to.eq("Contest");
+      expect(announcement.batchId).to.eq(3n);
+
+      await contract.removePublisher(signers.alice.address);
+      await expect(
+        contract.connect(signers.alice).publish("A", "B", 0, 0, 0),
+      ).to.be.revertedWithCustomError(contract, "NotPublisher");
+      await expect(
+        contract.connect(signers.alice).addPublisher(signers.bob.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+
+    it("rejects empty, oversized and already expired announcements", async function () {
+      const now = await time.latest();
+      await expect(
+        contract.publish("", "Body", 0, 0, 0),
+      ).to.be.revertedWithCustomError(contract, "InvalidAnnouncement");
+      await expect(
+        contract.publish("x".repeat(81), "Body", 0, 0, 0),
+      ).to.be.revertedWithCustomError(contract, "InvalidAnnouncement");
+      await expect(
+        contract.publish("Title", "x".repeat(1001), 0, 0, 0),
+      ).to.be.revertedWithCustomError(contract, "InvalidAnnouncement");
+      await expect(
+        contract.publish("Title", "Body", 0, 0, now),
+      ).to.be.revertedWithCustomError(contract, "InvalidAnnouncement");
+      await expect(contract.getAnnouncement(1)).to.be.revertedWithCustomError(
+        contract,
+        "AnnouncementNotFound",
+      );
+    });
+
+    it("lets only the publisher or the owner withdraw", async function () {
+      await contract.addPublisher(signers.alice.address);
+      await contract.connect(signers.alice).publish("A", "a", 0, 0, 0);
+      await contract.connect(signers.alice).publish("B", "b", 0, 0, 0);
+
+      await expect(
+        contract.connect(signers.bob).withdraw(1),
+      ).to.be.revertedWithCustomError(contract, "NotPublisher");
+      await expect(contract.connect(signers.alice).withdraw(1))
+        .to.emit(contract, "AnnouncementWithdrawn")
+        .withArgs(1);
+      await expect(
+        contract.connect(signers.alice).withdraw(1),
+      ).to.be.revertedWithCustomError(contract, "InvalidAnnouncement");
+      await contract.withdraw(2);
+      expect(await contract.isActive(1)).to.eq(false);
+      expect(await contract.isActive(2)).to.eq(false);
+    });
+  });
+
+  describe("client", function () {
+    it("pages newest first and hides inactive announcements", async function () {
+      const client = AnnouncementsClient.connect(address, signers.deployer);
+      const expiresAt = (await time.latest()) + 100;
+      for (const title of ["One", "Two", "Three", "Four", "Five"]) {
+        await client.publish({
+          title,
+          content: `${title} body`,
+          priority: "medium",
+          expiresAt: title === "Two" ? expiresAt : undefined,
+        });
+      }
+      await client.withdraw(4);
+      await time.increaseTo(expiresAt);
+
+      const first = await client.loadPage(undefined, { pageSize: 2 });
+      expect(first.announcements.map((a) => a.title)).to.deep.eq(["Five"]);
+      const second = await client.loadPage(first.nextCursor!, { pageSize: 2 });
+      expect(second.announcements.map((a) => a.title)).to.deep.eq(["Three"]);
+      const last = await client.loadPage(second.nextCursor!, {
+        pageSize: 2,
+        includeInactive: true,
+      });
+      expect(last.announcements.map((a) => a.title)).to.deep.eq(["One"]);
+      expect(last.nextCursor).to.eq(null);
+
+      const [two] = (
+        await client.loadPage(3n, { pageSize: 1, includeInactive: true })
+      ).announcements;
+      expect(two).to.include({
+        title: "Two",
+        priority: "medium",
+        batchId: null,
+        expiresAt,
+        withdrawn: false,
+      });
+    });
+
+    it("returns an empty page without announcements", async function () {
+      const client = AnnouncementsClient.connect(address, signers.deployer);
+      expect(await client.loadPage()).to.deep.eq({
+        announcements: [],
+        nextCursor: null,
+      });
+    });
+
+    it("manages publishers", async function () {
+      const client = AnnouncementsClient.connect(address, signers.deployer);
+      expect(await client.isPublisher(signers.bob.address)).to.eq(false);
+      await client.addPublisher(signers.bob.address);
+      expect(await client.isPublisher(signers.bob.address)).to.eq(true);
+
+      const asBob = AnnouncementsClient.connect(address, signers.bob);
+      const { announcement } = await asBob.publish({
+        title: "Batch 2 open",
+        content: "Submit your qualities",
+        priority: "high",
+        batchId: 2,
+      });
+      expect(announcement).to.include({
+        publisher: signers.bob.address,
+        priority: "high",
+        batchId: 2n,
+        expiresAt: null,
+      });
+      await client.removePublisher(signers.bob.address);
+      expect(await client.isPublisher(signers.bob.address)).to.eq(false);
+    });
+
+    it("reports subscription failures through onError", async function () {
+      const client = AnnouncementsClient.connect(address, signers.deployer);
+      const titles: string[] = [];
+      const errors: unknown[] = [];
+      const unsubscribe = client.subscribe(
+        (announcement) => {
+          titles.push(announcement.title);
+          throw new Error("render failed");
+        },
+        { onError: (e) => errors.push(e) },
+      );
+      try {
+        await contract.publish("Contest", "Win ore", HIGH, 0, 0);
+        // The provider polls for new events
+        for (let i = 0; i < 50 && errors.length === 0; i++) {
+          await sleep(50);
+        }
+        expect(titles).to.deep.eq(["Contest"]);
+        expect((errors[0] as Error).message).to.eq("render failed");
+      } finally {
+        unsubscribe();
+      }
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { ItemRegistryClient } from "../src/ItemRegistryClient";
+import { MaterialsClient } from "../src/MaterialsClient";
+import {
+  CraftingMaterials,
+  CraftingMaterials__factory,
+  ItemRegistryFHE,
+  ItemRegistryFHE__factory,
+  RecipeBookFHE,
+  RecipeBookFHE__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const IRON_ORE = 1;
+const LEATHER = 2;
+const MOONSTONE = 3;
+
+describe("CraftingMaterials", function () {
+  let signers: Signers;
+  let materials: CraftingMaterials;
+  let materialsAddress: string;
+  let registry: ItemRegistryFHE;
+  let registryAddress: string;
+
+  async function encryptCatalyst(signer: HardhatEthersSigner, catalyst = 0) {
+    return fhevm
+      .createEncryptedInput(registryAddress, signer.address)
+      .add32(catalyst)
+      .encrypt();
+  }
+
+  async function craft(
+    signer: HardhatEthersSigner,
+    ids: number[],
+    amounts: number[],
+  ) {
+    const { handles, inputProof } = await encryptCatalyst(signer);
+    return registry
+      .connect(signer)
+      .createItemFromMaterials(
+        "Iron Helm",
+        50,
+        ids,
+        amounts,
+        handles[0],
+        inputProof,
+      );
+  }
+
+  async function connectInventory() {
+    await materials.setConsumer(registryAddress, true);
+    await registry.setMaterialInventory(materialsAddress);
+  }
+
+  before(async function () {
+    const [deployer, alice, bob] = await ethers.getSigners();
+    signers = { deployer, alice, bob };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in FHEVM mock mode");
+      this.skip();
+    }
+    materials = await (
+      (await ethers.getContractFactory(
+        "CraftingMaterials",
+      )) as CraftingMaterials__factory
+    ).deploy();
+    materialsAddress = await materials.getAddress();
+    registry = await (
+      (await ethers.getContractFactory(
+        "ItemRegistryFHE",
+      )) as ItemRegistryFHE__factory
+    ).deploy();
+    registryAddress = await registry.getAddress();
+    await materials.addMaterial("Iron Ore", 1);
+    await materials.addMaterial("Leather", 1);
+    await materials.addMaterial("Moonstone", 3);
+  });
+
+  describe("catalog", function () {
+    it("lets only the owner add unique, valid materials", async function () {
+      await expect(materials.addMaterial("Mithril", 4))
+        .to.emit(materials, "MaterialAdded")
+        .withArgs(4, "Mithril", 4);
+      const catalog = await materials.getCatalog();
+      expect(catalog.map((m) => m.name)).to.deep.eq([
+        "Iron Ore",
+        "Leather",
+        "Moonstone",
+        "Mithril",
+      ]);
+      expect(await materials.idOf("Moonstone")).to.eq(3n);
+
+      await expect(
+        materials.connect(signers.alice).addMaterial("Gold", 2),
+      ).to.be.revertedWithCustomError(materials, "NotOwner");
+      for (const [name, tier] of [
+        ["", 1],
+        ["x".repeat(33), 1],
+        ["Gold", 0],
+        ["Gold", 6],
+        ["Leather", 2],
+      ] as const) {
+        await expect(
+          materials.addMaterial(name, tier),
+        ).to.be.revertedWithCustomError(materials, "InvalidMaterial");
+      }
+      await expect(materials.idOf("Gold")).to.be.revertedWithCustomError(
+        materials,
+        "MaterialNotFound",
+      );
+    });
+
+    it("mints through the owner or the enabled faucet", async function () {
+      await expect(
+        materials.connect(signers.alice).faucet([IRON_ORE]),
+      ).to.be.revertedWithCustomError(materials, "FaucetDisabled");
+      await expect(
+        materials
+          .connect(signers.alice)
+          .mint(signers.alice.address, [IRON_ORE], [5]),
+      ).to.be.revertedWithCustomError(materials, "NotOwner");
+      await expect(
+        materials.mint(signers.alice.address, [9], [5]),
+      ).to.be.revertedWithCustomError(materials, "MaterialNotFound");
+
+      await materials.mint(signers.alice.address, [IRON_ORE, LEATHER], [5, 2]);
+      await expect(materials.setFaucetEnabled(true))
+        .to.emit(materials, "FaucetUpdated")
+        .withArgs(true);
+      await materials.connect(signers.alice).faucet([IRON_ORE, MOONSTONE]);
+      expect(
+        await materials.balanceOfBatch(
+          [signers.alice.address, signers.alice.address, signers.alice.address],
+          [IRON_ORE, LEATHER, MOONSTONE],
+        ),
+      ).to.deep.eq([15n, 2n, 10n]);
+    });
+
+    it("only lets consumer contracts burn materials", async function () {
+      await materials.mint(signers.alice.address, [IRON_ORE], [5]);
+      await expect(
+        materials.consume(signers.alice.address, [IRON_ORE], [1]),
+      ).to.be.revertedWithCustomError(materials, "NotConsumer");
+      await expect(materials.setConsumer(signers.bob.address, true))
+        .to.emit(materials, "ConsumerUpdated")
+        .withArgs(signers.bob.address, true);
+      await materials
+        .connect(signers.bob)
+        .consume(signers.alice.address, [IRON_ORE], [2]);
+      expect(await materials.balanceOf(signers.alice.address, IRON_ORE)).to.eq(
+        3n,
+      );
+    });
+  });
+
+  describe("crafting", function () {
+    it("burns the chosen materials with the craft", async function () {
+      const { handles, inputProof } = await encryptCatalyst(signers.alice);
+      await expect(
+        registry
+          .connect(signers.alice)
+          .createItemFromMaterials(
+            "Iron Helm",
+            50,
+            [IRON_ORE],
+            [1],
+            handles[0],
+            inputProof,
+          ),
+      ).to.be.revertedWithCustomError(registry, "MaterialInventoryNotSet");
+      await connectInventory();
+      await materials.mint(signers.alice.address, [IRON_ORE, LEATHER], [3, 1]);
+
+      await expect(craft(signers.alice, [IRON_ORE, LEATHER], [2, 1]))
+        .to.emit(registry, "MaterialsConsumed")
+        .withArgs(1, signers.alice.address, [IRON_ORE, LEATHER], [2, 1]);
+      const item = await registry.getItem(1);
+      expect(item.materials).to.deep.eq(["Iron Ore", "Leather"]);
+      expect(
+        await materials.balanceOfBatch(
+          [signers.alice.address, signers.alice.address],
+          [IRON_ORE, LEATHER],
+        ),
+      ).to.deep.eq([1n, 0n]);
+    });
+
+    it("rejects crafts the inventory cannot cover", async function () {
+      await connectInventory();
+      await materials.mint(signers.alice.address, [IRON_ORE], [1]);
+      const { handles, inputProof } = await encryptCatalyst(signers.alice);
+      const create = (ids: number[], amounts: number[]) =>
+        registry
+          .connect(signers.alice)
+          .createItemFromMaterials(
+            "Iron Helm",
+            50,
+            ids,
+            amounts,
+            handles[0],
+            inputProof,
+          );
+
+      await expect(create([IRON_ORE], [2])).to.be.revertedWithCustomError(
+        materials,
+        "ERC1155InsufficientBalance",
+      );
+      await expect(create([IRON_ORE], [0])).to.be.revertedWithCustomError(
+        registry,
+        "InvalidItem",
+      );
+      await expect(
+        create([IRON_ORE, LEATHER], [1]),
+      ).to.be.revertedWithCustomError(registry, "InvalidItem");
+      await expect(create([9], [1])).to.be.revertedWithCustomError(
+        materials,
+        "MaterialNotFound",
+      );
+      await expect(
+        registry
+          .connect(signers.alice)
+          .createItem("Free Helm", 50, ["Iron Ore"], handles[0], inputProof),
+      ).to.be.revertedWithCustomError(registry, "InventoryRequired");
+    });
+
+    it("burns one unit of each recipe material", async function () {
+      const book: RecipeBookFHE = await (
+        (await ethers.getContractFactory(
+          "RecipeBookFHE",
+        )) as RecipeBookFHE__factory
+      ).deploy();
+      await book.setConsumer(registryAddress, true);
+      await registry.setRecipeBook(await book.getAddress());
+      await connectInventory();
+      const input = await fhevm
+        .createEncryptedInput(await book.getAddress(), signers.alice.address)
+        .add32(5)
+        .add32(5)
+        .add32(100)
+        .encrypt();
+      await book
+        .connect(signers.alice)
+        .createRecipe(
+          "Moon Helm",
+          ["Iron Ore", "Moonstone"],
+          [input.handles[0], input.handles[1]],
+          input.handles[2],
+          input.inputProof,
+        );
+      await materials.mint(
+        signers.alice.address,
+        [IRON_ORE, MOONSTONE],
+        [2, 1],
+      );
+
+      const { handles, inputProof } = await encryptCatalyst(signers.alice);
+      await expect(
+        registry
+          .connect(signers.alice)
+          .createItemWithRecipe("Moon Helm", 50, 1, handles[0], inputProof),
+      )
+        .to.emit(registry, "MaterialsConsumed")
+        .withArgs(1, signers.alice.address, [IRON_ORE, MOONSTONE], [1, 1]);
+      expect(
+        await materials.balanceOfBatch(
+          [signers.alice.address, signers.alice.address],
+          [IRON_ORE, MOONSTONE],
+        ),
+      ).to.deep.eq([1n, 0n]);
+    });
+
+    it("lists balances and crafts through the clients", async function () {
+      await connectInventory();
+      await materials.setFaucetEnabled(true);
+      const inventory = MaterialsClient.connect(
+        materialsAddress,
+        signers.alice,
+      );
+      await inventory.faucet([LEATHER]);
+      const balances = await inventory.balancesOf(signers.alice.address);
+      expect(
+        balances.map(({ material, balance }) => [material.name, balance]),
+      ).to.deep.eq([
+        ["Iron Ore", 0n],
+        ["Leather", 10n],
+        ["Moonstone", 0n],
+      ]);
+      expect(balances[2].material.tier).to.eq(3);
+
+      const items = ItemRegistryClient.connect(
+        registryAddress,
+        signers.alice,
+        fhevm,
+      );
+      expect(await items.usesMaterialInventory()).to.eq(true);
+      const { item } = await items.createItemFromMaterials({
+        name: "Leather Boots",
+        baseQuality: 40,
+        materials: [{ id: LEATHER, amount: 4 }],
+        catalyst: 20,
+      });
+      expect(item.materials).to.deep.eq(["Leather"]);
+      expect(await materials.balanceOf(signers.alice.address, LEATHER)).to.eq(
+        6n,
+      );
+    });
+  });
+});
@@ -0,0 +1,1030 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { HDNodeWallet, Wallet } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import { CraftingClient, noiseOffset } from "../src/CraftingClient";
+import {
+  BatchStillOpenError,
+  InvalidDecryptionError,
+  InvalidPrivacyConfigError,
+  NotOwnerError,
+  withCraftingErrors,
+} from "../src/errors";
+import { CraftingQualityFHE, CraftingQualityFHE__factory } from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const MIN_INTERVAL = 30;
+const HOUR = 60 * 60;
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "CraftingQualityFHE",
+  )) as CraftingQualityFHE__factory;
+  const contract = (await factory.deploy()) as CraftingQualityFHE;
+  const address = await contract.getAddress();
+  return { contract, address };
+}
+
+describe("CraftingQualityFHE", function () {
+  let signers: Signers;
+  let contract: CraftingQualityFHE;
+  let address: string;
+
+  async function submit(
+    signer: HardhatEthersSigner | HDNodeWallet,
+    batchId: bigint | number,
+    quality: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(address, signer.address)
+      .add32(quality)
+      .encrypt();
+    return contract
+      .connect(signer)
+      .submitCraftingQuality(batchId, input.handles[0], input.inputProof);
+  }
+
+  async function decryptAccumulator(batchId: bigint | number) {
+    const batch = await contract.batches(batchId);
+    return fhevm.debugger.decryptEuint(
+      FhevmType.euint32,
+      batch.qualityAccumulator,
+    );
+  }
+
+  before(async function () {
+    const [owner, alice, bob, carol] = await ethers.getSigners();
+    signers = { owner, alice, bob, carol };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ contract, address } = await deployFixture());
+    await contract.addProvider(signers.alice.address);
+    await contract.addProvider(signers.bob.address);
+  });
+
+  describe("deployment", function () {
+    it("opens the first batch with an encrypted zero accumulator", async function () {
+      expect(await contract.owner()).to.eq(signers.owner.address);
+      expect(await contract.modelVersion()).to.eq(1);
+      expect(await contract.currentBatchId()).to.eq(1);
+      expect(await contract.minBatchSubmissions()).to.eq(1);
+      expect(await contract.minStatsSubmissions()).to.eq(10);
+      const model = await contract.qualityModels(1);
+      expect([model.weight, model.bonus, model.registered]).to.deep.eq([
+        1n,
+        0n,
+        true,
+      ]);
+
+      const batch = await contract.batches(1);
+      expect(batch.active).to.eq(true);
+      expect(batch.modelVersion).to.eq(1);
+      expect(batch.submissionCount).to.eq(0);
+      expect(await decryptAccumulator(1)).to.eq(0n);
+    });
+  });
+
+  describe("access control", function () {
+    it("restricts owner operations to the owner", async function () {
+      const asAlice = contract.connect(signers.alice);
+      await expect(
+        asAlice.addProvider(signers.carol.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        asAlice.removeProvider(signers.bob.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        asAlice.setUserCooldown(signers.alice.address, 0),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        asAlice.transferOwnership(signers.alice.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(asAlice.setPaused(true)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(asAlice.setModelVersion(2)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(
+        asAlice.registerModel(2, 1, 0),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        asAlice.setMasterpieceThreshold(50),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        asAlice.setDecryptionPrivacy(2, 10, 11),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(asAlice.openNewBatch()).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(asAlice.closeBatch(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+    });
+
+    it("hands every owner operation over on transferOwnership", async function () {
+      await expect(contract.transferOwnership(signers.carol.address))
+        .to.emit(contract, "OwnershipTransferred")
+        .withArgs(signers.owner.address, signers.carol.address);
+
+      await expect(contract.setPaused(true)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(contract.connect(signers.carol).setPaused(true))
+        .to.emit(contract, "PausedSet")
+        .withArgs(true);
+    });
+
+    it("only accepts submissions from registered providers", async function () {
+      await expect(submit(signers.carol, 1, 50)).to.be.revertedWithCustomError(
+        contract,
+        "NotProvider",
+      );
+
+      await expect(contract.addProvider(signers.carol.address))
+        .to.emit(contract, "ProviderAdded")
+        .withArgs(signers.carol.address);
+      await expect(submit(signers.carol, 1, 50)).to.emit(
+        contract,
+        "CraftingSubmitted",
+      );
+    });
+
+    it("rejects providers after they are removed", async function () {
+      await expect(contract.removeProvider(signers.bob.address))
+        .to.emit(contract, "ProviderRemoved")
+        .withArgs(signers.bob.address);
+      await expect(submit(signers.bob, 1, 50)).to.be.revertedWithCustomError(
+        contract,
+        "NotProvider",
+      );
+    });
+  });
+
+  describe("pause", function () {
+    it("blocks submissions and decryption requests while paused", async function () {
+      await submit(signers.alice, 1, 40);
+      await contract.closeBatch(1);
+      await contract.openNewBatch();
+
+      await contract.setPaused(true);
+      await expect(submit(signers.bob, 2, 50)).to.be.revertedWithCustomError(
+        contract,
+        "Paused",
+      );
+      await expect(
+        contract.requestBatchQualityDecryption(1),
+      ).to.be.revertedWithCustomError(contract, "Paused");
+
+      await contract.setPaused(false);
+      await expect(submit(signers.bob, 2, 50)).to.emit(
+        contract,
+        "CraftingSubmitted",
+      );
+      await expect(contract.requestBatchQualityDecryption(1)).to.emit(
+        contract,
+        "DecryptionRequested",
+      );
+    });
+  });
+
+  describe("cooldowns", function () {
+    beforeEach(async function () {
+      await contract.openNewBatch();
+    });
+
+    it("enforces MIN_INTERVAL between submissions by default", async function () {
+      await submit(signers.alice, 1, 10);
+      await expect(submit(signers.alice, 2, 10)).to.be.revertedWithCustomError(
+        contract,
+        "CooldownActive",
+      );
+
+      await time.increase(MIN_INTERVAL);
+      await expect(submit(signers.alice, 2, 10)).to.emit(
+        contract,
+        "CraftingSubmitted",
+      );
+    });
+
+    it("uses the per-user cooldown when one is set", async function () {
+      await expect(contract.setUserCooldown(signers.alice.address, 120))
+        .to.emit(contract, "CooldownUpdated")
+        .withArgs(signers.alice.address, 120);
+
+      await submit(signers.alice, 1, 10);
+      await time.increase(MIN_INTERVAL);
+      await expect(submit(signers.alice, 2, 10)).to.be.revertedWithCustomError(
+        contract,
+        "CooldownActive",
+      );
+
+      await time.increase(120 - MIN_INTERVAL);
+      await expect(submit(signers.alice, 2, 10)).to.emit(
+        contract,
+        "CraftingSubmitted",
+      );
+    });
+
+    it("tracks cooldowns per address", async function () {
+      await submit(signers.alice, 1, 10);
+      await expect(submit(signers.bob, 1, 10)).to.emit(
+        contract,
+        "CraftingSubmitted",
+      );
+    });
+
+    it("applies MIN_INTERVAL to decryption requests", async function () {
+      await submit(signers.alice, 1, 10);
+      await submit(signers.bob, 2, 10);
+      await contract.closeBatch(1);
+      await contract.closeBatch(2);
+
+      await contract.connect(signers.carol).requestBatchQualityDecryption(1);
+      await expect(
+        contract.connect(signers.carol).requestBatchQualityDecryption(2),
+      ).to.be.revertedWithCustomError(contract, "CooldownActive");
+    });
+  });
+
+  describe("batches", function () {
+    it("emits lifecycle events and records timestamps", async function () {
+      await expect(contract.closeBatch(1)).to.emit(contract, "BatchClosed");
+      const closed = await contract.batches(1);
+      expect(closed.active).to.eq(false);
+      expect(closed.closedAt).to.be.greaterThan(0);
+
+      await expect(contract.openNewBatch()).to.emit(contract, "BatchOpened");
+      expect(await contract.currentBatchId()).to.eq(2);
+    });
+
+    it("refuses to close a batch twice", async function () {
+      await contract.closeBatch(1);
+      await expect(contract.closeBatch(1)).to.be.revertedWithCustomError(
+        contract,
+        "BatchNotActive",
+      );
+    });
+
+    it("rolls submissions to closed batches over and refuses unknown ones", async function () {
+      await contract.closeBatch(1);
+      // No batch is open, the submission opens the next one
+      await expect(submit(signers.alice, 1, 10))
+        .to.emit(contract, "BatchOpened")
+        .and.to.emit(contract, "CraftingSubmitted")
+        .withArgs(signers.alice.address, 2, anyValue);
+      expect((await contract.batches(1)).submissionCount).to.eq(0);
+      expect(await decryptAccumulator(2)).to.eq(10n);
+      await expect(submit(signers.bob, 7, 10)).to.be.revertedWithCustomError(
+        contract,
+        "BatchNotActive",
+      );
+    });
+
+    it("opens batches without a cap", async function () {
+      for (let i = 0; i < 11; i++) {
+        await contract.openNewBatch();
+      }
+      expect(await contract.currentBatchId()).to.eq(12);
+    });
+
+    it("rejects size limits outside 1..MAX_BATCH_SIZE", async function () {
+      const maxBatchSize = await contract.MAX_BATCH_SIZE();
+      await expect(contract.setBatchConfig(0, 0)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatchConfig",
+      );
+      await expect(
+        contract.setBatchConfig(0, maxBatchSize + 1n),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatchConfig");
+      await expect(contract.setBatchConfig(HOUR, maxBatchSize))
+        .to.emit(contract, "BatchConfigUpdated")
+        .withArgs(HOUR, maxBatchSize);
+    });
+
+    it("closes a batch on the submission reaching its size limit", async function () {
+      await contract.setBatchConfig(0, 2);
+      await submit(signers.alice, 1, 10);
+      await expect(submit(signers.bob, 1, 10))
+        .to.emit(contract, "BatchClosed")
+        .and.to.emit(contract, "BatchOpened");
+
+      expect((await contract.batches(1)).active).to.eq(false);
+      expect((await contract.batches(2)).active).to.eq(true);
+      expect(await contract.currentBatchId()).to.eq(2);
+      await time.increase(MIN_INTERVAL);
+      await expect(submit(signers.alice, 1, 10))
+        .to.emit(contract, "CraftingSubmitted")
+        .withArgs(signers.alice.address, 2, anyValue);
+      expect((await contract.batches(1)).submissionCount).to.eq(2);
+    });
+
+    it("fills a batch up to MAX_BATCH_SIZE before opening the next one", async function () {
+      this.timeout(120_000);
+      const maxBatchSize = Number(await contract.MAX_BATCH_SIZE());
+      await contract.setBatchConfig(0, maxBatchSize);
+
+      const crafters: HDNodeWallet[] = [];
+      for (let i = 0; i <= maxBatchSize; i++) {
+        const wallet = Wallet.createRandom().connect(ethers.provider);
+        await setBalance(wallet.address, ethers.parseEther("1"));
+        await contract.addProvider(wallet.address);
+        crafters.push(wallet);
+      }
+
+      for (const crafter of crafters.slice(0, maxBatchSize - 1)) {
+        await submit(crafter, 1, 1);
+      }
+      expect((await contract.batches(1)).active).to.eq(true);
+      await expect(submit(crafters[maxBatchSize - 1], 1, 1))
+        .to.emit(contract, "BatchClosed")
+        .withArgs(1, anyValue);
+      const full = await contract.batches(1);
+      expect(full.submissionCount).to.eq(maxBatchSize);
+      expect(await decryptAccumulator(1)).to.eq(BigInt(maxBatchSize));
+
+      expect(await contract.currentBatchId()).to.eq(2);
+      await expect(submit(crafters[maxBatchSize], 2, 1))
+        .to.emit(contract, "CraftingSubmitted")
+        .withArgs(crafters[maxBatchSize].address, 2, anyValue);
+      expect((await contract.batches(2)).submissionCount).to.eq(1);
+    });
+
+    it("rolls submissions to an expired batch over to the next one", async function () {
+      await contract.setBatchConfig(HOUR, 100);
+      const expiresAt = (await contract.batches(1)).expiresAt;
+      await time.increaseTo(expiresAt);
+
+      await expect(submit(signers.alice, 1, 10))
+        .to.emit(contract, "BatchClosed")
+        .and.to.emit(contract, "CraftingSubmitted")
+        .withArgs(signers.alice.address, 2, anyValue);
+      const rolled = await contract.batches(2);
+      expect(rolled.submissionCount).to.eq(1);
+      expect(rolled.expiresAt).to.eq(rolled.createdAt + BigInt(HOUR));
+      expect(await decryptAccumulator(2)).to.eq(10n);
+    });
+
+    it("lets anyone close a due batch", async function () {
+      await contract.setBatchConfig(HOUR, 100);
+      await contract.openNewBatch();
+      const asCarol = contract.connect(signers.carol);
+      await expect(asCarol.closeDueBatch(2)).to.be.revertedWithCustomError(
+        contract,
+        "BatchNotDue",
+      );
+
+      await time.increase(HOUR);
+      await expect(asCarol.closeDueBatch(2))
+        .to.emit(contract, "BatchClosed")
+        .withArgs(2, anyValue)
+        .and.to.emit(contract, "BatchOpened")
+        .withArgs(3, anyValue);
+      // Batch 1 keeps its default duration and is not due yet
+      await expect(asCarol.closeDueBatch(1)).to.be.revertedWithCustomError(
+        contract,
+        "BatchNotDue",
+      );
+      await expect(asCarol.closeDueBatch(2)).to.be.revertedWithCustomError(
+        contract,
+        "BatchNotActive",
+      );
+    });
+
+    it("rejects a second submission from the same provider in one batch", async function () {
+      await submit(signers.alice, 1, 10);
+      await time.increase(MIN_INTERVAL);
+      await expect(submit(signers.alice, 1, 10)).to.be.revertedWithCustomError(
+        contract,
+        "ReplayDetected",
+      );
+    });
+  });
+
+  describe("encrypted accumulation", function () {
+    it("adds submitted qualities homomorphically", async function () {
+      await contract.addProvider(signers.carol.address);
+      await submit(signers.alice, 1, 35);
+      await submit(signers.bob, 1, 80);
+      await submit(signers.carol, 1, 7);
+
+      const batch = await contract.batches(1);
+      expect(batch.submissionCount).to.eq(3);
+      expect(await contract.submissionCount()).to.eq(3);
+      expect(await decryptAccumulator(1)).to.eq(122n);
+    });
+
+    it("keeps each batch accumulator independent", async function () {
+      await submit(signers.alice, 1, 20);
+      await contract.openNewBatch();
+      await submit(signers.bob, 2, 90);
+
+      expect(await decryptAccumulator(1)).to.eq(20n);
+      expect(await decryptAccumulator(2)).to.eq(90n);
+    });
+
+    it("emits the stored ciphertext handle without revealing the value", async function () {
+      const tx = await submit(signers.alice, 1, 64);
+      const receipt = await tx.wait();
+      const log = receipt!.logs
+        .map((l) => contract.interface.parseLog(l))
+        .find((parsed) => parsed?.name === "CraftingSubmitted");
+
+      expect(log!.args.crafter).to.eq(signers.alice.address);
+      expect(log!.args.batchId).to.eq(1);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          log!.args.encryptedQuality,
+        ),
+      ).to.eq(64n);
+    });
+  });
+
+  describe("decryption", function () {
+    // Lets the single-submission batches below reveal their stats
+    beforeEach(async function () {
+      await contract.setDecryptionPrivacy(1, 1, 0);
+    });
+
+    it("lets only the submitter decrypt their own quality", async function () {
+      const tx = await submit(signers.alice, 1, 64);
+      const receipt = await tx.wait();
+      const log = receipt!.logs
+        .map((l) => contract.interface.parseLog(l))
+        .find((parsed) => parsed?.name === "CraftingSubmitted");
+      const handle = log!.args.encryptedQuality;
+
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          handle,
+          address,
+          signers.alice,
+        ),
+      ).to.eq(64n);
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint32, handle, address, signers.bob),
+      ).to.be.rejectedWith("not authorized");
+    });
+
+    it("refuses to decrypt an open batch", async function () {
+      await submit(signers.alice, 1, 10);
+      await expect(
+        contract.requestBatchQualityDecryption(1),
+      ).to.be.revertedWithCustomError(contract, "BatchStillOpen");
+      await expect(
+        contract.requestBatchStatsDecryption(1),
+      ).to.be.revertedWithCustomError(contract, "BatchStillOpen");
+      const client = CraftingClient.connect(address, signers.owner);
+      await expect(client.requestBatchDecryption(1)).to.be.rejectedWith(
+        BatchStillOpenError,
+      );
+    });
+
+    it("refuses to decrypt a batch without submissions", async function () {
+      await contract.closeBatch(1);
+      await expect(
+        contract.requestBatchQualityDecryption(1),
+      ).to.be.revertedWithCustomError(contract, "InvalidRequest");
+    });
+
+    it("reveals the batch quality sum through the oracle callback", async function () {
+      await submit(signers.alice, 1, 45);
+      await submit(signers.bob, 1, 50);
+      await contract.closeBatch(1);
+
+      const tx = await contract
+        .connect(signers.carol)
+        .requestBatchQualityDecryption(1);
+      await expect(tx).to.emit(contract, "DecryptionRequested");
+      const receipt = await tx.wait();
+      const requested = receipt!.logs
+        .map((l) => contract.interface.parseLog(l))
+        .find((parsed) => parsed?.name === "DecryptionRequested");
+      const requestId = requested!.args.requestId;
+
+      const context = await contract.decryptionContexts(requestId);
+      expect(context.batchId).to.eq(1);
+      expect(context.requester).to.eq(signers.carol.address);
+      expect(context.processed).to.eq(false);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const completed = await contract.queryFilter(
+        contract.filters.DecryptionCompleted(requestId),
+      );
+      expect(completed).to.have.length(1);
+      expect(completed[0].args.batchId).to.eq(1);
+      expect(completed[0].args.qualityScore).to.eq(95n);
+      expect((await contract.decryptionContexts(requestId)).processed).to.eq(
+        true,
+      );
+    });
+
+    it("archives a batch once its sum and stats were revealed", async function () {
+      await submit(signers.alice, 1, 45);
+      await contract.closeBatch(1);
+      await expect(contract.archiveBatch(1)).to.be.revertedWithCustomError(
+        contract,
+        "BatchNotSettled",
+      );
+      await contract.requestBatchQualityDecryption(1);
+      await contract.connect(signers.carol).requestBatchStatsDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(contract.connect(signers.carol).archiveBatch(1))
+        .to.emit(contract, "BatchArchived")
+        .withArgs(1, 45);
+      const archived = await contract.batches(1);
+      expect(archived.archived).to.eq(true);
+      expect(archived.revealed).to.eq(true);
+      expect(archived.qualityScore).to.eq(45);
+      expect(archived.qualityAccumulator).to.eq(ethers.ZeroHash);
+      await expect(contract.archiveBatch(1)).to.be.revertedWithCustomError(
+        contract,
+        "BatchNotSettled",
+      );
+      await time.increase(MIN_INTERVAL);
+      await expect(
+        contract.requestBatchQualityDecryption(1),
+      ).to.be.revertedWithCustomError(contract, "InvalidRequest");
+    });
+
+    describe("callback", function () {
+      let requestId: bigint;
+
+      beforeEach(async function () {
+        await submit(signers.alice, 1, 30);
+        await contract.closeBatch(1);
+        const receipt = await (
+          await contract.requestBatchQualityDecryption(1)
+        ).wait();
+        const requested = receipt!.logs
+          .map((l) => contract.interface.parseLog(l))
+          .find((parsed) => parsed?.name === "DecryptionRequested");
+        requestId = requested!.args.requestId;
+      });
+
+      // The mock oracle replays pending requests on the next
+      // awaitDecryptionOracle of any suite, settle them here.
+      afterEach(async function () {
+        await fhevm.awaitDecryptionOracle();
+      });
+
+      it("rejects a callback replayed after processing", async function () {
+        await fhevm.awaitDecryptionOracle();
+        const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+          ["uint32"],
+          [30],
+        );
+        await expect(
+          contract.completeBatchQualityDecryption(requestId, cleartexts, "0x"),
+        ).to.be.revertedWithCustomError(contract, "ReplayDetected");
+      });
+
+      it("reveals the batch's model score when the version changes before the callback", async function () {
+        await contract.registerModel(2, 2, 0);
+        await expect(contract.setModelVersion(2))
+          .to.emit(contract, "ModelVersionUpdated")
+          .withArgs(2);
+        await fhevm.awaitDecryptionOracle();
+        expect((await contract.decryptionContexts(requestId)).processed).to.eq(
+          true,
+        );
+        // Scored by model 1, the one batch 1 opened with, not 2 * 30
+        expect((await contract.batches(1)).qualityScore).to.eq(30);
+      });
+
+      it("rejects callbacks whose ciphertext state does not match the request", async function () {
+        // A second request made before the batch was archived no longer
+        // matches the dropped accumulator
+        await contract.connect(signers.bob).requestBatchStatsDecryption(1);
+        await fhevm.awaitDecryptionOracle();
+        const receipt = await (
+          await contract.connect(signers.carol).requestBatchQualityDecryption(1)
+        ).wait();
+        const second = receipt!.logs
+          .map((l) => contract.interface.parseLog(l))
+          .find((parsed) => parsed?.name === "DecryptionRequested")!.args
+          .requestId;
+        await contract.archiveBatch(1);
+        const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+          ["uint32"],
+          [30],
+        );
+        await expect(
+          contract.completeBatchQualityDecryption(second, cleartexts, "0x"),
+        ).to.be.revertedWithCustomError(contract, "InvalidDecryption");
+        // The mock oracle fails the same way, which drains the request
+        await expect(
+          withCraftingErrors(() => fhevm.awaitDecryptionOracle()),
+        ).to.be.rejectedWith(InvalidDecryptionError);
+      });
+
+      it("rejects callbacks of unknown requests", async function () {
+        const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+          ["uint32"],
+          [30],
+        );
+        await expect(
+          contract.completeBatchQualityDecryption(
+            requestId + 100n,
+            cleartexts,
+            "0x",
+          ),
+        ).to.be.revertedWithCustomError(contract, "InvalidRequest");
+      });
+
+      it("rejects cleartexts without valid KMS signatures", async function () {
+        const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+          ["uint32"],
+          [999],
+        );
+        await expect(
+          contract.completeBatchQualityDecryption(requestId, cleartexts, "0x"),
+        ).to.be.reverted;
+        expect((await contract.decryptionContexts(requestId)).processed).to.eq(
+          false,
+        );
+      });
+    });
+  });
+
+  describe("quality models", function () {
+    it("registers each version once and only switches to registered ones", async function () {
+      await expect(contract.registerModel(2, 3, 7))
+        .to.emit(contract, "ModelRegistered")
+        .withArgs(2, 3, 7);
+      for (const [version, weight] of [
+        [2, 1],
+        [0, 1],
+        [3, 0],
+      ]) {
+        await expect(
+          contract.registerModel(version, weight, 0),
+        ).to.be.revertedWithCustomError(contract, "InvalidModel");
+      }
+      await expect(contract.setModelVersion(3)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidModel",
+      );
+      await contract.setModelVersion(2);
+      expect(await contract.modelVersion()).to.eq(2);
+    });
+
+    it("accumulates each batch under the model it opened with", async function () {
+      await submit(signers.alice, 1, 10);
+      await contract.registerModel(2, 2, 5);
+      await contract.setModelVersion(2);
+      // Batch 1 keeps its model after the switch
+      await submit(signers.bob, 1, 20);
+      expect(await decryptAccumulator(1)).to.eq(30n);
+
+      await contract.openNewBatch();
+      expect((await contract.batches(2)).modelVersion).to.eq(2);
+      await time.increase(MIN_INTERVAL);
+      await submit(signers.alice, 2, 10);
+      await submit(signers.bob, 2, 20);
+      expect(await decryptAccumulator(2)).to.eq(2n * 10n + 5n + 2n * 20n + 5n);
+      await contract.closeBatch(2);
+
+      const client = CraftingClient.connect(address, signers.carol);
+      const { requestId } = await client.requestBatchDecryption(2);
+      await fhevm.awaitDecryptionOracle();
+      const result = await client.waitForDecryption(requestId);
+      expect(result).to.include({ qualityScore: 70n, modelVersion: 2n });
+    });
+
+    it("requests decryptions for the model of the batch, not the current one", async function () {
+      await submit(signers.alice, 1, 30);
+      await contract.closeBatch(1);
+      await contract.registerModel(2, 2, 0);
+      await contract.setModelVersion(2);
+      const client = CraftingClient.connect(address, signers.carol);
+      const { requestId } = await client.requestBatchDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+      expect(await client.waitForDecryption(requestId)).to.include({
+        qualityScore: 30n,
+        modelVersion: 1n,
+      });
+    });
+  });
+
+  describe("batch stats", function () {
+    beforeEach(async function () {
+      await contract.setDecryptionPrivacy(1, 1, 0);
+    });
+
+    async function decryptStats(batchId: bigint | number) {
+      const stats = await contract.getBatchStats(batchId);
+      const decrypt = (handle: string) =>
+        fhevm.debugger.decryptEuint(FhevmType.euint32, handle);
+      return {
+        max: await decrypt(stats.maxQuality),
+        min: await decrypt(stats.minQuality),
+        masterpieces: await decrypt(stats.masterpieceCount),
+        histogram: await Promise.all(stats.histogram.map(decrypt)),
+      };
+    }
+
+    it("tracks max, min, masterpieces and the histogram homomorphically", async function () {
+      await contract.addProvider(signers.carol.address);
+      await submit(signers.alice, 1, 20);
+      await submit(signers.bob, 1, 90);
+      await submit(signers.carol, 1, 7);
+
+      expect(await decryptStats(1)).to.deep.eq({
+        max: 90n,
+        min: 7n,
+        masterpieces: 1n,
+        histogram: [1n, 1n, 0n, 0n, 1n],
+      });
+      expect((await contract.getBatchStats(1)).masterpieceThreshold).to.eq(
+        await contract.DEFAULT_MASTERPIECE_THRESHOLD(),
+      );
+    });
+
+    it("reveals every statistic in one decryption request", async function () {
+      await submit(signers.alice, 1, 45);
+      await submit(signers.bob, 1, 95);
+      await contract.closeBatch(1);
+
+      const client = CraftingClient.connect(address, signers.carol);
+      expect((await client.getBatchStats(1)).revealed).to.eq(null);
+      const { requestId, batchId } =
+        await client.requestBatchStatsDecryption(1);
+      expect(batchId).to.eq(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const revealed = {
+        maxQuality: 95n,
+        minQuality: 45n,
+        masterpieceCount: 1n,
+        histogram: [0n, 0n, 1n, 0n, 1n],
+      };
+      expect(await client.waitForStatsDecryption(requestId)).to.deep.include(
+        revealed,
+      );
+      expect((await client.getBatchStats(1)).revealed).to.deep.eq(revealed);
+      expect(await client.histogramBuckets()).to.deep.eq([
+        { from: 0n, to: 20n },
+        { from: 20n, to: 40n },
+        { from: 40n, to: 60n },
+        { from: 60n, to: 80n },
+        { from: 80n, to: null },
+      ]);
+
+      await expect(
+        contract.completeBatchStatsDecryption(requestId, "0x", "0x"),
+      ).to.be.revertedWithCustomError(contract, "ReplayDetected");
+      await expect(
+        contract.completeBatchStatsDecryption(requestId + 1n, "0x", "0x"),
+      ).to.be.revertedWithCustomError(contract, "InvalidRequest");
+    });
+
+    it("counts masterpieces against the threshold the batch opened with", async function () {
+      for (const threshold of [0, 101]) {
+        await expect(
+          contract.setMasterpieceThreshold(threshold),
+        ).to.be.revertedWithCustomError(contract, "InvalidThreshold");
+      }
+      await expect(contract.setMasterpieceThreshold(50))
+        .to.emit(contract, "MasterpieceThresholdUpdated")
+        .withArgs(50);
+      await submit(signers.alice, 1, 60);
+      expect((await decryptStats(1)).masterpieces).to.eq(0n);
+
+      await contract.openNewBatch();
+      await time.increase(MIN_INTERVAL);
+      await submit(signers.alice, 2, 60);
+      expect((await decryptStats(2)).masterpieces).to.eq(1n);
+      expect((await contract.getBatchStats(2)).masterpieceThreshold).to.eq(50);
+    });
+
+    it("keeps the encrypted stats until they were revealed, then archiving drops them", async function () {
+      await submit(signers.alice, 1, 45);
+      await contract.closeBatch(1);
+      await contract.requestBatchQualityDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+      // The sum alone does not settle the batch, nobody can drop the stats yet
+      await expect(
+        contract.connect(signers.carol).archiveBatch(1),
+      ).to.be.revertedWithCustomError(contract, "BatchNotSettled");
+
+      await contract.connect(signers.carol).requestBatchStatsDecryption(1);
+      await expect(
+        contract.connect(signers.carol).archiveBatch(1),
+      ).to.be.revertedWithCustomError(contract, "BatchNotSettled");
+      await fhevm.awaitDecryptionOracle();
+      await contract.connect(signers.carol).archiveBatch(1);
+
+      const client = CraftingClient.connect(address, signers.owner);
+      const stats = await client.getBatchStats(1);
+      expect(stats.encrypted.maxQuality).to.eq(ethers.ZeroHash);
+      expect(stats.encrypted.histogram).to.deep.eq(
+        Array(5).fill(ethers.ZeroHash),
+      );
+      expect(stats.revealed).to.include({ maxQuality: 45n, minQuality: 45n });
+      await time.increase(MIN_INTERVAL);
+      await expect(
+        contract.requestBatchStatsDecryption(1),
+      ).to.be.revertedWithCustomError(contract, "InvalidRequest");
+    });
+  });
+
+  describe("decryption privacy", function () {
+    it("refuses to decrypt batches below the minimum submissions", async function () {
+      for (const [minSubmissions, minStats, bound] of [
+        [0, 10, 0],
+        [101, 101, 0],
+        [5, 4, 0],
+        [1, 101, 0],
+        [1, 10, 10],
+      ]) {
+        await expect(
+          contract.setDecryptionPrivacy(minSubmissions, minStats, bound),
+        ).to.be.revertedWithCustomError(contract, "InvalidPrivacyConfig");
+      }
+      const client = CraftingClient.connect(address, signers.owner);
+      await expect(
+        client.setDecryptionPrivacy({
+          minSubmissions: 1n,
+          minStatsSubmissions: 10n,
+          noiseBound: 10n,
+        }),
+      ).to.be.rejectedWith(InvalidPrivacyConfigError, "noise bound 0 or odd");
+      await client.setDecryptionPrivacy({
+        minSubmissions: 2n,
+        minStatsSubmissions: 2n,
+        noiseBound: 0n,
+      });
+      expect(await client.decryptionPrivacy()).to.deep.eq({
+        minSubmissions: 2n,
+        minStatsSubmissions: 2n,
+        noiseBound: 0n,
+      });
+
+      await submit(signers.alice, 1, 64);
+      await contract.closeBatch(1);
+      await expect(
+        contract.requestBatchQualityDecryption(1),
+      ).to.be.revertedWithCustomError(contract, "TooFewSubmissions");
+      await expect(
+        contract.requestBatchStatsDecryption(1),
+      ).to.be.revertedWithCustomError(contract, "TooFewSubmissions");
+      // It can never be revealed, so it can be archived as it is
+      await expect(contract.archiveBatch(1))
+        .to.emit(contract, "BatchArchived")
+        .withArgs(1, 0);
+
+      await contract.openNewBatch();
+      await time.increase(MIN_INTERVAL);
+      await submit(signers.alice, 2, 64);
+      await submit(signers.bob, 2, 10);
+      await contract.closeBatch(2);
+      await expect(contract.archiveBatch(2)).to.be.revertedWithCustomError(
+        contract,
+        "BatchNotSettled",
+      );
+      await client.requestBatchDecryption(2);
+      await fhevm.awaitDecryptionOracle();
+      expect((await client.getBatch(2)).qualityScore).to.eq(74n);
+    });
+
+    it("reveals exact stats only from the stricter stats minimum on", async function () {
+      await contract.setDecryptionPrivacy(1, 3, 0);
+      await contract.addProvider(signers.carol.address);
+      await submit(signers.alice, 1, 64);
+      await submit(signers.bob, 1, 10);
+      await contract.closeBatch(1);
+      await expect(
+        contract.requestBatchStatsDecryption(1),
+      ).to.be.revertedWithCustomError(contract, "TooFewSubmissions");
+      // The sum alone settles a batch below the stats minimum
+      await contract.requestBatchQualityDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+      await contract.archiveBatch(1);
+
+      await contract.openNewBatch();
+      await time.increase(MIN_INTERVAL);
+      await submit(signers.alice, 2, 64);
+      await submit(signers.bob, 2, 10);
+      await submit(signers.carol, 2, 30);
+      await contract.closeBatch(2);
+      await contract.requestBatchQualityDecryption(2);
+      await fhevm.awaitDecryptionOracle();
+      await expect(contract.archiveBatch(2)).to.be.revertedWithCustomError(
+        contract,
+        "BatchNotSettled",
+      );
+      await time.increase(MIN_INTERVAL);
+      await contract.requestBatchStatsDecryption(2);
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.getBatchStats(2)).revealed).to.eq(true);
+      await contract.archiveBatch(2);
+    });
+
+    it("adds noise drawn once per batch to the revealed sum", async function () {
+      await expect(contract.setDecryptionPrivacy(1, 10, 11))
+        .to.emit(contract, "DecryptionPrivacyUpdated")
+        .withArgs(1, 10, 11);
+      // Batch 1 opened before the change and keeps revealing exact sums
+      expect((await contract.batches(1)).noiseBound).to.eq(0);
+      await contract.openNewBatch();
+      await submit(signers.alice, 2, 30);
+      await submit(signers.bob, 2, 40);
+      await contract.closeBatch(2);
+
+      const client = CraftingClient.connect(address, signers.carol);
+      const { requestId } = await client.requestBatchDecryption(2);
+      await fhevm.awaitDecryptionOracle();
+      const result = await client.waitForDecryption(requestId);
+      expect(result.noiseBound).to.eq(11n);
+      expect(result.revealedScore).to.be.within(70n, 80n);
+      // Corrected for the mean noise of 5
+      expect(result.qualityScore).to.eq(result.revealedScore - 5n);
+      expect(noiseOffset(11n)).to.eq(5n);
+      const { noisyAccumulator } = await contract.batches(2);
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, noisyAccumulator),
+      ).to.eq(result.revealedScore);
+      expect(await decryptAccumulator(2)).to.eq(70n);
+
+      // Asking again reveals the same value, the noise cannot be averaged out
+      await time.increase(MIN_INTERVAL);
+      const again = await client.requestBatchDecryption(2);
+      await fhevm.awaitDecryptionOracle();
+      expect(
+        (await client.waitForDecryption(again.requestId)).revealedScore,
+      ).to.eq(result.revealedScore);
+      expect((await contract.batches(2)).noisyAccumulator).to.eq(
+        noisyAccumulator,
+      );
+    });
+  });
+
+  describe("client", function () {
+    it("lists providers and runs owner operations", async function () {
+      const asOwner = CraftingClient.connect(address, signers.owner);
+      await asOwner.removeProvider(signers.bob.address);
+      await asOwner.addProvider(signers.carol.address);
+      await asOwner.addProvider(signers.bob.address);
+      await asOwner.setUserCooldown(signers.carol.address, 120);
+
+      const providers = await asOwner.providers();
+      expect(providers.map((p) => p.address)).to.deep.eq([
+        signers.alice.address,
+        signers.carol.address,
+        signers.bob.address,
+      ]);
+      expect(providers[1].cooldown).to.eq(120n);
+      expect(providers[0].cooldown).to.eq(0n);
+
+      await asOwner.setPaused(true);
+      expect(await asOwner.paused()).to.eq(true);
+      await asOwner.registerModel({ version: 2n, weight: 3n, bonus: 1n });
+      expect(await asOwner.qualityModel(2)).to.deep.eq({
+        version: 2n,
+        weight: 3n,
+        bonus: 1n,
+      });
+      expect(await asOwner.qualityModel(3)).to.eq(null);
+      expect((await asOwner.qualityModels()).map((m) => m.version)).to.deep.eq([
+        1n,
+        2n,
+      ]);
+      await asOwner.setModelVersion(2);
+      expect(await asOwner.modelVersion()).to.eq(2n);
+      await asOwner.openBatch();
+      const batches = await asOwner.loadBatches();
+      expect(batches.map((b) => [b.id, b.modelVersion])).to.deep.eq([
+        [2n, 2n],
+        [1n, 1n],
+      ]);
+
+      await asOwner.transferOwnership(signers.alice.address);
+      expect(await asOwner.owner()).to.eq(signers.alice.address);
+      await expect(asOwner.setPaused(false)).to.be.rejectedWith(NotOwnerError);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { CraftingClient } from "../src/CraftingClient";
+import { DecryptionTracker } from "../src/DecryptionTracker";
+import {
+  CraftingError,
+  InvalidDecryptionError,
+  withCraftingErrors,
+} from "../src/errors";
+import { CraftingQualityFHE, CraftingQualityFHE__factory } from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const TIMEOUT = 60 * 60;
+const MIN_INTERVAL = 30;
+
+describe("DecryptionTracker", function () {
+  let signers: Signers;
+  let contract: CraftingQualityFHE;
+  let tracker: DecryptionTracker;
+
+  const client = async (signer: HardhatEthersSigner) =>
+    CraftingClient.connect(await contract.getAddress(), signer, fhevm);
+
+  async function closedBatch(quality: number) {
+    const batchId = await contract.currentBatchId();
+    await (await client(signers.alice)).submitQuality(batchId, quality);
+    await contract.closeBatch(batchId);
+    await contract.openNewBatch();
+    await time.increase(MIN_INTERVAL);
+    return batchId;
+  }
+
+  const states = async () =>
+    (await tracker.requests()).map(
+      ({ requestId, batchId, state }) => `${requestId}:${batchId} ${state}`,
+    );
+
+  before(async function () {
+    const [owner, alice, bob] = await ethers.getSigners();
+    signers = { owner, alice, bob };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in FHEVM mock mode");
+      this.skip();
+    }
+    const fromBlock = await ethers.provider.getBlockNumber();
+    contract = await (
+      (await ethers.getContractFactory(
+        "CraftingQualityFHE",
+      )) as CraftingQualityFHE__factory
+    ).deploy();
+    await contract.addProvider(signers.alice.address);
+    tracker = new DecryptionTracker(await client(signers.owner), {
+      timeout: TIMEOUT,
+      fromBlock,
+    });
+  });
+
+  it("pairs requests with their completion and marks unanswered ones stale", async function () {
+    const first = await closedBatch(40);
+    const second = await closedBatch(25);
+    const { requestId } = await (
+      await client(signers.bob)
+    ).requestBatchDecryption(first);
+    await fhevm.awaitDecryptionOracle();
+    const pending = await (
+      await client(signers.owner)
+    ).requestBatchDecryption(second);
+
+    const [latest, completed] = await tracker.requests();
+    expect(completed).to.include({
+      requestId,
+      batchId: first,
+      requester: signers.bob.address,
+      modelVersion: 1n,
+      state: "completed",
+      qualityScore: 40n,
+    });
+    expect(completed.completionTransactionHash).to.be.a("string");
+    expect(latest).to.include({
+      requestId: pending.requestId,
+      state: "pending",
+      qualityScore: null,
+      completedAtBlock: null,
+    });
+
+    await time.increase(TIMEOUT);
+    expect(await states()).to.deep.eq([
+      `${pending.requestId}:${second} stale`,
+      `${requestId}:${first} completed`,
+    ]);
+    await fhevm.awaitDecryptionOracle();
+    expect(await states()).to.deep.eq([
+      `${pending.requestId}:${second} completed`,
+      `${requestId}:${first} completed`,
+    ]);
+  });
+
+  it("re-issues the batch of a stale request", async function () {
+    const batchId = await closedBatch(40);
+    const stale = await (
+      await client(signers.bob)
+    ).requestBatchDecryption(batchId);
+    await expect(tracker.reissue(stale.requestId)).to.be.rejectedWith(
+      CraftingError,
+      "is not stale",
+    );
+
+    await time.increase(TIMEOUT);
+    expect((await tracker.requests())[0]).to.include({
+      state: "stale",
+      reissuable: true,
+    });
+    const { requestId } = await tracker.reissue(stale.requestId);
+    expect(await states()).to.deep.eq([
+      `${requestId}:${batchId} pending`,
+      `${stale.requestId}:${batchId} stale`,
+    ]);
+    expect((await tracker.requests())[1].reissuable).to.eq(false);
+    await expect(tracker.reissue(stale.requestId)).to.be.rejectedWith(
+      CraftingError,
+      "already requested again",
+    );
+
+    await fhevm.awaitDecryptionOracle();
+    const [reissued] = await tracker.requests();
+    expect(reissued).to.include({ state: "completed", qualityScore: 40n });
+  });
+
+  it("marks requests the callback can no longer settle", async function () {
+    const batchId = await closedBatch(40);
+    await contract.requestBatchQualityDecryption(batchId);
+    // Requests are made for the batch's model, a version change leaves them be
+    await contract.registerModel(2, 1, 0);
+    await contract.setModelVersion(2);
+    const [pending] = await tracker.requests();
+    expect(pending).to.include({
+      state: "pending",
+      modelVersion: 1n,
+    });
+
+    await contract.setDecryptionPrivacy(1, 1, 0);
+    await contract.connect(signers.alice).requestBatchStatsDecryption(batchId);
+    await fhevm.awaitDecryptionOracle();
+    await contract.connect(signers.bob).requestBatchQualityDecryption(batchId);
+    await contract.archiveBatch(batchId);
+    const [failed, completed] = await tracker.requests();
+    expect(failed).to.include({
+      state: "failed",
+      requester: signers.bob.address,
+    });
+    expect(completed.state).to.eq("completed");
+
+    // The oracle answers it against the dropped accumulator
+    await expect(
+      withCraftingErrors(() => fhevm.awaitDecryptionOracle()),
+    ).to.be.rejectedWith(InvalidDecryptionError);
+    expect((await tracker.requests())[0].state).to.eq("failed");
+  });
+});
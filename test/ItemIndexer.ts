@@ -0,0 +1,217 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { ItemIndexer, MemoryIndexerStore } from "../src/ItemIndexer";
+import { sleep } from "../src/transactions";
+import {
+  CraftingQualityFHE,
+  CraftingQualityFHE__factory,
+  ItemRegistryFHE,
+  ItemRegistryFHE__factory,
+} from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const FAILED = 2;
+
+describe("ItemIndexer", function () {
+  let signers: Signers;
+  let registry: ItemRegistryFHE;
+  let crafting: CraftingQualityFHE;
+  let startBlock: number;
+
+  async function createItem(signer: HardhatEthersSigner, name: string) {
+    const address = await registry.getAddress();
+    const input = await fhevm
+      .createEncryptedInput(address, signer.address)
+      .add32(7)
+      .encrypt();
+    await registry
+      .connect(signer)
+      .createItem(name, 50, ["Iron Ore"], input.handles[0], input.inputProof);
+  }
+
+  async function submit(signer: HardhatEthersSigner, quality: number) {
+    const input = await fhevm
+      .createEncryptedInput(await crafting.getAddress(), signer.address)
+      .add32(quality)
+      .encrypt();
+    await crafting
+      .connect(signer)
+      .submitCraftingQuality(1, input.handles[0], input.inputProof);
+  }
+
+  function indexer(options = {}) {
+    return new ItemIndexer(
+      { itemRegistry: registry, craftingQuality: crafting },
+      ethers.provider,
+      { startBlock, ...options },
+    );
+  }
+
+  before(async function () {
+    const [owner, alice, bob] = await ethers.getSigners();
+    signers = { owner, alice, bob };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in FHEVM mock mode");
+      this.skip();
+    }
+    startBlock = await ethers.provider.getBlockNumber();
+    registry = await (
+      (await ethers.getContractFactory(
+        "ItemRegistryFHE",
+      )) as ItemRegistryFHE__factory
+    ).deploy();
+    crafting = await (
+      (await ethers.getContractFactory(
+        "CraftingQualityFHE",
+      )) as CraftingQualityFHE__factory
+    ).deploy();
+    await crafting.addProvider(signers.alice.address);
+  });
+
+  it("rebuilds items and batches from events", async function () {
+    await createItem(signers.alice, "Dragon Sword");
+    await createItem(signers.bob, "Phoenix Shield");
+    await registry.connect(signers.alice).setItemStatus(1, FAILED);
+    await registry.connect(signers.bob).transferItem(2, signers.alice.address);
+    await submit(signers.alice, 60);
+    await crafting.closeBatch(1);
+
+    const index = indexer();
+    await index.sync();
+
+    expect(index.items.map((item) => item.name)).to.deep.eq([
+      "Phoenix Shield",
+      "Dragon Sword",
+    ]);
+    const [shield, sword] = index.items;
+    const onChain = await registry.getItem(1);
+    expect(sword).to.include({
+      id: "1",
+      owner: signers.alice.address,
+      baseQuality: 50,
+      encryptedQuality: onChain.quality,
+      encryptedCatalyst: onChain.catalyst,
+      status: "failed",
+      createdAt: Number(onChain.createdAt),
+    });
+    expect(sword.materials).to.deep.eq(["Iron Ore"]);
+    expect(shield.owner).to.eq(signers.alice.address);
+    expect(shield.status).to.eq("crafted");
+
+    const [batch] = index.batches;
+    expect(batch.id).to.eq("1");
+    expect(batch.active).to.eq(false);
+    expect(batch.closedAt).to.be.greaterThan(0);
+    expect(batch.submissions).to.have.length(1);
+    expect(batch.submissions[0].crafter).to.eq(signers.alice.address);
+  });
+
+  it("gives the same state whatever the chunk size", async function () {
+    await createItem(signers.alice, "Dragon Sword");
+    await createItem(signers.bob, "Phoenix Shield");
+    await registry.connect(signers.bob).setItemStatus(2, FAILED);
+
+    const whole = indexer();
+    const chunked = indexer({ chunkSize: 1 });
+    await whole.sync();
+    await chunked.sync();
+
+    expect(chunked.items).to.deep.eq(whole.items);
+    expect(chunked.batches).to.deep.eq(whole.batches);
+    expect(chunked.lastSyncedBlock).to.eq(whole.lastSyncedBlock);
+  });
+
+  it("resumes from the persisted snapshot", async function () {
+    const store = new MemoryIndexerStore();
+    await createItem(signers.alice, "Dragon Sword");
+    const first = indexer({ store });
+    await first.sync();
+    const syncedBlock = first.lastSyncedBlock;
+
+    await createItem(signers.bob, "Phoenix Shield");
+    // A fresh indexer on the same store must only scan the new blocks
+    const resumed = indexer({ store });
+    let scannedFrom: number | undefined;
+    const queryFilter = registry.queryFilter.bind(registry);
+    registry.queryFilter = (async (...args: Parameters<typeof queryFilter>) => {
+      scannedFrom ??= Number(args[1]);
+      return queryFilter(...args);
+    }) as typeof registry.queryFilter;
+    try {
+      await resumed.sync();
+    } finally {
+      registry.queryFilter = queryFilter;
+    }
+
+    expect(scannedFrom).to.eq(syncedBlock + 1);
+    expect(resumed.items.map((item) => item.name)).to.deep.eq([
+      "Phoenix Shield",
+      "Dragon Sword",
+    ]);
+  });
+
+  it("notifies subscribers of synced changes only", async function () {
+    const index = indexer();
+    let notified = 0;
+    const unsubscribe = index.subscribe(() => notified++);
+    try {
+      await createItem(signers.alice, "Dragon Sword");
+      await index.sync();
+      expect(notified).to.eq(1);
+      await index.sync();
+      expect(notified).to.eq(1);
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it("reports failed syncs of new blocks through onError", async function () {
+    const errors: unknown[] = [];
+    const store = new MemoryIndexerStore();
+    store.save = () => Promise.reject(new Error("quota exceeded"));
+    const index = indexer({ store, onError: (e: unknown) => errors.push(e) });
+    const unsubscribe = index.subscribe(() => {});
+    try {
+      await createItem(signers.alice, "Dragon Sword");
+      // The provider polls for new blocks
+      for (let i = 0; i < 50 && errors.length === 0; i++) {
+        await sleep(50);
+      }
+      expect((errors[0] as Error).message).to.eq("quota exceeded");
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it("credits crafters and tracks published averages", async function () {
+    await createItem(signers.alice, "Dragon Sword");
+    await registry.connect(signers.alice).transferItem(1, signers.bob.address);
+    await registry.connect(signers.alice).publishAverageQuality();
+    await fhevm.awaitDecryptionOracle();
+
+    const index = indexer();
+    await index.sync();
+    expect(index.items[0]).to.include({
+      owner: signers.bob.address,
+      crafter: signers.alice.address,
+    });
+    expect(index.averages).to.have.length(1);
+    expect(index.averages[0]).to.include({
+      crafter: signers.alice.address,
+      sampleSize: 1,
+    });
+
+    await registry.connect(signers.alice).withdrawAverageQuality();
+    await index.sync();
+    expect(index.averages).to.deep.eq([]);
+  });
+});
@@ -0,0 +1,353 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { ClaimNotVerifiedError } from "../src/errors";
+import { isBuyable, MarketplaceClient } from "../src/MarketplaceClient";
+import {
+  CraftingGold,
+  CraftingGold__factory,
+  ItemMarketplace,
+  ItemMarketplace__factory,
+  ItemRegistryFHE,
+  ItemRegistryFHE__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const ETH = 0;
+const GAME_TOKEN = 1;
+const ACTIVE = 0n;
+const CANCELLED = 1n;
+const SOLD = 2n;
+const CLAIM_VERIFIED = 2n;
+const CLAIM_REFUTED = 3n;
+
+describe("ItemMarketplace", function () {
+  let signers: Signers;
+  let registry: ItemRegistryFHE;
+  let registryAddress: string;
+  let market: ItemMarketplace;
+  let marketAddress: string;
+  let gold: CraftingGold;
+
+  async function craft(signer: HardhatEthersSigner, baseQuality: number) {
+    const input = await fhevm
+      .createEncryptedInput(registryAddress, signer.address)
+      .add32(0)
+      .encrypt();
+    await registry
+      .connect(signer)
+      .createItem(
+        "Iron Helm",
+        baseQuality,
+        ["Iron Ore"],
+        input.handles[0],
+        input.inputProof,
+      );
+    return registry.itemCount();
+  }
+
+  async function listItem(
+    itemId: bigint,
+    price: bigint,
+    currency = ETH,
+    claim = 0,
+  ) {
+    await registry.connect(signers.alice).approve(marketAddress, itemId);
+    return market.connect(signers.alice).list(itemId, currency, price, claim);
+  }
+
+  before(async function () {
+    const [deployer, alice, bob] = await ethers.getSigners();
+    signers = { deployer, alice, bob };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in FHEVM mock mode");
+      this.skip();
+    }
+    registry = await (
+      (await ethers.getContractFactory(
+        "ItemRegistryFHE",
+      )) as ItemRegistryFHE__factory
+    ).deploy();
+    registryAddress = await registry.getAddress();
+    market = await (
+      (await ethers.getContractFactory(
+        "ItemMarketplace",
+      )) as ItemMarketplace__factory
+    ).deploy(registryAddress);
+    marketAddress = await market.getAddress();
+    gold = await (
+      (await ethers.getContractFactory("CraftingGold")) as CraftingGold__factory
+    ).deploy();
+  });
+
+  describe("listings", function () {
+    it("lists approved items and lets the seller cancel", async function () {
+      const itemId = await craft(signers.alice, 50);
+      const list = (signer: HardhatEthersSigner, price = 1n, currency = ETH) =>
+        market.connect(signer).list(itemId, currency, price, 0);
+
+      await expect(list(signers.alice)).to.be.revertedWithCustomError(
+        market,
+        "MarketplaceNotApproved",
+      );
+      await registry.connect(signers.alice).approve(marketAddress, itemId);
+      await expect(list(signers.bob)).to.be.revertedWithCustomError(
+        market,
+        "NotSeller",
+      );
+      await expect(list(signers.alice, 0n)).to.be.revertedWithCustomError(
+        market,
+        "InvalidListing",
+      );
+      await expect(
+        list(signers.alice, 1n, GAME_TOKEN),
+      ).to.be.revertedWithCustomError(market, "GameTokenNotSet");
+
+      await expect(market.connect(signers.alice).list(itemId, ETH, 100n, 0))
+        .to.emit(market, "ItemListed")
+        .withArgs(1, itemId, signers.alice.address, ETH, 100n, 0);
+      expect(await market.activeListingOf(itemId)).to.eq(1n);
+      await expect(list(signers.alice)).to.be.revertedWithCustomError(
+        market,
+        "AlreadyListed",
+      );
+      await expect(
+        market.connect(signers.bob).cancel(1),
+      ).to.be.revertedWithCustomError(market, "NotSeller");
+
+      await expect(market.connect(signers.alice).cancel(1))
+        .to.emit(market, "ListingCancelled")
+        .withArgs(1, itemId);
+      const listing = await market.getListing(1);
+      expect(listing.status).to.eq(CANCELLED);
+      expect(listing.closedAt).to.be.gt(0n);
+      expect(await market.activeListingOf(itemId)).to.eq(0n);
+      await expect(
+        market.connect(signers.alice).cancel(1),
+      ).to.be.revertedWithCustomError(market, "ListingNotActive");
+    });
+
+    it("replaces listings left behind by a transferred item", async function () {
+      const itemId = await craft(signers.alice, 50);
+      await listItem(itemId, 100n);
+      await registry
+        .connect(signers.alice)
+        .transferItem(itemId, signers.bob.address);
+      await expect(
+        market.connect(signers.bob).buy(1, { value: 100n }),
+      ).to.be.revertedWithCustomError(market, "ListingNotActive");
+
+      await registry.connect(signers.bob).approve(marketAddress, itemId);
+      await expect(market.connect(signers.bob).list(itemId, ETH, 200n, 0))
+        .to.emit(market, "ListingCancelled")
+        .withArgs(1, itemId)
+        .and.to.emit(market, "ItemListed")
+        .withArgs(2, itemId, signers.bob.address, ETH, 200n, 0);
+      expect((await market.getListing(1)).status).to.eq(CANCELLED);
+      expect((await market.getListing(2)).status).to.eq(ACTIVE);
+    });
+  });
+
+  describe("settlement", function () {
+    it("sells for ETH and re-keys the item to the buyer", async function () {
+      const itemId = await craft(signers.alice, 50);
+      const { quality } = await registry.getItem(itemId);
+      const value = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        quality,
+        registryAddress,
+        signers.alice,
+      );
+      const price = ethers.parseEther("1");
+      await listItem(itemId, price);
+
+      await expect(
+        market.connect(signers.bob).buy(1, { value: price - 1n }),
+      ).to.be.revertedWithCustomError(market, "IncorrectPayment");
+      await expect(
+        market.connect(signers.alice).buy(1, { value: price }),
+      ).to.be.revertedWithCustomError(market, "InvalidListing");
+
+      const buy = market.connect(signers.bob).buy(1, { value: price });
+      await expect(buy)
+        .to.emit(market, "ItemSold")
+        .withArgs(
+          1,
+          itemId,
+          signers.bob.address,
+          signers.alice.address,
+          ETH,
+          price,
+        );
+      await expect(buy).to.changeEtherBalances(
+        [signers.alice, signers.bob],
+        [price, -price],
+      );
+
+      expect(await registry.ownerOf(itemId)).to.eq(signers.bob.address);
+      const listing = await market.getListing(1);
+      expect(listing.status).to.eq(SOLD);
+      expect(listing.buyer).to.eq(signers.bob.address);
+      const item = await registry.getItem(itemId);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          item.quality,
+          registryAddress,
+          signers.bob,
+        ),
+      ).to.eq(value);
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          item.quality,
+          registryAddress,
+          signers.alice,
+        ),
+      ).to.be.rejectedWith("not authorized");
+      await expect(
+        market.connect(signers.bob).buy(1, { value: price }),
+      ).to.be.revertedWithCustomError(market, "ListingNotActive");
+    });
+
+    it("sells for the game token", async function () {
+      await market.setGameToken(await gold.getAddress());
+      const itemId = await craft(signers.alice, 50);
+      await listItem(itemId, 300n, GAME_TOKEN);
+      await gold.mint(signers.bob.address, 500n);
+
+      await expect(
+        market.connect(signers.bob).buy(1, { value: 300n }),
+      ).to.be.revertedWithCustomError(market, "IncorrectPayment");
+      await expect(
+        market.connect(signers.bob).buy(1),
+      ).to.be.revertedWithCustomError(gold, "ERC20InsufficientAllowance");
+      await gold.connect(signers.bob).approve(marketAddress, 300n);
+      await market.connect(signers.bob).buy(1);
+
+      expect(await gold.balanceOf(signers.alice.address)).to.eq(300n);
+      expect(await gold.balanceOf(signers.bob.address)).to.eq(200n);
+      expect(await registry.ownerOf(itemId)).to.eq(signers.bob.address);
+    });
+  });
+
+  describe("quality claims", function () {
+    it("publishes whether the claim holds, not the quality", async function () {
+      // A base quality of 100 caps the quality at 100, a base of 0 keeps it under the luck range
+      const perfect = await craft(signers.alice, 100);
+      const scrap = await craft(signers.alice, 0);
+      await expect(
+        registry.connect(signers.bob).qualityAtLeast(perfect, 80),
+      ).to.be.revertedWithCustomError(registry, "NotItemOwner");
+      await registry.connect(signers.alice).approve(marketAddress, perfect);
+      await expect(
+        market.connect(signers.alice).list(perfect, ETH, 1n, 101),
+      ).to.be.revertedWithCustomError(registry, "InvalidThreshold");
+
+      await expect(market.connect(signers.alice).list(perfect, ETH, 1n, 80))
+        .to.emit(market, "QualityClaimRequested")
+        .withArgs(1, anyValue, 80);
+      await listItem(scrap, 1n, ETH, 80);
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await market.getListing(1)).claimStatus).to.eq(CLAIM_VERIFIED);
+      expect((await market.getListing(2)).claimStatus).to.eq(CLAIM_REFUTED);
+      const [revealed] = await market.queryFilter(
+        market.filters.QualityClaimRevealed(1),
+      );
+      await expect(
+        market.completeQualityClaim(
+          revealed.args.requestId,
+          ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [false]),
+          "0x",
+        ),
+      ).to.be.revertedWithCustomError(market, "UnknownClaimRequest");
+    });
+
+    it("only sells listings whose claim was verified", async function () {
+      const perfect = await craft(signers.alice, 100);
+      const scrap = await craft(signers.alice, 0);
+      await listItem(perfect, 100n, ETH, 80);
+      await listItem(scrap, 100n, ETH, 80);
+      const buy = (listingId: number) =>
+        market.connect(signers.bob).buy(listingId, { value: 100n });
+
+      await expect(buy(1)).to.be.revertedWithCustomError(
+        market,
+        "ClaimNotVerified",
+      );
+      await fhevm.awaitDecryptionOracle();
+      await expect(buy(2)).to.be.revertedWithCustomError(
+        market,
+        "ClaimNotVerified",
+      );
+      await expect(
+        MarketplaceClient.connect(marketAddress, signers.bob).buy(2),
+      ).to.be.rejectedWith(ClaimNotVerifiedError);
+      await expect(buy(1)).to.emit(market, "ItemSold");
+
+      // Relisted without the refuted claim, the item sells
+      await market.connect(signers.alice).cancel(2);
+      await listItem(scrap, 100n);
+      await expect(buy(3)).to.emit(market, "ItemSold");
+    });
+
+    it("lists, buys and reports sales through the client", async function () {
+      await market.setGameToken(await gold.getAddress());
+      await gold.setFaucetEnabled(true);
+      await gold.connect(signers.bob).faucet();
+      const itemId = await craft(signers.alice, 100);
+
+      const asAlice = MarketplaceClient.connect(marketAddress, signers.alice);
+      const { listing, claimRequestId } = await asAlice.list({
+        itemId,
+        currency: "gameToken",
+        price: 250n,
+        qualityClaim: 90,
+      });
+      expect(listing).to.include({
+        id: 1n,
+        currency: "gameToken",
+        qualityClaim: 90,
+        claimStatus: "pending",
+        status: "active",
+        buyer: null,
+      });
+      await fhevm.awaitDecryptionOracle();
+      const claim = await asAlice.waitForQualityClaim(claimRequestId!, {
+        timeoutMs: 5000,
+      });
+      expect(claim.holds).to.eq(true);
+
+      const asBob = MarketplaceClient.connect(marketAddress, signers.bob);
+      const verified = (await asBob.activeListingOf(itemId))!;
+      expect(verified.claimStatus).to.eq("verified");
+      expect(isBuyable(listing)).to.eq(false);
+      expect(isBuyable(verified)).to.eq(true);
+      await asBob.buy(1);
+      expect(await asBob.activeListingOf(itemId)).to.eq(null);
+      const [sale] = await asBob.sales({ account: signers.alice.address });
+      expect(sale).to.include({
+        listingId: 1n,
+        itemId,
+        seller: signers.alice.address,
+        buyer: signers.bob.address,
+        currency: "gameToken",
+        price: 250n,
+      });
+      expect(await asBob.sales({ itemId: 2 })).to.deep.eq([]);
+      const [sold] = await asBob.loadListings();
+      expect(sold.status).to.eq("sold");
+    });
+  });
+});
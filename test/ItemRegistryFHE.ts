@@ -0,0 +1,459 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { ItemRegistryClient } from "../src/ItemRegistryClient";
+import { ItemRegistryFHE, ItemRegistryFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const CRAFTED = 1;
+const FAILED = 2;
+const REVEAL_REQUESTED = 1;
+const REVEALED = 2;
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "ItemRegistryFHE",
+  )) as ItemRegistryFHE__factory;
+  const contract = (await factory.deploy()) as ItemRegistryFHE;
+  const address = await contract.getAddress();
+  return { contract, address };
+}
+
+describe("ItemRegistryFHE", function () {
+  let signers: Signers;
+  let contract: ItemRegistryFHE;
+  let address: string;
+
+  async function createItem(
+    signer: HardhatEthersSigner,
+    name: string,
+    catalyst: number,
+    materials: string[] = ["Iron Ore", "Leather"],
+    baseQuality = 50,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(address, signer.address)
+      .add32(catalyst)
+      .encrypt();
+    return contract
+      .connect(signer)
+      .createItem(
+        name,
+        baseQuality,
+        materials,
+        input.handles[0],
+        input.inputProof,
+      );
+  }
+
+  async function decryptFor(
+    signer: HardhatEthersSigner,
+    handle: string,
+  ): Promise<bigint> {
+    return fhevm.userDecryptEuint(FhevmType.euint32, handle, address, signer);
+  }
+
+  before(async function () {
+    const [deployer, alice, bob] = await ethers.getSigners();
+    signers = { deployer, alice, bob };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in FHEVM mock mode");
+      this.skip();
+    }
+    ({ contract, address } = await deployFixture());
+  });
+
+  describe("creation", function () {
+    it("stores the item fields and emits ItemCreated", async function () {
+      await expect(createItem(signers.alice, "Dragon Sword", 42))
+        .to.emit(contract, "ItemCreated")
+        .and.to.emit(contract, "ItemStatusUpdated")
+        .withArgs(1, CRAFTED);
+
+      const item = await contract.getItem(1);
+      expect(item.id).to.eq(1n);
+      expect(item.owner).to.eq(signers.alice.address);
+      expect(item.name).to.eq("Dragon Sword");
+      expect(item.baseQuality).to.eq(50n);
+      expect(item.materials).to.deep.eq(["Iron Ore", "Leather"]);
+      expect(item.status).to.eq(BigInt(CRAFTED));
+      expect(await contract.itemCount()).to.eq(1n);
+      expect(await contract.itemsOf(signers.alice.address)).to.deep.eq([1n]);
+    });
+
+    it("computes the quality from base, catalyst and luck", async function () {
+      await createItem(signers.alice, "Dragon Sword", 42);
+      const item = await contract.getItem(1);
+      // 50 base + 42 / 10 catalyst bonus + luck in [0, 32)
+      const quality = await decryptFor(signers.alice, item.quality);
+      expect(quality).to.be.within(54n, 85n);
+      expect(await decryptFor(signers.alice, item.catalyst)).to.eq(42n);
+    });
+
+    it("caps the catalyst bonus and the final quality", async function () {
+      await createItem(signers.alice, "Overcharged", 5000, ["Ore"], 0);
+      await createItem(signers.alice, "Perfect", 100, ["Ore"], 100);
+      const overcharged = await contract.getItem(1);
+      const perfect = await contract.getItem(2);
+      expect(await decryptFor(signers.alice, overcharged.quality)).to.be.within(
+        10n,
+        41n,
+      );
+      expect(await decryptFor(signers.alice, perfect.quality)).to.eq(100n);
+    });
+
+    it("rejects empty or oversized items", async function () {
+      await expect(
+        createItem(signers.alice, "", 0),
+      ).to.be.revertedWithCustomError(contract, "InvalidItem");
+      await expect(
+        createItem(signers.alice, "x".repeat(65), 0),
+      ).to.be.revertedWithCustomError(contract, "InvalidItem");
+      await expect(
+        createItem(signers.alice, "Empty", 0, []),
+      ).to.be.revertedWithCustomError(contract, "InvalidItem");
+      await expect(
+        createItem(
+          signers.alice,
+          "Heavy",
+          0,
+          Array.from({ length: 17 }, (_, i) => `m${i}`),
+        ),
+      ).to.be.revertedWithCustomError(contract, "InvalidItem");
+      await expect(
+        createItem(signers.alice, "Beyond", 0, ["Ore"], 101),
+      ).to.be.revertedWithCustomError(contract, "InvalidItem");
+    });
+
+    it("keeps concurrent crafters' items apart", async function () {
+      await createItem(signers.alice, "Dragon Sword", 1);
+      await createItem(signers.bob, "Phoenix Shield", 2);
+      await createItem(signers.alice, "Titanium Armor", 3);
+
+      expect(await contract.itemsOf(signers.alice.address)).to.deep.eq([
+        1n,
+        3n,
+      ]);
+      expect(await contract.itemsOf(signers.bob.address)).to.deep.eq([2n]);
+      const page = await contract.getItems(1, 10);
+      expect(page.map((item) => item.name)).to.deep.eq([
+        "Phoenix Shield",
+        "Titanium Armor",
+      ]);
+      expect(await contract.getItems(3, 10)).to.deep.eq([]);
+    });
+
+    it("reverts on unknown items", async function () {
+      await expect(contract.getItem(1)).to.be.revertedWithCustomError(
+        contract,
+        "ItemNotFound",
+      );
+    });
+  });
+
+  describe("ownership", function () {
+    beforeEach(async function () {
+      await createItem(signers.alice, "Dragon Sword", 42);
+    });
+
+    it("only lets the owner update the status", async function () {
+      await expect(
+        contract.connect(signers.bob).setItemStatus(1, FAILED),
+      ).to.be.revertedWithCustomError(contract, "NotItemOwner");
+      await expect(contract.connect(signers.alice).setItemStatus(1, FAILED))
+        .to.emit(contract, "ItemStatusUpdated")
+        .withArgs(1, FAILED);
+      expect((await contract.getItem(1)).status).to.eq(BigInt(FAILED));
+    });
+
+    it("only lets the owner transfer", async function () {
+      await expect(
+        contract.connect(signers.bob).transferItem(1, signers.bob.address),
+      ).to.be.revertedWithCustomError(contract, "NotItemOwner");
+      await expect(
+        contract.connect(signers.alice).transferItem(1, ethers.ZeroAddress),
+      ).to.be.revertedWithCustomError(contract, "InvalidRecipient");
+      await expect(
+        contract.connect(signers.alice).transferItem(1, signers.alice.address),
+      ).to.be.revertedWithCustomError(contract, "InvalidRecipient");
+    });
+
+    it("moves the item and read access to the recipient", async function () {
+      const before = await contract.getItem(1);
+      const quality = await decryptFor(signers.alice, before.quality);
+      await expect(
+        contract.connect(signers.alice).transferItem(1, signers.bob.address),
+      )
+        .to.emit(contract, "ItemTransferred")
+        .withArgs(
+          1,
+          signers.alice.address,
+          signers.bob.address,
+          anyValue,
+          anyValue,
+          anyValue,
+        )
+        .and.to.emit(contract, "Transfer")
+        .withArgs(signers.alice.address, signers.bob.address, 1);
+
+      const item = await contract.getItem(1);
+      expect(item.owner).to.eq(signers.bob.address);
+      expect(await contract.ownerOf(1)).to.eq(signers.bob.address);
+      expect(await contract.itemsOf(signers.alice.address)).to.deep.eq([]);
+      expect(await contract.itemsOf(signers.bob.address)).to.deep.eq([1n]);
+      expect(await decryptFor(signers.bob, item.quality)).to.eq(quality);
+      expect(await decryptFor(signers.bob, item.catalyst)).to.eq(42n);
+    });
+
+    it("re-keys the encrypted fields away from the previous owner", async function () {
+      const before = await contract.getItem(1);
+      await contract
+        .connect(signers.alice)
+        .transferItem(1, signers.bob.address);
+      const item = await contract.getItem(1);
+
+      expect(item.quality).to.not.eq(before.quality);
+      expect(item.catalyst).to.not.eq(before.catalyst);
+      expect(item.masterpiece).to.not.eq(before.masterpiece);
+      await expect(decryptFor(signers.alice, item.quality)).to.be.rejectedWith(
+        "not authorized",
+      );
+      await expect(decryptFor(signers.alice, item.catalyst)).to.be.rejectedWith(
+        "not authorized",
+      );
+    });
+
+    it("follows standard ERC-721 transfers", async function () {
+      await expect(
+        contract
+          .connect(signers.bob)
+          .transferFrom(signers.alice.address, signers.bob.address, 1),
+      ).to.be.revertedWithCustomError(contract, "ERC721InsufficientApproval");
+      await contract.connect(signers.alice).approve(signers.bob.address, 1);
+      await contract
+        .connect(signers.bob)
+        .transferFrom(signers.alice.address, signers.bob.address, 1);
+
+      expect(await contract.balanceOf(signers.bob.address)).to.eq(1n);
+      expect(await contract.itemsOf(signers.bob.address)).to.deep.eq([1n]);
+      const item = await contract.getItem(1);
+      expect(item.owner).to.eq(signers.bob.address);
+      expect(await decryptFor(signers.bob, item.catalyst)).to.eq(42n);
+    });
+
+    it("keeps the owner index consistent after transfers", async function () {
+      await createItem(signers.alice, "Phoenix Shield", 1);
+      await createItem(signers.alice, "Titanium Armor", 2);
+      await contract
+        .connect(signers.alice)
+        .transferItem(1, signers.bob.address);
+
+      expect(await contract.itemsOf(signers.alice.address)).to.deep.eq([
+        3n,
+        2n,
+      ]);
+      await contract
+        .connect(signers.alice)
+        .transferItem(3, signers.bob.address);
+      expect(await contract.itemsOf(signers.alice.address)).to.deep.eq([2n]);
+      expect(await contract.itemsOf(signers.bob.address)).to.deep.eq([1n, 3n]);
+    });
+  });
+
+  describe("token metadata", function () {
+    it("lists public fields and redacts encrypted ones", async function () {
+      await createItem(signers.alice, 'Blade "Dawn"', 5, ["Iron Ore", "Coal"]);
+      const client = ItemRegistryClient.connect(address, signers.alice);
+      const metadata = await client.tokenMetadata(1);
+      const item = await contract.getItem(1);
+
+      expect(metadata.name).to.eq('Blade "Dawn"');
+      expect(metadata.attributes).to.deep.eq([
+        { trait_type: "Base Quality", value: 50 },
+        { trait_type: "Status", value: "Crafted" },
+        { trait_type: "Materials", value: "Iron Ore, Coal" },
+        { trait_type: "Quality", value: "redacted" },
+        { trait_type: "Catalyst", value: "redacted" },
+        { trait_type: "Masterpiece", value: "redacted" },
+        {
+          display_type: "date",
+          trait_type: "Crafted At",
+          value: Number(item.createdAt),
+        },
+      ]);
+      expect(await contract.name()).to.eq("Crafted Item");
+      expect(await contract.symbol()).to.eq("CRAFT");
+      await expect(contract.tokenURI(2)).to.be.revertedWithCustomError(
+        contract,
+        "ERC721NonexistentToken",
+      );
+    });
+  });
+
+  describe("masterpieces", function () {
+    it("lets only the owner set a valid threshold", async function () {
+      expect(await contract.masterpieceThreshold()).to.eq(90);
+      await expect(
+        contract.connect(signers.alice).setMasterpieceThreshold(50),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        contract.setMasterpieceThreshold(0),
+      ).to.be.revertedWithCustomError(contract, "InvalidThreshold");
+      await expect(
+        contract.setMasterpieceThreshold(101),
+      ).to.be.revertedWithCustomError(contract, "InvalidThreshold");
+      await expect(contract.setMasterpieceThreshold(50))
+        .to.emit(contract, "MasterpieceThresholdUpdated")
+        .withArgs(50);
+    });
+
+    it("flags items at or above the threshold", async function () {
+      await createItem(signers.alice, "Perfect", 0, ["Ore"], 100);
+      await createItem(signers.alice, "Scrap", 0, ["Ore"], 0);
+      await contract.setMasterpieceThreshold(10);
+      await createItem(signers.alice, "Decent", 0, ["Ore"], 10);
+
+      const flags: boolean[] = [];
+      for (const id of [1, 2, 3]) {
+        const { masterpiece } = await contract.getItem(id);
+        flags.push(
+          await fhevm.userDecryptEbool(masterpiece, address, signers.alice),
+        );
+      }
+      expect(flags).to.deep.eq([true, false, true]);
+    });
+
+    it("reveals only the flag through the oracle", async function () {
+      await createItem(signers.alice, "Perfect", 0, ["Ore"], 100);
+      await expect(
+        contract.connect(signers.bob).requestMasterpieceReveal(1),
+      ).to.be.revertedWithCustomError(contract, "NotItemOwner");
+
+      await expect(contract.connect(signers.alice).requestMasterpieceReveal(1))
+        .to.emit(contract, "MasterpieceRevealRequested")
+        .withArgs(1, anyValue);
+      expect((await contract.getItem(1)).masterpieceReveal).to.eq(
+        REVEAL_REQUESTED,
+      );
+      await expect(
+        contract.connect(signers.alice).requestMasterpieceReveal(1),
+      ).to.be.revertedWithCustomError(contract, "RevealAlreadyRequested");
+
+      await fhevm.awaitDecryptionOracle();
+
+      const item = await contract.getItem(1);
+      expect(item.masterpieceReveal).to.eq(REVEALED);
+      expect(item.isMasterpiece).to.eq(true);
+      const [revealed] = await contract.queryFilter(
+        contract.filters.MasterpieceRevealed(1),
+      );
+      await expect(
+        contract.completeMasterpieceReveal(
+          revealed.args.requestId,
+          ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [false]),
+          "0x",
+        ),
+      ).to.be.revertedWithCustomError(contract, "UnknownRevealRequest");
+    });
+
+    it("resolves client reveals once the oracle answered", async function () {
+      await createItem(signers.alice, "Scrap", 0, ["Ore"], 0);
+      const client = ItemRegistryClient.connect(address, signers.alice);
+      const { requestId } = await client.requestMasterpieceReveal(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const result = await client.waitForMasterpieceReveal(requestId, {
+        timeoutMs: 5000,
+      });
+      expect(result.itemId).to.eq(1n);
+      expect(result.isMasterpiece).to.eq(false);
+      const item = await client.getItem(1);
+      expect(item.masterpieceReveal).to.eq("revealed");
+      expect(item.isMasterpiece).to.eq(false);
+    });
+  });
+
+  describe("average quality", function () {
+    it("sums qualities and publishes only the opted-in average", async function () {
+      await createItem(signers.alice, "Dragon Sword", 42);
+      await createItem(signers.alice, "Perfect", 0, ["Ore"], 100);
+      await createItem(signers.bob, "Scrap", 0, ["Ore"], 0);
+
+      let sum = 0n;
+      for (const id of [1, 2]) {
+        sum += await decryptFor(
+          signers.alice,
+          (await contract.getItem(id)).quality,
+        );
+      }
+      // Credit stays with the crafter after a transfer
+      await contract
+        .connect(signers.alice)
+        .transferItem(1, signers.bob.address);
+
+      const [qualitySum, craftedCount] = await contract.crafterStatsOf(
+        signers.alice.address,
+      );
+      expect(craftedCount).to.eq(2n);
+      expect(await decryptFor(signers.alice, qualitySum)).to.eq(sum);
+
+      await expect(
+        contract.connect(signers.deployer).publishAverageQuality(),
+      ).to.be.revertedWithCustomError(contract, "NothingToPublish");
+      await expect(contract.connect(signers.alice).publishAverageQuality())
+        .to.emit(contract, "AverageQualityRequested")
+        .withArgs(signers.alice.address, anyValue);
+      await expect(
+        contract.connect(signers.alice).publishAverageQuality(),
+      ).to.be.revertedWithCustomError(contract, "RevealAlreadyRequested");
+
+      await fhevm.awaitDecryptionOracle();
+
+      const published = await contract.publishedAverages(signers.alice.address);
+      expect(published.averageQuality).to.eq(sum / 2n);
+      expect(published.sampleSize).to.eq(2n);
+      expect(
+        (await contract.publishedAverages(signers.bob.address)).sampleSize,
+      ).to.eq(0n);
+
+      await expect(contract.connect(signers.alice).withdrawAverageQuality())
+        .to.emit(contract, "AverageQualityWithdrawn")
+        .withArgs(signers.alice.address);
+      expect(
+        (await contract.publishedAverages(signers.alice.address)).sampleSize,
+      ).to.eq(0n);
+    });
+
+    it("resolves client publications once the oracle answered", async function () {
+      await createItem(signers.alice, "Perfect", 0, ["Ore"], 100);
+      const client = ItemRegistryClient.connect(address, signers.alice);
+      const { requestId } = await client.publishAverageQuality();
+      await fhevm.awaitDecryptionOracle();
+
+      const result = await client.waitForAverageQuality(requestId, {
+        timeoutMs: 5000,
+      });
+      expect(result).to.include({
+        crafter: signers.alice.address,
+        averageQuality: 100,
+        sampleSize: 1,
+      });
+      expect(await client.publishedAverage(signers.alice.address)).to.deep.eq({
+        crafter: signers.alice.address,
+        averageQuality: 100,
+        sampleSize: 1,
+      });
+      expect(await client.publishedAverage(signers.bob.address)).to.eq(null);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { CraftingClient } from "../src/CraftingClient";
+import { ReplayDetectedError, withCraftingErrors } from "../src/errors";
+import {
+  LocalDecryptionOracle,
+  LocalDecryptionOracleOptions,
+} from "../src/LocalDecryptionOracle";
+import { CraftingQualityFHE, CraftingQualityFHE__factory } from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  relayer: HardhatEthersSigner;
+};
+
+describe("LocalDecryptionOracle", function () {
+  let signers: Signers;
+  let contract: CraftingQualityFHE;
+  let client: CraftingClient;
+  let fromBlock: number;
+
+  const oracle = (options: LocalDecryptionOracleOptions = {}) =>
+    new LocalDecryptionOracle(signers.relayer, { fromBlock, ...options });
+
+  async function requestDecryption(quality: number) {
+    await CraftingClient.connect(
+      await contract.getAddress(),
+      signers.alice,
+      fhevm,
+    ).submitQuality(1, quality);
+    await contract.closeBatch(1);
+    return (await client.requestBatchDecryption(1)).requestId;
+  }
+
+  const answers = async (standIn: LocalDecryptionOracle) =>
+    (await standIn.runOnce()).map(({ requestId, status }) => ({
+      requestId,
+      status,
+    }));
+
+  before(async function () {
+    const [owner, alice, relayer] = await ethers.getSigners();
+    signers = { owner, alice, relayer };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in FHEVM mock mode");
+      this.skip();
+    }
+    fromBlock = await ethers.provider.getBlockNumber();
+    contract = await (
+      (await ethers.getContractFactory(
+        "CraftingQualityFHE",
+      )) as CraftingQualityFHE__factory
+    ).deploy();
+    await contract.addProvider(signers.alice.address);
+    client = CraftingClient.connect(await contract.getAddress(), signers.owner);
+  });
+
+  it("answers requests with signatures the contract accepts", async function () {
+    const requestId = await requestDecryption(42);
+
+    expect(await answers(oracle())).to.deep.eq([
+      { requestId, status: "answered" },
+    ]);
+    const result = await client.waitForDecryption(requestId, {
+      timeoutMs: 1000,
+    });
+    expect(result.qualityScore).to.eq(42n);
+    expect((await client.getBatch(1)).qualityScore).to.eq(42n);
+
+    // The mock oracle replays the request on its next run, drain it
+    await expect(
+      withCraftingErrors(() => fhevm.awaitDecryptionOracle()),
+    ).to.be.rejectedWith(ReplayDetectedError);
+  });
+
+  it("delays answers and injects failures", async function () {
+    const requestId = await requestDecryption(7);
+
+    const delayed = oracle({ delayMs: 60_000 });
+    expect(await delayed.runOnce()).to.deep.eq([]);
+    expect(delayed.pending).to.eq(1);
+
+    expect(
+      await answers(oracle({ failureRate: 1, failureMode: "drop" })),
+    ).to.deep.eq([{ requestId, status: "dropped" }]);
+
+    const [reverted] = await oracle({
+      failureRate: 1,
+      failureMode: "revert",
+    }).runOnce();
+    expect(reverted).to.include({ requestId, status: "reverted" });
+    expect((await client.getBatch(1)).qualityScore).to.eq(null);
+    expect((await contract.decryptionContexts(requestId)).processed).to.eq(
+      false,
+    );
+
+    // Left unanswered, the mock oracle settles it normally
+    await fhevm.awaitDecryptionOracle();
+    expect((await client.getBatch(1)).qualityScore).to.eq(7n);
+  });
+
+  it("retries requests whose handles the coprocessor does not know yet", async function () {
+    const requestId = await requestDecryption(12);
+    // A node whose coprocessor misses the cleartexts for the next `misses` reads
+    let misses = 2;
+    const provider = new Proxy(ethers.provider, {
+      get(target, property) {
+        if (property === "send") {
+          return async (method: string, params: unknown[]) =>
+            method === "fhevm_getClearText" && misses-- > 0
+              ? (params[0] as string[]).map(() => "0x")
+              : target.send(method, params);
+        }
+        const value = Reflect.get(target, property);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    });
+    const standIn = (maxAttempts: number) =>
+      new LocalDecryptionOracle(signers.relayer.connect(provider), {
+        fromBlock,
+        maxAttempts,
+      });
+
+    const patient = standIn(3);
+    expect(await patient.runOnce()).to.deep.eq([]);
+    expect(patient.pending).to.eq(1);
+    expect(await patient.runOnce()).to.deep.eq([]);
+    expect(await answers(patient)).to.deep.eq([
+      { requestId, status: "answered" },
+    ]);
+    expect(patient.pending).to.eq(0);
+    expect((await client.getBatch(1)).qualityScore).to.eq(12n);
+
+    misses = 2;
+    const [failed] = await standIn(1).runOnce();
+    expect(failed).to.include({ requestId, status: "failed" });
+    expect(failed.error).to.match(/after 1 attempts/);
+
+    await expect(
+      withCraftingErrors(() => fhevm.awaitDecryptionOracle()),
+    ).to.be.rejectedWith(ReplayDetectedError);
+  });
+});
@@ -0,0 +1,445 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AuctionClient } from "../src/AuctionClient";
+import {
+  CraftingError,
+  UnknownCloseRequestError,
+  withCraftingErrors,
+} from "../src/errors";
+import {
+  ItemRegistryFHE,
+  ItemRegistryFHE__factory,
+  MasterpieceAuction,
+  MasterpieceAuction__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+const CLOSING = 1n;
+const SETTLED = 2n;
+const CANCELLED = 3n;
+const PRICE_UNIT = 10n ** 9n;
+const ETH = (amount: string) => ethers.parseEther(amount);
+// ETH amount in the contract's price units
+const PRICE = (amount: string) => ETH(amount) / PRICE_UNIT;
+
+describe("MasterpieceAuction", function () {
+  let signers: Signers;
+  let registry: ItemRegistryFHE;
+  let registryAddress: string;
+  let auction: MasterpieceAuction;
+  let auctionAddress: string;
+
+  // A base quality of 100 always reaches the masterpiece threshold, 0 never does
+  async function craft(baseQuality: number, reveal = true) {
+    const input = await fhevm
+      .createEncryptedInput(registryAddress, signers.alice.address)
+      .add32(0)
+      .encrypt();
+    await registry
+      .connect(signers.alice)
+      .createItem(
+        "Crown",
+        baseQuality,
+        ["Gold"],
+        input.handles[0],
+        input.inputProof,
+      );
+    const itemId = await registry.itemCount();
+    if (reveal) {
+      await registry.connect(signers.alice).requestMasterpieceReveal(itemId);
+      await fhevm.awaitDecryptionOracle();
+    }
+    await registry.connect(signers.alice).approve(auctionAddress, itemId);
+    return itemId;
+  }
+
+  // `amount` and `deposit` in wei
+  async function bid(
+    signer: HardhatEthersSigner,
+    auctionId: number,
+    amount: bigint,
+    deposit: bigint,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(auctionAddress, signer.address)
+      .add64(amount / PRICE_UNIT)
+      .encrypt();
+    return auction
+      .connect(signer)
+      .bid(auctionId, input.handles[0], input.inputProof, { value: deposit });
+  }
+
+  async function decryptBid(signer: HardhatEthersSigner, bidder: string) {
+    const { amount } = await auction.bidOf(1, bidder);
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      amount,
+      auctionAddress,
+      signer,
+    );
+  }
+
+  before(async function () {
+    const [deployer, alice, bob, carol] = await ethers.getSigners();
+    signers = { deployer, alice, bob, carol };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in FHEVM mock mode");
+      this.skip();
+    }
+    registry = await (
+      (await ethers.getContractFactory(
+        "ItemRegistryFHE",
+      )) as ItemRegistryFHE__factory
+    ).deploy();
+    registryAddress = await registry.getAddress();
+    auction = await (
+      (await ethers.getContractFactory(
+        "MasterpieceAuction",
+      )) as MasterpieceAuction__factory
+    ).deploy(registryAddress);
+    auctionAddress = await auction.getAddress();
+  });
+
+  describe("creation", function () {
+    it("escrows only revealed masterpieces", async function () {
+      const hidden = await craft(100, false);
+      const scrap = await craft(0);
+      const masterpiece = await craft(100);
+      const create = (itemId: bigint, duration = HOUR) =>
+        auction.connect(signers.alice).createAuction(itemId, 0, duration);
+
+      await expect(create(hidden)).to.be.revertedWithCustomError(
+        auction,
+        "NotMasterpiece",
+      );
+      await expect(create(scrap)).to.be.revertedWithCustomError(
+        auction,
+        "NotMasterpiece",
+      );
+      await expect(create(masterpiece, HOUR - 1)).to.be.revertedWithCustomError(
+        auction,
+        "InvalidAuction",
+      );
+      await expect(
+        auction.connect(signers.bob).createAuction(masterpiece, 0, HOUR),
+      ).to.be.revertedWithCustomError(auction, "NotSeller");
+
+      await expect(
+        auction
+          .connect(signers.alice)
+          .createAuction(masterpiece, PRICE("1"), HOUR),
+      )
+        .to.emit(auction, "AuctionCreated")
+        .withArgs(1, masterpiece, signers.alice.address, PRICE("1"), anyValue);
+      expect(await registry.ownerOf(masterpiece)).to.eq(auctionAddress);
+
+      await expect(
+        auction.connect(signers.bob).cancel(1),
+      ).to.be.revertedWithCustomError(auction, "NotSeller");
+      await expect(auction.connect(signers.alice).cancel(1))
+        .to.emit(auction, "AuctionCancelled")
+        .withArgs(1);
+      expect((await auction.getAuction(1)).status).to.eq(CANCELLED);
+      expect(await registry.ownerOf(masterpiece)).to.eq(signers.alice.address);
+    });
+  });
+
+  describe("bidding", function () {
+    it("keeps bids sealed and sells to the highest valid one", async function () {
+      const itemId = await craft(100);
+      await auction
+        .connect(signers.alice)
+        .createAuction(itemId, PRICE("1"), HOUR);
+
+      await expect(
+        bid(signers.alice, 1, ETH("2"), ETH("2")),
+      ).to.be.revertedWithCustomError(auction, "InvalidBid");
+      await expect(
+        bid(signers.bob, 1, ETH("2"), ETH("0.5")),
+      ).to.be.revertedWithCustomError(auction, "InvalidBid");
+      await bid(signers.bob, 1, ETH("3"), ETH("5"));
+      await expect(
+        bid(signers.bob, 1, ETH("4"), ETH("5")),
+      ).to.be.revertedWithCustomError(auction, "BidAlreadyPlaced");
+      await expect(bid(signers.carol, 1, ETH("4"), ETH("4")))
+        .to.emit(auction, "BidPlaced")
+        .withArgs(1, signers.carol.address, ETH("4"));
+      // Above its deposit, so it competes as zero
+      await bid(signers.deployer, 1, ETH("10"), ETH("2"));
+
+      expect(await decryptBid(signers.bob, signers.bob.address)).to.eq(
+        PRICE("3"),
+      );
+      expect(
+        await decryptBid(signers.deployer, signers.deployer.address),
+      ).to.eq(0n);
+      await expect(
+        decryptBid(signers.bob, signers.carol.address),
+      ).to.be.rejectedWith("not authorized");
+      await expect(auction.close(1)).to.be.revertedWithCustomError(
+        auction,
+        "AuctionNotEnded",
+      );
+      expect(await auction.withdrawableOf(1, signers.bob.address)).to.eq(0n);
+
+      await time.increase(HOUR);
+      await expect(
+        bid(signers.carol, 1, ETH("1"), ETH("1")),
+      ).to.be.revertedWithCustomError(auction, "AuctionNotOpen");
+      await expect(auction.close(1))
+        .to.emit(auction, "AuctionClosing")
+        .withArgs(1, anyValue);
+      await fhevm.awaitDecryptionOracle();
+
+      const settled = await auction.getAuction(1);
+      expect(settled.status).to.eq(SETTLED);
+      expect(settled.winner).to.eq(signers.carol.address);
+      expect(settled.clearingPrice).to.eq(PRICE("4"));
+      expect(await registry.ownerOf(itemId)).to.eq(signers.carol.address);
+      const item = await registry.getItem(itemId);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          item.quality,
+          registryAddress,
+          signers.carol,
+        ),
+      ).to.eq(100n);
+    });
+
+    it("refunds losers and the winner's excess deposit", async function () {
+      const itemId = await craft(100);
+      await auction.connect(signers.alice).createAuction(itemId, 0, HOUR);
+      await bid(signers.bob, 1, ETH("3"), ETH("5"));
+      await bid(signers.carol, 1, ETH("2"), ETH("4"));
+      await time.increase(HOUR);
+      await auction.close(1);
+      await fhevm.awaitDecryptionOracle();
+      expect((await auction.getAuction(1)).winner).to.eq(signers.bob.address);
+
+      for (const [signer, amount] of [
+        [signers.alice, ETH("3")],
+        [signers.bob, ETH("2")],
+        [signers.carol, ETH("4")],
+      ] as const) {
+        await expect(
+          auction.connect(signer).withdraw(1),
+        ).to.changeEtherBalances([signer, auction], [amount, -amount]);
+        await expect(
+          auction.connect(signer).withdraw(1),
+        ).to.be.revertedWithCustomError(auction, "NothingToWithdraw");
+      }
+    });
+
+    it("returns the item when no bid is valid", async function () {
+      const itemId = await craft(100);
+      await auction
+        .connect(signers.alice)
+        .createAuction(itemId, PRICE("1"), HOUR);
+      await bid(signers.bob, 1, ETH("0.5"), ETH("1"));
+      await time.increase(HOUR);
+      await auction.close(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const settled = await auction.getAuction(1);
+      expect(settled.status).to.eq(SETTLED);
+      expect(settled.winner).to.eq(ethers.ZeroAddress);
+      expect(await registry.ownerOf(itemId)).to.eq(signers.alice.address);
+      expect(await auction.withdrawableOf(1, signers.alice.address)).to.eq(0n);
+      expect(await auction.withdrawableOf(1, signers.bob.address)).to.eq(
+        ETH("1"),
+      );
+    });
+  });
+
+  describe("prices", function () {
+    it("counts bids and the reserve in gwei", async function () {
+      expect(await auction.PRICE_UNIT()).to.eq(PRICE_UNIT);
+      const itemId = await craft(100);
+      await auction
+        .connect(signers.alice)
+        .createAuction(itemId, PRICE("1"), HOUR);
+
+      await expect(
+        bid(signers.bob, 1, ETH("1"), PRICE_UNIT - 1n),
+      ).to.be.revertedWithCustomError(auction, "InvalidBid");
+      // One wei short of the reserve rounds down below it
+      await expect(
+        bid(signers.bob, 1, ETH("1"), ETH("1") - 1n),
+      ).to.be.revertedWithCustomError(auction, "InvalidBid");
+      // Wei below a whole unit do not raise the cap
+      await bid(signers.bob, 1, ETH("1") + PRICE_UNIT, ETH("1") + 999n);
+      expect(await decryptBid(signers.bob, signers.bob.address)).to.eq(0n);
+    });
+
+    it("sells above the uint64 range of wei", async function () {
+      const itemId = await craft(100);
+      await auction.connect(signers.alice).createAuction(itemId, 0, HOUR);
+      // type(uint64).max wei is about 18.4 ETH
+      await bid(signers.bob, 1, ETH("25"), ETH("30"));
+      await bid(signers.carol, 1, ETH("20"), ETH("20"));
+      await time.increase(HOUR);
+      await auction.close(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const settled = await auction.getAuction(1);
+      expect(settled.winner).to.eq(signers.bob.address);
+      expect(settled.clearingPrice).to.eq(PRICE("25"));
+      for (const [signer, amount] of [
+        [signers.alice, ETH("25")],
+        [signers.bob, ETH("5")],
+        [signers.carol, ETH("20")],
+      ] as const) {
+        await expect(
+          auction.connect(signer).withdraw(1),
+        ).to.changeEtherBalances([signer, auction], [amount, -amount]);
+      }
+    });
+  });
+
+  describe("stalled closes", function () {
+    it("refunds every deposit once the close timed out, even if the oracle answers later", async function () {
+      const itemId = await craft(100);
+      await auction.connect(signers.alice).createAuction(itemId, 0, HOUR);
+      await bid(signers.bob, 1, ETH("3"), ETH("5"));
+      await bid(signers.carol, 1, ETH("2"), ETH("4"));
+      await time.increase(HOUR);
+      await auction.close(1);
+      const closing = await auction.getAuction(1);
+      expect(closing.status).to.eq(CLOSING);
+      expect(closing.closeDeadline).to.eq(
+        BigInt(await time.latest()) + BigInt(DAY),
+      );
+      await expect(
+        auction.connect(signers.carol).cancelStalledClose(1),
+      ).to.be.revertedWithCustomError(auction, "CloseNotStalled");
+      expect(await auction.withdrawableOf(1, signers.bob.address)).to.eq(0n);
+
+      await time.increaseTo(closing.closeDeadline);
+      await expect(auction.connect(signers.carol).cancelStalledClose(1))
+        .to.emit(auction, "AuctionCancelled")
+        .withArgs(1);
+      expect((await auction.getAuction(1)).status).to.eq(CANCELLED);
+      expect(await registry.ownerOf(itemId)).to.eq(signers.alice.address);
+      await expect(auction.cancelStalledClose(1)).to.be.revertedWithCustomError(
+        auction,
+        "CloseNotStalled",
+      );
+
+      for (const [signer, amount] of [
+        [signers.bob, ETH("5")],
+        [signers.carol, ETH("4")],
+      ] as const) {
+        await expect(
+          auction.connect(signer).withdraw(1),
+        ).to.changeEtherBalances([signer, auction], [amount, -amount]);
+      }
+      await expect(
+        auction.connect(signers.alice).withdraw(1),
+      ).to.be.revertedWithCustomError(auction, "NothingToWithdraw");
+
+      // The oracle answering late cannot settle it anymore
+      await expect(
+        withCraftingErrors(() => fhevm.awaitDecryptionOracle()),
+      ).to.be.rejectedWith(UnknownCloseRequestError);
+      expect((await auction.getAuction(1)).status).to.eq(CANCELLED);
+      expect(await registry.ownerOf(itemId)).to.eq(signers.alice.address);
+    });
+
+    it("cannot cancel open or settled auctions", async function () {
+      const itemId = await craft(100);
+      await auction.connect(signers.alice).createAuction(itemId, 0, HOUR);
+      await bid(signers.bob, 1, ETH("3"), ETH("5"));
+      await time.increase(HOUR + DAY);
+      await expect(auction.cancelStalledClose(1)).to.be.revertedWithCustomError(
+        auction,
+        "CloseNotStalled",
+      );
+      await auction.close(1);
+      await fhevm.awaitDecryptionOracle();
+      await time.increase(DAY);
+      await expect(auction.cancelStalledClose(1)).to.be.revertedWithCustomError(
+        auction,
+        "CloseNotStalled",
+      );
+    });
+  });
+
+  describe("client", function () {
+    it("runs an auction end to end", async function () {
+      const input = await fhevm
+        .createEncryptedInput(registryAddress, signers.alice.address)
+        .add32(0)
+        .encrypt();
+      await registry
+        .connect(signers.alice)
+        .createItem("Crown", 100, ["Gold"], input.handles[0], input.inputProof);
+      await registry.connect(signers.alice).requestMasterpieceReveal(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const asAlice = AuctionClient.connect(auctionAddress, signers.alice);
+      const { auction: created } = await asAlice.createAuction({
+        itemId: 1,
+        reservePrice: ETH("1"),
+        duration: HOUR,
+      });
+      expect(created).to.include({
+        id: 1n,
+        reservePrice: ETH("1"),
+        status: "open",
+        bidCount: 0,
+        winner: null,
+        clearingPrice: null,
+      });
+
+      const asBob = AuctionClient.connect(auctionAddress, signers.bob, fhevm);
+      await expect(
+        asBob.placeBid({
+          auctionId: 1,
+          amount: ETH("2") + 1n,
+          deposit: ETH("3"),
+        }),
+      ).to.be.rejectedWith(CraftingError, "whole number of gwei");
+      await asBob.placeBid({
+        auctionId: 1,
+        amount: ETH("2"),
+        deposit: ETH("3"),
+      });
+      const placed = await asBob.bidOf(1, signers.bob.address);
+      expect(placed?.deposit).to.eq(ETH("3"));
+      expect(await asBob.bidOf(1, signers.carol.address)).to.eq(null);
+
+      await time.increase(HOUR);
+      const { requestId } = await asBob.close(1);
+      expect(requestId).to.be.a("bigint");
+      expect((await asBob.getAuction(1)).closeDeadline).to.be.a("number");
+      await fhevm.awaitDecryptionOracle();
+      const settlement = await asBob.waitForSettlement(1, { timeoutMs: 5000 });
+      expect(settlement).to.include({
+        winner: signers.bob.address,
+        clearingPrice: ETH("2"),
+      });
+      expect(await asBob.withdrawableOf(1, signers.bob.address)).to.eq(
+        ETH("1"),
+      );
+      await asBob.withdraw(1);
+      const [listed] = await asBob.loadAuctions();
+      expect(listed.status).to.eq("settled");
+    });
+  });
+});
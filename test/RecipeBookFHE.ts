@@ -0,0 +1,361 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { ItemRegistryClient } from "../src/ItemRegistryClient";
+import { RecipeBookClient } from "../src/RecipeBookClient";
+import {
+  ItemRegistryFHE,
+  ItemRegistryFHE__factory,
+  RecipeBookFHE,
+  RecipeBookFHE__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+describe("RecipeBookFHE", function () {
+  let signers: Signers;
+  let book: RecipeBookFHE;
+  let bookAddress: string;
+  let registry: ItemRegistryFHE;
+  let registryAddress: string;
+
+  async function createRecipe(
+    signer: HardhatEthersSigner,
+    name: string,
+    materials: string[],
+    weights: number[],
+    multiplier: number,
+  ) {
+    const input = fhevm.createEncryptedInput(bookAddress, signer.address);
+    for (const weight of weights) {
+      input.add32(weight);
+    }
+    const { handles, inputProof } = await input.add32(multiplier).encrypt();
+    return book
+      .connect(signer)
+      .createRecipe(
+        name,
+        materials,
+        handles.slice(0, -1),
+        handles[handles.length - 1],
+        inputProof,
+      );
+  }
+
+  async function craftWith(
+    signer: HardhatEthersSigner,
+    recipeId: number,
+    catalyst: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(registryAddress, signer.address)
+      .add32(catalyst)
+      .encrypt();
+    return registry
+      .connect(signer)
+      .createItemWithRecipe(
+        "Recipe Blade",
+        0,
+        recipeId,
+        input.handles[0],
+        input.inputProof,
+      );
+  }
+
+  async function decryptFor(
+    signer: HardhatEthersSigner,
+    handle: string,
+    contractAddress = bookAddress,
+  ): Promise<bigint> {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      handle,
+      contractAddress,
+      signer,
+    );
+  }
+
+  before(async function () {
+    const [deployer, alice, bob, carol] = await ethers.getSigners();
+    signers = { deployer, alice, bob, carol };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in FHEVM mock mode");
+      this.skip();
+    }
+    book = await (
+      (await ethers.getContractFactory(
+        "RecipeBookFHE",
+      )) as RecipeBookFHE__factory
+    ).deploy();
+    bookAddress = await book.getAddress();
+    registry = await (
+      (await ethers.getContractFactory(
+        "ItemRegistryFHE",
+      )) as ItemRegistryFHE__factory
+    ).deploy();
+    registryAddress = await registry.getAddress();
+  });
+
+  describe("recipes", function () {
+    it("stores capped encrypted parameters only the owner can read", async function () {
+      await expect(
+        createRecipe(
+          signers.alice,
+          "Dragon Steel",
+          ["Iron Ore", "Dragon Scale", "Coal"],
+          [4, 15, 9],
+          500,
+        ),
+      )
+        .to.emit(book, "RecipeCreated")
+        .withArgs(1, signers.alice.address, "Dragon Steel", [
+          "Iron Ore",
+          "Dragon Scale",
+          "Coal",
+        ]);
+
+      const recipe = await book.getRecipe(1);
+      expect(recipe.owner).to.eq(signers.alice.address);
+      expect(recipe.materials).to.deep.eq(["Iron Ore", "Dragon Scale", "Coal"]);
+      const weights = [];
+      for (const handle of recipe.materialWeights) {
+        weights.push(await decryptFor(signers.alice, handle));
+      }
+      expect(weights).to.deep.eq([4n, 10n, 9n]);
+      expect(await decryptFor(signers.alice, recipe.cappedMaterialBonus)).to.eq(
+        20n,
+      );
+      expect(await decryptFor(signers.alice, recipe.catalystMultiplier)).to.eq(
+        300n,
+      );
+      expect(await book.recipesOf(signers.alice.address)).to.deep.eq([1n]);
+      expect(await book.canUse(1, signers.bob.address)).to.eq(false);
+    });
+
+    it("adds the weights up to the material bonus cap", async function () {
+      // Below, at and above MAX_MATERIAL_BONUS
+      const weights = [
+        [10, 9],
+        [10, 10],
+        [10, 10, 1],
+      ];
+      for (const [i, recipeWeights] of weights.entries()) {
+        await createRecipe(
+          signers.alice,
+          `Recipe ${i}`,
+          recipeWeights.map((_, j) => `Material ${j}`),
+          recipeWeights,
+          100,
+        );
+      }
+      const bonuses = [];
+      for (let id = 1; id <= weights.length; id++) {
+        const recipe = await book.getRecipe(id);
+        bonuses.push(
+          await decryptFor(signers.alice, recipe.cappedMaterialBonus),
+        );
+      }
+      expect(bonuses).to.deep.eq([19n, 20n, 20n]);
+    });
+
+    it("rejects empty, oversized and mismatched recipes", async function () {
+      const { handles, inputProof } = await fhevm
+        .createEncryptedInput(bookAddress, signers.alice.address)
+        .add32(1)
+        .add32(100)
+        .encrypt();
+      const create = (name: string, materials: string[], weights = 1) =>
+        book
+          .connect(signers.alice)
+          .createRecipe(
+            name,
+            materials,
+            handles.slice(0, weights),
+            handles[1],
+            inputProof,
+          );
+
+      await expect(create("", ["Ore"])).to.be.revertedWithCustomError(
+        book,
+        "InvalidRecipe",
+      );
+      await expect(
+        create("x".repeat(65), ["Ore"]),
+      ).to.be.revertedWithCustomError(book, "InvalidRecipe");
+      await expect(create("Empty", [], 0)).to.be.revertedWithCustomError(
+        book,
+        "InvalidRecipe",
+      );
+      await expect(
+        create("Mismatch", ["Ore", "Coal"]),
+      ).to.be.revertedWithCustomError(book, "InvalidRecipe");
+      await expect(book.getRecipe(1)).to.be.revertedWithCustomError(
+        book,
+        "RecipeNotFound",
+      );
+    });
+
+    it("grants use rights to the addresses the owner shares with", async function () {
+      await createRecipe(signers.alice, "Secret", ["Ore"], [5], 100);
+      const recipe = await book.getRecipe(1);
+
+      await expect(
+        book.connect(signers.bob).shareRecipe(1, signers.bob.address),
+      ).to.be.revertedWithCustomError(book, "NotRecipeOwner");
+      await expect(
+        book.connect(signers.alice).shareRecipe(1, signers.alice.address),
+      ).to.be.revertedWithCustomError(book, "InvalidRecipient");
+      await expect(
+        book.connect(signers.alice).shareRecipe(2, signers.bob.address),
+      ).to.be.revertedWithCustomError(book, "RecipeNotFound");
+
+      await expect(
+        book.connect(signers.alice).shareRecipe(1, signers.bob.address),
+      )
+        .to.emit(book, "RecipeShared")
+        .withArgs(1, signers.bob.address);
+      expect(await book.canUse(1, signers.bob.address)).to.eq(true);
+      expect(await decryptFor(signers.bob, recipe.materialWeights[0])).to.eq(
+        5n,
+      );
+    });
+
+    it("keeps grantees from re-sharing through the ACL", async function () {
+      await createRecipe(signers.alice, "Secret", ["Ore"], [5], 100);
+      await book.connect(signers.alice).shareRecipe(1, signers.bob.address);
+      await expect(
+        book.connect(signers.bob).shareRecipe(1, signers.carol.address),
+      ).to.be.revertedWithCustomError(book, "NotRecipeOwner");
+
+      // Bob may allow Carol on the handles himself, which only lets her decrypt
+      const recipe = await book.getRecipe(1);
+      const acl = new ethers.Contract(
+        (await fhevm.getRelayerMetadata()).ACLAddress,
+        ["function allow(bytes32 handle, address account)"],
+        signers.bob,
+      );
+      await acl.allow(recipe.catalystMultiplier, signers.carol.address);
+      expect(await decryptFor(signers.carol, recipe.catalystMultiplier)).to.eq(
+        100n,
+      );
+      expect(await book.canUse(1, signers.carol.address)).to.eq(false);
+    });
+
+    it("only hands recipes to consumer contracts", async function () {
+      await createRecipe(signers.alice, "Secret", ["Ore"], [5], 100);
+      await expect(
+        book.connect(signers.alice).useRecipe(1, signers.alice),
+      ).to.be.revertedWithCustomError(book, "NotConsumer");
+      await expect(
+        book.connect(signers.bob).setConsumer(signers.bob, true),
+      ).to.be.revertedWithCustomError(book, "NotOwner");
+      await expect(book.setConsumer(signers.alice.address, true))
+        .to.emit(book, "ConsumerUpdated")
+        .withArgs(signers.alice.address, true);
+      await expect(
+        book.connect(signers.alice).useRecipe(1, signers.bob),
+      ).to.be.revertedWithCustomError(book, "RecipeNotAllowed");
+    });
+  });
+
+  describe("crafting", function () {
+    it("applies the recipe homomorphically", async function () {
+      await createRecipe(
+        signers.alice,
+        "Dragon Steel",
+        ["Iron Ore", "Dragon Scale"],
+        [8, 7],
+        250,
+      );
+      await expect(
+        craftWith(signers.alice, 1, 100),
+      ).to.be.revertedWithCustomError(registry, "RecipeBookNotSet");
+      await book.setConsumer(registryAddress, true);
+      await expect(registry.setRecipeBook(bookAddress))
+        .to.emit(registry, "RecipeBookUpdated")
+        .withArgs(bookAddress);
+
+      await expect(craftWith(signers.alice, 1, 100))
+        .to.emit(registry, "ItemCraftedWithRecipe")
+        .withArgs(1, 1);
+      const item = await registry.getItem(1);
+      expect(item.materials).to.deep.eq(["Iron Ore", "Dragon Scale"]);
+      // 0 base + min(8 + 7, 20) materials + 100 * 250% / 10 catalyst + luck in [0, 32)
+      expect(
+        await decryptFor(signers.alice, item.quality, registryAddress),
+      ).to.be.within(40n, 71n);
+    });
+
+    it("lets only allowed crafters use a recipe", async function () {
+      await book.setConsumer(registryAddress, true);
+      await registry.setRecipeBook(bookAddress);
+      await createRecipe(signers.alice, "Secret", ["Ore"], [0], 0);
+
+      await expect(
+        craftWith(signers.bob, 1, 100),
+      ).to.be.revertedWithCustomError(book, "RecipeNotAllowed");
+      await book.connect(signers.alice).shareRecipe(1, signers.bob.address);
+      await craftWith(signers.bob, 1, 100);
+      const item = await registry.getItem(1);
+      expect(item.owner).to.eq(signers.bob.address);
+      // A zero multiplier cancels the catalyst, only luck is left
+      expect(
+        await decryptFor(signers.bob, item.quality, registryAddress),
+      ).to.be.below(32n);
+    });
+
+    it("creates, lists and crafts with recipes through the clients", async function () {
+      await book.setConsumer(registryAddress, true);
+      await registry.setRecipeBook(bookAddress);
+      const recipes = RecipeBookClient.connect(
+        bookAddress,
+        signers.alice,
+        fhevm,
+      );
+      const { recipe } = await recipes.createRecipe({
+        name: "Moon Silver",
+        materials: ["Silver", "Moonstone"],
+        weights: [3, 4],
+        catalystMultiplier: 120,
+      });
+      expect(recipe).to.include({ id: 1n, name: "Moon Silver" });
+      expect(recipe.encryptedWeights).to.have.length(2);
+      await recipes.shareRecipe(recipe.id, signers.bob.address);
+
+      const asBob = RecipeBookClient.connect(bookAddress, signers.bob);
+      expect(await asBob.recipesOf(signers.bob.address)).to.deep.eq([]);
+      const shared = await asBob.sharedWith(signers.bob.address);
+      expect(shared.map((r) => r.name)).to.deep.eq(["Moon Silver"]);
+      expect(await asBob.canUse(recipe.id, signers.bob.address)).to.eq(true);
+      expect(
+        await decryptFor(signers.bob, shared[0].encryptedMultiplier),
+      ).to.eq(120n);
+
+      const items = ItemRegistryClient.connect(
+        registryAddress,
+        signers.bob,
+        fhevm,
+      );
+      const { item } = await items.createItemWithRecipe({
+        name: "Moon Ring",
+        baseQuality: 10,
+        recipeId: recipe.id,
+        catalyst: 50,
+      });
+      expect(item.materials).to.deep.eq(["Silver", "Moonstone"]);
+      // 10 base + 7 materials + 50 * 120% / 10 catalyst + luck in [0, 32)
+      expect(
+        await decryptFor(signers.bob, item.encryptedQuality, registryAddress),
+      ).to.be.within(23n, 54n);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import { deployments, ethers, fhevm, getNamedAccounts } from "hardhat";
+import { CraftingQualityFHE__factory } from "../types";
+
+describe("deploy scripts", function () {
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in FHEVM mock mode");
+      this.skip();
+    }
+  });
+
+  it("deploys CraftingQualityFHE owned by the deployer", async function () {
+    await deployments.fixture(["CraftingQualityFHE"]);
+    const { deployer } = await getNamedAccounts();
+    const deployment = await deployments.get("CraftingQualityFHE");
+
+    const contract = CraftingQualityFHE__factory.connect(
+      deployment.address,
+      ethers.provider,
+    );
+    expect(await contract.owner()).to.eq(deployer);
+    expect(await contract.currentBatchId()).to.eq(1n);
+    expect(deployment.transactionHash).to.be.a("string");
+    expect(deployment.receipt?.blockNumber).to.be.a("number");
+  });
+
+  it("reuses the existing deployment when re-run", async function () {
+    await deployments.fixture(["CraftingQualityFHE"]);
+    const first = await deployments.get("CraftingQualityFHE");
+    const blockBefore = await ethers.provider.getBlockNumber();
+
+    await deployments.run(["CraftingQualityFHE"], {
+      resetMemory: false,
+      deletePreviousDeployments: false,
+      writeDeploymentsToFiles: false,
+    });
+
+    const second = await deployments.get("CraftingQualityFHE");
+    expect(second.address).to.eq(first.address);
+    expect(second.transactionHash).to.eq(first.transactionHash);
+    expect(await ethers.provider.getBlockNumber()).to.eq(blockBefore);
+  });
+});
@@ -0,0 +1,118 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  encryptUint32,
+  FhevmBackend,
+  getFhevmBackend,
+  setDefaultFhevmBackend,
+  setFhevmBackend,
+  userDecrypt,
+  userDecryptUint32,
+} from "../frontend/web/src/fhe";
+import { ItemRegistryFHE, ItemRegistryFHE__factory } from "../types";
+
+describe("frontend FHE helpers on the mock backend", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let contract: ItemRegistryFHE;
+  let address: string;
+
+  async function craft(catalyst: number) {
+    const input = await encryptUint32(address, alice.address, catalyst);
+    await (
+      await contract
+        .connect(alice)
+        .createItem("Dragon Sword", 50, ["Ore"], input.handle, input.inputProof)
+    ).wait();
+    return contract.getItem(1);
+  }
+
+  before(async function () {
+    [, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in FHEVM mock mode");
+      this.skip();
+    }
+    setFhevmBackend(fhevm);
+    const factory = (await ethers.getContractFactory(
+      "ItemRegistryFHE",
+    )) as ItemRegistryFHE__factory;
+    contract = (await factory.deploy()) as ItemRegistryFHE;
+    address = await contract.getAddress();
+  });
+
+  afterEach(function () {
+    setFhevmBackend(null);
+    setDefaultFhevmBackend(null);
+  });
+
+  it("serves the plugged-in backend", async function () {
+    expect(await getFhevmBackend()).to.eq(fhevm);
+  });
+
+  it("builds the registered default once when no backend is set", async function () {
+    setFhevmBackend(null);
+    await expect(getFhevmBackend()).to.be.rejectedWith(
+      "No FHEVM backend configured",
+    );
+
+    let builds = 0;
+    setDefaultFhevmBackend(async () => {
+      builds++;
+      return fhevm as FhevmBackend;
+    });
+    expect(await getFhevmBackend()).to.eq(fhevm);
+    expect(await getFhevmBackend()).to.eq(fhevm);
+    expect(builds).to.eq(1);
+  });
+
+  it("retries the default after a failed build", async function () {
+    setFhevmBackend(null);
+    let builds = 0;
+    setDefaultFhevmBackend(async () => {
+      if (builds++ === 0) throw new Error("relayer unreachable");
+      return fhevm as FhevmBackend;
+    });
+    await expect(getFhevmBackend()).to.be.rejectedWith("relayer unreachable");
+    expect(await getFhevmBackend()).to.eq(fhevm);
+  });
+
+  it("encrypts inputs the contract accepts", async function () {
+    const input = await encryptUint32(address, alice.address, 42);
+    expect(input.handle).to.match(/^0x[0-9a-f]{64}$/);
+    expect(input.inputProof).to.match(/^0x[0-9a-f]+$/);
+
+    const item = await craft(42);
+    expect(item.owner).to.eq(alice.address);
+  });
+
+  it("rejects values outside the uint32 range", async function () {
+    for (const value of [-1, 1.5, 0x100000000]) {
+      await expect(
+        encryptUint32(address, alice.address, value),
+      ).to.be.rejectedWith(`Value out of uint32 range: ${value}`);
+    }
+  });
+
+  it("decrypts handles for the signer through the EIP-712 keypair flow", async function () {
+    const item = await craft(4242);
+    expect(await userDecryptUint32(item.catalyst, address, alice)).to.eq(4242);
+
+    const results = await userDecrypt(
+      [item.catalyst, item.quality],
+      address,
+      alice,
+    );
+    expect(results[item.catalyst]).to.eq(4242n);
+    expect(results[item.quality]).to.be.a("bigint");
+  });
+
+  it("refuses to decrypt for a signer without access", async function () {
+    const item = await craft(7);
+    await expect(userDecryptUint32(item.catalyst, address, bob)).to.be.rejected;
+  });
+});
@@ -0,0 +1,137 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { playerHistory } from "../src/history";
+import { ItemIndexer } from "../src/ItemIndexer";
+import {
+  CraftingQualityFHE,
+  CraftingQualityFHE__factory,
+  ItemRegistryFHE,
+  ItemRegistryFHE__factory,
+} from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+describe("crafting history", function () {
+  let signers: Signers;
+  let registry: ItemRegistryFHE;
+  let crafting: CraftingQualityFHE;
+  let startBlock: number;
+
+  async function createItem(signer: HardhatEthersSigner, name: string) {
+    const input = await fhevm
+      .createEncryptedInput(await registry.getAddress(), signer.address)
+      .add32(7)
+      .encrypt();
+    const tx = await registry
+      .connect(signer)
+      .createItem(name, 50, ["Iron Ore"], input.handles[0], input.inputProof);
+    return (await tx.wait())!;
+  }
+
+  async function submit(signer: HardhatEthersSigner, quality: number) {
+    const input = await fhevm
+      .createEncryptedInput(await crafting.getAddress(), signer.address)
+      .add32(quality)
+      .encrypt();
+    const tx = await crafting
+      .connect(signer)
+      .submitCraftingQuality(1, input.handles[0], input.inputProof);
+    return (await tx.wait())!;
+  }
+
+  before(async function () {
+    const [owner, alice, bob] = await ethers.getSigners();
+    signers = { owner, alice, bob };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in FHEVM mock mode");
+      this.skip();
+    }
+    startBlock = await ethers.provider.getBlockNumber();
+    registry = await (
+      (await ethers.getContractFactory(
+        "ItemRegistryFHE",
+      )) as ItemRegistryFHE__factory
+    ).deploy();
+    crafting = await (
+      (await ethers.getContractFactory(
+        "CraftingQualityFHE",
+      )) as CraftingQualityFHE__factory
+    ).deploy();
+    await crafting.addProvider(signers.alice.address);
+  });
+
+  it("rebuilds a player's items and submissions from events", async function () {
+    const crafted = await createItem(signers.alice, "Dragon Sword");
+    await createItem(signers.bob, "Phoenix Shield");
+    const submitted = await submit(signers.alice, 60);
+    await registry.connect(signers.alice).transferItem(1, signers.bob.address);
+    await crafting.closeBatch(1);
+
+    const indexer = new ItemIndexer(
+      { itemRegistry: registry, craftingQuality: crafting },
+      ethers.provider,
+      { startBlock },
+    );
+    await indexer.sync();
+    const history = playerHistory(indexer, signers.alice.address);
+
+    expect(history.map((entry) => entry.key)).to.deep.eq([
+      "submission:1",
+      "item:1",
+    ]);
+    const [submission, item] = history;
+    expect(submission).to.include({
+      kind: "submission",
+      batchId: "1",
+      status: "closed",
+      timestamp: null,
+      blockNumber: submitted.blockNumber,
+      transactionHash: submitted.hash,
+    });
+    expect(item).to.include({
+      itemName: "Dragon Sword",
+      batchId: "1",
+      status: "crafted",
+      blockNumber: crafted.blockNumber,
+      transactionHash: crafted.hash,
+    });
+    expect(playerHistory(indexer, signers.bob.address)).to.have.length(1);
+
+    // Qualities stay encrypted in the history, only their owner decrypts them
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        submission.encryptedQuality,
+        await crafting.getAddress(),
+        signers.alice,
+      ),
+    ).to.eq(60n);
+    // The item went to Bob, the history keeps the handle Alice crafted with
+    const [sword] = indexer.items.filter(({ id }) => id === "1");
+    expect(item.encryptedQuality).to.not.eq(sword.encryptedQuality);
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        item.encryptedQuality,
+        await registry.getAddress(),
+        signers.alice,
+      ),
+    ).to.eq(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        sword.encryptedQuality,
+        await registry.getAddress(),
+        signers.bob,
+      ),
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import { expect } from "chai";
+import { IndexedBatch, IndexedItem } from "../src/ItemIndexer";
+import {
+  buildLeaderboard,
+  LeaderboardSource,
+  recentSeasons,
+  seasonOf,
+} from "../src/leaderboard";
+
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const BOB = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+// 2026-04-10T00:00:00Z, second quarter
+const Q2 = Date.UTC(2026, 3, 10) / 1000;
+// 2026-07-10T00:00:00Z, third quarter
+const Q3 = Date.UTC(2026, 6, 10) / 1000;
+
+function item(
+  id: number,
+  crafter: string,
+  createdAt: number,
+  isMasterpiece: boolean | null = null,
+): IndexedItem {
+  return {
+    id: id.toString(),
+    owner: crafter,
+    crafter,
+    name: `Item ${id}`,
+    baseQuality: 50,
+    encryptedQuality: "0x",
+    encryptedCatalyst: "0x",
+    encryptedMasterpiece: "0x",
+    crafterEncryptedQuality: "0x",
+    materials: ["Ore"],
+    status: "crafted",
+    masterpieceReveal: isMasterpiece === null ? "hidden" : "revealed",
+    isMasterpiece,
+    createdAt,
+    createdAtBlock: id,
+    createdAtLogIndex: 0,
+    transactionHash: "0x",
+    updatedAtBlock: id,
+  };
+}
+
+function batch(
+  id: number,
+  createdAt: number,
+  closedAt: number,
+  crafters: string[],
+): IndexedBatch {
+  return {
+    id: id.toString(),
+    active: closedAt === 0,
+    createdAt,
+    closedAt,
+    submissions: crafters.map((crafter, i) => ({
+      crafter,
+      encryptedQuality: "0x",
+      blockNumber: i,
+      logIndex: 0,
+      transactionHash: "0x",
+    })),
+  };
+}
+
+describe("leaderboard", function () {
+  const source: LeaderboardSource = {
+    items: [
+      item(1, ALICE, Q2),
+      item(2, BOB, Q2 + 10, true),
+      item(3, ALICE, Q3, true),
+      item(4, ALICE, Q3 + 10, false),
+      // Transfers do not move credit away from the crafter
+      { ...item(5, BOB, Q3 + 20), owner: ALICE },
+    ],
+    batches: [
+      batch(1, Q2, Q2 + 100, [ALICE, BOB, BOB]),
+      batch(2, Q3, 0, [ALICE.toLowerCase()]),
+    ],
+    averages: [
+      { crafter: ALICE, averageQuality: 72, sampleSize: 3, blockNumber: 9 },
+    ],
+  };
+
+  it("ranks by masterpieces, then crafted items", function () {
+    const board = buildLeaderboard(source);
+    expect(board.map((entry) => entry.address)).to.deep.eq([ALICE, BOB]);
+    expect(board[0]).to.deep.eq({
+      address: ALICE,
+      craftedCount: 3,
+      masterpieces: 1,
+      submissions: 2,
+      averageQuality: 72,
+      sampleSize: 3,
+    });
+    expect(board[1]).to.include({
+      craftedCount: 2,
+      masterpieces: 1,
+      submissions: 2,
+      averageQuality: null,
+    });
+  });
+
+  it("filters by season and time window", function () {
+    const [q2] = buildLeaderboard(source, { season: seasonOf(Q2) });
+    expect(q2).to.include({ address: BOB, craftedCount: 1, submissions: 2 });
+
+    const window = buildLeaderboard(source, { from: Q3 + 5, to: Q3 + 20 });
+    expect(window).to.have.length(1);
+    expect(window[0]).to.include({
+      address: ALICE,
+      craftedCount: 1,
+      masterpieces: 0,
+      submissions: 1,
+    });
+  });
+
+  it("limits a batch view to its window and submissions", function () {
+    const board = buildLeaderboard(source, { batchId: "1" });
+    expect(
+      board.map((entry) => [entry.craftedCount, entry.submissions]),
+    ).to.deep.eq([
+      [1, 2],
+      [1, 1],
+    ]);
+    expect(() => buildLeaderboard(source, { batchId: "7" })).to.throw(
+      "Unknown batch 7",
+    );
+  });
+
+  it("lists calendar quarters newest first", function () {
+    expect(recentSeasons(3, Q3).map((season) => season.id)).to.deep.eq([
+      "2026-Q3",
+      "2026-Q2",
+      "2026-Q1",
+    ]);
+    expect(seasonOf(Date.UTC(2025, 11, 31, 23) / 1000)).to.deep.eq({
+      id: "2025-Q4",
+      start: Date.UTC(2025, 9, 1) / 1000,
+      end: Date.UTC(2026, 0, 1) / 1000,
+    });
+  });
+});
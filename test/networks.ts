@@ -0,0 +1,85 @@
+import { expect } from "chai";
+import {
+  getNetwork,
+  NetworkConfigError,
+  resolveNetwork,
+  selectedNetworkName,
+} from "../src/networks";
+
+const ADDRESS = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+describe("network registry", function () {
+  it("returns the registry defaults without overrides", function () {
+    const sepolia = getNetwork("sepolia");
+    expect(sepolia.chainId).to.eq(11155111);
+    expect(sepolia.rpcUrls).to.not.be.empty;
+    expect(sepolia.fhevm.mode).to.eq("relayer");
+    expect(getNetwork("localhost").fhevm.mode).to.eq("mock");
+  });
+
+  it("applies environment overrides", function () {
+    const network = getNetwork("localFhevm", {
+      LOCAL_FHEVM_RPC_URLS: "http://node-a:8545, http://node-b:8545",
+      LOCAL_FHEVM_CHAIN_ID: "9000",
+      LOCAL_FHEVM_CRAFTING_QUALITY_FHE_ADDRESS: ADDRESS,
+    });
+    expect(network.rpcUrls).to.deep.eq([
+      "http://node-a:8545",
+      "http://node-b:8545",
+    ]);
+    expect(network.chainId).to.eq(9000);
+    expect(network.contracts.CraftingQualityFHE).to.eq(ADDRESS);
+  });
+
+  it("reports every malformed value at once", function () {
+    expect(() =>
+      getNetwork("sepolia", {
+        SEPOLIA_CHAIN_ID: "sepolia",
+        SEPOLIA_ACL_ADDRESS: "0x1234",
+      }),
+    )
+      .to.throw(NetworkConfigError)
+      .with.property("message")
+      .that.includes("SEPOLIA_CHAIN_ID")
+      .and.includes("SEPOLIA_ACL_ADDRESS");
+  });
+
+  it("selects the network from CRAFTING_NETWORK", function () {
+    expect(selectedNetworkName({})).to.eq(undefined);
+    expect(selectedNetworkName({}, { defaultNetwork: "localhost" })).to.eq(
+      "localhost",
+    );
+    expect(
+      selectedNetworkName(
+        { VITE_CRAFTING_NETWORK: "sepolia" },
+        { prefix: "VITE_" },
+      ),
+    ).to.eq("sepolia");
+    expect(() => selectedNetworkName({ CRAFTING_NETWORK: "mainnet" })).to.throw(
+      NetworkConfigError,
+    );
+  });
+
+  it("takes addresses from a matching deployment", function () {
+    const deployments = [
+      { chainId: 31337, contracts: { CraftingQualityFHE: ADDRESS } },
+    ];
+    const localhost = resolveNetwork(
+      { CRAFTING_NETWORK: "localhost" },
+      { deployments },
+    );
+    expect(localhost.contracts.CraftingQualityFHE).to.eq(ADDRESS);
+    const sepolia = resolveNetwork(
+      { CRAFTING_NETWORK: "sepolia" },
+      { deployments },
+    );
+    expect(sepolia.contracts.CraftingQualityFHE).to.eq(undefined);
+  });
+
+  it("requires the FHEVM host addresses of relayer networks", function () {
+    expect(() => resolveNetwork({ CRAFTING_NETWORK: "localFhevm" })).to.throw(
+      NetworkConfigError,
+      /LOCAL_FHEVM_ACL_ADDRESS/,
+    );
+  });
+});
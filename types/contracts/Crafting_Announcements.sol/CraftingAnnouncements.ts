@@ -0,0 +1,530 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace CraftingAnnouncements {
+  export type AnnouncementStruct = {
+    id: BigNumberish;
+    publisher: AddressLike;
+    title: string;
+    content: string;
+    priority: BigNumberish;
+    batchId: BigNumberish;
+    createdAt: BigNumberish;
+    expiresAt: BigNumberish;
+    withdrawn: boolean;
+  };
+
+  export type AnnouncementStructOutput = [
+    id: bigint,
+    publisher: string,
+    title: string,
+    content: string,
+    priority: bigint,
+    batchId: bigint,
+    createdAt: bigint,
+    expiresAt: bigint,
+    withdrawn: boolean
+  ] & {
+    id: bigint;
+    publisher: string;
+    title: string;
+    content: string;
+    priority: bigint;
+    batchId: bigint;
+    createdAt: bigint;
+    expiresAt: bigint;
+    withdrawn: boolean;
+  };
+}
+
+export interface CraftingAnnouncementsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_CONTENT_LENGTH"
+      | "MAX_TITLE_LENGTH"
+      | "addPublisher"
+      | "announcementCount"
+      | "getAnnouncement"
+      | "getAnnouncements"
+      | "isActive"
+      | "isPublisher"
+      | "owner"
+      | "publish"
+      | "publishers"
+      | "removePublisher"
+      | "transferOwnership"
+      | "withdraw"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AnnouncementPublished"
+      | "AnnouncementWithdrawn"
+      | "OwnershipTransferred"
+      | "PublisherAdded"
+      | "PublisherRemoved"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_CONTENT_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_TITLE_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addPublisher",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "announcementCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAnnouncement",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAnnouncements",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isActive",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isPublisher",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "publish",
+    values: [string, string, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishers",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removePublisher",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdraw",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_CONTENT_LENGTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_TITLE_LENGTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addPublisher",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "announcementCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAnnouncement",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAnnouncements",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isActive", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isPublisher",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "publish", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "publishers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removePublisher",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+}
+
+export namespace AnnouncementPublishedEvent {
+  export type InputTuple = [
+    announcementId: BigNumberish,
+    publisher: AddressLike,
+    batchId: BigNumberish,
+    priority: BigNumberish,
+    expiresAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    announcementId: bigint,
+    publisher: string,
+    batchId: bigint,
+    priority: bigint,
+    expiresAt: bigint
+  ];
+  export interface OutputObject {
+    announcementId: bigint;
+    publisher: string;
+    batchId: bigint;
+    priority: bigint;
+    expiresAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AnnouncementWithdrawnEvent {
+  export type InputTuple = [announcementId: BigNumberish];
+  export type OutputTuple = [announcementId: bigint];
+  export interface OutputObject {
+    announcementId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PublisherAddedEvent {
+  export type InputTuple = [publisher: AddressLike];
+  export type OutputTuple = [publisher: string];
+  export interface OutputObject {
+    publisher: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PublisherRemovedEvent {
+  export type InputTuple = [publisher: AddressLike];
+  export type OutputTuple = [publisher: string];
+  export interface OutputObject {
+    publisher: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CraftingAnnouncements extends BaseContract {
+  connect(runner?: ContractRunner | null): CraftingAnnouncements;
+  waitForDeployment(): Promise<this>;
+
+  interface: CraftingAnnouncementsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_CONTENT_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_TITLE_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  addPublisher: TypedContractMethod<
+    [publisher: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  announcementCount: TypedContractMethod<[], [bigint], "view">;
+
+  getAnnouncement: TypedContractMethod<
+    [announcementId: BigNumberish],
+    [CraftingAnnouncements.AnnouncementStructOutput],
+    "view"
+  >;
+
+  getAnnouncements: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [CraftingAnnouncements.AnnouncementStructOutput[]],
+    "view"
+  >;
+
+  isActive: TypedContractMethod<
+    [announcementId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isPublisher: TypedContractMethod<[account: AddressLike], [boolean], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  publish: TypedContractMethod<
+    [
+      title: string,
+      content: string,
+      priority: BigNumberish,
+      batchId: BigNumberish,
+      expiresAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  publishers: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  removePublisher: TypedContractMethod<
+    [publisher: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  withdraw: TypedContractMethod<
+    [announcementId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_CONTENT_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TITLE_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addPublisher"
+  ): TypedContractMethod<[publisher: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "announcementCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAnnouncement"
+  ): TypedContractMethod<
+    [announcementId: BigNumberish],
+    [CraftingAnnouncements.AnnouncementStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAnnouncements"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [CraftingAnnouncements.AnnouncementStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isActive"
+  ): TypedContractMethod<[announcementId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isPublisher"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "publish"
+  ): TypedContractMethod<
+    [
+      title: string,
+      content: string,
+      priority: BigNumberish,
+      batchId: BigNumberish,
+      expiresAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "publishers"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "removePublisher"
+  ): TypedContractMethod<[publisher: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[announcementId: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "AnnouncementPublished"
+  ): TypedContractEvent<
+    AnnouncementPublishedEvent.InputTuple,
+    AnnouncementPublishedEvent.OutputTuple,
+    AnnouncementPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AnnouncementWithdrawn"
+  ): TypedContractEvent<
+    AnnouncementWithdrawnEvent.InputTuple,
+    AnnouncementWithdrawnEvent.OutputTuple,
+    AnnouncementWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PublisherAdded"
+  ): TypedContractEvent<
+    PublisherAddedEvent.InputTuple,
+    PublisherAddedEvent.OutputTuple,
+    PublisherAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PublisherRemoved"
+  ): TypedContractEvent<
+    PublisherRemovedEvent.InputTuple,
+    PublisherRemovedEvent.OutputTuple,
+    PublisherRemovedEvent.OutputObject
+  >;
+
+  filters: {
+    "AnnouncementPublished(uint256,address,uint256,uint8,uint256)": TypedContractEvent<
+      AnnouncementPublishedEvent.InputTuple,
+      AnnouncementPublishedEvent.OutputTuple,
+      AnnouncementPublishedEvent.OutputObject
+    >;
+    AnnouncementPublished: TypedContractEvent<
+      AnnouncementPublishedEvent.InputTuple,
+      AnnouncementPublishedEvent.OutputTuple,
+      AnnouncementPublishedEvent.OutputObject
+    >;
+
+    "AnnouncementWithdrawn(uint256)": TypedContractEvent<
+      AnnouncementWithdrawnEvent.InputTuple,
+      AnnouncementWithdrawnEvent.OutputTuple,
+      AnnouncementWithdrawnEvent.OutputObject
+    >;
+    AnnouncementWithdrawn: TypedContractEvent<
+      AnnouncementWithdrawnEvent.InputTuple,
+      AnnouncementWithdrawnEvent.OutputTuple,
+      AnnouncementWithdrawnEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PublisherAdded(address)": TypedContractEvent<
+      PublisherAddedEvent.InputTuple,
+      PublisherAddedEvent.OutputTuple,
+      PublisherAddedEvent.OutputObject
+    >;
+    PublisherAdded: TypedContractEvent<
+      PublisherAddedEvent.InputTuple,
+      PublisherAddedEvent.OutputTuple,
+      PublisherAddedEvent.OutputObject
+    >;
+
+    "PublisherRemoved(address)": TypedContractEvent<
+      PublisherRemovedEvent.InputTuple,
+      PublisherRemovedEvent.OutputTuple,
+      PublisherRemovedEvent.OutputObject
+    >;
+    PublisherRemoved: TypedContractEvent<
+      PublisherRemovedEvent.InputTuple,
+      PublisherRemovedEvent.OutputTuple,
+      PublisherRemovedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,797 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace CraftingMaterials {
+  export type MaterialStruct = {
+    id: BigNumberish;
+    name: string;
+    tier: BigNumberish;
+  };
+
+  export type MaterialStructOutput = [
+    id: bigint,
+    name: string,
+    tier: bigint
+  ] & { id: bigint; name: string; tier: bigint };
+}
+
+export interface CraftingMaterialsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "FAUCET_AMOUNT"
+      | "MAX_NAME_LENGTH"
+      | "MAX_TIER"
+      | "addMaterial"
+      | "balanceOf"
+      | "balanceOfBatch"
+      | "consume"
+      | "consumers"
+      | "faucet"
+      | "faucetEnabled"
+      | "getCatalog"
+      | "getMaterial"
+      | "idOf"
+      | "isApprovedForAll"
+      | "materialCount"
+      | "mint"
+      | "owner"
+      | "safeBatchTransferFrom"
+      | "safeTransferFrom"
+      | "setApprovalForAll"
+      | "setConsumer"
+      | "setFaucetEnabled"
+      | "supportsInterface"
+      | "uri"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ApprovalForAll"
+      | "ConsumerUpdated"
+      | "FaucetUpdated"
+      | "MaterialAdded"
+      | "TransferBatch"
+      | "TransferSingle"
+      | "URI"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "FAUCET_AMOUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_NAME_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "MAX_TIER", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "addMaterial",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "balanceOf",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "balanceOfBatch",
+    values: [AddressLike[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "consume",
+    values: [AddressLike, BigNumberish[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "consumers",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "faucet",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "faucetEnabled",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCatalog",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMaterial",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "idOf", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "isApprovedForAll",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "materialCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mint",
+    values: [AddressLike, BigNumberish[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "safeBatchTransferFrom",
+    values: [
+      AddressLike,
+      AddressLike,
+      BigNumberish[],
+      BigNumberish[],
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeTransferFrom",
+    values: [AddressLike, AddressLike, BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setApprovalForAll",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setConsumer",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setFaucetEnabled",
+    values: [boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "uri", values: [BigNumberish]): string;
+
+  decodeFunctionResult(
+    functionFragment: "FAUCET_AMOUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_NAME_LENGTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_TIER", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "addMaterial",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "balanceOfBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "consume", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "consumers", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "faucet", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "faucetEnabled",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getCatalog", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getMaterial",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "idOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isApprovedForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "materialCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "mint", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "safeBatchTransferFrom",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setApprovalForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setConsumer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setFaucetEnabled",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "uri", data: BytesLike): Result;
+}
+
+export namespace ApprovalForAllEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    operator: AddressLike,
+    approved: boolean
+  ];
+  export type OutputTuple = [
+    account: string,
+    operator: string,
+    approved: boolean
+  ];
+  export interface OutputObject {
+    account: string;
+    operator: string;
+    approved: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConsumerUpdatedEvent {
+  export type InputTuple = [consumer: AddressLike, allowed: boolean];
+  export type OutputTuple = [consumer: string, allowed: boolean];
+  export interface OutputObject {
+    consumer: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FaucetUpdatedEvent {
+  export type InputTuple = [enabled: boolean];
+  export type OutputTuple = [enabled: boolean];
+  export interface OutputObject {
+    enabled: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MaterialAddedEvent {
+  export type InputTuple = [
+    materialId: BigNumberish,
+    name: string,
+    tier: BigNumberish
+  ];
+  export type OutputTuple = [materialId: bigint, name: string, tier: bigint];
+  export interface OutputObject {
+    materialId: bigint;
+    name: string;
+    tier: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferBatchEvent {
+  export type InputTuple = [
+    operator: AddressLike,
+    from: AddressLike,
+    to: AddressLike,
+    ids: BigNumberish[],
+    values: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    operator: string,
+    from: string,
+    to: string,
+    ids: bigint[],
+    values: bigint[]
+  ];
+  export interface OutputObject {
+    operator: string;
+    from: string;
+    to: string;
+    ids: bigint[];
+    values: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferSingleEvent {
+  export type InputTuple = [
+    operator: AddressLike,
+    from: AddressLike,
+    to: AddressLike,
+    id: BigNumberish,
+    value: BigNumberish
+  ];
+  export type OutputTuple = [
+    operator: string,
+    from: string,
+    to: string,
+    id: bigint,
+    value: bigint
+  ];
+  export interface OutputObject {
+    operator: string;
+    from: string;
+    to: string;
+    id: bigint;
+    value: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace URIEvent {
+  export type InputTuple = [value: string, id: BigNumberish];
+  export type OutputTuple = [value: string, id: bigint];
+  export interface OutputObject {
+    value: string;
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CraftingMaterials extends BaseContract {
+  connect(runner?: ContractRunner | null): CraftingMaterials;
+  waitForDeployment(): Promise<this>;
+
+  interface: CraftingMaterialsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  FAUCET_AMOUNT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_NAME_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_TIER: TypedContractMethod<[], [bigint], "view">;
+
+  addMaterial: TypedContractMethod<
+    [name: string, tier: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  balanceOf: TypedContractMethod<
+    [account: AddressLike, id: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  balanceOfBatch: TypedContractMethod<
+    [accounts: AddressLike[], ids: BigNumberish[]],
+    [bigint[]],
+    "view"
+  >;
+
+  consume: TypedContractMethod<
+    [from: AddressLike, ids: BigNumberish[], amounts: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  consumers: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  faucet: TypedContractMethod<[ids: BigNumberish[]], [void], "nonpayable">;
+
+  faucetEnabled: TypedContractMethod<[], [boolean], "view">;
+
+  getCatalog: TypedContractMethod<
+    [],
+    [CraftingMaterials.MaterialStructOutput[]],
+    "view"
+  >;
+
+  getMaterial: TypedContractMethod<
+    [materialId: BigNumberish],
+    [CraftingMaterials.MaterialStructOutput],
+    "view"
+  >;
+
+  idOf: TypedContractMethod<[name: string], [bigint], "view">;
+
+  isApprovedForAll: TypedContractMethod<
+    [account: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  materialCount: TypedContractMethod<[], [bigint], "view">;
+
+  mint: TypedContractMethod<
+    [to: AddressLike, ids: BigNumberish[], amounts: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  safeBatchTransferFrom: TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      ids: BigNumberish[],
+      values: BigNumberish[],
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  safeTransferFrom: TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      id: BigNumberish,
+      value: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setApprovalForAll: TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setConsumer: TypedContractMethod<
+    [consumer: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setFaucetEnabled: TypedContractMethod<
+    [enabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  uri: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "FAUCET_AMOUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_NAME_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TIER"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addMaterial"
+  ): TypedContractMethod<
+    [name: string, tier: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "balanceOf"
+  ): TypedContractMethod<
+    [account: AddressLike, id: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "balanceOfBatch"
+  ): TypedContractMethod<
+    [accounts: AddressLike[], ids: BigNumberish[]],
+    [bigint[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "consume"
+  ): TypedContractMethod<
+    [from: AddressLike, ids: BigNumberish[], amounts: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "consumers"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "faucet"
+  ): TypedContractMethod<[ids: BigNumberish[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "faucetEnabled"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "getCatalog"
+  ): TypedContractMethod<
+    [],
+    [CraftingMaterials.MaterialStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getMaterial"
+  ): TypedContractMethod<
+    [materialId: BigNumberish],
+    [CraftingMaterials.MaterialStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "idOf"
+  ): TypedContractMethod<[name: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "isApprovedForAll"
+  ): TypedContractMethod<
+    [account: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "materialCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "mint"
+  ): TypedContractMethod<
+    [to: AddressLike, ids: BigNumberish[], amounts: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "safeBatchTransferFrom"
+  ): TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      ids: BigNumberish[],
+      values: BigNumberish[],
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "safeTransferFrom"
+  ): TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      id: BigNumberish,
+      value: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setApprovalForAll"
+  ): TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setConsumer"
+  ): TypedContractMethod<
+    [consumer: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setFaucetEnabled"
+  ): TypedContractMethod<[enabled: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "uri"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  getEvent(
+    key: "ApprovalForAll"
+  ): TypedContractEvent<
+    ApprovalForAllEvent.InputTuple,
+    ApprovalForAllEvent.OutputTuple,
+    ApprovalForAllEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConsumerUpdated"
+  ): TypedContractEvent<
+    ConsumerUpdatedEvent.InputTuple,
+    ConsumerUpdatedEvent.OutputTuple,
+    ConsumerUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FaucetUpdated"
+  ): TypedContractEvent<
+    FaucetUpdatedEvent.InputTuple,
+    FaucetUpdatedEvent.OutputTuple,
+    FaucetUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MaterialAdded"
+  ): TypedContractEvent<
+    MaterialAddedEvent.InputTuple,
+    MaterialAddedEvent.OutputTuple,
+    MaterialAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TransferBatch"
+  ): TypedContractEvent<
+    TransferBatchEvent.InputTuple,
+    TransferBatchEvent.OutputTuple,
+    TransferBatchEvent.OutputObject
+  >;
+  getEvent(
+    key: "TransferSingle"
+  ): TypedContractEvent<
+    TransferSingleEvent.InputTuple,
+    TransferSingleEvent.OutputTuple,
+    TransferSingleEvent.OutputObject
+  >;
+  getEvent(
+    key: "URI"
+  ): TypedContractEvent<
+    URIEvent.InputTuple,
+    URIEvent.OutputTuple,
+    URIEvent.OutputObject
+  >;
+
+  filters: {
+    "ApprovalForAll(address,address,bool)": TypedContractEvent<
+      ApprovalForAllEvent.InputTuple,
+      ApprovalForAllEvent.OutputTuple,
+      ApprovalForAllEvent.OutputObject
+    >;
+    ApprovalForAll: TypedContractEvent<
+      ApprovalForAllEvent.InputTuple,
+      ApprovalForAllEvent.OutputTuple,
+      ApprovalForAllEvent.OutputObject
+    >;
+
+    "ConsumerUpdated(address,bool)": TypedContractEvent<
+      ConsumerUpdatedEvent.InputTuple,
+      ConsumerUpdatedEvent.OutputTuple,
+      ConsumerUpdatedEvent.OutputObject
+    >;
+    ConsumerUpdated: TypedContractEvent<
+      ConsumerUpdatedEvent.InputTuple,
+      ConsumerUpdatedEvent.OutputTuple,
+      ConsumerUpdatedEvent.OutputObject
+    >;
+
+    "FaucetUpdated(bool)": TypedContractEvent<
+      FaucetUpdatedEvent.InputTuple,
+      FaucetUpdatedEvent.OutputTuple,
+      FaucetUpdatedEvent.OutputObject
+    >;
+    FaucetUpdated: TypedContractEvent<
+      FaucetUpdatedEvent.InputTuple,
+      FaucetUpdatedEvent.OutputTuple,
+      FaucetUpdatedEvent.OutputObject
+    >;
+
+    "MaterialAdded(uint256,string,uint8)": TypedContractEvent<
+      MaterialAddedEvent.InputTuple,
+      MaterialAddedEvent.OutputTuple,
+      MaterialAddedEvent.OutputObject
+    >;
+    MaterialAdded: TypedContractEvent<
+      MaterialAddedEvent.InputTuple,
+      MaterialAddedEvent.OutputTuple,
+      MaterialAddedEvent.OutputObject
+    >;
+
+    "TransferBatch(address,address,address,uint256[],uint256[])": TypedContractEvent<
+      TransferBatchEvent.InputTuple,
+      TransferBatchEvent.OutputTuple,
+      TransferBatchEvent.OutputObject
+    >;
+    TransferBatch: TypedContractEvent<
+      TransferBatchEvent.InputTuple,
+      TransferBatchEvent.OutputTuple,
+      TransferBatchEvent.OutputObject
+    >;
+
+    "TransferSingle(address,address,address,uint256,uint256)": TypedContractEvent<
+      TransferSingleEvent.InputTuple,
+      TransferSingleEvent.OutputTuple,
+      TransferSingleEvent.OutputObject
+    >;
+    TransferSingle: TypedContractEvent<
+      TransferSingleEvent.InputTuple,
+      TransferSingleEvent.OutputTuple,
+      TransferSingleEvent.OutputObject
+    >;
+
+    "URI(string,uint256)": TypedContractEvent<
+      URIEvent.InputTuple,
+      URIEvent.OutputTuple,
+      URIEvent.OutputObject
+    >;
+    URI: TypedContractEvent<
+      URIEvent.InputTuple,
+      URIEvent.OutputTuple,
+      URIEvent.OutputObject
+    >;
+  };
+}
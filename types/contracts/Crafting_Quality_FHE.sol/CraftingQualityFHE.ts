@@ -0,0 +1,1687 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace CraftingQualityFHE {
+  export type RevealedStatsStruct = {
+    maxQuality: BigNumberish;
+    minQuality: BigNumberish;
+    masterpieceCount: BigNumberish;
+    histogram: [
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ];
+  };
+
+  export type RevealedStatsStructOutput = [
+    maxQuality: bigint,
+    minQuality: bigint,
+    masterpieceCount: bigint,
+    histogram: [bigint, bigint, bigint, bigint, bigint]
+  ] & {
+    maxQuality: bigint;
+    minQuality: bigint;
+    masterpieceCount: bigint;
+    histogram: [bigint, bigint, bigint, bigint, bigint];
+  };
+
+  export type BatchStatsStruct = {
+    maxQuality: BytesLike;
+    minQuality: BytesLike;
+    masterpieceCount: BytesLike;
+    histogram: [BytesLike, BytesLike, BytesLike, BytesLike, BytesLike];
+    masterpieceThreshold: BigNumberish;
+    decryptionRequestedAt: BigNumberish;
+    revealed: boolean;
+    revealedStats: CraftingQualityFHE.RevealedStatsStruct;
+  };
+
+  export type BatchStatsStructOutput = [
+    maxQuality: string,
+    minQuality: string,
+    masterpieceCount: string,
+    histogram: [string, string, string, string, string],
+    masterpieceThreshold: bigint,
+    decryptionRequestedAt: bigint,
+    revealed: boolean,
+    revealedStats: CraftingQualityFHE.RevealedStatsStructOutput
+  ] & {
+    maxQuality: string;
+    minQuality: string;
+    masterpieceCount: string;
+    histogram: [string, string, string, string, string];
+    masterpieceThreshold: bigint;
+    decryptionRequestedAt: bigint;
+    revealed: boolean;
+    revealedStats: CraftingQualityFHE.RevealedStatsStructOutput;
+  };
+}
+
+export interface CraftingQualityFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DEFAULT_BATCH_DURATION"
+      | "DEFAULT_MASTERPIECE_THRESHOLD"
+      | "DEFAULT_MIN_STATS_SUBMISSIONS"
+      | "HISTOGRAM_BUCKETS"
+      | "HISTOGRAM_BUCKET_WIDTH"
+      | "MAX_BATCH_SIZE"
+      | "MAX_QUALITY"
+      | "MIN_INTERVAL"
+      | "addProvider"
+      | "archiveBatch"
+      | "batchDuration"
+      | "batchSizeLimit"
+      | "batches"
+      | "closeBatch"
+      | "closeDueBatch"
+      | "completeBatchQualityDecryption"
+      | "completeBatchStatsDecryption"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "getBatchStats"
+      | "lastActionAt"
+      | "masterpieceThreshold"
+      | "minBatchSubmissions"
+      | "minStatsSubmissions"
+      | "modelVersion"
+      | "noiseBound"
+      | "openNewBatch"
+      | "owner"
+      | "paused"
+      | "protocolId"
+      | "providers"
+      | "qualityModels"
+      | "registerModel"
+      | "removeProvider"
+      | "requestBatchQualityDecryption"
+      | "requestBatchStatsDecryption"
+      | "setBatchConfig"
+      | "setDecryptionPrivacy"
+      | "setMasterpieceThreshold"
+      | "setModelVersion"
+      | "setPaused"
+      | "setUserCooldown"
+      | "statsDecryptionContexts"
+      | "submissionCount"
+      | "submitCraftingQuality"
+      | "transferOwnership"
+      | "userCooldowns"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchArchived"
+      | "BatchClosed"
+      | "BatchConfigUpdated"
+      | "BatchOpened"
+      | "CooldownUpdated"
+      | "CraftingSubmitted"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionPrivacyUpdated"
+      | "DecryptionRequested"
+      | "MasterpieceThresholdUpdated"
+      | "ModelRegistered"
+      | "ModelVersionUpdated"
+      | "OwnershipTransferred"
+      | "PausedSet"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "StatsDecryptionCompleted"
+      | "StatsDecryptionRequested"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DEFAULT_BATCH_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_MASTERPIECE_THRESHOLD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_MIN_STATS_SUBMISSIONS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "HISTOGRAM_BUCKETS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "HISTOGRAM_BUCKET_WIDTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_QUALITY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_INTERVAL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "archiveBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchDuration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchSizeLimit",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batches",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeDueBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "completeBatchQualityDecryption",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "completeBatchStatsDecryption",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchStats",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastActionAt",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "masterpieceThreshold",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minBatchSubmissions",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minStatsSubmissions",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "modelVersion",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "noiseBound",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openNewBatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "providers",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "qualityModels",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerModel",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchQualityDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchStatsDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBatchConfig",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDecryptionPrivacy",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMasterpieceThreshold",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setModelVersion",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "setUserCooldown",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "statsDecryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submissionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitCraftingQuality",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userCooldowns",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_BATCH_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_MASTERPIECE_THRESHOLD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_MIN_STATS_SUBMISSIONS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "HISTOGRAM_BUCKETS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "HISTOGRAM_BUCKET_WIDTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_QUALITY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_INTERVAL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "archiveBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchSizeLimit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batches", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "closeDueBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "completeBatchQualityDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "completeBatchStatsDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastActionAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "masterpieceThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minBatchSubmissions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minStatsSubmissions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "modelVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "noiseBound", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "openNewBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "providers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "qualityModels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerModel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchQualityDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchStatsDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBatchConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDecryptionPrivacy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMasterpieceThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setModelVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setUserCooldown",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "statsDecryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submissionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitCraftingQuality",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "userCooldowns",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchArchivedEvent {
+  export type InputTuple = [batchId: BigNumberish, qualityScore: BigNumberish];
+  export type OutputTuple = [batchId: bigint, qualityScore: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    qualityScore: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish, closedAt: BigNumberish];
+  export type OutputTuple = [batchId: bigint, closedAt: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    closedAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchConfigUpdatedEvent {
+  export type InputTuple = [duration: BigNumberish, sizeLimit: BigNumberish];
+  export type OutputTuple = [duration: bigint, sizeLimit: bigint];
+  export interface OutputObject {
+    duration: bigint;
+    sizeLimit: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish, createdAt: BigNumberish];
+  export type OutputTuple = [batchId: bigint, createdAt: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    createdAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownUpdatedEvent {
+  export type InputTuple = [user: AddressLike, cooldown: BigNumberish];
+  export type OutputTuple = [user: string, cooldown: bigint];
+  export interface OutputObject {
+    user: string;
+    cooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CraftingSubmittedEvent {
+  export type InputTuple = [
+    crafter: AddressLike,
+    batchId: BigNumberish,
+    encryptedQuality: BytesLike
+  ];
+  export type OutputTuple = [
+    crafter: string,
+    batchId: bigint,
+    encryptedQuality: string
+  ];
+  export interface OutputObject {
+    crafter: string;
+    batchId: bigint;
+    encryptedQuality: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    qualityScore: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    qualityScore: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    qualityScore: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionPrivacyUpdatedEvent {
+  export type InputTuple = [
+    minBatchSubmissions: BigNumberish,
+    minStatsSubmissions: BigNumberish,
+    noiseBound: BigNumberish
+  ];
+  export type OutputTuple = [
+    minBatchSubmissions: bigint,
+    minStatsSubmissions: bigint,
+    noiseBound: bigint
+  ];
+  export interface OutputObject {
+    minBatchSubmissions: bigint;
+    minStatsSubmissions: bigint;
+    noiseBound: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    requester: AddressLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    requester: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    requester: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MasterpieceThresholdUpdatedEvent {
+  export type InputTuple = [threshold: BigNumberish];
+  export type OutputTuple = [threshold: bigint];
+  export interface OutputObject {
+    threshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ModelRegisteredEvent {
+  export type InputTuple = [
+    version: BigNumberish,
+    weight: BigNumberish,
+    bonus: BigNumberish
+  ];
+  export type OutputTuple = [version: bigint, weight: bigint, bonus: bigint];
+  export interface OutputObject {
+    version: bigint;
+    weight: bigint;
+    bonus: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ModelVersionUpdatedEvent {
+  export type InputTuple = [newVersion: BigNumberish];
+  export type OutputTuple = [newVersion: bigint];
+  export interface OutputObject {
+    newVersion: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedSetEvent {
+  export type InputTuple = [paused: boolean];
+  export type OutputTuple = [paused: boolean];
+  export interface OutputObject {
+    paused: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StatsDecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    maxQuality: BigNumberish,
+    minQuality: BigNumberish,
+    masterpieceCount: BigNumberish,
+    histogram: [
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    maxQuality: bigint,
+    minQuality: bigint,
+    masterpieceCount: bigint,
+    histogram: [bigint, bigint, bigint, bigint, bigint]
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    maxQuality: bigint;
+    minQuality: bigint;
+    masterpieceCount: bigint;
+    histogram: [bigint, bigint, bigint, bigint, bigint];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StatsDecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    requester: AddressLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    requester: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    requester: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CraftingQualityFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): CraftingQualityFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: CraftingQualityFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DEFAULT_BATCH_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_MASTERPIECE_THRESHOLD: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_MIN_STATS_SUBMISSIONS: TypedContractMethod<[], [bigint], "view">;
+
+  HISTOGRAM_BUCKETS: TypedContractMethod<[], [bigint], "view">;
+
+  HISTOGRAM_BUCKET_WIDTH: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BATCH_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_QUALITY: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_INTERVAL: TypedContractMethod<[], [bigint], "view">;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  archiveBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  batchDuration: TypedContractMethod<[], [bigint], "view">;
+
+  batchSizeLimit: TypedContractMethod<[], [bigint], "view">;
+
+  batches: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        boolean,
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        string
+      ] & {
+        id: bigint;
+        active: boolean;
+        createdAt: bigint;
+        closedAt: bigint;
+        submissionCount: bigint;
+        qualityAccumulator: string;
+        expiresAt: bigint;
+        decryptionRequestedAt: bigint;
+        revealed: boolean;
+        qualityScore: bigint;
+        archived: boolean;
+        modelVersion: bigint;
+        noiseBound: bigint;
+        noisyAccumulator: string;
+      }
+    ],
+    "view"
+  >;
+
+  closeBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeDueBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  completeBatchQualityDecryption: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  completeBatchStatsDecryption: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, string] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+        requester: string;
+      }
+    ],
+    "view"
+  >;
+
+  getBatchStats: TypedContractMethod<
+    [batchId: BigNumberish],
+    [CraftingQualityFHE.BatchStatsStructOutput],
+    "view"
+  >;
+
+  lastActionAt: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  masterpieceThreshold: TypedContractMethod<[], [bigint], "view">;
+
+  minBatchSubmissions: TypedContractMethod<[], [bigint], "view">;
+
+  minStatsSubmissions: TypedContractMethod<[], [bigint], "view">;
+
+  modelVersion: TypedContractMethod<[], [bigint], "view">;
+
+  noiseBound: TypedContractMethod<[], [bigint], "view">;
+
+  openNewBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  providers: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  qualityModels: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        weight: bigint;
+        bonus: bigint;
+        registered: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  registerModel: TypedContractMethod<
+    [version: BigNumberish, weight: BigNumberish, bonus: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchQualityDecryption: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchStatsDecryption: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setBatchConfig: TypedContractMethod<
+    [duration: BigNumberish, sizeLimit: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDecryptionPrivacy: TypedContractMethod<
+    [minSubmissions: BigNumberish, minStats: BigNumberish, bound: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMasterpieceThreshold: TypedContractMethod<
+    [threshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setModelVersion: TypedContractMethod<
+    [newVersion: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+
+  setUserCooldown: TypedContractMethod<
+    [user: AddressLike, cooldown: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  statsDecryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, string] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+        requester: string;
+      }
+    ],
+    "view"
+  >;
+
+  submissionCount: TypedContractMethod<[], [bigint], "view">;
+
+  submitCraftingQuality: TypedContractMethod<
+    [batchId: BigNumberish, encryptedQuality: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  userCooldowns: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DEFAULT_BATCH_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_MASTERPIECE_THRESHOLD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_MIN_STATS_SUBMISSIONS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "HISTOGRAM_BUCKETS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "HISTOGRAM_BUCKET_WIDTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BATCH_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_QUALITY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_INTERVAL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "archiveBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchDuration"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchSizeLimit"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batches"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        boolean,
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        string
+      ] & {
+        id: bigint;
+        active: boolean;
+        createdAt: bigint;
+        closedAt: bigint;
+        submissionCount: bigint;
+        qualityAccumulator: string;
+        expiresAt: bigint;
+        decryptionRequestedAt: bigint;
+        revealed: boolean;
+        qualityScore: bigint;
+        archived: boolean;
+        modelVersion: bigint;
+        noiseBound: bigint;
+        noisyAccumulator: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeDueBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "completeBatchQualityDecryption"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "completeBatchStatsDecryption"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, string] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+        requester: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchStats"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [CraftingQualityFHE.BatchStatsStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "lastActionAt"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "masterpieceThreshold"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "minBatchSubmissions"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "minStatsSubmissions"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "modelVersion"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "noiseBound"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "openNewBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "providers"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "qualityModels"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        weight: bigint;
+        bonus: bigint;
+        registered: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "registerModel"
+  ): TypedContractMethod<
+    [version: BigNumberish, weight: BigNumberish, bonus: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestBatchQualityDecryption"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestBatchStatsDecryption"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setBatchConfig"
+  ): TypedContractMethod<
+    [duration: BigNumberish, sizeLimit: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDecryptionPrivacy"
+  ): TypedContractMethod<
+    [minSubmissions: BigNumberish, minStats: BigNumberish, bound: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setMasterpieceThreshold"
+  ): TypedContractMethod<[threshold: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setModelVersion"
+  ): TypedContractMethod<[newVersion: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setUserCooldown"
+  ): TypedContractMethod<
+    [user: AddressLike, cooldown: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "statsDecryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, string] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+        requester: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "submissionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "submitCraftingQuality"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, encryptedQuality: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "userCooldowns"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  getEvent(
+    key: "BatchArchived"
+  ): TypedContractEvent<
+    BatchArchivedEvent.InputTuple,
+    BatchArchivedEvent.OutputTuple,
+    BatchArchivedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchConfigUpdated"
+  ): TypedContractEvent<
+    BatchConfigUpdatedEvent.InputTuple,
+    BatchConfigUpdatedEvent.OutputTuple,
+    BatchConfigUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownUpdated"
+  ): TypedContractEvent<
+    CooldownUpdatedEvent.InputTuple,
+    CooldownUpdatedEvent.OutputTuple,
+    CooldownUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CraftingSubmitted"
+  ): TypedContractEvent<
+    CraftingSubmittedEvent.InputTuple,
+    CraftingSubmittedEvent.OutputTuple,
+    CraftingSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionPrivacyUpdated"
+  ): TypedContractEvent<
+    DecryptionPrivacyUpdatedEvent.InputTuple,
+    DecryptionPrivacyUpdatedEvent.OutputTuple,
+    DecryptionPrivacyUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MasterpieceThresholdUpdated"
+  ): TypedContractEvent<
+    MasterpieceThresholdUpdatedEvent.InputTuple,
+    MasterpieceThresholdUpdatedEvent.OutputTuple,
+    MasterpieceThresholdUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ModelRegistered"
+  ): TypedContractEvent<
+    ModelRegisteredEvent.InputTuple,
+    ModelRegisteredEvent.OutputTuple,
+    ModelRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ModelVersionUpdated"
+  ): TypedContractEvent<
+    ModelVersionUpdatedEvent.InputTuple,
+    ModelVersionUpdatedEvent.OutputTuple,
+    ModelVersionUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PausedSet"
+  ): TypedContractEvent<
+    PausedSetEvent.InputTuple,
+    PausedSetEvent.OutputTuple,
+    PausedSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StatsDecryptionCompleted"
+  ): TypedContractEvent<
+    StatsDecryptionCompletedEvent.InputTuple,
+    StatsDecryptionCompletedEvent.OutputTuple,
+    StatsDecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StatsDecryptionRequested"
+  ): TypedContractEvent<
+    StatsDecryptionRequestedEvent.InputTuple,
+    StatsDecryptionRequestedEvent.OutputTuple,
+    StatsDecryptionRequestedEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchArchived(uint256,uint32)": TypedContractEvent<
+      BatchArchivedEvent.InputTuple,
+      BatchArchivedEvent.OutputTuple,
+      BatchArchivedEvent.OutputObject
+    >;
+    BatchArchived: TypedContractEvent<
+      BatchArchivedEvent.InputTuple,
+      BatchArchivedEvent.OutputTuple,
+      BatchArchivedEvent.OutputObject
+    >;
+
+    "BatchClosed(uint256,uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchConfigUpdated(uint256,uint256)": TypedContractEvent<
+      BatchConfigUpdatedEvent.InputTuple,
+      BatchConfigUpdatedEvent.OutputTuple,
+      BatchConfigUpdatedEvent.OutputObject
+    >;
+    BatchConfigUpdated: TypedContractEvent<
+      BatchConfigUpdatedEvent.InputTuple,
+      BatchConfigUpdatedEvent.OutputTuple,
+      BatchConfigUpdatedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256,uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "CooldownUpdated(address,uint256)": TypedContractEvent<
+      CooldownUpdatedEvent.InputTuple,
+      CooldownUpdatedEvent.OutputTuple,
+      CooldownUpdatedEvent.OutputObject
+    >;
+    CooldownUpdated: TypedContractEvent<
+      CooldownUpdatedEvent.InputTuple,
+      CooldownUpdatedEvent.OutputTuple,
+      CooldownUpdatedEvent.OutputObject
+    >;
+
+    "CraftingSubmitted(address,uint256,bytes32)": TypedContractEvent<
+      CraftingSubmittedEvent.InputTuple,
+      CraftingSubmittedEvent.OutputTuple,
+      CraftingSubmittedEvent.OutputObject
+    >;
+    CraftingSubmitted: TypedContractEvent<
+      CraftingSubmittedEvent.InputTuple,
+      CraftingSubmittedEvent.OutputTuple,
+      CraftingSubmittedEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionPrivacyUpdated(uint256,uint256,uint32)": TypedContractEvent<
+      DecryptionPrivacyUpdatedEvent.InputTuple,
+      DecryptionPrivacyUpdatedEvent.OutputTuple,
+      DecryptionPrivacyUpdatedEvent.OutputObject
+    >;
+    DecryptionPrivacyUpdated: TypedContractEvent<
+      DecryptionPrivacyUpdatedEvent.InputTuple,
+      DecryptionPrivacyUpdatedEvent.OutputTuple,
+      DecryptionPrivacyUpdatedEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256,address)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "MasterpieceThresholdUpdated(uint32)": TypedContractEvent<
+      MasterpieceThresholdUpdatedEvent.InputTuple,
+      MasterpieceThresholdUpdatedEvent.OutputTuple,
+      MasterpieceThresholdUpdatedEvent.OutputObject
+    >;
+    MasterpieceThresholdUpdated: TypedContractEvent<
+      MasterpieceThresholdUpdatedEvent.InputTuple,
+      MasterpieceThresholdUpdatedEvent.OutputTuple,
+      MasterpieceThresholdUpdatedEvent.OutputObject
+    >;
+
+    "ModelRegistered(uint256,uint32,uint32)": TypedContractEvent<
+      ModelRegisteredEvent.InputTuple,
+      ModelRegisteredEvent.OutputTuple,
+      ModelRegisteredEvent.OutputObject
+    >;
+    ModelRegistered: TypedContractEvent<
+      ModelRegisteredEvent.InputTuple,
+      ModelRegisteredEvent.OutputTuple,
+      ModelRegisteredEvent.OutputObject
+    >;
+
+    "ModelVersionUpdated(uint256)": TypedContractEvent<
+      ModelVersionUpdatedEvent.InputTuple,
+      ModelVersionUpdatedEvent.OutputTuple,
+      ModelVersionUpdatedEvent.OutputObject
+    >;
+    ModelVersionUpdated: TypedContractEvent<
+      ModelVersionUpdatedEvent.InputTuple,
+      ModelVersionUpdatedEvent.OutputTuple,
+      ModelVersionUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PausedSet(bool)": TypedContractEvent<
+      PausedSetEvent.InputTuple,
+      PausedSetEvent.OutputTuple,
+      PausedSetEvent.OutputObject
+    >;
+    PausedSet: TypedContractEvent<
+      PausedSetEvent.InputTuple,
+      PausedSetEvent.OutputTuple,
+      PausedSetEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "StatsDecryptionCompleted(uint256,uint256,uint32,uint32,uint32,uint32[5])": TypedContractEvent<
+      StatsDecryptionCompletedEvent.InputTuple,
+      StatsDecryptionCompletedEvent.OutputTuple,
+      StatsDecryptionCompletedEvent.OutputObject
+    >;
+    StatsDecryptionCompleted: TypedContractEvent<
+      StatsDecryptionCompletedEvent.InputTuple,
+      StatsDecryptionCompletedEvent.OutputTuple,
+      StatsDecryptionCompletedEvent.OutputObject
+    >;
+
+    "StatsDecryptionRequested(uint256,uint256,address)": TypedContractEvent<
+      StatsDecryptionRequestedEvent.InputTuple,
+      StatsDecryptionRequestedEvent.OutputTuple,
+      StatsDecryptionRequestedEvent.OutputObject
+    >;
+    StatsDecryptionRequested: TypedContractEvent<
+      StatsDecryptionRequestedEvent.InputTuple,
+      StatsDecryptionRequestedEvent.OutputTuple,
+      StatsDecryptionRequestedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,594 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace ItemMarketplace {
+  export type ListingStruct = {
+    id: BigNumberish;
+    itemId: BigNumberish;
+    seller: AddressLike;
+    currency: BigNumberish;
+    price: BigNumberish;
+    claimThreshold: BigNumberish;
+    claimStatus: BigNumberish;
+    status: BigNumberish;
+    buyer: AddressLike;
+    createdAt: BigNumberish;
+    closedAt: BigNumberish;
+  };
+
+  export type ListingStructOutput = [
+    id: bigint,
+    itemId: bigint,
+    seller: string,
+    currency: bigint,
+    price: bigint,
+    claimThreshold: bigint,
+    claimStatus: bigint,
+    status: bigint,
+    buyer: string,
+    createdAt: bigint,
+    closedAt: bigint
+  ] & {
+    id: bigint;
+    itemId: bigint;
+    seller: string;
+    currency: bigint;
+    price: bigint;
+    claimThreshold: bigint;
+    claimStatus: bigint;
+    status: bigint;
+    buyer: string;
+    createdAt: bigint;
+    closedAt: bigint;
+  };
+}
+
+export interface ItemMarketplaceInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "activeListingOf"
+      | "buy"
+      | "cancel"
+      | "completeQualityClaim"
+      | "gameToken"
+      | "getListing"
+      | "getListings"
+      | "list"
+      | "listingCount"
+      | "owner"
+      | "protocolId"
+      | "registry"
+      | "setGameToken"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DecryptionFulfilled"
+      | "GameTokenUpdated"
+      | "ItemListed"
+      | "ItemSold"
+      | "ListingCancelled"
+      | "QualityClaimRequested"
+      | "QualityClaimRevealed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "activeListingOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "buy", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "cancel",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "completeQualityClaim",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "gameToken", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getListing",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getListings",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "list",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "listingCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "registry", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "setGameToken",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "activeListingOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "buy", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "cancel", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "completeQualityClaim",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "gameToken", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getListing", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getListings",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "list", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "listingCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "registry", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setGameToken",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GameTokenUpdatedEvent {
+  export type InputTuple = [gameToken: AddressLike];
+  export type OutputTuple = [gameToken: string];
+  export interface OutputObject {
+    gameToken: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ItemListedEvent {
+  export type InputTuple = [
+    listingId: BigNumberish,
+    itemId: BigNumberish,
+    seller: AddressLike,
+    currency: BigNumberish,
+    price: BigNumberish,
+    claimThreshold: BigNumberish
+  ];
+  export type OutputTuple = [
+    listingId: bigint,
+    itemId: bigint,
+    seller: string,
+    currency: bigint,
+    price: bigint,
+    claimThreshold: bigint
+  ];
+  export interface OutputObject {
+    listingId: bigint;
+    itemId: bigint;
+    seller: string;
+    currency: bigint;
+    price: bigint;
+    claimThreshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ItemSoldEvent {
+  export type InputTuple = [
+    listingId: BigNumberish,
+    itemId: BigNumberish,
+    buyer: AddressLike,
+    seller: AddressLike,
+    currency: BigNumberish,
+    price: BigNumberish
+  ];
+  export type OutputTuple = [
+    listingId: bigint,
+    itemId: bigint,
+    buyer: string,
+    seller: string,
+    currency: bigint,
+    price: bigint
+  ];
+  export interface OutputObject {
+    listingId: bigint;
+    itemId: bigint;
+    buyer: string;
+    seller: string;
+    currency: bigint;
+    price: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ListingCancelledEvent {
+  export type InputTuple = [listingId: BigNumberish, itemId: BigNumberish];
+  export type OutputTuple = [listingId: bigint, itemId: bigint];
+  export interface OutputObject {
+    listingId: bigint;
+    itemId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QualityClaimRequestedEvent {
+  export type InputTuple = [
+    listingId: BigNumberish,
+    requestId: BigNumberish,
+    threshold: BigNumberish
+  ];
+  export type OutputTuple = [
+    listingId: bigint,
+    requestId: bigint,
+    threshold: bigint
+  ];
+  export interface OutputObject {
+    listingId: bigint;
+    requestId: bigint;
+    threshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QualityClaimRevealedEvent {
+  export type InputTuple = [
+    listingId: BigNumberish,
+    requestId: BigNumberish,
+    holds: boolean
+  ];
+  export type OutputTuple = [
+    listingId: bigint,
+    requestId: bigint,
+    holds: boolean
+  ];
+  export interface OutputObject {
+    listingId: bigint;
+    requestId: bigint;
+    holds: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ItemMarketplace extends BaseContract {
+  connect(runner?: ContractRunner | null): ItemMarketplace;
+  waitForDeployment(): Promise<this>;
+
+  interface: ItemMarketplaceInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  activeListingOf: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  buy: TypedContractMethod<[listingId: BigNumberish], [void], "payable">;
+
+  cancel: TypedContractMethod<[listingId: BigNumberish], [void], "nonpayable">;
+
+  completeQualityClaim: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  gameToken: TypedContractMethod<[], [string], "view">;
+
+  getListing: TypedContractMethod<
+    [listingId: BigNumberish],
+    [ItemMarketplace.ListingStructOutput],
+    "view"
+  >;
+
+  getListings: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [ItemMarketplace.ListingStructOutput[]],
+    "view"
+  >;
+
+  list: TypedContractMethod<
+    [
+      itemId: BigNumberish,
+      currency: BigNumberish,
+      price: BigNumberish,
+      claimThreshold: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  listingCount: TypedContractMethod<[], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  registry: TypedContractMethod<[], [string], "view">;
+
+  setGameToken: TypedContractMethod<[token: AddressLike], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "activeListingOf"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "buy"
+  ): TypedContractMethod<[listingId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "cancel"
+  ): TypedContractMethod<[listingId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "completeQualityClaim"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "gameToken"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getListing"
+  ): TypedContractMethod<
+    [listingId: BigNumberish],
+    [ItemMarketplace.ListingStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getListings"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [ItemMarketplace.ListingStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "list"
+  ): TypedContractMethod<
+    [
+      itemId: BigNumberish,
+      currency: BigNumberish,
+      price: BigNumberish,
+      claimThreshold: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "listingCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "registry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setGameToken"
+  ): TypedContractMethod<[token: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "GameTokenUpdated"
+  ): TypedContractEvent<
+    GameTokenUpdatedEvent.InputTuple,
+    GameTokenUpdatedEvent.OutputTuple,
+    GameTokenUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ItemListed"
+  ): TypedContractEvent<
+    ItemListedEvent.InputTuple,
+    ItemListedEvent.OutputTuple,
+    ItemListedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ItemSold"
+  ): TypedContractEvent<
+    ItemSoldEvent.InputTuple,
+    ItemSoldEvent.OutputTuple,
+    ItemSoldEvent.OutputObject
+  >;
+  getEvent(
+    key: "ListingCancelled"
+  ): TypedContractEvent<
+    ListingCancelledEvent.InputTuple,
+    ListingCancelledEvent.OutputTuple,
+    ListingCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "QualityClaimRequested"
+  ): TypedContractEvent<
+    QualityClaimRequestedEvent.InputTuple,
+    QualityClaimRequestedEvent.OutputTuple,
+    QualityClaimRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "QualityClaimRevealed"
+  ): TypedContractEvent<
+    QualityClaimRevealedEvent.InputTuple,
+    QualityClaimRevealedEvent.OutputTuple,
+    QualityClaimRevealedEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "GameTokenUpdated(address)": TypedContractEvent<
+      GameTokenUpdatedEvent.InputTuple,
+      GameTokenUpdatedEvent.OutputTuple,
+      GameTokenUpdatedEvent.OutputObject
+    >;
+    GameTokenUpdated: TypedContractEvent<
+      GameTokenUpdatedEvent.InputTuple,
+      GameTokenUpdatedEvent.OutputTuple,
+      GameTokenUpdatedEvent.OutputObject
+    >;
+
+    "ItemListed(uint256,uint256,address,uint8,uint256,uint32)": TypedContractEvent<
+      ItemListedEvent.InputTuple,
+      ItemListedEvent.OutputTuple,
+      ItemListedEvent.OutputObject
+    >;
+    ItemListed: TypedContractEvent<
+      ItemListedEvent.InputTuple,
+      ItemListedEvent.OutputTuple,
+      ItemListedEvent.OutputObject
+    >;
+
+    "ItemSold(uint256,uint256,address,address,uint8,uint256)": TypedContractEvent<
+      ItemSoldEvent.InputTuple,
+      ItemSoldEvent.OutputTuple,
+      ItemSoldEvent.OutputObject
+    >;
+    ItemSold: TypedContractEvent<
+      ItemSoldEvent.InputTuple,
+      ItemSoldEvent.OutputTuple,
+      ItemSoldEvent.OutputObject
+    >;
+
+    "ListingCancelled(uint256,uint256)": TypedContractEvent<
+      ListingCancelledEvent.InputTuple,
+      ListingCancelledEvent.OutputTuple,
+      ListingCancelledEvent.OutputObject
+    >;
+    ListingCancelled: TypedContractEvent<
+      ListingCancelledEvent.InputTuple,
+      ListingCancelledEvent.OutputTuple,
+      ListingCancelledEvent.OutputObject
+    >;
+
+    "QualityClaimRequested(uint256,uint256,uint32)": TypedContractEvent<
+      QualityClaimRequestedEvent.InputTuple,
+      QualityClaimRequestedEvent.OutputTuple,
+      QualityClaimRequestedEvent.OutputObject
+    >;
+    QualityClaimRequested: TypedContractEvent<
+      QualityClaimRequestedEvent.InputTuple,
+      QualityClaimRequestedEvent.OutputTuple,
+      QualityClaimRequestedEvent.OutputObject
+    >;
+
+    "QualityClaimRevealed(uint256,uint256,bool)": TypedContractEvent<
+      QualityClaimRevealedEvent.InputTuple,
+      QualityClaimRevealedEvent.OutputTuple,
+      QualityClaimRevealedEvent.OutputObject
+    >;
+    QualityClaimRevealed: TypedContractEvent<
+      QualityClaimRevealedEvent.InputTuple,
+      QualityClaimRevealedEvent.OutputTuple,
+      QualityClaimRevealedEvent.OutputObject
+    >;
+  };
+}
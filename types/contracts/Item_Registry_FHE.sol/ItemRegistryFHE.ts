@@ -0,0 +1,1583 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace ItemRegistryFHE {
+  export type ItemStruct = {
+    id: BigNumberish;
+    owner: AddressLike;
+    name: string;
+    baseQuality: BigNumberish;
+    quality: BytesLike;
+    catalyst: BytesLike;
+    masterpiece: BytesLike;
+    materials: string[];
+    status: BigNumberish;
+    masterpieceReveal: BigNumberish;
+    isMasterpiece: boolean;
+    createdAt: BigNumberish;
+  };
+
+  export type ItemStructOutput = [
+    id: bigint,
+    owner: string,
+    name: string,
+    baseQuality: bigint,
+    quality: string,
+    catalyst: string,
+    masterpiece: string,
+    materials: string[],
+    status: bigint,
+    masterpieceReveal: bigint,
+    isMasterpiece: boolean,
+    createdAt: bigint
+  ] & {
+    id: bigint;
+    owner: string;
+    name: string;
+    baseQuality: bigint;
+    quality: string;
+    catalyst: string;
+    masterpiece: string;
+    materials: string[];
+    status: bigint;
+    masterpieceReveal: bigint;
+    isMasterpiece: boolean;
+    createdAt: bigint;
+  };
+}
+
+export interface ItemRegistryFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "CATALYST_DIVISOR"
+      | "DEFAULT_MASTERPIECE_THRESHOLD"
+      | "LUCK_RANGE"
+      | "MAX_CATALYST_EFFECT"
+      | "MAX_MATERIALS"
+      | "MAX_NAME_LENGTH"
+      | "MAX_QUALITY"
+      | "MULTIPLIER_SCALE"
+      | "approve"
+      | "balanceOf"
+      | "completeAverageQuality"
+      | "completeMasterpieceReveal"
+      | "crafterStatsOf"
+      | "createItem"
+      | "createItemFromMaterials"
+      | "createItemWithRecipe"
+      | "getApproved"
+      | "getItem"
+      | "getItems"
+      | "isApprovedForAll"
+      | "itemCount"
+      | "itemsOf"
+      | "masterpieceThreshold"
+      | "materialInventory"
+      | "name"
+      | "owner"
+      | "ownerOf"
+      | "protocolId"
+      | "publishAverageQuality"
+      | "publishedAverages"
+      | "qualityAtLeast"
+      | "recipeBook"
+      | "requestMasterpieceReveal"
+      | "safeTransferFrom(address,address,uint256)"
+      | "safeTransferFrom(address,address,uint256,bytes)"
+      | "setApprovalForAll"
+      | "setItemStatus"
+      | "setMasterpieceThreshold"
+      | "setMaterialInventory"
+      | "setRecipeBook"
+      | "supportsInterface"
+      | "symbol"
+      | "tokenURI"
+      | "transferFrom"
+      | "transferItem"
+      | "withdrawAverageQuality"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "Approval"
+      | "ApprovalForAll"
+      | "AverageQualityPublished"
+      | "AverageQualityRequested"
+      | "AverageQualityWithdrawn"
+      | "DecryptionFulfilled"
+      | "ItemCraftedWithRecipe"
+      | "ItemCreated"
+      | "ItemStatusUpdated"
+      | "ItemTransferred"
+      | "MasterpieceRevealRequested"
+      | "MasterpieceRevealed"
+      | "MasterpieceThresholdUpdated"
+      | "MaterialInventoryUpdated"
+      | "MaterialsConsumed"
+      | "RecipeBookUpdated"
+      | "Transfer"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "CATALYST_DIVISOR",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_MASTERPIECE_THRESHOLD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "LUCK_RANGE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_CATALYST_EFFECT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_MATERIALS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_NAME_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_QUALITY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MULTIPLIER_SCALE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approve",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "balanceOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "completeAverageQuality",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "completeMasterpieceReveal",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "crafterStatsOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createItem",
+    values: [string, BigNumberish, string[], BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createItemFromMaterials",
+    values: [
+      string,
+      BigNumberish,
+      BigNumberish[],
+      BigNumberish[],
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createItemWithRecipe",
+    values: [string, BigNumberish, BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getApproved",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getItem",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getItems",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isApprovedForAll",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "itemCount", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "itemsOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "masterpieceThreshold",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "materialInventory",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "name", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "ownerOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishAverageQuality",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishedAverages",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "qualityAtLeast",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recipeBook",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestMasterpieceReveal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeTransferFrom(address,address,uint256)",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
+    values: [AddressLike, AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setApprovalForAll",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setItemStatus",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMasterpieceThreshold",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMaterialInventory",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRecipeBook",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "tokenURI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferFrom",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferItem",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawAverageQuality",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "CATALYST_DIVISOR",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_MASTERPIECE_THRESHOLD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "LUCK_RANGE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_CATALYST_EFFECT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_MATERIALS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_NAME_LENGTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_QUALITY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MULTIPLIER_SCALE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "completeAverageQuality",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "completeMasterpieceReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "crafterStatsOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "createItem", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "createItemFromMaterials",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createItemWithRecipe",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getApproved",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getItem", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getItems", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isApprovedForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "itemCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "itemsOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "masterpieceThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "materialInventory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "ownerOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "publishAverageQuality",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "publishedAverages",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "qualityAtLeast",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "recipeBook", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestMasterpieceReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom(address,address,uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setApprovalForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setItemStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMasterpieceThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMaterialInventory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRecipeBook",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "tokenURI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferFrom",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferItem",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawAverageQuality",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ApprovalEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    approved: AddressLike,
+    tokenId: BigNumberish
+  ];
+  export type OutputTuple = [owner: string, approved: string, tokenId: bigint];
+  export interface OutputObject {
+    owner: string;
+    approved: string;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ApprovalForAllEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    operator: AddressLike,
+    approved: boolean
+  ];
+  export type OutputTuple = [
+    owner: string,
+    operator: string,
+    approved: boolean
+  ];
+  export interface OutputObject {
+    owner: string;
+    operator: string;
+    approved: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AverageQualityPublishedEvent {
+  export type InputTuple = [
+    crafter: AddressLike,
+    requestId: BigNumberish,
+    averageQuality: BigNumberish,
+    sampleSize: BigNumberish
+  ];
+  export type OutputTuple = [
+    crafter: string,
+    requestId: bigint,
+    averageQuality: bigint,
+    sampleSize: bigint
+  ];
+  export interface OutputObject {
+    crafter: string;
+    requestId: bigint;
+    averageQuality: bigint;
+    sampleSize: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AverageQualityRequestedEvent {
+  export type InputTuple = [crafter: AddressLike, requestId: BigNumberish];
+  export type OutputTuple = [crafter: string, requestId: bigint];
+  export interface OutputObject {
+    crafter: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AverageQualityWithdrawnEvent {
+  export type InputTuple = [crafter: AddressLike];
+  export type OutputTuple = [crafter: string];
+  export interface OutputObject {
+    crafter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ItemCraftedWithRecipeEvent {
+  export type InputTuple = [itemId: BigNumberish, recipeId: BigNumberish];
+  export type OutputTuple = [itemId: bigint, recipeId: bigint];
+  export interface OutputObject {
+    itemId: bigint;
+    recipeId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ItemCreatedEvent {
+  export type InputTuple = [
+    itemId: BigNumberish,
+    owner: AddressLike,
+    name: string,
+    baseQuality: BigNumberish,
+    materials: string[],
+    encryptedQuality: BytesLike,
+    encryptedCatalyst: BytesLike,
+    encryptedMasterpiece: BytesLike,
+    createdAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    itemId: bigint,
+    owner: string,
+    name: string,
+    baseQuality: bigint,
+    materials: string[],
+    encryptedQuality: string,
+    encryptedCatalyst: string,
+    encryptedMasterpiece: string,
+    createdAt: bigint
+  ];
+  export interface OutputObject {
+    itemId: bigint;
+    owner: string;
+    name: string;
+    baseQuality: bigint;
+    materials: string[];
+    encryptedQuality: string;
+    encryptedCatalyst: string;
+    encryptedMasterpiece: string;
+    createdAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ItemStatusUpdatedEvent {
+  export type InputTuple = [itemId: BigNumberish, status: BigNumberish];
+  export type OutputTuple = [itemId: bigint, status: bigint];
+  export interface OutputObject {
+    itemId: bigint;
+    status: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ItemTransferredEvent {
+  export type InputTuple = [
+    itemId: BigNumberish,
+    from: AddressLike,
+    to: AddressLike,
+    encryptedQuality: BytesLike,
+    encryptedCatalyst: BytesLike,
+    encryptedMasterpiece: BytesLike
+  ];
+  export type OutputTuple = [
+    itemId: bigint,
+    from: string,
+    to: string,
+    encryptedQuality: string,
+    encryptedCatalyst: string,
+    encryptedMasterpiece: string
+  ];
+  export interface OutputObject {
+    itemId: bigint;
+    from: string;
+    to: string;
+    encryptedQuality: string;
+    encryptedCatalyst: string;
+    encryptedMasterpiece: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MasterpieceRevealRequestedEvent {
+  export type InputTuple = [itemId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [itemId: bigint, requestId: bigint];
+  export interface OutputObject {
+    itemId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MasterpieceRevealedEvent {
+  export type InputTuple = [
+    itemId: BigNumberish,
+    requestId: BigNumberish,
+    isMasterpiece: boolean
+  ];
+  export type OutputTuple = [
+    itemId: bigint,
+    requestId: bigint,
+    isMasterpiece: boolean
+  ];
+  export interface OutputObject {
+    itemId: bigint;
+    requestId: bigint;
+    isMasterpiece: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MasterpieceThresholdUpdatedEvent {
+  export type InputTuple = [threshold: BigNumberish];
+  export type OutputTuple = [threshold: bigint];
+  export interface OutputObject {
+    threshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MaterialInventoryUpdatedEvent {
+  export type InputTuple = [materialInventory: AddressLike];
+  export type OutputTuple = [materialInventory: string];
+  export interface OutputObject {
+    materialInventory: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MaterialsConsumedEvent {
+  export type InputTuple = [
+    itemId: BigNumberish,
+    crafter: AddressLike,
+    materialIds: BigNumberish[],
+    amounts: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    itemId: bigint,
+    crafter: string,
+    materialIds: bigint[],
+    amounts: bigint[]
+  ];
+  export interface OutputObject {
+    itemId: bigint;
+    crafter: string;
+    materialIds: bigint[];
+    amounts: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecipeBookUpdatedEvent {
+  export type InputTuple = [recipeBook: AddressLike];
+  export type OutputTuple = [recipeBook: string];
+  export interface OutputObject {
+    recipeBook: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferEvent {
+  export type InputTuple = [
+    from: AddressLike,
+    to: AddressLike,
+    tokenId: BigNumberish
+  ];
+  export type OutputTuple = [from: string, to: string, tokenId: bigint];
+  export interface OutputObject {
+    from: string;
+    to: string;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ItemRegistryFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): ItemRegistryFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: ItemRegistryFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  CATALYST_DIVISOR: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_MASTERPIECE_THRESHOLD: TypedContractMethod<[], [bigint], "view">;
+
+  LUCK_RANGE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_CATALYST_EFFECT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_MATERIALS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_NAME_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_QUALITY: TypedContractMethod<[], [bigint], "view">;
+
+  MULTIPLIER_SCALE: TypedContractMethod<[], [bigint], "view">;
+
+  approve: TypedContractMethod<
+    [to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  balanceOf: TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+
+  completeAverageQuality: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  completeMasterpieceReveal: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  crafterStatsOf: TypedContractMethod<
+    [crafter: AddressLike],
+    [[string, bigint] & { qualitySum: string; craftedCount: bigint }],
+    "view"
+  >;
+
+  createItem: TypedContractMethod<
+    [
+      name: string,
+      baseQuality: BigNumberish,
+      materials: string[],
+      encryptedCatalyst: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createItemFromMaterials: TypedContractMethod<
+    [
+      name: string,
+      baseQuality: BigNumberish,
+      materialIds: BigNumberish[],
+      amounts: BigNumberish[],
+      encryptedCatalyst: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createItemWithRecipe: TypedContractMethod<
+    [
+      name: string,
+      baseQuality: BigNumberish,
+      recipeId: BigNumberish,
+      encryptedCatalyst: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  getApproved: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  getItem: TypedContractMethod<
+    [itemId: BigNumberish],
+    [ItemRegistryFHE.ItemStructOutput],
+    "view"
+  >;
+
+  getItems: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [ItemRegistryFHE.ItemStructOutput[]],
+    "view"
+  >;
+
+  isApprovedForAll: TypedContractMethod<
+    [owner: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  itemCount: TypedContractMethod<[], [bigint], "view">;
+
+  itemsOf: TypedContractMethod<[account: AddressLike], [bigint[]], "view">;
+
+  masterpieceThreshold: TypedContractMethod<[], [bigint], "view">;
+
+  materialInventory: TypedContractMethod<[], [string], "view">;
+
+  name: TypedContractMethod<[], [string], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  ownerOf: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  publishAverageQuality: TypedContractMethod<[], [bigint], "nonpayable">;
+
+  publishedAverages: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        averageQuality: bigint;
+        sampleSize: bigint;
+        publishedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  qualityAtLeast: TypedContractMethod<
+    [itemId: BigNumberish, threshold: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+
+  recipeBook: TypedContractMethod<[], [string], "view">;
+
+  requestMasterpieceReveal: TypedContractMethod<
+    [itemId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  "safeTransferFrom(address,address,uint256)": TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  "safeTransferFrom(address,address,uint256,bytes)": TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      tokenId: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setApprovalForAll: TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setItemStatus: TypedContractMethod<
+    [itemId: BigNumberish, status: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMasterpieceThreshold: TypedContractMethod<
+    [threshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMaterialInventory: TypedContractMethod<
+    [inventory: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setRecipeBook: TypedContractMethod<[book: AddressLike], [void], "nonpayable">;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  symbol: TypedContractMethod<[], [string], "view">;
+
+  tokenURI: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  transferFrom: TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  transferItem: TypedContractMethod<
+    [itemId: BigNumberish, to: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawAverageQuality: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "CATALYST_DIVISOR"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_MASTERPIECE_THRESHOLD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "LUCK_RANGE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_CATALYST_EFFECT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_MATERIALS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_NAME_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_QUALITY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MULTIPLIER_SCALE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "approve"
+  ): TypedContractMethod<
+    [to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "balanceOf"
+  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "completeAverageQuality"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "completeMasterpieceReveal"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "crafterStatsOf"
+  ): TypedContractMethod<
+    [crafter: AddressLike],
+    [[string, bigint] & { qualitySum: string; craftedCount: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "createItem"
+  ): TypedContractMethod<
+    [
+      name: string,
+      baseQuality: BigNumberish,
+      materials: string[],
+      encryptedCatalyst: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createItemFromMaterials"
+  ): TypedContractMethod<
+    [
+      name: string,
+      baseQuality: BigNumberish,
+      materialIds: BigNumberish[],
+      amounts: BigNumberish[],
+      encryptedCatalyst: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createItemWithRecipe"
+  ): TypedContractMethod<
+    [
+      name: string,
+      baseQuality: BigNumberish,
+      recipeId: BigNumberish,
+      encryptedCatalyst: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getApproved"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getItem"
+  ): TypedContractMethod<
+    [itemId: BigNumberish],
+    [ItemRegistryFHE.ItemStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getItems"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [ItemRegistryFHE.ItemStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isApprovedForAll"
+  ): TypedContractMethod<
+    [owner: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "itemCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "itemsOf"
+  ): TypedContractMethod<[account: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "masterpieceThreshold"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "materialInventory"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "name"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "ownerOf"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "publishAverageQuality"
+  ): TypedContractMethod<[], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "publishedAverages"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        averageQuality: bigint;
+        sampleSize: bigint;
+        publishedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "qualityAtLeast"
+  ): TypedContractMethod<
+    [itemId: BigNumberish, threshold: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "recipeBook"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "requestMasterpieceReveal"
+  ): TypedContractMethod<[itemId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "safeTransferFrom(address,address,uint256)"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "safeTransferFrom(address,address,uint256,bytes)"
+  ): TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      tokenId: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setApprovalForAll"
+  ): TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setItemStatus"
+  ): TypedContractMethod<
+    [itemId: BigNumberish, status: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setMasterpieceThreshold"
+  ): TypedContractMethod<[threshold: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMaterialInventory"
+  ): TypedContractMethod<[inventory: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setRecipeBook"
+  ): TypedContractMethod<[book: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "symbol"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "tokenURI"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "transferFrom"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferItem"
+  ): TypedContractMethod<
+    [itemId: BigNumberish, to: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawAverageQuality"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "Approval"
+  ): TypedContractEvent<
+    ApprovalEvent.InputTuple,
+    ApprovalEvent.OutputTuple,
+    ApprovalEvent.OutputObject
+  >;
+  getEvent(
+    key: "ApprovalForAll"
+  ): TypedContractEvent<
+    ApprovalForAllEvent.InputTuple,
+    ApprovalForAllEvent.OutputTuple,
+    ApprovalForAllEvent.OutputObject
+  >;
+  getEvent(
+    key: "AverageQualityPublished"
+  ): TypedContractEvent<
+    AverageQualityPublishedEvent.InputTuple,
+    AverageQualityPublishedEvent.OutputTuple,
+    AverageQualityPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AverageQualityRequested"
+  ): TypedContractEvent<
+    AverageQualityRequestedEvent.InputTuple,
+    AverageQualityRequestedEvent.OutputTuple,
+    AverageQualityRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AverageQualityWithdrawn"
+  ): TypedContractEvent<
+    AverageQualityWithdrawnEvent.InputTuple,
+    AverageQualityWithdrawnEvent.OutputTuple,
+    AverageQualityWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ItemCraftedWithRecipe"
+  ): TypedContractEvent<
+    ItemCraftedWithRecipeEvent.InputTuple,
+    ItemCraftedWithRecipeEvent.OutputTuple,
+    ItemCraftedWithRecipeEvent.OutputObject
+  >;
+  getEvent(
+    key: "ItemCreated"
+  ): TypedContractEvent<
+    ItemCreatedEvent.InputTuple,
+    ItemCreatedEvent.OutputTuple,
+    ItemCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ItemStatusUpdated"
+  ): TypedContractEvent<
+    ItemStatusUpdatedEvent.InputTuple,
+    ItemStatusUpdatedEvent.OutputTuple,
+    ItemStatusUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ItemTransferred"
+  ): TypedContractEvent<
+    ItemTransferredEvent.InputTuple,
+    ItemTransferredEvent.OutputTuple,
+    ItemTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "MasterpieceRevealRequested"
+  ): TypedContractEvent<
+    MasterpieceRevealRequestedEvent.InputTuple,
+    MasterpieceRevealRequestedEvent.OutputTuple,
+    MasterpieceRevealRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MasterpieceRevealed"
+  ): TypedContractEvent<
+    MasterpieceRevealedEvent.InputTuple,
+    MasterpieceRevealedEvent.OutputTuple,
+    MasterpieceRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MasterpieceThresholdUpdated"
+  ): TypedContractEvent<
+    MasterpieceThresholdUpdatedEvent.InputTuple,
+    MasterpieceThresholdUpdatedEvent.OutputTuple,
+    MasterpieceThresholdUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MaterialInventoryUpdated"
+  ): TypedContractEvent<
+    MaterialInventoryUpdatedEvent.InputTuple,
+    MaterialInventoryUpdatedEvent.OutputTuple,
+    MaterialInventoryUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MaterialsConsumed"
+  ): TypedContractEvent<
+    MaterialsConsumedEvent.InputTuple,
+    MaterialsConsumedEvent.OutputTuple,
+    MaterialsConsumedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecipeBookUpdated"
+  ): TypedContractEvent<
+    RecipeBookUpdatedEvent.InputTuple,
+    RecipeBookUpdatedEvent.OutputTuple,
+    RecipeBookUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Transfer"
+  ): TypedContractEvent<
+    TransferEvent.InputTuple,
+    TransferEvent.OutputTuple,
+    TransferEvent.OutputObject
+  >;
+
+  filters: {
+    "Approval(address,address,uint256)": TypedContractEvent<
+      ApprovalEvent.InputTuple,
+      ApprovalEvent.OutputTuple,
+      ApprovalEvent.OutputObject
+    >;
+    Approval: TypedContractEvent<
+      ApprovalEvent.InputTuple,
+      ApprovalEvent.OutputTuple,
+      ApprovalEvent.OutputObject
+    >;
+
+    "ApprovalForAll(address,address,bool)": TypedContractEvent<
+      ApprovalForAllEvent.InputTuple,
+      ApprovalForAllEvent.OutputTuple,
+      ApprovalForAllEvent.OutputObject
+    >;
+    ApprovalForAll: TypedContractEvent<
+      ApprovalForAllEvent.InputTuple,
+      ApprovalForAllEvent.OutputTuple,
+      ApprovalForAllEvent.OutputObject
+    >;
+
+    "AverageQualityPublished(address,uint256,uint32,uint32)": TypedContractEvent<
+      AverageQualityPublishedEvent.InputTuple,
+      AverageQualityPublishedEvent.OutputTuple,
+      AverageQualityPublishedEvent.OutputObject
+    >;
+    AverageQualityPublished: TypedContractEvent<
+      AverageQualityPublishedEvent.InputTuple,
+      AverageQualityPublishedEvent.OutputTuple,
+      AverageQualityPublishedEvent.OutputObject
+    >;
+
+    "AverageQualityRequested(address,uint256)": TypedContractEvent<
+      AverageQualityRequestedEvent.InputTuple,
+      AverageQualityRequestedEvent.OutputTuple,
+      AverageQualityRequestedEvent.OutputObject
+    >;
+    AverageQualityRequested: TypedContractEvent<
+      AverageQualityRequestedEvent.InputTuple,
+      AverageQualityRequestedEvent.OutputTuple,
+      AverageQualityRequestedEvent.OutputObject
+    >;
+
+    "AverageQualityWithdrawn(address)": TypedContractEvent<
+      AverageQualityWithdrawnEvent.InputTuple,
+      AverageQualityWithdrawnEvent.OutputTuple,
+      AverageQualityWithdrawnEvent.OutputObject
+    >;
+    AverageQualityWithdrawn: TypedContractEvent<
+      AverageQualityWithdrawnEvent.InputTuple,
+      AverageQualityWithdrawnEvent.OutputTuple,
+      AverageQualityWithdrawnEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "ItemCraftedWithRecipe(uint256,uint256)": TypedContractEvent<
+      ItemCraftedWithRecipeEvent.InputTuple,
+      ItemCraftedWithRecipeEvent.OutputTuple,
+      ItemCraftedWithRecipeEvent.OutputObject
+    >;
+    ItemCraftedWithRecipe: TypedContractEvent<
+      ItemCraftedWithRecipeEvent.InputTuple,
+      ItemCraftedWithRecipeEvent.OutputTuple,
+      ItemCraftedWithRecipeEvent.OutputObject
+    >;
+
+    "ItemCreated(uint256,address,string,uint32,string[],bytes32,bytes32,bytes32,uint256)": TypedContractEvent<
+      ItemCreatedEvent.InputTuple,
+      ItemCreatedEvent.OutputTuple,
+      ItemCreatedEvent.OutputObject
+    >;
+    ItemCreated: TypedContractEvent<
+      ItemCreatedEvent.InputTuple,
+      ItemCreatedEvent.OutputTuple,
+      ItemCreatedEvent.OutputObject
+    >;
+
+    "ItemStatusUpdated(uint256,uint8)": TypedContractEvent<
+      ItemStatusUpdatedEvent.InputTuple,
+      ItemStatusUpdatedEvent.OutputTuple,
+      ItemStatusUpdatedEvent.OutputObject
+    >;
+    ItemStatusUpdated: TypedContractEvent<
+      ItemStatusUpdatedEvent.InputTuple,
+      ItemStatusUpdatedEvent.OutputTuple,
+      ItemStatusUpdatedEvent.OutputObject
+    >;
+
+    "ItemTransferred(uint256,address,address,bytes32,bytes32,bytes32)": TypedContractEvent<
+      ItemTransferredEvent.InputTuple,
+      ItemTransferredEvent.OutputTuple,
+      ItemTransferredEvent.OutputObject
+    >;
+    ItemTransferred: TypedContractEvent<
+      ItemTransferredEvent.InputTuple,
+      ItemTransferredEvent.OutputTuple,
+      ItemTransferredEvent.OutputObject
+    >;
+
+    "MasterpieceRevealRequested(uint256,uint256)": TypedContractEvent<
+      MasterpieceRevealRequestedEvent.InputTuple,
+      MasterpieceRevealRequestedEvent.OutputTuple,
+      MasterpieceRevealRequestedEvent.OutputObject
+    >;
+    MasterpieceRevealRequested: TypedContractEvent<
+      MasterpieceRevealRequestedEvent.InputTuple,
+      MasterpieceRevealRequestedEvent.OutputTuple,
+      MasterpieceRevealRequestedEvent.OutputObject
+    >;
+
+    "MasterpieceRevealed(uint256,uint256,bool)": TypedContractEvent<
+      MasterpieceRevealedEvent.InputTuple,
+      MasterpieceRevealedEvent.OutputTuple,
+      MasterpieceRevealedEvent.OutputObject
+    >;
+    MasterpieceRevealed: TypedContractEvent<
+      MasterpieceRevealedEvent.InputTuple,
+      MasterpieceRevealedEvent.OutputTuple,
+      MasterpieceRevealedEvent.OutputObject
+    >;
+
+    "MasterpieceThresholdUpdated(uint32)": TypedContractEvent<
+      MasterpieceThresholdUpdatedEvent.InputTuple,
+      MasterpieceThresholdUpdatedEvent.OutputTuple,
+      MasterpieceThresholdUpdatedEvent.OutputObject
+    >;
+    MasterpieceThresholdUpdated: TypedContractEvent<
+      MasterpieceThresholdUpdatedEvent.InputTuple,
+      MasterpieceThresholdUpdatedEvent.OutputTuple,
+      MasterpieceThresholdUpdatedEvent.OutputObject
+    >;
+
+    "MaterialInventoryUpdated(address)": TypedContractEvent<
+      MaterialInventoryUpdatedEvent.InputTuple,
+      MaterialInventoryUpdatedEvent.OutputTuple,
+      MaterialInventoryUpdatedEvent.OutputObject
+    >;
+    MaterialInventoryUpdated: TypedContractEvent<
+      MaterialInventoryUpdatedEvent.InputTuple,
+      MaterialInventoryUpdatedEvent.OutputTuple,
+      MaterialInventoryUpdatedEvent.OutputObject
+    >;
+
+    "MaterialsConsumed(uint256,address,uint256[],uint256[])": TypedContractEvent<
+      MaterialsConsumedEvent.InputTuple,
+      MaterialsConsumedEvent.OutputTuple,
+      MaterialsConsumedEvent.OutputObject
+    >;
+    MaterialsConsumed: TypedContractEvent<
+      MaterialsConsumedEvent.InputTuple,
+      MaterialsConsumedEvent.OutputTuple,
+      MaterialsConsumedEvent.OutputObject
+    >;
+
+    "RecipeBookUpdated(address)": TypedContractEvent<
+      RecipeBookUpdatedEvent.InputTuple,
+      RecipeBookUpdatedEvent.OutputTuple,
+      RecipeBookUpdatedEvent.OutputObject
+    >;
+    RecipeBookUpdated: TypedContractEvent<
+      RecipeBookUpdatedEvent.InputTuple,
+      RecipeBookUpdatedEvent.OutputTuple,
+      RecipeBookUpdatedEvent.OutputObject
+    >;
+
+    "Transfer(address,address,uint256)": TypedContractEvent<
+      TransferEvent.InputTuple,
+      TransferEvent.OutputTuple,
+      TransferEvent.OutputObject
+    >;
+    Transfer: TypedContractEvent<
+      TransferEvent.InputTuple,
+      TransferEvent.OutputTuple,
+      TransferEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,695 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace MasterpieceAuction {
+  export type BidStruct = {
+    deposit: BigNumberish;
+    amount: BytesLike;
+    withdrawn: boolean;
+  };
+
+  export type BidStructOutput = [
+    deposit: bigint,
+    amount: string,
+    withdrawn: boolean
+  ] & { deposit: bigint; amount: string; withdrawn: boolean };
+
+  export type AuctionStruct = {
+    id: BigNumberish;
+    itemId: BigNumberish;
+    seller: AddressLike;
+    reservePrice: BigNumberish;
+    endTime: BigNumberish;
+    closeDeadline: BigNumberish;
+    status: BigNumberish;
+    bidCount: BigNumberish;
+    highestBid: BytesLike;
+    highestBidder: BytesLike;
+    winner: AddressLike;
+    clearingPrice: BigNumberish;
+    sellerPaid: boolean;
+  };
+
+  export type AuctionStructOutput = [
+    id: bigint,
+    itemId: bigint,
+    seller: string,
+    reservePrice: bigint,
+    endTime: bigint,
+    closeDeadline: bigint,
+    status: bigint,
+    bidCount: bigint,
+    highestBid: string,
+    highestBidder: string,
+    winner: string,
+    clearingPrice: bigint,
+    sellerPaid: boolean
+  ] & {
+    id: bigint;
+    itemId: bigint;
+    seller: string;
+    reservePrice: bigint;
+    endTime: bigint;
+    closeDeadline: bigint;
+    status: bigint;
+    bidCount: bigint;
+    highestBid: string;
+    highestBidder: string;
+    winner: string;
+    clearingPrice: bigint;
+    sellerPaid: boolean;
+  };
+}
+
+export interface MasterpieceAuctionInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "CLOSE_TIMEOUT"
+      | "MAX_DURATION"
+      | "MIN_DURATION"
+      | "PRICE_UNIT"
+      | "auctionCount"
+      | "bid"
+      | "bidOf"
+      | "cancel"
+      | "cancelStalledClose"
+      | "close"
+      | "completeClose"
+      | "createAuction"
+      | "getAuction"
+      | "getAuctions"
+      | "protocolId"
+      | "registry"
+      | "withdraw"
+      | "withdrawableOf"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AuctionCancelled"
+      | "AuctionClosing"
+      | "AuctionCreated"
+      | "AuctionSettled"
+      | "BidPlaced"
+      | "DecryptionFulfilled"
+      | "Withdrawn"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "CLOSE_TIMEOUT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PRICE_UNIT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auctionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bid",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bidOf",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancel",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelStalledClose",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "close", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "completeClose",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createAuction",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuctions",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "registry", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "withdraw",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawableOf",
+    values: [BigNumberish, AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "CLOSE_TIMEOUT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "PRICE_UNIT", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "auctionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "bid", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "bidOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "cancel", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelStalledClose",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "close", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "completeClose",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getAuction", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuctions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "registry", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawableOf",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AuctionCancelledEvent {
+  export type InputTuple = [auctionId: BigNumberish];
+  export type OutputTuple = [auctionId: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionClosingEvent {
+  export type InputTuple = [auctionId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [auctionId: bigint, requestId: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionCreatedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    itemId: BigNumberish,
+    seller: AddressLike,
+    reservePrice: BigNumberish,
+    endTime: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    itemId: bigint,
+    seller: string,
+    reservePrice: bigint,
+    endTime: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    itemId: bigint;
+    seller: string;
+    reservePrice: bigint;
+    endTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionSettledEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    winner: AddressLike,
+    clearingPrice: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    winner: string,
+    clearingPrice: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    winner: string;
+    clearingPrice: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidPlacedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    deposit: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    bidder: string,
+    deposit: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    deposit: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawnEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    account: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    account: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MasterpieceAuction extends BaseContract {
+  connect(runner?: ContractRunner | null): MasterpieceAuction;
+  waitForDeployment(): Promise<this>;
+
+  interface: MasterpieceAuctionInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  CLOSE_TIMEOUT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  PRICE_UNIT: TypedContractMethod<[], [bigint], "view">;
+
+  auctionCount: TypedContractMethod<[], [bigint], "view">;
+
+  bid: TypedContractMethod<
+    [auctionId: BigNumberish, encryptedBid: BytesLike, inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  bidOf: TypedContractMethod<
+    [auctionId: BigNumberish, bidder: AddressLike],
+    [MasterpieceAuction.BidStructOutput],
+    "view"
+  >;
+
+  cancel: TypedContractMethod<[auctionId: BigNumberish], [void], "nonpayable">;
+
+  cancelStalledClose: TypedContractMethod<
+    [auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  close: TypedContractMethod<[auctionId: BigNumberish], [bigint], "nonpayable">;
+
+  completeClose: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  createAuction: TypedContractMethod<
+    [itemId: BigNumberish, reservePrice: BigNumberish, duration: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  getAuction: TypedContractMethod<
+    [auctionId: BigNumberish],
+    [MasterpieceAuction.AuctionStructOutput],
+    "view"
+  >;
+
+  getAuctions: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [MasterpieceAuction.AuctionStructOutput[]],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  registry: TypedContractMethod<[], [string], "view">;
+
+  withdraw: TypedContractMethod<
+    [auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawableOf: TypedContractMethod<
+    [auctionId: BigNumberish, account: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "CLOSE_TIMEOUT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PRICE_UNIT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "auctionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "bid"
+  ): TypedContractMethod<
+    [auctionId: BigNumberish, encryptedBid: BytesLike, inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "bidOf"
+  ): TypedContractMethod<
+    [auctionId: BigNumberish, bidder: AddressLike],
+    [MasterpieceAuction.BidStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancel"
+  ): TypedContractMethod<[auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancelStalledClose"
+  ): TypedContractMethod<[auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "close"
+  ): TypedContractMethod<[auctionId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "completeClose"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createAuction"
+  ): TypedContractMethod<
+    [itemId: BigNumberish, reservePrice: BigNumberish, duration: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getAuction"
+  ): TypedContractMethod<
+    [auctionId: BigNumberish],
+    [MasterpieceAuction.AuctionStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAuctions"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [MasterpieceAuction.AuctionStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "registry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawableOf"
+  ): TypedContractMethod<
+    [auctionId: BigNumberish, account: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getEvent(
+    key: "AuctionCancelled"
+  ): TypedContractEvent<
+    AuctionCancelledEvent.InputTuple,
+    AuctionCancelledEvent.OutputTuple,
+    AuctionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionClosing"
+  ): TypedContractEvent<
+    AuctionClosingEvent.InputTuple,
+    AuctionClosingEvent.OutputTuple,
+    AuctionClosingEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionCreated"
+  ): TypedContractEvent<
+    AuctionCreatedEvent.InputTuple,
+    AuctionCreatedEvent.OutputTuple,
+    AuctionCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionSettled"
+  ): TypedContractEvent<
+    AuctionSettledEvent.InputTuple,
+    AuctionSettledEvent.OutputTuple,
+    AuctionSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidPlaced"
+  ): TypedContractEvent<
+    BidPlacedEvent.InputTuple,
+    BidPlacedEvent.OutputTuple,
+    BidPlacedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "Withdrawn"
+  ): TypedContractEvent<
+    WithdrawnEvent.InputTuple,
+    WithdrawnEvent.OutputTuple,
+    WithdrawnEvent.OutputObject
+  >;
+
+  filters: {
+    "AuctionCancelled(uint256)": TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+    AuctionCancelled: TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+
+    "AuctionClosing(uint256,uint256)": TypedContractEvent<
+      AuctionClosingEvent.InputTuple,
+      AuctionClosingEvent.OutputTuple,
+      AuctionClosingEvent.OutputObject
+    >;
+    AuctionClosing: TypedContractEvent<
+      AuctionClosingEvent.InputTuple,
+      AuctionClosingEvent.OutputTuple,
+      AuctionClosingEvent.OutputObject
+    >;
+
+    "AuctionCreated(uint256,uint256,address,uint64,uint256)": TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+    AuctionCreated: TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+
+    "AuctionSettled(uint256,address,uint64)": TypedContractEvent<
+      AuctionSettledEvent.InputTuple,
+      AuctionSettledEvent.OutputTuple,
+      AuctionSettledEvent.OutputObject
+    >;
+    AuctionSettled: TypedContractEvent<
+      AuctionSettledEvent.InputTuple,
+      AuctionSettledEvent.OutputTuple,
+      AuctionSettledEvent.OutputObject
+    >;
+
+    "BidPlaced(uint256,address,uint256)": TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+    BidPlaced: TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "Withdrawn(uint256,address,uint256)": TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+    Withdrawn: TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+  };
+}
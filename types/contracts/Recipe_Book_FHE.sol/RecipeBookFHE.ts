@@ -0,0 +1,498 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace RecipeBookFHE {
+  export type RecipeStruct = {
+    id: BigNumberish;
+    owner: AddressLike;
+    name: string;
+    materials: string[];
+    materialWeights: BytesLike[];
+    catalystMultiplier: BytesLike;
+    cappedMaterialBonus: BytesLike;
+    createdAt: BigNumberish;
+  };
+
+  export type RecipeStructOutput = [
+    id: bigint,
+    owner: string,
+    name: string,
+    materials: string[],
+    materialWeights: string[],
+    catalystMultiplier: string,
+    cappedMaterialBonus: string,
+    createdAt: bigint
+  ] & {
+    id: bigint;
+    owner: string;
+    name: string;
+    materials: string[];
+    materialWeights: string[];
+    catalystMultiplier: string;
+    cappedMaterialBonus: string;
+    createdAt: bigint;
+  };
+}
+
+export interface RecipeBookFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_CATALYST_MULTIPLIER"
+      | "MAX_MATERIALS"
+      | "MAX_MATERIAL_BONUS"
+      | "MAX_MATERIAL_WEIGHT"
+      | "MAX_NAME_LENGTH"
+      | "canUse"
+      | "consumers"
+      | "createRecipe"
+      | "getRecipe"
+      | "owner"
+      | "protocolId"
+      | "recipeCount"
+      | "recipesOf"
+      | "setConsumer"
+      | "shareRecipe"
+      | "useRecipe"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "ConsumerUpdated" | "RecipeCreated" | "RecipeShared"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_CATALYST_MULTIPLIER",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_MATERIALS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_MATERIAL_BONUS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_MATERIAL_WEIGHT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_NAME_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canUse",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "consumers",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createRecipe",
+    values: [string, string[], BytesLike[], BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRecipe",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recipeCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recipesOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setConsumer",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shareRecipe",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "useRecipe",
+    values: [BigNumberish, AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_CATALYST_MULTIPLIER",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_MATERIALS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_MATERIAL_BONUS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_MATERIAL_WEIGHT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_NAME_LENGTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "canUse", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "consumers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "createRecipe",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getRecipe", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recipeCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "recipesOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setConsumer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "shareRecipe",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "useRecipe", data: BytesLike): Result;
+}
+
+export namespace ConsumerUpdatedEvent {
+  export type InputTuple = [consumer: AddressLike, allowed: boolean];
+  export type OutputTuple = [consumer: string, allowed: boolean];
+  export interface OutputObject {
+    consumer: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecipeCreatedEvent {
+  export type InputTuple = [
+    recipeId: BigNumberish,
+    owner: AddressLike,
+    name: string,
+    materials: string[]
+  ];
+  export type OutputTuple = [
+    recipeId: bigint,
+    owner: string,
+    name: string,
+    materials: string[]
+  ];
+  export interface OutputObject {
+    recipeId: bigint;
+    owner: string;
+    name: string;
+    materials: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecipeSharedEvent {
+  export type InputTuple = [recipeId: BigNumberish, grantee: AddressLike];
+  export type OutputTuple = [recipeId: bigint, grantee: string];
+  export interface OutputObject {
+    recipeId: bigint;
+    grantee: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface RecipeBookFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): RecipeBookFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: RecipeBookFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_CATALYST_MULTIPLIER: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_MATERIALS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_MATERIAL_BONUS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_MATERIAL_WEIGHT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_NAME_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  canUse: TypedContractMethod<
+    [recipeId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  consumers: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  createRecipe: TypedContractMethod<
+    [
+      name: string,
+      materials: string[],
+      encryptedWeights: BytesLike[],
+      encryptedMultiplier: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  getRecipe: TypedContractMethod<
+    [recipeId: BigNumberish],
+    [RecipeBookFHE.RecipeStructOutput],
+    "view"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  recipeCount: TypedContractMethod<[], [bigint], "view">;
+
+  recipesOf: TypedContractMethod<[account: AddressLike], [bigint[]], "view">;
+
+  setConsumer: TypedContractMethod<
+    [consumer: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  shareRecipe: TypedContractMethod<
+    [recipeId: BigNumberish, grantee: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  useRecipe: TypedContractMethod<
+    [recipeId: BigNumberish, crafter: AddressLike],
+    [
+      [string[], string, string] & {
+        materials: string[];
+        cappedMaterialBonus: string;
+        catalystMultiplier: string;
+      }
+    ],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_CATALYST_MULTIPLIER"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_MATERIALS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_MATERIAL_BONUS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_MATERIAL_WEIGHT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_NAME_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "canUse"
+  ): TypedContractMethod<
+    [recipeId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "consumers"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "createRecipe"
+  ): TypedContractMethod<
+    [
+      name: string,
+      materials: string[],
+      encryptedWeights: BytesLike[],
+      encryptedMultiplier: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getRecipe"
+  ): TypedContractMethod<
+    [recipeId: BigNumberish],
+    [RecipeBookFHE.RecipeStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recipeCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recipesOf"
+  ): TypedContractMethod<[account: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "setConsumer"
+  ): TypedContractMethod<
+    [consumer: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "shareRecipe"
+  ): TypedContractMethod<
+    [recipeId: BigNumberish, grantee: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "useRecipe"
+  ): TypedContractMethod<
+    [recipeId: BigNumberish, crafter: AddressLike],
+    [
+      [string[], string, string] & {
+        materials: string[];
+        cappedMaterialBonus: string;
+        catalystMultiplier: string;
+      }
+    ],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "ConsumerUpdated"
+  ): TypedContractEvent<
+    ConsumerUpdatedEvent.InputTuple,
+    ConsumerUpdatedEvent.OutputTuple,
+    ConsumerUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecipeCreated"
+  ): TypedContractEvent<
+    RecipeCreatedEvent.InputTuple,
+    RecipeCreatedEvent.OutputTuple,
+    RecipeCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecipeShared"
+  ): TypedContractEvent<
+    RecipeSharedEvent.InputTuple,
+    RecipeSharedEvent.OutputTuple,
+    RecipeSharedEvent.OutputObject
+  >;
+
+  filters: {
+    "ConsumerUpdated(address,bool)": TypedContractEvent<
+      ConsumerUpdatedEvent.InputTuple,
+      ConsumerUpdatedEvent.OutputTuple,
+      ConsumerUpdatedEvent.OutputObject
+    >;
+    ConsumerUpdated: TypedContractEvent<
+      ConsumerUpdatedEvent.InputTuple,
+      ConsumerUpdatedEvent.OutputTuple,
+      ConsumerUpdatedEvent.OutputObject
+    >;
+
+    "RecipeCreated(uint256,address,string,string[])": TypedContractEvent<
+      RecipeCreatedEvent.InputTuple,
+      RecipeCreatedEvent.OutputTuple,
+      RecipeCreatedEvent.OutputObject
+    >;
+    RecipeCreated: TypedContractEvent<
+      RecipeCreatedEvent.InputTuple,
+      RecipeCreatedEvent.OutputTuple,
+      RecipeCreatedEvent.OutputObject
+    >;
+
+    "RecipeShared(uint256,address)": TypedContractEvent<
+      RecipeSharedEvent.InputTuple,
+      RecipeSharedEvent.OutputTuple,
+      RecipeSharedEvent.OutputObject
+    >;
+    RecipeShared: TypedContractEvent<
+      RecipeSharedEvent.InputTuple,
+      RecipeSharedEvent.OutputTuple,
+      RecipeSharedEvent.OutputObject
+    >;
+  };
+}
@@ -1,4 +1,19 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as craftingAnnouncementsSol from "./Crafting_Announcements.sol";
+export type { craftingAnnouncementsSol };
+import type * as craftingGoldSol from "./Crafting_Gold.sol";
+export type { craftingGoldSol };
+import type * as craftingMaterialsSol from "./Crafting_Materials.sol";
+export type { craftingMaterialsSol };
+import type * as craftingQualityFheSol from "./Crafting_Quality_FHE.sol";
+export type { craftingQualityFheSol };
+import type * as itemMarketplaceSol from "./Item_Marketplace.sol";
+export type { itemMarketplaceSol };
+import type * as itemRegistryFheSol from "./Item_Registry_FHE.sol";
+export type { itemRegistryFheSol };
+import type * as masterpieceAuctionSol from "./Masterpiece_Auction.sol";
+export type { masterpieceAuctionSol };
+import type * as recipeBookFheSol from "./Recipe_Book_FHE.sol";
+export type { recipeBookFheSol };
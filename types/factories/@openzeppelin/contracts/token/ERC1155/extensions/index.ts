@@ -0,0 +1,4 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IERC1155MetadataURI__factory } from "./IERC1155MetadataURI__factory";
@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as introspection from "./introspection";
+export * as math from "./math";
+export { ReentrancyGuard__factory } from "./ReentrancyGuard__factory";
+export { Strings__factory } from "./Strings__factory";
@@ -0,0 +1,530 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  CraftingAnnouncements,
+  CraftingAnnouncementsInterface,
+} from "../../../contracts/Crafting_Announcements.sol/CraftingAnnouncements";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AnnouncementNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAnnouncement",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPublisher",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "announcementId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "publisher",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum CraftingAnnouncements.Priority",
+        name: "priority",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "AnnouncementPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "announcementId",
+        type: "uint256",
+      },
+    ],
+    name: "AnnouncementWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "publisher",
+        type: "address",
+      },
+    ],
+    name: "PublisherAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "publisher",
+        type: "address",
+      },
+    ],
+    name: "PublisherRemoved",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_CONTENT_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_TITLE_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "publisher",
+        type: "address",
+      },
+    ],
+    name: "addPublisher",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "announcementCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "announcementId",
+        type: "uint256",
+      },
+    ],
+    name: "getAnnouncement",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "publisher",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "title",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "content",
+            type: "string",
+          },
+          {
+            internalType: "enum CraftingAnnouncements.Priority",
+            name: "priority",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "expiresAt",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "withdrawn",
+            type: "bool",
+          },
+        ],
+        internalType: "struct CraftingAnnouncements.Announcement",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getAnnouncements",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "publisher",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "title",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "content",
+            type: "string",
+          },
+          {
+            internalType: "enum CraftingAnnouncements.Priority",
+            name: "priority",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "expiresAt",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "withdrawn",
+            type: "bool",
+          },
+        ],
+        internalType: "struct CraftingAnnouncements.Announcement[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "announcementId",
+        type: "uint256",
+      },
+    ],
+    name: "isActive",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isPublisher",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "title",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "content",
+        type: "string",
+      },
+      {
+        internalType: "enum CraftingAnnouncements.Priority",
+        name: "priority",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "publish",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "publishers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "publisher",
+        type: "address",
+      },
+    ],
+    name: "removePublisher",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "announcementId",
+        type: "uint256",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234610027575f80546001600160a01b03191633179055610e71908161002c8239f35b5f80fdfe6080806040526004361015610012575f80fd5b5f3560e01c90816305b746b514610982575080630a4d85cd146109415780632e1a7d4d146108b15780632ef9a1601461089657806341859ac81461085d5780636fa8cf3314610840578063763f323d146107d357806382afd23b1461076157806383b16152146102c35780638da5cb5b1461029c578063ab2a57791461021a578063ae61c5ae146101b0578063d16cdae1146101345763f2fde38b146100b6575f80fd5b34610130576020366003190112610130576004356001600160a01b0381811691829003610130575f5490811680330361011e5782907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a36001600160a01b031916175f55005b6040516330cd747160e01b8152600490fd5b5f80fd5b3461013057602036600319011261013057600435610150610bac565b505f818152600260205260409020600101546001600160a01b03161561019e575f52600260205261019a61018660405f20610cd4565b604051918291602083526020830190610a15565b0390f35b60405163887da63760e01b8152600490fd5b34610130576020366003190112610130576004356001600160a01b0381811691829003610130575f5416330361011e57805f52600160205260405f2060ff1981541690557f215ef528757ca84646fb5c401012a31bcbf1f99487a51e57a57a0c0afa0d3dd25f80a2005b3461013057604036600319011261013057610239602435600435610d5d565b60405160209160208201926020835281518094526040830193602060408260051b8601019301915f955b8287106102705785850386f35b90919293828061028c600193603f198a82030186528851610a15565b9601920196019592919092610263565b34610130575f366003190112610130575f546040516001600160a01b039091168152602090f35b346101305760a03660031901126101305760043567ffffffffffffffff8111610130576102f490369060040161099c565b60243567ffffffffffffffff81116101305761031490369060040161099c565b9290600360443510156101305761032a33610a9b565b1561074f5782158015610745575b61071c578315801561073a575b61071c5760843515158061072e575b61071c57600354935f1985146107085761039261039e93600187016003556040519561037f87610acb565b6001880187523360208801523691610b0a565b60408501523691610b0a565b60608201526103b260443560808301610b50565b60643560a08201524260c082015260843560e08201525f610100820152600182015f52600260205260405f20815181556001810160018060a01b036020840151166bffffffffffffffffffffffff60a01b825416179055604082015192835167ffffffffffffffff811161063a5761042d6002840154610b5c565b601f81116106c4575b506020601f82116001146106595781929394955f9261064e575b50508160011b915f199060031b1c19161760028301555b606083015192835167ffffffffffffffff811161063a5761048b6003850154610b5c565b601f81116105f6575b506020601f821160011461058b5781929394955f92610580575b50508160011b915f199060031b1c19161760038401555b608081015160048401600382101561056c57610100600860209660ff938419958587835416911617905560a0860151600582015560c0860151600682015560e0860151600782015501930151151591835416911617905560405161052b81604435610a08565b608435838201526064359033907fea8aaa13db579ecc639de25de374c4697700ebf361d0149ec915959a904ab27960406001860192a4600160405191018152f35b634e487b7160e01b5f52602160045260245ffd5b0151905085806104ae565b600385015f5260205f20905f5b601f19841681106105de575060019394959683601f198116106105c6575b505050811b0160038401556104c5565b01515f1960f88460031b161c191690558580806105b6565b9091602060018192858b015181550193019101610598565b600385015f5260205f20601f830160051c810160208410610633575b601f830160051c82018110610628575050610494565b5f8155600101610612565b5080610612565b634e487b7160e01b5f52604160045260245ffd5b015190508580610450565b600284015f5260205f20905f5b601f19841681106106ac575060019394959683601f19811610610694575b505050811b016002830155610467565b01515f1960f88460031b161c19169055858080610684565b9091602060018192858b015181550193019101610666565b600284015f5260205f20601f830160051c810160208410610701575b601f830160051c820181106106f6575050610436565b5f81556001016106e0565b50806106e0565b634e487b7160e01b5f52601160045260245ffd5b604051633f1d9e4560e11b8152600490fd5b50426084351115610354565b506103e88411610345565b5060508311610338565b604051633664441d60e11b8152600490fd5b34610130576020366003190112610130576004355f90815260026020526040902060018101546001600160a01b03161561019e578060ff60086020930154161590816107b3575b506040519015158152f35b600701548015915081156107c9575b50826107a8565b90504210826107c2565b34610130576020366003190112610130576004356001600160a01b0381811691829003610130575f5416330361011e57805f52600160205260405f20600160ff198254161790557f466d40d3c5afb07f32aa87fa68d587f144c6fee2dfb883b3363937d5427e04425f80a2005b34610130575f366003190112610130576020600354604051908152f35b34610130576020366003190112610130576004356001600160a01b03811681036101305761088c602091610a9b565b6040519015158152f35b34610130575f36600319011261013057602060405160508152f35b34610130576020366003190112610130576004355f81815260026020526040902060018101546001600160a01b03908116801561019e573314159081610933575b5061074f57600801805460ff811661071c5760ff191660011790557fb490fc0b85b183f9f42f6c164f72d10cc75330f28de4da6d090b1d956e7922605f80a2005b90505f5416331415836108f2565b34610130576020366003190112610130576004356001600160a01b03811690819003610130575f526001602052602060ff60405f2054166040519015158152f35b34610130575f36600319011261013057806103e860209252f35b9181601f840112156101305782359167ffffffffffffffff8311610130576020838186019501011161013057565b91908251928382525f5b8481106109f4575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016109d4565b90600382101561056c5752565b90610a5b610a496101208451845260018060a01b0360208601511660208501526040850151908060408601528401906109ca565b606084015183820360608501526109ca565b91610a6e60808201516080840190610a08565b60a081015160a083015260c081015160c083015260e081015160e083015261010080910151151591015290565b5f546001600160a01b0391821691168114908115610ab7575090565b90505f52600160205260ff60405f20541690565b610120810190811067ffffffffffffffff82111761063a57604052565b90601f8019910116810190811067ffffffffffffffff82111761063a57604052565b92919267ffffffffffffffff821161063a5760405191610b34601f8201601f191660200184610ae8565b829481845281830111610130578281602093845f960137010152565b600382101561056c5752565b90600182811c92168015610b8a575b6020831014610b7657565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610b6b565b67ffffffffffffffff811161063a5760051b60200190565b60405190610bb982610acb565b5f61010083828152826020820152606060408201526060808201528260808201528260a08201528260c08201528260e08201520152565b9190820180921161070857565b9190820391821161070857565b8051821015610c1e5760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b9060405191825f8254610c4481610b5c565b908184526020946001916001811690815f14610cb25750600114610c74575b505050610c7292500383610ae8565b565b5f90815285812095935091905b818310610c9a575050610c7293508201015f8080610c63565b85548884018501529485019487945091830191610c81565b92505050610c7294925060ff191682840152151560051b8201015f8080610c63565b90604051610ce181610acb565b61010060ff600883958054855260018060a01b036001820154166020860152610d0c60028201610c32565b6040860152610d1d60038201610c32565b6060860152610d358360048301541660808701610b50565b600581015460a0860152600681015460c0860152600781015460e08601520154161515910152565b91906003549081841015610e3d5781610d768286610bf0565b1115610e2d57505b610d888382610bfd565b90610d9282610b94565b604092610da26040519283610ae8565b808252610db1601f1991610b94565b015f5b818110610e165750508094805b838110610dcf575050505050565b6001810190818111610708576001915f526002602052610e0f865f20610dfe610df88685610bfd565b91610cd4565b610e088288610c0a565b5285610c0a565b5001610dc1565b602090610e21610bac565b82828601015201610db4565b610e38915083610bf0565b610d7e565b505090506040516020810181811067ffffffffffffffff82111761063a576040525f81529056fea164736f6c6343000818000a";
+
+type CraftingAnnouncementsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CraftingAnnouncementsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CraftingAnnouncements__factory extends ContractFactory {
+  constructor(...args: CraftingAnnouncementsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      CraftingAnnouncements & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): CraftingAnnouncements__factory {
+    return super.connect(runner) as CraftingAnnouncements__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CraftingAnnouncementsInterface {
+    return new Interface(_abi) as CraftingAnnouncementsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CraftingAnnouncements {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as CraftingAnnouncements;
+  }
+}
@@ -0,0 +1,480 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  CraftingGold,
+  CraftingGoldInterface,
+} from "../../../contracts/Crafting_Gold.sol/CraftingGold";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "allowance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "ERC20InsufficientAllowance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "ERC20InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidSpender",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FaucetDisabled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "FaucetUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "FAUCET_AMOUNT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "allowance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "faucet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "faucetEnabled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "setFaucetEnabled",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60803462000333576040906001600160401b0390808301828111828210176200031f578352600d81526020916c10dc98599d1a5b99c811dbdb19609a1b83830152835192848401848110838211176200031f5785526004938481526311d3d31160e21b828201528351908382116200030c576003928354926001968785811c9516801562000301575b83861014620002ee578190601f958681116200029b575b50839086831160011462000238575f926200022c575b50505f1982871b1c191690871b1784555b8151948511620002195786548681811c911680156200020e575b82821014620001fb57838111620001b3575b50809285116001146200014957509383949184925f956200013d575b50501b925f19911b1c19161790555b600580546001600160a01b03191633179055516108f49081620003388239f35b015193505f806200010e565b92919084601f198116885f52855f20955f905b898383106200019857505050106200017e575b50505050811b0190556200011d565b01519060f8845f19921b161c191690555f8080806200016f565b8587015189559097019694850194889350908101906200015c565b875f52815f208480880160051c820192848910620001f1575b0160051c019087905b828110620001e5575050620000f2565b5f8155018790620001d5565b92508192620001cc565b602288634e487b7160e01b5f525260245ffd5b90607f1690620000e0565b604187634e487b7160e01b5f525260245ffd5b015190505f80620000b5565b90899350601f19831691885f52855f20925f5b878282106200028457505084116200026c575b505050811b018455620000c6565b01515f1983891b60f8161c191690555f80806200025e565b8385015186558d979095019493840193016200024b565b909150865f52835f208680850160051c820192868610620002e4575b918b91869594930160051c01915b828110620002d55750506200009f565b5f81558594508b9101620002c5565b92508192620002b7565b602289634e487b7160e01b5f525260245ffd5b94607f169462000088565b604186634e487b7160e01b5f525260245ffd5b634e487b7160e01b5f52604160045260245ffd5b5f80fdfe6080604081815260049182361015610015575f80fd5b5f3560e01c90816306fdde03146106c057508063095ea7b31461061857806318160ddd146105fa57806323b872dd14610508578063313ce567146104ed57806340c10f191461043f5780635d1c3f041461041957806370a08231146103e357806376697640146103c05780638da5cb5b146103985780638f303e961461031357806395d89b41146101f4578063a9059cbb146101c4578063dd62ed3e1461017b5763de5f72fd146100c4575f80fd5b34610177575f3660031901126101775760ff60055460a01c161561016a57331561015457600254683635c9adc5dea00000928382018092116101415750600255335f525f602052805f20828154019055519081525f7fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60203393a3005b601190634e487b7160e01b5f525260245ffd5b905f602492519163ec442f0560e01b8352820152fd5b5163e87ab86760e01b8152fd5b5f80fd5b50346101775780600319360112610177576020906101976107e1565b61019f6107f7565b9060018060a01b038091165f5260018452825f2091165f528252805f20549051908152f35b50346101775780600319360112610177576020906101ed6101e36107e1565b602435903361080d565b5160018152f35b5034610177575f366003190112610177578051905f835460018160011c9060018316928315610309575b60209384841081146102f6578388529081156102da5750600114610286575b505050829003601f01601f191682019267ffffffffffffffff841183851017610273575082918261026f92528261079a565b0390f35b604190634e487b7160e01b5f525260245ffd5b5f878152929350837f8a35acfbc15ff81a39ae7d344fd709f28e8600b4aa8c65c6b64bfe7fe36bd19b5b8385106102c657505050508301015f808061023d565b8054888601830152930192849082016102b0565b60ff1916878501525050151560051b84010190505f808061023d565b602289634e487b7160e01b5f525260245ffd5b91607f169161021e565b50346101775760203660031901126101775781359182151580930361017757600554906001600160a01b038216330361038a5760ff60a01b19821660a085901b60ff60a01b161760055582518481527f3e1a5297f6ac7c644c88f9e2e6c671ab840e770d2557c7f36e4dfb79421610f490602090a1005b82516330cd747160e01b8152fd5b5034610177575f3660031901126101775760055490516001600160a01b039091168152602090f35b5034610177575f3660031901126101775760209051683635c9adc5dea000008152f35b5034610177576020366003190112610177576020906001600160a01b036104086107e1565b165f525f8252805f20549051908152f35b5034610177575f3660031901126101775760209060ff60055460a01c1690519015158152f35b50346101775780600319360112610177576104586107e1565b60055460243592916001600160a01b0391821633036104dd57169283156104c8576002549083820180921161014157505f927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9260209260025585855284835280852082815401905551908152a3005b5f602492519163ec442f0560e01b8352820152fd5b82516330cd747160e01b81528590fd5b5034610177575f366003190112610177576020905160128152f35b509034610177576060366003190112610177576105236107e1565b61052b6107f7565b906044359260018060a01b038216805f526001602052855f20335f52602052855f2054915f198310610566575b6020876101ed88888861080d565b8583106105ce5781156105b85733156105a257505f908152600160209081528682203383528152908690209185900390915582906101ed610558565b6024905f885191634a1406b160e11b8352820152fd5b6024905f88519163e602df0560e01b8352820152fd5b8651637dc7a0d960e11b8152339181019182526020820193909352604081018690528291506060010390fd5b5034610177575f366003190112610177576020906002549051908152f35b50346101775780600319360112610177576106316107e1565b6024359033156106aa576001600160a01b03169081156106945760209350335f5260018452825f20825f52845280835f205582519081527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925843392a35160018152f35b8251634a1406b160e11b81525f81860152602490fd5b825163e602df0560e01b81525f81860152602490fd5b91905034610177575f366003190112610177575f60035460018160011c9060018316928315610790575b60209384841081146102f6578388529081156102da575060011461073a57505050829003601f01601f191682019267ffffffffffffffff841183851017610273575082918261026f92528261079a565b60035f908152929350837fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b5b83851061077c57505050508301015f808061023d565b805488860183015293019284908201610766565b91607f16916106ea565b602080825282518183018190529093925f5b8281106107cd57505060409293505f838284010152601f8019910116010190565b8181018601518482016040015285016107ac565b600435906001600160a01b038216820361017757565b602435906001600160a01b038216820361017757565b916001600160a01b038084169283156108cf57169283156108b757825f525f60205260405f2054908282106108855750817fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef92602092855f525f84520360405f2055845f5260405f20818154019055604051908152a3565b60405163391434e360e21b81526001600160a01b03919091166004820152602481019190915260448101829052606490fd5b60405163ec442f0560e01b81525f6004820152602490fd5b604051634b637e8f60e11b81525f6004820152602490fdfea164736f6c6343000818000a";
+
+type CraftingGoldConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CraftingGoldConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CraftingGold__factory extends ContractFactory {
+  constructor(...args: CraftingGoldConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      CraftingGold & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CraftingGold__factory {
+    return super.connect(runner) as CraftingGold__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CraftingGoldInterface {
+    return new Interface(_abi) as CraftingGoldInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CraftingGold {
+    return new Contract(address, _abi, runner) as unknown as CraftingGold;
+  }
+}
@@ -0,0 +1,864 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  CraftingMaterials,
+  CraftingMaterialsInterface,
+} from "../../../contracts/Crafting_Materials.sol/CraftingMaterials";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC1155InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC1155InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idsLength",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "valuesLength",
+        type: "uint256",
+      },
+    ],
+    name: "ERC1155InvalidArrayLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "ERC1155InvalidOperator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC1155InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC1155InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC1155MissingApprovalForAll",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FaucetDisabled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMaterial",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MaterialNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotConsumer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "consumer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "ConsumerUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "FaucetUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "materialId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "tier",
+        type: "uint8",
+      },
+    ],
+    name: "MaterialAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "values",
+        type: "uint256[]",
+      },
+    ],
+    name: "TransferBatch",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "TransferSingle",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "value",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "URI",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "FAUCET_AMOUNT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_NAME_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_TIER",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "tier",
+        type: "uint8",
+      },
+    ],
+    name: "addMaterial",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "accounts",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    name: "balanceOfBatch",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "amounts",
+        type: "uint256[]",
+      },
+    ],
+    name: "consume",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "consumers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    name: "faucet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "faucetEnabled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getCatalog",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "uint8",
+            name: "tier",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct CraftingMaterials.Material[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "materialId",
+        type: "uint256",
+      },
+    ],
+    name: "getMaterial",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "uint8",
+            name: "tier",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct CraftingMaterials.Material",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "idOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "materialCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "amounts",
+        type: "uint256[]",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "values",
+        type: "uint256[]",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeBatchTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "consumer",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "setConsumer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "setFaucetEnabled",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "uri",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608034620000f15760208101906001600160401b03821181831017620000dd575f9160405252600254600190600181811c91168015620000d2575b6020821014620000be57601f811162000074575b5f600255600380546001600160a01b03191633179055604051611d9f9081620000f68239f35b60025f52601f0160051c7f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace908101905b818110620000b357506200004e565b5f81558201620000a4565b634e487b7160e01b5f52602260045260245ffd5b90607f16906200003a565b634e487b7160e01b5f52604160045260245ffd5b5f80fdfe60806040526004361015610011575f80fd5b5f3560e01c8062fdd58e1461019357806301ffc9a71461018e57806302c9ef45146101895780630bf53668146101845780630e89341c1461017f5780632bb885961461017a5780632eb2c2d6146101755780634e1273f4146101705780635d1c3f041461016b5780635fd846f21461016657806360fa9dba14610161578063766976401461015c57806376d130f11461015757806386074985146101525780638da5cb5b1461014d5780638f303e96146101485780639727756a14610143578063a22cb4651461013e578063af3a19c714610139578063c0bf3e2314610134578063d472f0381461012f578063da6d89091461012a578063e985e9c5146101255763f242432a14610120575f80fd5b611210565b6111b4565b61112f565b611101565b61104d565b610fa2565b610eef565b610e99565b610e24565b610dfc565b610de2565b610beb565b610b71565b6109d9565b610969565b610917565b61085d565b6106f6565b6104dc565b6103c9565b61034e565b6102b3565b610236565b6101dc565b600435906001600160a01b03821682036101ae57565b5f80fd5b602435906001600160a01b03821682036101ae57565b35906001600160a01b03821682036101ae57565b346101ae5760403660031901126101ae57602061021b6101fa610198565b6024355f525f835260405f209060018060a01b03165f5260205260405f2090565b54604051908152f35b6001600160e01b03198116036101ae57565b346101ae5760203660031901126101ae57602060043561025581610224565b63ffffffff60e01b16636cdb3d1360e11b8114908115610293575b8115610282575b506040519015158152f35b6301ffc9a760e01b1490505f610277565b6303a24d0760e21b81149150610270565b6024359081151582036101ae57565b346101ae5760403660031901126101ae576102cc610198565b6102d46102a4565b60035490916001600160a01b03918216330361033c577f4348a5176066408d202089f990499bee33e5b638962dc30d8f8d03b1efce26f5916020911692835f52600482526103318160405f209060ff801983541691151516179055565b6040519015158152a2005b6040516330cd747160e01b8152600490fd5b346101ae5760203660031901126101ae576001600160a01b0361036f610198565b165f526004602052602060ff60405f2054166040519015158152f35b91908251928382525f5b8481106103b5575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201610395565b346101ae576020806003193601126101ae57604051905f82600254916103ee83611322565b92838352600190856001821691825f1461048c575050600114610431575b50610419925003836105d7565b61042d60405192828493845283019061038b565b0390f35b84915060025f527f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace905f915b85831061047457505061041993508201015f61040c565b8054838901850152879450869390920191810161045d565b60ff19168582015261041995151560051b85010192505f915061040c9050565b9181601f840112156101ae578235916001600160401b0383116101ae576020808501948460051b0101116101ae57565b346101ae5760203660031901126101ae576004356001600160401b0381116101ae5761050c9036906004016104ac565b9060ff60035460a01c1615610576576105258282611716565b61052e826113fa565b915f5b8181106105605761055e8461054736858761061e565b9060405191610555836105bc565b5f835233611745565b005b80600a61056f6001938761142c565b5201610531565b60405163e87ab86760e01b8152600490fd5b634e487b7160e01b5f52604160045260245ffd5b606081019081106001600160401b038211176105b757604052565b610588565b602081019081106001600160401b038211176105b757604052565b90601f801991011681019081106001600160401b038211176105b757604052565b604051906106058261059c565b565b6001600160401b0381116105b75760051b60200190565b929161062982610607565b9161063760405193846105d7565b829481845260208094019160051b81019283116101ae57905b82821061065d5750505050565b81358152908301908301610650565b9080601f830112156101ae578160206106879335910161061e565b90565b6001600160401b0381116105b757601f01601f191660200190565b9291926106b18261068a565b916106bf60405193846105d7565b8294818452818301116101ae578281602093845f960137010152565b9080601f830112156101ae57816020610687933591016106a5565b346101ae5760a03660031901126101ae5761070f610198565b6107176101b2565b90604435916001600160401b03908184116101ae5761073b6004943690860161066c565b906064358381116101ae57610753903690870161066c565b926084359081116101ae5761076b90369087016106db565b936001600160a01b038082169033821415806107f6575b6107c9578316156107b2571561079c5761055e955061185e565b604051626a0d4560e21b81525f81880152602490fd5b604051632bfa23e760e11b81525f81890152602490fd5b6040805163711bec9160e11b815233818b019081526001600160a01b038616602082015290918291010390fd5b505f82815260016020908152604080832033845290915290205460ff1615610782565b9081518082526020808093019301915f5b828110610838575050505090565b83518552938101939281019260010161082a565b906020610687928181520190610819565b346101ae5760403660031901126101ae576004356001600160401b038082116101ae57366023830112156101ae57816004013561089981610607565b926108a760405194856105d7565b8184526020916024602086019160051b830101913683116101ae57602401905b82821061090057856024358681116101ae5761042d916108ee6108f492369060040161066c565b90611454565b6040519182918261084c565b83809161090c846101c8565b8152019101906108c7565b346101ae575f3660031901126101ae57602060ff60035460a01c166040519015158152f35b9181601f840112156101ae578235916001600160401b0383116101ae57602083818601950101116101ae57565b346101ae5760203660031901126101ae576004356001600160401b0381116101ae5761099c6109a391369060040161093c565b36916106a5565b602081519101205f52600660205260405f205480156109c757602090604051908152f35b6040516363c2debd60e11b8152600490fd5b346101ae576040806003193601126101ae5760049081356001600160401b0381116101ae57610a0b903690840161093c565b9060243560ff81168082036101ae576003546001600160a01b03163303610b615783158015610b57575b610b48578015908115610b3d575b50610b2e57610a533684846106a5565b6020815191012094610a6d865f52600660205260405f2090565b54610b215761042d610b0486887fcd7f19d9ace0be86ba27dfa58ff9a0fca9e73c21dcc04a05eb62f8cf46bda6d08888610b1089610aac6007546114fe565b80988197610ab983600755565b610af6610ac46105f8565b848152610ad2368a8a6106a5565b602082015260ff86168c820152610af1855f52600560205260405f2090565b611560565b5f52600660205260405f2090565b55865193849384611677565b0390a2519081529081906020820190565b845162a7805960e51b8152fd5b5050505162a7805960e51b8152fd5b60059150115f610a43565b845162a7805960e51b81528690fd5b5060208411610a35565b84516330cd747160e01b81528690fd5b346101ae575f3660031901126101ae576020604051600a8152f35b9060606003198301126101ae576004356001600160a01b03811681036101ae57916001600160401b03916024358381116101ae5782610bcd916004016104ac565b939093926044359182116101ae57610be7916004016104ac565b9091565b346101ae57610bf936610b8c565b9291335f52600491602093600460205260409260ff845f20541615610dd1578181610c2b610c3293610c3a9695611716565b369161061e565b95369161061e565b6001600160a01b038616949093908515610dbb575f8351610c5a816105bc565b528051855190818103610d9a5750505f5b8151811015610d17578060051b88848083860101519289010151610caf82610c9a855f525f60205260405f2090565b9060018060a01b03165f5260205260405f2090565b54818110610cda5791610c9a610cd392600196959403935f525f60205260405f2090565b5501610c6b565b87516303dee4c560e01b81526001600160a01b03909316838a01908152602081019190915260408101919091526060810183905281906080010390fd5b5f8787868560018151148514610d685760209081015192810151915192835282015233907fc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f629080604081015b0390a4005b905133927f4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb928291610d639183611a4c565b8451635b05999160e01b815260048101919091526024810191909152604490fd5b8251626a0d4560e21b81525f6004820152602490fd5b8351638c7dc13d60e01b8152600490fd5b346101ae575f3660031901126101ae576020604051818152f35b346101ae575f3660031901126101ae576003546040516001600160a01b039091168152602090f35b346101ae5760203660031901126101ae576004358015158091036101ae576003546001600160a01b038116330361033c5760ff60a01b191660a082901b60ff60a01b16176003556040519081527f3e1a5297f6ac7c644c88f9e2e6c671ab840e770d2557c7f36e4dfb79421610f490602090a1005b346101ae57610ea736610b8c565b9193929060018060a01b0360035416330361033c57610ed18286610c2b61055e98610ed996611716565b92369161061e565b9060405192610ee7846105bc565b5f8452611745565b346101ae5760403660031901126101ae57610f08610198565b610f106102a4565b6001600160a01b038216918215610f8b5781610f4a610f5b92335f52600160205260405f209060018060a01b03165f5260205260405f2090565b9060ff801983541691151516179055565b60405190151581527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c3160203392a3005b60405162ced3e160e81b81525f6004820152602490fd5b346101ae575f3660031901126101ae57602060405160058152f35b9081518152604060ff81610fe0602086015160606020870152606086019061038b565b9401511691015290565b6020808201906020835283518092526040830192602060408460051b8301019501935f915b84831061101f5750505050505090565b909192939495848061103d600193603f198682030187528a51610fbd565b980193019301919493929061100f565b346101ae575f3660031901126101ae5760075461106981610607565b9061107760405192836105d7565b808252601f1961108682610607565b015f5b8181106110ea5750505f5b8181106110a9576040518061042d8582610fea565b806110ce6110c96110bb6001946116c9565b5f52600560205260405f2090565b6116e4565b6110d8828661142c565b526110e3818561142c565b5001611094565b6020906110f56116aa565b82828701015201611089565b346101ae575f3660031901126101ae576020600754604051908152f35b906020610687928181520190610fbd565b346101ae5760203660031901126101ae5760043561114b6116aa565b50805f5260056020526040805f2054156111a45761042d915f526005602052805f209060ff600282519361117e8561059c565b8054855261118e6001820161135a565b602086015201541681830152519182918261111e565b516363c2debd60e11b8152600490fd5b346101ae5760403660031901126101ae57602060ff6112046111d4610198565b6111dc6101b2565b6001600160a01b039182165f9081526001865260408082209290931681526020919091522090565b54166040519015158152f35b346101ae5760a03660031901126101ae57611229610198565b6112316101b2565b906084356001600160401b0381116101ae576112519036906004016106db565b906001600160a01b038082169033821415806112ff575b6112d8578416156112c057156112a95761055e926040519060018252604435602083015260408201926001845260643560608401526080830160405261185e565b604051626a0d4560e21b81525f6004820152602490fd5b604051632bfa23e760e11b81525f6004820152602490fd5b60405163711bec9160e11b81523360048201526001600160a01b0384166024820152604490fd5b505f82815260016020908152604080832033845290915290205460ff1615611268565b90600182811c92168015611350575b602083101461133c57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611331565b9060405191825f825461136c81611322565b908184526020946001916001811690815f146113d8575060011461139a575b505050610605925003836105d7565b5f90815285812095935091905b8183106113c057505061060593508201015f808061138b565b855488840185015294850194879450918301916113a7565b9250505061060594925060ff191682840152151560051b8201015f808061138b565b9061140482610607565b61141160405191826105d7565b8281528092611422601f1991610607565b0190602036910137565b80518210156114405760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b919091805183518082036114c857505061146e81516113fa565b905f5b81518110156114c157806114af60019260051b5f602080808489010151938b01015182525260405f209060018060a01b03165f5260205260405f2090565b546114ba828661142c565b5201611471565b5090925050565b604051635b05999160e01b815260048101919091526024810191909152604490fd5b634e487b7160e01b5f52601160045260245ffd5b5f19811461150c5760010190565b6114ea565b601f821161151e57505050565b5f5260205f20906020601f840160051c83019310611556575b601f0160051c01905b81811061154b575050565b5f8155600101611540565b9091508190611537565b90805182556001808301906020808401518051926001600160401b0384116105b757611596846115908754611322565b87611511565b602092601f85116001146115fc575050936002936115d5846115e0956040956106059a995f926115f1575b50508160011b915f199060031b1c19161790565b90555b015160ff1690565b91019060ff1660ff19825416179055565b015190505f806115c1565b929190601f19851690611612875f5260205f2090565b945f915b8383106116605750505084604094610605999894600298946115e09860019510611648575b505050811b0190556115d8565b01515f1960f88460031b161c191690555f808061163b565b848601518755958601959481019491810191611616565b9160608160ff9260209497969760408752816040880152838701375f828287010152601f80199101168401019416910152565b604051906116b78261059c565b5f604083828152606060208201520152565b906001820180921161150c57565b9190820180921161150c57565b906040516116f18161059c565b604060ff60028395805485526117096001820161135a565b6020860152015416910152565b5f5b82811061172457505050565b600581811b8301355f526020526040805f2054156111a45750600101611718565b6001600160a01b0381169390919084156112c05781518451908181036114c85750505f5b82518110156117ae578060019160051b6117a661179e87610c9a602080868b010151958c010151945f525f60205260405f2090565b9182546116d7565b905501611769565b5092919360018251145f14611823576020828101518482015160408051928352928201525f9133917fc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f629190a45b80516001036118195790602080610605959301519101519133611d26565b6106059333611b31565b5f6040517f4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb339180611856888883611a4c565b0390a46117fb565b9491909181518451908181036114c85750505f5b825181101561195757600581901b83810160209081015191870101516001600160a01b03929186908a85166118d7575b60019482166118b5575b50505001611872565b6118cd91610c9a61179e925f525f60205260405f2090565b90555f85816118ac565b91929390506118f18a610c9a845f525f60205260405f2090565b5483811061192057918791846001969594036119188d610c9a855f525f60205260405f2090565b5594506118a2565b6040516303dee4c560e01b81526001600160a01b038c16600482015260248101919091526044810184905260648101839052608490fd5b5094919392909360018551145f14611a01576020858101518382015160408051928352928201526001600160a01b03838116929086169133917fc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f6291a45b6001600160a01b0381166119ca575b5050505050565b84516001036119f0576020806119e69601519201519233611d5b565b5f808080806119c3565b6119fc94919233611c2a565b6119e6565b6040516001600160a01b03828116919085169033907f4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb9080611a44888c83611a4c565b0390a46119b4565b9091611a6361068793604084526040840190610819565b916020818403910152610819565b908160209103126101ae575161068781610224565b92611ab46106879593611ac29360018060a01b031686525f602087015260a0604087015260a0860190610819565b908482036060860152610819565b91608081840391015261038b565b93906106879593611ab491611ac29460018060a01b03809216885216602087015260a0604087015260a0860190610819565b3d15611b2c573d90611b138261068a565b91611b2160405193846105d7565b82523d5f602084013e565b606090565b9293919093843b611b43575050505050565b602091611b66604051948593849363bc197c8160e01b9889865260048601611a86565b03815f6001600160a01b0388165af15f9181611bf9575b50611bbc5782611b8b611b02565b8051919082611bb557604051632bfa23e760e11b81526001600160a01b0383166004820152602490fd5b6020915001fd5b6001600160e01b03191603611bd657505f808080806119c3565b604051632bfa23e760e11b81526001600160a01b03919091166004820152602490fd5b611c1c91925060203d602011611c23575b611c1481836105d7565b810190611a71565b905f611b7d565b503d611c0a565b939290949194853b611c3f575b505050505050565b611c62602093604051958694859463bc197c8160e01b998a875260048701611ad0565b03815f6001600160a01b0388165af15f9181611ca2575b50611c875782611b8b611b02565b6001600160e01b03191603611bd657505f8080808080611c37565b611cbc91925060203d602011611c2357611c1481836105d7565b905f611c79565b909260a0926106879594600180861b031683525f602084015260408301526060820152816080820152019061038b565b919261068795949160a094600180871b03809216855216602084015260408301526060820152816080820152019061038b565b9293919093843b611d38575050505050565b602091611b66604051948593849363f23a6e6160e01b9889865260048601611cc3565b939290949194853b611d6f57505050505050565b611c62602093604051958694859463f23a6e6160e01b998a875260048701611cf356fea164736f6c6343000818000a";
+
+type CraftingMaterialsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CraftingMaterialsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CraftingMaterials__factory extends ContractFactory {
+  constructor(...args: CraftingMaterialsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      CraftingMaterials & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CraftingMaterials__factory {
+    return super.connect(runner) as CraftingMaterials__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CraftingMaterialsInterface {
+    return new Interface(_abi) as CraftingMaterialsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CraftingMaterials {
+    return new Contract(address, _abi, runner) as unknown as CraftingMaterials;
+  }
+}
@@ -0,0 +1,1434 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  CraftingQualityFHE,
+  CraftingQualityFHEInterface,
+} from "../../../contracts/Crafting_Quality_FHE.sol/CraftingQualityFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchNotActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotDue",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotSettled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchStillOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchConfig",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidDecryption",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidModel",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidPrivacyConfig",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidRequest",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidThreshold",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TooFewSubmissions",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "qualityScore",
+        type: "uint32",
+      },
+    ],
+    name: "BatchArchived",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "closedAt",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "duration",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sizeLimit",
+        type: "uint256",
+      },
+    ],
+    name: "BatchConfigUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "cooldown",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "crafter",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedQuality",
+        type: "bytes32",
+      },
+    ],
+    name: "CraftingSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "qualityScore",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minBatchSubmissions",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minStatsSubmissions",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "noiseBound",
+        type: "uint32",
+      },
+    ],
+    name: "DecryptionPrivacyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+    ],
+    name: "MasterpieceThresholdUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "bonus",
+        type: "uint32",
+      },
+    ],
+    name: "ModelRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newVersion",
+        type: "uint256",
+      },
+    ],
+    name: "ModelVersionUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "paused",
+        type: "bool",
+      },
+    ],
+    name: "PausedSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "maxQuality",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "minQuality",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "masterpieceCount",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[5]",
+        name: "histogram",
+        type: "uint32[5]",
+      },
+    ],
+    name: "StatsDecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+    ],
+    name: "StatsDecryptionRequested",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_BATCH_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_MASTERPIECE_THRESHOLD",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_MIN_STATS_SUBMISSIONS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "HISTOGRAM_BUCKETS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "HISTOGRAM_BUCKET_WIDTH",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_QUALITY",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_INTERVAL",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "archiveBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchDuration",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchSizeLimit",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "closedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "submissionCount",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "qualityAccumulator",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "decryptionRequestedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "qualityScore",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "archived",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "modelVersion",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "noiseBound",
+        type: "uint32",
+      },
+      {
+        internalType: "euint32",
+        name: "noisyAccumulator",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "closeDueBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "completeBatchQualityDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "completeBatchStatsDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchStats",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint32",
+            name: "maxQuality",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "minQuality",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "masterpieceCount",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32[5]",
+            name: "histogram",
+            type: "bytes32[5]",
+          },
+          {
+            internalType: "uint32",
+            name: "masterpieceThreshold",
+            type: "uint32",
+          },
+          {
+            internalType: "uint256",
+            name: "decryptionRequestedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "revealed",
+            type: "bool",
+          },
+          {
+            components: [
+              {
+                internalType: "uint32",
+                name: "maxQuality",
+                type: "uint32",
+              },
+              {
+                internalType: "uint32",
+                name: "minQuality",
+                type: "uint32",
+              },
+              {
+                internalType: "uint32",
+                name: "masterpieceCount",
+                type: "uint32",
+              },
+              {
+                internalType: "uint32[5]",
+                name: "histogram",
+                type: "uint32[5]",
+              },
+            ],
+            internalType: "struct CraftingQualityFHE.RevealedStats",
+            name: "revealedStats",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct CraftingQualityFHE.BatchStats",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastActionAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "masterpieceThreshold",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minBatchSubmissions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minStatsSubmissions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "modelVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "noiseBound",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openNewBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "providers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "qualityModels",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "bonus",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "registered",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "bonus",
+        type: "uint32",
+      },
+    ],
+    name: "registerModel",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchQualityDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchStatsDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "duration",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "sizeLimit",
+        type: "uint256",
+      },
+    ],
+    name: "setBatchConfig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "minSubmissions",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "minStats",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "bound",
+        type: "uint32",
+      },
+    ],
+    name: "setDecryptionPrivacy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+    ],
+    name: "setMasterpieceThreshold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newVersion",
+        type: "uint256",
+      },
+    ],
+    name: "setModelVersion",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_paused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "cooldown",
+        type: "uint256",
+      },
+    ],
+    name: "setUserCooldown",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "statsDecryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "submissionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedQuality",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitCraftingQuality",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "userCooldowns",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060409080825234620003ec57620000188162000489565b5f81525f606060209282848201528285820152015281516200003a8162000489565b7350157cffd6bbfa2dece204a89ec419c23ef5755d808252606073cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6992838582015273a02cda4ca3a71d7c46997716f4283aa851c28812908187820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac928391015260018060a01b0319927f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970193838554161784557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55600190815f526008835260ff845f2054851c1662000478578351606081016001600160401b03811182821017620004645785528281528381015f815285820190848252845f5260088652865f209163ffffffff8094511668ff000000000000000067ffffffff00000000855494518a1b16925115158a1b169260018060481b0319161717179055827f5082a220b0dc1cbc497f9d5fec27b50de3b96038164c6b7de1653e22dba7c7f18680518381525f88820152a28260075562015180600a556064600b55645a0000000067ffffffff0000000019600e541617600e5582600c55600a600d556006545f198114620004505783019283600655835f5260039360038652865f209081558181018260ff19825416179055426002820155600a5480155f146200044457505f5b6006820155600754600982015582600e541694600a820163ffffffff19968782541617905560018060a01b0380865416895189816044815f639cd07acb60e01b96878352816004840152600460248401525af19182156200043a578a915f9362000402575b5060445f939462000302600580990196808855620004c9565b506006548552600f84528d85209a5416918d51948593849283528b6004840152600460248401525af1908115620003f8575f91620003c1575b506200034781620004c9565b508154875584870155805460028701555f5b838110620003b1575050505050600890600e54851c169101918254161790557f217ff5db260372f7ab32608612dc3d218db8f3644666e2881c29c1e771e253bf600654918351428152a2516132689081620005518239f35b8154878201840155840162000359565b90508881813d8311620003f0575b620003db8183620004a5565b81010312620003ec57515f6200033b565b5f80fd5b503d620003cf565b8a513d5f823e3d90fd5b8281939294503d831162000432575b6200041d8183620004a5565b81010312620003ec57519089906044620002e9565b503d62000411565b8b513d5f823e3d90fd5b42018042111562000284575b634e487b7160e01b5f52601160045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b83516309d5149f60e11b8152600490fd5b608081019081106001600160401b038211176200046457604052565b601f909101601f19168101906001600160401b038211908210176200046457604052565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b15620003ec575f8091604460405180948193635ca4b5b160e11b83528760048401523060248401525af18015620005455762000530575090565b6001600160401b038111620004645760405290565b6040513d5f823e3d90fdfe6080806040526004361015610012575f80fd5b5f905f3560e01c908163022c892b1461269157508063049c80a51461253c5780630787bc27146124ff5780630813f987146124d65780630a763da1146124b95780630baf660b1461249c57806316c38b3c14612429578063193a47a71461240e5780631caa85b7146123655780631eb5eb661461232d57806320d57f86146122c057806324e4c043146122a357806325deb4d91461224257806329bceb1c1461149b5780632a1ebf96146121b5578063416faa71146121345780634279a18614611ed857806343b7d08814611ebd5780634534ab3714611ea257806346b4f70214611e6a57806346e2577a14611dff57806354c90e90146119a45780635c975abb146119805780635d37b3911461195b5780636ec02be91461193e57806374707e46146118f45780637dd73431146117fe5780638a355a57146117965780638ca133c5146116bd5780638da5cb5b146116965780639c9563a214611679578063b32c4d8d146115a8578063b65e894114611545578063b6789fcb146114d1578063c0368740146114b6578063cfdbf2541461149b578063d2c411d314611452578063da1f12ab14611436578063de88a3c7146110dd578063e8e3ce80146110ba578063e95b8bc1146106e0578063edb3ba0b146106c2578063ee67a371146106a4578063f2fde38b1461062b578063fc6d27b1146103a7578063ffc4f741146103895763fff954b514610223575f80fd5b3461038657602036600319011261038657600435808252600380602052604083208054158015610378575b8015610367575b61033b576004810154600c54811015610319575b509060088201916501000000000065ff00000000001984541617835584600b6005928260058201550155838552600f60205260408520918583556001928660018201558660028201556003879101905b8381106102fa5787877f93541c43639936ec97a184d28e06f5726fb918440571f5064ad11551f2ae7e2c602063ffffffff8a5460081c16604051908152a280f35b806103068692846128b5565b8154905f1990871b1b19169055016102b9565b60ff6008830154161561033b57600d5411158061034d575b61033b575f610269565b604051633f9d47cb60e21b8152600490fd5b50828452600f60205260ff600a6040862001541615610331565b5060ff600882015460281c16610255565b5060ff60018201541661024e565b80fd5b50346103865780600319360112610386576020600d54604051908152f35b5034610386576103b6366127d7565b929082825260106020526040822090600282019260ff8454166106195782548015610607578152600f60205260408120956103f86103f388612d38565b612a9f565b6001850154036105f55761040d908387612ad0565b8151820161010083602083019203126105f1576040519561042d876126ef565b61043960208501612896565b875261044760408501612896565b956020880196875261045b60608601612896565b926040890193845280609f870112156105ed576040519561047b8761271d565b869061012081019283116105e957969896608001905b8282106105cb5750505086606089015260ff19906001828254161790556001600a8a019182541617905563ffffffff80600b8a01985116948582198a54161789555116916104fc83899067ffffffff0000000082549160201b169067ffffffff000000001916179055565b5196805463ffffffff60401b8960401b169063ffffffff60401b19161790558593839684975b600590818a10156105525760019160209163ffffffff8c818c5116931b92831b921b191617970198019795610522565b63ffffffff9150888b91600c8e0155549560405194855260208501521660408301526060820185905b600582106105af575050506101007ff55b395bdca8534bd1d4b4347c2cc626f7ca0c779757ce6b6c6640bfcc1cdfc991a380f35b60208060019263ffffffff86511681520193019101909161057b565b602080916105db849c9a9c612896565b815201910190989698610491565b8680fd5b8480fd5b5080fd5b6040516325c4024f60e11b8152600490fd5b6040516341abc80160e01b8152600490fd5b60405163faf8ed4f60e01b8152600490fd5b5034610386576020366003190112610386576106456126bd565b81546001600160a01b038082169233849003610692571680927f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08580a36001600160a01b03191617815580f35b6040516330cd747160e01b8152600490fd5b50346103865780600319360112610386576020604051620151808152f35b50346103865780600319360112610386576020600754604051908152f35b5034610ce8576060366003190112610ce8576001600160401b03600435604435828111610ce85736602382011215610ce8578060040135928311610ce8573660248483010111610ce857335f52600260205260ff60405f205416156110a85760ff5f5460a01c1661109657335f52600560205260405f205480155f1461108d5750610776601e5b600160205260405f205461281d565b421061107b578192825f52600360205260405f20928354156110695760ff6001850154168015801561105a575b611022575b5050335f52600c830160205260ff60405f205416610619576108236107d55f936020936024369201612774565b5f8051602061321c8339815191525460405163196d0b9b60e01b81526024803560048301523390820152608060448201529485936001600160a01b0390921692849283916084830190612f3f565b6004606483015203925af1908115610da8575f91610ff0575b505f8051602061323c833981519152546001600160a01b0316803b15610ce857604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610da857610fdd575b5061089a3082612f64565b6108a43382612f64565b6108b16005830154612e59565b60098301548552600860205260408520829063ffffffff81541660018103610f15575b505460201c63ffffffff1680610e62575b506108f39061090092612e6b565b8060058501553090612f64565b828452600f6020526040842061097a6020868354858115610e52575b8615610e44575b5f8051602061321c83398151915254604051630d8c635960e21b8152600481019390935260248301919091526001600160f81b031983166044830152909384926001600160a01b0390921691839182906064820190565b03925af18015610de7578690610e10575b61099a91508083553090612f64565b610a0b6020866001840154858115610e00575b8615610df2575b5f8051602061321c833981519152546040516304559f7160e01b8152600481019390935260248301919091526001600160f81b031983166044830152909384926001600160a01b0390921691839182906064820190565b03925af18015610de7578690610db3575b610a2e91508060018401553090612f64565b60028101610a518154610a4b63ffffffff60088601541686612fcd565b9061304b565b90555f8051602061321c83398151915254604051639cd07acb60e01b8152600160048201525f602482018190529091602091839160449183916001600160a01b03165af1908115610da8575f91610d76575b50849291865b60058110610b5257505050600c6004840193610ac585546128a7565b8555335f520160205260405f20600160ff19825416179055610ae86009546128a7565b60095533855260016020524260408620556040519081527f4fa270e6c6dd10503ec14923d10e65a28ecc1ebb9095043b89bc2aad55e0c1b660203392a354600b541115610b33575080f35b610b3c81612cee565b60065414610b475780f35b610b4f6128c4565b80f35b909180939450600182018211610d625760056001830110610bc1575b90610b8e600192610b8283600387016128b5565b90549060031b1c61304b565b610bb4610b9e83600387016128b5565b819391549060031b91821b915f19901b19161790565b9055019085939291610aa9565b50601463ffffffff6001830116028063ffffffff811603610d625790610bee63ffffffff89931686612fcd565b9382602060018060a01b035f8051602061321c8339815191525416602460405180948193630f51ccfb60e41b83528b60048401525af1908115610d57578491610d1f575b509260209184610ca195908215610d0e575b15610cff575b5f8051602061321c8339815191525460405163d99882d560e01b8152600481019390935260248301919091526001600160f81b031983166044830152909485926001600160a01b0390921691839182906064820190565b03925af1918215610cf4578892610cba575b5090610b6e565b91506020823d602011610cec575b81610cd560209383612753565b81010312610ce857905190610b8e610cb3565b5f80fd5b3d9150610cc8565b6040513d8a823e3d90fd5b50610d09826131c8565b610c4a565b9150610d19836131c8565b91610c44565b9350506020833d602011610d4f575b81610d3b60209383612753565b81010312610ce85791518892906020610c32565b3d9150610d2e565b6040513d86823e3d90fd5b634e487b7160e01b88526011600452602488fd5b90506020813d602011610da0575b81610d9160209383612753565b81010312610ce857515f610aa3565b3d9150610d84565b6040513d5f823e3d90fd5b506020813d602011610ddf575b81610dcd60209383612753565b81010312610ce857610a2e9051610a1c565b3d9150610dc0565b6040513d88823e3d90fd5b50610dfb613176565b6109b4565b9050610e0a613176565b906109ad565b506020813d602011610e3c575b81610e2a60209383612753565b81010312610ce85761099a905161098b565b3d9150610e1d565b50610e4d613176565b610923565b9050610e5c613176565b9061091c565b8115610f01575b5f8051602061321c8339815191525460405163022f65e760e31b815260048101939093526024830191909152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115610da8575f91610ecd575b506109006108e5565b90506020813d602011610ef9575b81610ee860209383612753565b81010312610ce85751610900610ec4565b3d9150610edb565b90506020610f0d613176565b919050610e69565b90915083908415610fc9575b5f8051602061321c83398151915254604051630afe14ad60e31b815260048101939093526024830191909152600160f81b6044830152602090829060649082908b906001600160a01b03165af18015610fbe578790610f88575b91905063ffffffff6108d4565b506020813d602011610fb6575b81610fa260209383612753565b81010312610ce85763ffffffff9051610f7b565b3d9150610f95565b6040513d89823e3d90fd5b90506020610fd5613176565b919050610f21565b610fe891945061270a565b5f925f61088f565b90506020813d60201161101a575b8161100b60209383612753565b81010312610ce857515f61083c565b3d9150610ffe565b91935091935061104b575b50611036612dfc565b91825f52600360205260405f20915f806107a8565b61105490612cee565b5f61102d565b5061106485612cba565b6107a3565b604051635ae7a89560e11b8152600490fd5b60405163aa9a98df60e01b8152600490fd5b61077690610767565b6040516313d0ff5960e31b8152600490fd5b604051631a40715960e11b8152600490fd5b34610ce8575f366003190112610ce857602063ffffffff600e5416604051908152f35b34610ce857602080600319360112610ce85760043560ff5f5460a01c1661109657335f526001916001815260405f2054601e810180911161142257421061107b57815f526003815260405f2060048101549081158015611411575b610607576001015460ff166113ff57600d54116113ed57815f52600f815261116260405f20612d38565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f8051602061323c833981519152549095905f906001600160a01b03908116803b15610ce8575f6040518092637d6e912360e11b82528960048301528183816111d1602482018d612a6c565b03925af18015610da8576113da575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156105f157816040518092633263b83b60e01b82528a600483015260606024830152818381611238606482018c612a6c565b63fc6d27b160e01b604483015203925af180156113cf579082916113bb575b508790527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0180865260408220546113a9578782528552604081208451916001600160401b03831161139557600160401b831161139557815483835580841061136e575b50868601918152868120905b83811061135d57898960018a61131b6112eb8c8c6112e481546128a7565b9055612a9f565b604051906112f8826126ef565b858252838201525f6040820152336060820152855f526010835260405f2061284b565b825f52600f815242600960405f200155335f52524260405f205533917fba9d47aa48b26252230c0f19218d74613ffaf56e17d2aee989b763fe6fea6b585f80a4005b8251828201559187019184016112c6565b828252848489842092830192015b82811061138a5750506112ba565b5f815501859061137c565b634e487b7160e01b81526041600452602490fd5b604051633f06d22b60e01b8152600490fd5b6113c49061270a565b610386578088611257565b6040513d84823e3d90fd5b6113e591925061270a565b5f90886111e0565b604051636d1a1f2560e11b8152600490fd5b604051631b7506b360e01b8152600490fd5b5060ff600882015460281c16611138565b634e487b7160e01b5f52601160045260245ffd5b34610ce8575f366003190112610ce85760206040516127118152f35b34610ce8576020366003190112610ce8575f54600435906001600160a01b0316330361069257805f52600360205260ff600160405f20015416156110695761149990612cee565b005b34610ce8575f366003190112610ce857602060405160648152f35b34610ce8575f366003190112610ce8576020604051601e8152f35b34610ce8576020366003190112610ce85760043560ff5f5460a01c1661109657805f52600360205260405f2060ff600182015416156110695761151390612cba565b156115335761152181612cee565b6006541461152b57005b6114996128c4565b60405163fb6fc07360e01b8152600490fd5b34610ce8576020366003190112610ce857600480355f90815260209182526040908190208054600182015460029092015483519182529381019190915260ff831615159181019190915260089190911c6001600160a01b03166060820152608090f35b34610ce8576020366003190112610ce8576004355f5260036020526101c060405f20805460ff60018301541691600281015460ff60038301546004840154906005850154600686015460078701549160088801549463ffffffff9460098a015498600b87600a8d0154169b01549b60206040519e8f928352151591015260408d015260608c015260808b015260a08a015260c089015260e088015282821615156101008801528160081c1661012087015260281c1615156101408501526101608401526101808301526101a0820152f35b34610ce8575f366003190112610ce8576020600a54604051908152f35b34610ce8575f366003190112610ce8575f546040516001600160a01b039091168152602090f35b34610ce8576060366003190112610ce8576004356024356116dc6126aa565b5f549092906001600160a01b03163303610692578015801561178d575b8015611783575b61176957600163ffffffff84169316158061177a575b611769577fe0e577c9faddb7c513c63f045fa26a9154c26281f077643486c2e183c38418319260609282600c5580600d558163ffffffff19600e541617600e5560405192835260208301526040820152a1005b60405162fe6da160e11b8152600490fd5b50821515611716565b5060648211611700565b508082106116f9565b34610ce8576020366003190112610ce8576117af6126bd565b5f546001600160a01b039190821633036106925716805f52600260205260405f2060ff1981541690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b34610ce85761180c366127d7565b825f9392935260206004815260405f20600281019460ff8654166106195781548015610607575f526003835260405f209361186a60405161184c81612738565b60018152853681830137600b8701546118648261282a565b52612a9f565b6001840154036105f55761187f908287612ad0565b8281805181010312610ce8577fa1cb19133026dd70867e1fbd4d02beda96e459f622fbb0326ec7dca1e35a09f9936118ba8460089301612896565b96600160ff19825416179055016001815464ffffffff008860081b169064ffffffffff191617179055549363ffffffff60405191168152a3005b34610ce8576020366003190112610ce8576004355f526008602052606060405f205460ff63ffffffff916040519280821684528160201c16602084015260401c1615156040820152f35b34610ce8575f366003190112610ce8576020600954604051908152f35b34610ce8575f366003190112610ce8576020600e5463ffffffff60405191831c168152f35b34610ce8575f366003190112610ce857602060ff5f5460a01c166040519015158152f35b34610ce857602080600319360112610ce85760043560ff5f5460a01c1661109657335f52600180835260405f2054601e810180911161142257421061107b57815f526003835260405f2092600484015480158015611dee575b6106075760ff83860154166113ff57600c54116113ed5760405193611a2185612738565b8285528185019482368737600b8201805415611ca5575b54611a428261282a565b52611a4c81612a9f565b905f967f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009182549860018060a01b03805f8051602061323c8339815191525416803b15610ce8575f6040518092637d6e912360e11b82528b6004830152818381611ab9602482018b612a6c565b03925af18015610da857611c92575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156105f157816040518092633263b83b60e01b82528d600483015260606024830152818381611b20606482018a612a6c565b637dd7343160e01b604483015203925af180156113cf57908291611c7e575b508a90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0180885260408220546113a9578a82528752604081209151926001600160401b038411611c6a57600160401b8411611c6a578254848455808510611c43575b5091815287878220915b848110611c315750505050509081611bc7611bf993546128a7565b905560405190611bd6826126ef565b868252848201525f6040820152336060820152865f526004845260405f2061284b565b600742910155335f52524260405f205533917f389e206af32a0f894aae2a19ffb367b9bf8f7e785470c496e3648822c9949dad5f80a4005b88845194019381840155018890611bac565b83835289858a852092830192015b828110611c5f575050611ba2565b5f8155018a90611c51565b634e487b7160e01b82526041600452602482fd5b611c879061270a565b61038657808b611b3f565b611c9d91925061270a565b5f908b611ac8565b6005830154600a84019063ffffffff80835416611cc6575b50825550611a38565b5f8051602061321c8339815191528054604051636baeb74560e11b8152600480820152926001600160a01b03918a90859060249082905f9087165af1958615610da8578a945f97611dbd575b505416918515611da7575b906064915416945f60405196879485936367a68c5560e11b855260048501526024840152600160f81b60448401525af1908115610da8575f91611d76575b611d659250612e6b565b611d6f3082612f64565b8089611cbd565b90508582813d8311611da0575b611d8d8183612753565b81010312610ce857611d65915190611d5b565b503d611d83565b9450606490611db4613176565b95909150611d1d565b8581969298503d8311611de7575b611dd58183612753565b81010312610ce857899351958e611d12565b503d611dcb565b5060ff600886015460281c166119fd565b34610ce8576020366003190112610ce857611e186126bd565b5f546001600160a01b039190821633036106925716805f52600260205260405f20600160ff198254161790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b34610ce8576020366003190112610ce8576001600160a01b03611e8b6126bd565b165f526001602052602060405f2054604051908152f35b34610ce8575f366003190112610ce8576020604051605a8152f35b34610ce8575f366003190112610ce8576020604051600a8152f35b34610ce857602080600319360112610ce857604051611ef6816126d3565b5f81525f828201525f6040820152606090604051611f138161271d565b60a0368237828201525f60808201525f60a08201525f60c082015260e060405191611f3d836126ef565b5f83525f858401525f6040840152604051611f578161271d565b60a03682378484015201526004355f52600f825260405f209060405191611f7d836126d3565b805483526001918460018301549281860193845260028101549360408701948552604051806003840190885f915b6005831061211d5750505050611fc08161271d565b84880190815263ffffffff958691826008860154169160808b0192835260098601549460a08c0195865260ff600a880154169660c08d019715158852856040519961200a8b6126ef565b81600b8401548181168d528c838383821c1691015260401c1660408c0152600c6040519301549082821684528282821c1690840152818160401c16604084015281818d1c168c84015260801c1660808201526120658161271d565b8989015260e08c019788526040519b518c52518c8c01525160408b015251868a01898c5f925b600584106121035750505050505116610100880152516101208701525115156101408601525182815116610160860152828682015116610180860152826040820151166101a08601520151936101c08401945f955b600587106120ee5761026086f35b815184168152958401959082019082016120e0565b84829394959697505181520193019101898c8a959461208b565b835481528c979382019392909101918a9101611fab565b34610ce8576020366003190112610ce8575f54600435906001600160a01b0316330361069257805f52600860205260ff60405f205460401c16156121a3576020817fedf8a4454d6a4845b826e2c0ee6fd05b79ab3a9a124e768c38bacf275e0dd59492600755604051908152a1005b6040516309d5149f60e11b8152600490fd5b34610ce8576040366003190112610ce8575f5460043590602435906001600160a01b031633036106925780158015612238575b61222657816040917fec48ddde9219ab8a490f9d4fc2725b298f0bf3042d31cd4c4f70e4da3e24e36693600a5580600b5582519182526020820152a1005b60405163e253dcb760e01b8152600490fd5b50606481116121e8565b34610ce8576020366003190112610ce8576004355f908152601060209081526040918290208054600182015460029092015484519182529281019190915260ff821615159281019290925260081c6001600160a01b03166060820152608090f35b34610ce8575f366003190112610ce8576020600b54604051908152f35b34610ce8576040366003190112610ce8576122d96126bd565b5f54602435916001600160a01b039182163303610692577f7631df1cb61560709ebf9092a96d321b993513e844760f08c3f827be3b349d14916020911692835f52600582528060405f2055604051908152a2005b34610ce8576020366003190112610ce8576001600160a01b0361234e6126bd565b165f526005602052602060405f2054604051908152f35b34610ce8576020366003190112610ce85760043563ffffffff811690818103610ce8575f546001600160a01b031633036106925781158015612404575b6123f257600e805467ffffffff000000001916602092831b67ffffffff00000000161790556040519182527f1a0d4f63e6a5fd2dd5d55d8b6f639e2252d3dc867cac4a9496cceafefdc9c1d791a1005b60405163aabd5a0960e01b8152600490fd5b50606482116123a2565b34610ce8575f366003190112610ce857602060405160058152f35b34610ce8576020366003190112610ce857600435801515809103610ce8575f546001600160a01b03811633036106925760ff60a01b191660a082901b60ff60a01b16175f556040519081527f40db37ff5c0bdc2c427fbb2078c8f24afea940abac0e3c23bb4ea3bf2da2b21290602090a1005b34610ce8575f366003190112610ce8576020600c54604051908152f35b34610ce8575f366003190112610ce8576020600654604051908152f35b34610ce8575f366003190112610ce8575f546001600160a01b03163303610692576114996128c4565b34610ce8576020366003190112610ce8576001600160a01b036125206126bd565b165f526002602052602060ff60405f2054166040519015158152f35b34610ce8576060366003190112610ce85760043560243563ffffffff808216809203610ce85761256a6126aa565b5f549092906001600160a01b031633036106925783158015612689575b8015612670575b6121a3576040519160608301928084106001600160401b0385111761265c577f5082a220b0dc1cbc497f9d5fec27b50de3b96038164c6b7de1653e22dba7c7f194604094855283825261262d83602084019216938483528684019260018452895f52600860205281885f2095511663ffffffff198654161785555116839067ffffffff0000000082549160201b169067ffffffff000000001916179055565b51815468ff00000000000000001916901515851b68ff00000000000000001617905582519182526020820152a2005b634e487b7160e01b5f52604160045260245ffd5b50835f52600860205260ff60405f205460401c1661258e565b508015612587565b34610ce8575f366003190112610ce85780601460209252f35b6044359063ffffffff82168203610ce857565b600435906001600160a01b0382168203610ce857565b61010081019081106001600160401b0382111761265c57604052565b608081019081106001600160401b0382111761265c57604052565b6001600160401b03811161265c57604052565b60a081019081106001600160401b0382111761265c57604052565b604081019081106001600160401b0382111761265c57604052565b90601f801991011681019081106001600160401b0382111761265c57604052565b9291926001600160401b03821161265c576040519161279d601f8201601f191660200184612753565b829481845281830111610ce8578281602093845f960137010152565b9080601f83011215610ce8578160206127d493359101612774565b90565b6060600319820112610ce857600435916001600160401b03602435818111610ce85783612806916004016127b9565b92604435918211610ce8576127d4916004016127b9565b9190820180921161142257565b8051156128375760200190565b634e487b7160e01b5f52603260045260245ffd5b60029082518155602083015160018201550190604081015115159060ff8354916060610100600160a81b0391015160081b169216906affffffffffffffffffffff60a81b1617179055565b519063ffffffff82168203610ce857565b5f1981146114225760010190565b60058210156128375701905f90565b6128cf6006546128a7565b80600655805f526020906003825260405f2090815560019060018101600160ff19825416179055426002820155600a5480155f14612a5d57505f5b6006820155600754600982015563ffffffff80600e541692600a830163ffffffff19948582541617905561293c613176565b61294f6005809501918083553090612f64565b6006545f52600f865260405f20935f8760018060a01b035f8051602061321c8339815191525416604460405180948193639cd07acb60e01b83528a6004840152600460248401525af1908115610da8575f91612a30575b506129b49291923082612f64565b8154865560018601558054600286015560038501905f5b838110612a17575050505050600890600e54851c169101918254161790557f217ff5db260372f7ab32608612dc3d218db8f3644666e2881c29c1e771e253bf60065491604051428152a2565b84908254612a28610b9e83876128b5565b9055016129cb565b90508781813d8311612a56575b612a478183612753565b81010312610ce857515f6129a6565b503d612a3d565b612a67904261281d565b61290a565b9081518082526020808093019301915f5b828110612a8b575050505090565b835185529381019392810192600101612a7d565b604051612aca81612abc6020820194602086526040830190612a6c565b03601f198101835282612753565b51902090565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0191602091838352604093845f205415612ca957855f528352835f209084518083868295549384815201905f52865f20925f5b88828210612c9357505050612b3f92500383612753565b80518085019081861161142257860180911161142257612be05f8694612b8e89612bf39681519681612b7a89935180928d8087019101612f1e565b8201908a8201520388810187520185612753565b612c0260018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b8752606060048801526064870190612a6c565b6003199384878303016024880152612f3f565b91848303016044850152612f3f565b03925af1918215612c89575f92612c52575b505015612c4257507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b90809250813d8311612c82575b612c698183612753565b81010312610ce857518015158103610ce8575f80612c14565b503d612c5f565b83513d5f823e3d90fd5b8554845260019586019588955093019201612b28565b845163d66ca67560e01b8152600490fd5b6006810154908115159182612ce3575b508115612cd5575090565b600491500154600b54111590565b42101591505f612cca565b805f52600360205260405f206001810160ff1981541690556003429101557fed76190d94e2079764a112387a25d1b74945a43c0b92ce5f4f65b391b66390fe6020604051428152a2565b9060405161012081018181106001600160401b0382111761265c576040526008815260209261010036602084013781938154612d738461282a565b52600192600183015481516001101561283757604082015260028301549281516002101561283757849360608301525f935b612db1575b5050505050565b60059384811015612df657600390612dcb818385016128b5565b905490831b1c818301809311611422578451831015612837578588979388941b860101520193612da5565b50612daa565b600654805f52600360205260405f2060ff60018201541680918192612e48575b50612e4457612e35575b50612e2f6128c4565b60065490565b612e3e90612cee565b5f612e26565b5090565b612e529150612cba565b155f612e1c565b8015612e625790565b506127d4613176565b908115612f0e575b8015612efc575b602090606460018060a01b035f8051602061321c8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610da8575f91612ecd575090565b90506020813d602011612ef4575b81612ee860209383612753565b81010312610ce8575190565b3d9150612edb565b506020612f07613176565b9050612e7a565b9050612f18613176565b90612e73565b5f5b838110612f2f5750505f910152565b8181015183820152602001612f20565b90602091612f5881518092818552858086019101612f1e565b601f01601f1916010190565b5f8051602061323c833981519152546001600160a01b031691823b15610ce857604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610da857612fc25750565b612fcb9061270a565b565b63ffffffff916020918015613039575b5f8051602061321c83398151915254604051631391547f60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115610da8575f91612ecd575090565b506064613044613176565b9050612fdd565b5f9181908215613166575b5f8051602061321c833981519152805460405163022f65e760e31b8152600481019490945260016024850152600160f81b60448501526020959192916001600160a01b039187918691606491839186165af1928315610da85786945f9461312c575b50606492915f9154166040519687958694637702dcff60e01b86526004860152602485015260448401525af1918215610da8575f926130fe575b50506127d43082612f64565b90809250813d8311613125575b6131158183612753565b81010312610ce857515f806130f2565b503d61310b565b8581969295509392933d831161315f575b6131478183612753565b81010312610ce85792518593909290919060646130b8565b503d61313d565b9050613170613176565b90613056565b5f8051602061321c83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610da8575f91612ecd575090565b5f8051602061321c83398151915254604051639cd07acb60e01b815260048101929092525f6024830181905260209183916044918391906001600160a01b03165af1908115610da8575f91612ecd57509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type CraftingQualityFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CraftingQualityFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CraftingQualityFHE__factory extends ContractFactory {
+  constructor(...args: CraftingQualityFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      CraftingQualityFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CraftingQualityFHE__factory {
+    return super.connect(runner) as CraftingQualityFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CraftingQualityFHEInterface {
+    return new Interface(_abi) as CraftingQualityFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CraftingQualityFHE {
+    return new Contract(address, _abi, runner) as unknown as CraftingQualityFHE;
+  }
+}
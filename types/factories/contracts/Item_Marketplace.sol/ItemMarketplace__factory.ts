@@ -0,0 +1,696 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ItemMarketplace,
+  ItemMarketplaceInterface,
+} from "../../../contracts/Item_Marketplace.sol/ItemMarketplace";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract ItemRegistryFHE",
+        name: "registry_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyListed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ClaimNotVerified",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "GameTokenNotSet",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "IncorrectPayment",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidListing",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ListingNotActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ListingNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MarketplaceNotApproved",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotSeller",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PaymentFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReentrancyGuardReentrantCall",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "SafeERC20FailedOperation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownClaimRequest",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "gameToken",
+        type: "address",
+      },
+    ],
+    name: "GameTokenUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum ItemMarketplace.Currency",
+        name: "currency",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "claimThreshold",
+        type: "uint32",
+      },
+    ],
+    name: "ItemListed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum ItemMarketplace.Currency",
+        name: "currency",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    name: "ItemSold",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+    ],
+    name: "ListingCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+    ],
+    name: "QualityClaimRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "holds",
+        type: "bool",
+      },
+    ],
+    name: "QualityClaimRevealed",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "activeListingOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+    ],
+    name: "buy",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+    ],
+    name: "cancel",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "completeQualityClaim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "gameToken",
+    outputs: [
+      {
+        internalType: "contract IERC20",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "listingId",
+        type: "uint256",
+      },
+    ],
+    name: "getListing",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "itemId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "seller",
+            type: "address",
+          },
+          {
+            internalType: "enum ItemMarketplace.Currency",
+            name: "currency",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "claimThreshold",
+            type: "uint32",
+          },
+          {
+            internalType: "enum ItemMarketplace.ClaimStatus",
+            name: "claimStatus",
+            type: "uint8",
+          },
+          {
+            internalType: "enum ItemMarketplace.ListingStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "buyer",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "closedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ItemMarketplace.Listing",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getListings",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "itemId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "seller",
+            type: "address",
+          },
+          {
+            internalType: "enum ItemMarketplace.Currency",
+            name: "currency",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "claimThreshold",
+            type: "uint32",
+          },
+          {
+            internalType: "enum ItemMarketplace.ClaimStatus",
+            name: "claimStatus",
+            type: "uint8",
+          },
+          {
+            internalType: "enum ItemMarketplace.ListingStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "buyer",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "closedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ItemMarketplace.Listing[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum ItemMarketplace.Currency",
+        name: "currency",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "claimThreshold",
+        type: "uint32",
+      },
+    ],
+    name: "list",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "listingCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "registry",
+    outputs: [
+      {
+        internalType: "contract ItemRegistryFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract IERC20",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "setGameToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0346101c457601f61185138819003918201601f19168301916001600160401b038311848410176101c8578084926020946040528339810103126101c457516001600160a01b03811681036101c4575f606061005a6101dc565b82815282602082015282604082015201526100736101dc565b9060607350157cffd6bbfa2dece204a89ec419c23ef5755d9283815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319947f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090868254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908382541617905560015f556080523390600154161760015560405161165590816101fc8239608051818181610122015281816109380152610afe0152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176101c85760405256fe6080604081815260049182361015610015575f80fd5b5f925f3560e01c9182630383d9fe14610aa257508163107a274a14610a3857816340e58ee51461098e57816345a2284f146109675781637b1039991461092357816380d29e66146108a4578163854f0958146105905781638da5cb5b14610567578163a9b07c2614610548578163c3dfdae61461051f578163c4b04518146104b4578163d96a094a146100d0575063da1f12ab146100b1575f80fd5b346100cc57816003193601126100cc57602090516127118152f35b5080fd5b9190506020806003193601126104b057823590600292838654146104a1578386556100fa8361156d565b60018101805483516331a9108f60e11b81528089018290526001600160a01b039890976024927f00000000000000000000000000000000000000000000000000000000000000008b1690888b8681855afa9a8b15610497578d9b610468575b508287019a8c8c54918183169182911603610458573314610448578488019081549060ff828d1c168781101561043457868115159182610429575b50506104195760a01c60ff1685811015610406578f90610401575060038901545b34036103f15765010000000000600160d01b0319163360301b6601000000000000600160d01b031617650200000000001790554260068801555f9081528389528781205589548554908c16918d9190803b156103ed5789516323b872dd60e01b8082526001600160a01b039095168782019081523360208201526040810193909352918391839182908490829060600103925af180156103e3576103cb575b505089549160ff8360a01c16818110156103b957918c8e928b94155f1461032057509050819495508193508192508b54166003880154905af13d1561031b573d61029d816111ab565b906102aa87519283611189565b81528a873d92013e5b1561030d57509060ff60036102dd935b549754920154948451988316895288019160a01c1661108b565b8401527fd97b7dfd68fa9fff9becb71667fadeebe4edbb4350ee3937574fdc30993846ba60603394a46001815580f35b83516307a4ced160e51b8152fd5b6102b3565b5460038a01548b51868101948552338a82019081529784166001600160a01b03166020890152604088019190915291169461036890829060600103601f198101835282611189565b519082855af1156103af578a513d6103a65750803b155b610394575050509060ff60036102dd936102c3565b8551635274afe760e01b815291820152fd5b6001141561037f565b85513d8c823e3d90fd5b634e487b7160e01b8e5260218552858efd5b6103d490611144565b6103df578b5f610254565b8b80fd5b89513d84823e3d90fd5b8280fd5b895163569e8c1160e01b81528690fd5b6101b5565b50634e487b7160e01b8f5260218652868ffd5b8a5163602fb84d60e01b81528790fd5b14159050865f610194565b5050634e487b7160e01b8f5260218652868ffd5b8851631ab4dc1760e31b81528590fd5b89516366cb03e960e01b81528690fd5b610489919b50893d8b11610490575b6104818183611189565b81019061120d565b995f610159565b503d610477565b88513d8f823e3d90fd5b51633ee5aeb560e01b81528490fd5b8380fd5b839150346100cc57826003193601126100cc576104d6839160243590356113c1565b81519160208080850192818652845180945285019301945b8281106104fb5784840385f35b90919282610160826105106001948a516110ac565b019601910194929190946104ee565b5050346100cc57816003193601126100cc5760025490516001600160a01b039091168152602090f35b5050346100cc57816003193601126100cc576020906006549051908152f35b5050346100cc57816003193601126100cc5760015490516001600160a01b039091168152602090f35b8383346100cc576003196060368201126103ed5783359167ffffffffffffffff906024358281116108a0576105c890369088016111c7565b916044359081116108a0576105e090369088016111c7565b8486526020926005845282872054948515610890578688527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808652848920541561088057878952855283882084518082888294549384815201908c52888c20928c5b8a82821061086a5750505061065a92500382611189565b8251938487019485881161085757860180951161084457908691865191878387519886890199808884019061068f918d6115cf565b82019087820152038581018552016106a79084611189565b8b8d600160a01b600190037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416938a51978896879586946378542ead60e01b8652850160609052606485016106fc916115f0565b8285820301602486015261070f91611623565b9083820301604484015261072291611623565b03925af190811561083a57889161080d575b50156107fd57908361076f92877f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8a80a2805101019061122c565b90848652600583525f81872055815f146107f65760025b84875260038452878288200190888110156107e3577fd85cf48f9130028483859031519d68dc81c105f73eb62268b58b07b300a5cafa959697985064ff00000000825491861b169064ff000000001916179055519015158152a380f35b602189634e487b7160e01b5f525260245ffd5b6003610786565b825163cf6c44e960e01b81528890fd5b61082d9150853d8711610833575b6108258183611189565b81019061122c565b89610734565b503d61081b565b84513d8a823e3d90fd5b634e487b7160e01b8a5260118b5260248afd5b634e487b7160e01b8b5260118c5260248bfd5b8554845260019586019587955093019201610643565b845163d66ca67560e01b81528a90fd5b8351637676664d60e11b81528990fd5b8580fd5b9050346103ed5760203660031901126103ed5780356001600160a01b03818116939184900361091f57600154163303610912575050600280546001600160a01b031916821790557f87b0d7308ebc8413fdfd87f9d2efbd3e026e29248a4589b7a786e58a51d56e348280a280f35b516330cd747160e01b8152fd5b8480fd5b5050346100cc57816003193601126100cc57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b9050346103ed5760203660031901126103ed57602092818392358252845220549051908152f35b919050346103ed5760203660031901126103ed578135916109ae8361156d565b60028101549092906001600160a01b03163303610a2b57505080610a01600192600190600481016501000000000065ff00000000001982541617905542600682015501545f5260046020525f6040812055565b0154907fafd0a85a3f09cebbc7d9fcde08e8a7d0ebb0aa7d768a030915c3816a053d3c7a8380a380f35b51635ec8235160e01b8152fd5b9050346103ed5760203660031901126103ed57803590610a56611266565b5081158015610a97575b610a895750610a7e8284610a879361016096526003602052206112b7565b915180926110ac565bf35b8251630fc87cc760e31b8152fd5b506006548211610a60565b90838534610f49576080366003190112610f49578235926024918235906002821015610f4957604435926064359463ffffffff93848716809703610f49576331a9108f60e11b8a52828a018990526020996001600160a01b03977f000000000000000000000000000000000000000000000000000000000000000089169290918c818681875afa908115611037575f9161106e575b50893391160361105e57895163020604bf60e21b81528581018c90528c818681875afa908115611037575f91611041575b50891630141580610fe6575b610fd6578715610fc6576001811480610fba575b610faa57878a959493928d92610b9d8e6114c8565b610ba8600654611244565b9d8e80600655805f5260038652838a5f209a828c5560018c019684885560028d01805460ff60a01b8860a01b169060ff60a01b193316906affffffffffffffffffffff60a81b161717905560038d01558a8c019e8f8363ffffffff198254161790558c600542910155845f528b895283825f2055610c288251809761108b565b888601528401527f05ee4d4b11bb4e04814f10c11448ea44e3313f0173d6b5b674b390c7f8718e8860603394a4610c62575b5089518b8152f35b546044888a5416915f8d51958694859363e4ae4b9b60e01b85528a850152888401525af1908115610fa0575f91610f73575b508851908982019267ffffffffffffffff9383811085821117610f60578b52600183528c8301918d368437835115610f4d5782527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009485549a807f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b15610f49578f5f908f51928391637d6e912360e11b835286830152818381610d3d8a82018d6115f0565b03925af18015610f3f57610f2c575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15610f2857888c8e51928391633263b83b60e01b835285830152606086830152818381610da2606482018c6115f0565b6310a9e12b60e31b604483015203925af18015610f1e57908991610f06575b508b90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808f528c892054610ef7578e8c8a52528b88209351948511610ee657680100000000000000008511610ee65750508154838355808410610ec1575b50928b95928a979498959284528684209884995b828b10610ea7575050507f77d3af4f98cbf78895b666539bb7a5812ad91ce7896a81e664bc6f45e34940cf969750610e6d8154611244565b90555495818888935260058652205581549164010000000064ff00000000198416179055865191168152a383808080808080808a81610c5a565b81518b8201556001909a01998c99508e9890910190610e35565b828752838d882091820191015b818110610edb5750610e21565b5f8155600101610ece565b634e487b7160e01b88526041905286fd5b508b51633f06d22b60e01b8152fd5b610f0f90611144565b610f1a57878f610dc1565b8780fd5b8d513d8b823e3d90fd5b8880fd5b610f37919950611144565b5f978f610d4c565b8e513d5f823e3d90fd5b5f80fd5b50634e487b7160e01b5f90815260328652fd5b50634e487b7160e01b5f90815260418652fd5b90508a81813d8311610f99575b610f8a8183611189565b81010312610f4957518b610c94565b503d610f80565b89513d5f823e3d90fd5b89516390aa10f560e01b81528590fd5b50886002541615610b88565b8951631ab4dc1760e31b81528590fd5b895163a9248d2560e01b81528590fd5b50895163e985e9c560e01b8152338682015230858201528c81604481875afa908115611037575f9161101a575b5015610b74565b61103191508d803d10610833576108258183611189565b8d611013565b8b513d5f823e3d90fd5b61105891508d803d10610490576104818183611189565b8d610b68565b8951635ec8235160e01b81528590fd5b61108591508d803d10610490576104818183611189565b8d610b37565b9060028210156110985752565b634e487b7160e01b5f52602160045260245ffd5b8051825260208101516020830152604081015160018060a01b0380911660408401526110e06060830151606085019061108b565b6080820151608084015263ffffffff60a08301511660a084015260c082015160048110156110985760c084015260e082015160038110156110985760e084015261010090818301511690830152610120808201519083015261014080910151910152565b67ffffffffffffffff811161115857604052565b634e487b7160e01b5f52604160045260245ffd5b610160810190811067ffffffffffffffff82111761115857604052565b90601f8019910116810190811067ffffffffffffffff82111761115857604052565b67ffffffffffffffff811161115857601f01601f191660200190565b81601f82011215610f49578035906111de826111ab565b926111ec6040519485611189565b82845260208383010111610f4957815f926020809301838601378301015290565b90816020910312610f4957516001600160a01b0381168103610f495790565b90816020910312610f4957518015158103610f495790565b5f1981146112525760010190565b634e487b7160e01b5f52601160045260245ffd5b604051906112738261116c565b5f610140838281528260208201528260408201528260608201528260808201528260a08201528260c08201528260e082015282610100820152826101208201520152565b906040516112c48161116c565b80928054825260018101546020830152600281015460ff60018060a01b0391828116604086015260a01c1660028110156110985760608401526003820154608084015260048201549163ffffffff831660a085015260ff8360201c1660048110156110985760c085015260ff8360281c16916003831015611098576101409360069360e087015260301c1661010085015260058101546101208501520154910152565b67ffffffffffffffff81116111585760051b60200190565b9190820180921161125257565b9190820391821161125257565b80518210156113ad5760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b919060065490818410156114a157816113da828661137f565b111561149157505b6113ec838261138c565b906113f682611367565b6040926114066040519283611189565b808252611415601f1991611367565b015f5b81811061147a5750508094805b838110611433575050505050565b6001810190818111611252576001915f526003602052611473865f2061146261145c868561138c565b916112b7565b61146c8288611399565b5285611399565b5001611425565b602090611485611266565b82828601015201611418565b61149c91508361137f565b6113e2565b505090506040516020810181811067ffffffffffffffff821117611158576040525f815290565b805f52600460205260405f2054801561156957805f52600360205260405f2060018060a01b0360028201541633146115575761153190600190600481016501000000000065ff00000000001982541617905542600682015501545f5260046020525f6040812055565b7fafd0a85a3f09cebbc7d9fcde08e8a7d0ebb0aa7d768a030915c3816a053d3c7a5f80a3565b6040516328f560bb60e21b8152600490fd5b5050565b801580156115c4575b6115b2575f52600360205260405f209060ff600483015460281c166003811015611098576115a057565b6040516366cb03e960e01b8152600490fd5b604051630fc87cc760e31b8152600490fd5b506006548111611576565b5f5b8381106115e05750505f910152565b81810151838201526020016115d1565b9081518082526020808093019301915f5b82811061160f575050505090565b835185529381019392810192600101611601565b9060209161163c815180928185528580860191016115cf565b601f01601f191601019056fea164736f6c6343000818000a";
+
+type ItemMarketplaceConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ItemMarketplaceConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ItemMarketplace__factory extends ContractFactory {
+  constructor(...args: ItemMarketplaceConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    registry_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(registry_, overrides || {});
+  }
+  override deploy(
+    registry_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(registry_, overrides || {}) as Promise<
+      ItemMarketplace & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ItemMarketplace__factory {
+    return super.connect(runner) as ItemMarketplace__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ItemMarketplaceInterface {
+    return new Interface(_abi) as ItemMarketplaceInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ItemMarketplace {
+    return new Contract(address, _abi, runner) as unknown as ItemMarketplace;
+  }
+}
@@ -0,0 +1,1639 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ItemRegistryFHE,
+  ItemRegistryFHEInterface,
+} from "../../../contracts/Item_Registry_FHE.sol/ItemRegistryFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721IncorrectOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721InsufficientApproval",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOperator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721NonexistentToken",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidItem",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidRecipient",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidThreshold",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InventoryRequired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ItemNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MaterialInventoryNotSet",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotItemOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NothingToPublish",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RecipeBookNotSet",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RevealAlreadyRequested",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownRevealRequest",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approved",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "crafter",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "averageQuality",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "sampleSize",
+        type: "uint32",
+      },
+    ],
+    name: "AverageQualityPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "crafter",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "AverageQualityRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "crafter",
+        type: "address",
+      },
+    ],
+    name: "AverageQualityWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "recipeId",
+        type: "uint256",
+      },
+    ],
+    name: "ItemCraftedWithRecipe",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "baseQuality",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "materials",
+        type: "string[]",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedQuality",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedCatalyst",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedMasterpiece",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+    ],
+    name: "ItemCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum ItemRegistryFHE.ItemStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "ItemStatusUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedQuality",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedCatalyst",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedMasterpiece",
+        type: "bytes32",
+      },
+    ],
+    name: "ItemTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "MasterpieceRevealRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isMasterpiece",
+        type: "bool",
+      },
+    ],
+    name: "MasterpieceRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+    ],
+    name: "MasterpieceThresholdUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "materialInventory",
+        type: "address",
+      },
+    ],
+    name: "MaterialInventoryUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "crafter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "materialIds",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "amounts",
+        type: "uint256[]",
+      },
+    ],
+    name: "MaterialsConsumed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipeBook",
+        type: "address",
+      },
+    ],
+    name: "RecipeBookUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "CATALYST_DIVISOR",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_MASTERPIECE_THRESHOLD",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "LUCK_RANGE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CATALYST_EFFECT",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_MATERIALS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_NAME_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_QUALITY",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MULTIPLIER_SCALE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "completeAverageQuality",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "completeMasterpieceReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "crafter",
+        type: "address",
+      },
+    ],
+    name: "crafterStatsOf",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "qualitySum",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "craftedCount",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "baseQuality",
+        type: "uint32",
+      },
+      {
+        internalType: "string[]",
+        name: "materials",
+        type: "string[]",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedCatalyst",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "createItem",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "baseQuality",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "materialIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "amounts",
+        type: "uint256[]",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedCatalyst",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "createItemFromMaterials",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "baseQuality",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "recipeId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedCatalyst",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "createItemWithRecipe",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+    ],
+    name: "getItem",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "owner",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "uint32",
+            name: "baseQuality",
+            type: "uint32",
+          },
+          {
+            internalType: "euint32",
+            name: "quality",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "catalyst",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "masterpiece",
+            type: "bytes32",
+          },
+          {
+            internalType: "string[]",
+            name: "materials",
+            type: "string[]",
+          },
+          {
+            internalType: "enum ItemRegistryFHE.ItemStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "enum ItemRegistryFHE.MasterpieceReveal",
+            name: "masterpieceReveal",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "isMasterpiece",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ItemRegistryFHE.Item",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getItems",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "owner",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "uint32",
+            name: "baseQuality",
+            type: "uint32",
+          },
+          {
+            internalType: "euint32",
+            name: "quality",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "catalyst",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "masterpiece",
+            type: "bytes32",
+          },
+          {
+            internalType: "string[]",
+            name: "materials",
+            type: "string[]",
+          },
+          {
+            internalType: "enum ItemRegistryFHE.ItemStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "enum ItemRegistryFHE.MasterpieceReveal",
+            name: "masterpieceReveal",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "isMasterpiece",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ItemRegistryFHE.Item[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "itemCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "itemsOf",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "masterpieceThreshold",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "materialInventory",
+    outputs: [
+      {
+        internalType: "contract CraftingMaterials",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "publishAverageQuality",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "publishedAverages",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "averageQuality",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "sampleSize",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "publishedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+    ],
+    name: "qualityAtLeast",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "recipeBook",
+    outputs: [
+      {
+        internalType: "contract RecipeBookFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+    ],
+    name: "requestMasterpieceReveal",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum ItemRegistryFHE.ItemStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "setItemStatus",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "threshold",
+        type: "uint32",
+      },
+    ],
+    name: "setMasterpieceThreshold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract CraftingMaterials",
+        name: "inventory",
+        type: "address",
+      },
+    ],
+    name: "setMaterialInventory",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract RecipeBookFHE",
+        name: "book",
+        type: "address",
+      },
+    ],
+    name: "setRecipeBook",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "transferItem",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdrawAverageQuality",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040523462000432576200001462000456565b600c81526020906b43726166746564204974656d60a01b828201526200003962000456565b91600583526410d490519560da1b818401525f60606200005862000436565b828152828482015282604082015201526200007262000436565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69808583015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055815160018060401b039182821162000350575f54916001948584811c9416801562000427575b8385101462000331578190601f94858111620003d4575b50839085831160011462000370575f9262000364575b50505f19600383901b1c191690851b175f555b8451928311620003505783548481811c9116801562000345575b828210146200033157828111620002e9575b50809183116001146200028557508192935f9262000279575b50505f19600383901b1c191690821b1790555b600680546001600160c01b0319163363ffffffff60a01b191617602d60a11b1790556040516148c79081620004778239f35b015190505f8062000234565b90601f19831694845f52825f20925f905b878210620002d157505083859610620002b8575b505050811b01905562000247565b01515f1960f88460031b161c191690555f8080620002aa565b80878596829496860151815501950193019062000296565b845f52815f208380860160051c82019284871062000327575b0160051c019085905b8281106200031b5750506200021b565b5f81550185906200030b565b9250819262000302565b634e487b7160e01b5f52602260045260245ffd5b90607f169062000209565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620001dc565b90879350601f198316915f8052855f20925f5b87828210620003bd5750508411620003a4575b505050811b015f55620001ef565b01515f1960f88460031b161c191690555f808062000396565b8385015186558b9790950194938401930162000383565b9091505f8052835f208580850160051c8201928686106200041d575b918991869594930160051c01915b8281106200040e575050620001c6565b5f8155859450899101620003fe565b92508192620003f0565b93607f1693620001af565b5f80fd5b60405190608082016001600160401b038111838210176200035057604052565b60408051919082016001600160401b03811183821017620003505760405256fe608060409080825260049081361015610016575f80fd5b5f3560e01c90816301ffc9a71461255f5750806306fdde03146124b2578063081812fc14612479578063095ea7b31461239d578063192fdd11146123575780631caa85b7146122a157806322f005e91461200957806323b872dd14611ff257806329bceb1c146108f65780633129e77314611f7e57806336116fba14611e4357806342842e0e14611e1b5780634534ab3714611e0057806351f8dab014611dd857806357314870146108f65780635d37b39114611db15780635feb04c114611d355780636352211e14611d055780636bfb0d0114611ce757806370a0823114611c925780637231a87614611c0d5780638607498514611bf25780638c38431e14611b335780638da5cb5b14611b0b5780639380e99c14611af057806395d89b4114611a1c578063a22cb46514611980578063a422910114611873578063a66cc00914611808578063a94787501461168b578063b88d4fde1461163b578063b9a28b2714611620578063c456e59c146115a8578063c51f4d6e14611580578063c87b56dd14610fd6578063cf28ead914610b56578063d07f816b14610b02578063d867058014610a4e578063da1f12ab14610a32578063e4ae4b9b14610994578063e75902cb14610949578063e985e9c5146108fb578063f04017f2146108f6578063f2dbfc1b146108dc578063fc7f489e146105e85763fd238d011461021a575f80fd5b3461057c575f36600319011261057c57335f52602091600d8352805f20600192600182019182549163ffffffff918284169384156105d857881c60ff166105c957549586156105b9575b5f8051602061487b833981519152548651635a53accb60e01b8152838101989098526024880194909452600160f81b60448801526001600160a01b03938890889060649082905f9089165af19687156105af575f97610580575b506102c93088614775565b8551916102d583612850565b600183528883019789368a376102ea84612b15565b525f927f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0093845499875f8051602061489b8339815191525416803b1561057c575f8d8c51928391637d6e912360e11b83528883015281838161034f602482018b6145ec565b03925af180156105725761055f575b50877f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561055b57828c8c51928391633263b83b60e01b835288830152606060248301528183816103b6606482018b6145ec565b631b08b7dd60e11b604483015203925af1801561055157908391610539575b508b90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808d528a832054610529578b83528c528982209251936001600160401b03851161051657600160401b8511610516575082548484558085106104ef575b509181528a8120905b8381106104de575050505050610456815461328b565b905582541683519161046783612850565b338352868301918252855f52600f8752845f2092511682549163ffffffff60a01b905160a01b16916001600160401b0360c01b161717905564010000000064ff0000000019825416179055519080337f4c08d83af80400645b018219a93b6a5416df855a33eeac946d8915ce4b3f21ee5f80a38152f35b825182820155918b01918401610440565b85858e868652852092830192015b82811061050b575050610437565b5f81550186906104fd565b634e487b7160e01b835260419052602482fd5b8a51633f06d22b60e01b81528590fd5b61054290612887565b61054d57815f6103d5565b5080fd5b8b513d85823e3d90fd5b8280fd5b61056a919250612887565b5f905f61035e565b8b513d5f823e3d90fd5b5f80fd5b9096508781813d83116105a8575b61059881836128b5565b8101031261057c5751955f6102be565b503d61058e565b86513d5f823e3d90fd5b95506105c36147dc565b95610264565b508451633383b7e560e21b8152fd5b8651630eba0e1b60e21b81528390fd5b50903461057c576020908160031936011261057c57823590815f526009835260018060a01b0390600194826001835f20015416156108ce57835f5260098552826001835f2001541633036108c057835f5260098552815f20600881019160ff835460081c16610656816126fb565b6108b257835161066581612850565b6001815260068882019389368637015461067e82612b15565b525f7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0093845497805f8051602061489b8339815191525416803b1561057c575f8c8a51928391637d6e912360e11b8352898301528183816106e2602482018c6145ec565b03925af180156108a857610895575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561055b578288518092633263b83b60e01b82528b8883015260606024830152818381610747606482018b6145ec565b6301b0ce0b60e71b604483015203925af1801561088b57908391610877575b508890527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808b5287832054610867578883528a528682209251936001600160401b03851161051657600160401b851161051657508254848455808510610840575b50918152888120905b83811061082f575050505090816107ea8594935461328b565b9055825f52600c865284825f205561010061ff001982541617905551927fa113e6e89088ce85176c0bd8bd0f333d4ea1cccfebc3f730d0242e0f615766f15f80a38152f35b825182820155918901918a016107d1565b8383528b858c852092830192015b82811061085c5750506107c8565b5f8155018c9061084e565b8751633f06d22b60e01b81528590fd5b61088090612887565b61054d57815f610766565b88513d85823e3d90fd5b6108a0919350612887565b5f915f6106f1565b89513d5f823e3d90fd5b8351633383b7e560e21b8152fd5b9051633aa1064360e01b8152fd5b905163d3ed043d60e01b8152fd5b823461057c575f36600319011261057c5760209051818152f35b6126e0565b823461057c578060031936011261057c5760209061091761260f565b61091f612625565b9060018060a01b038091165f5260058452825f2091165f52825260ff815f20541690519015158152f35b823461057c575f36600319011261057c5760015f91338352600e60205282208281550155337fa90ffdd172847db87b254aee0ce45731005c9195d1ab28a7ca30840b780513155f80a2005b50903461057c578060031936011261057c5781356109b061263b565b906109c5816109be81613033565b3390614498565b15610a235763ffffffff82168015908115610a18575b50610a0957906020936109f8925f5260098552835f200154614519565b90610a033383614775565b51908152f35b50505163aabd5a0960e01b8152fd5b60649150115f6109db565b505051633aa1064360e01b8152fd5b823461057c575f36600319011261057c57602090516127118152f35b503461057c57610a5d36612945565b919390845f52602092600c8452825f2054948515610af4575081610aa8610ab6927f5aaafd6c4671aae91bf76df05bf5312a95330765e984052d06a3def023bf914a96959489613e44565b83808251830101910161301b565b90855f52600c83525f81812055845f52600983526008815f200191151591610200815462ff00008560101b169062ffff0019161717905551908152a3005b83516350cd61f160e11b8152fd5b823461057c57602036600319011261057c576060906001600160a01b03610b2761260f565b165f52600e602052805f20805491600163ffffffff92015491815193818116855260201c166020840152820152f35b503461057c5760a036600319011261057c576001600160401b03813581811161057c57610b86903690840161264e565b939092610b9161263b565b6044359360843581811161057c57610bac903690850161264e565b6007546001600160a01b03908116999198909490928a15610fc6575f899a9b60448a9b839b519b8c938492630bec214360e01b84528d8401523360248401525af19a8b156108a8575f985f965f9d610efe575b5050885184158015610ef5575b610ee5578015908115610eda575b50610eca57606463ffffffff841611610eca57610c4491610c3c9136916128f1565b60643561306d565b91610c4e8361316c565b8b8115610eba575b15610eaa575b5f8051602061487b83398151915290878254168b519d8e92630afe14ad60e31b84528b8401526024830152604482015f905260209d8e91815a6064925f91f190811561057257918d918c935f91610e76575b508a8a8215610e5f575b5f9060649394541695519586948593635a53accb60e01b85528401526103e86024840152600160f81b60448401525af1908115610e555790899392915f91610e1e575b50610d0f96610d0991614414565b946132f2565b94857fb941ec82c54d538f6131362f3c657eccf6cfe3ecc1b7854fd0a9ce308e6f641b5f80a3600854169081610d49575b50505051908152f35b610d568396929351612fe9565b92610d618751612fe9565b965f5b8151811015610e07578085610d7c610d9c9385612b22565b51895180948192632fec237960e11b8352848a84015260248301906125ea565b0381875afa8015610dfd575f90610dcf575b60019250610dbc8289612b22565b5281610dc8828c612b22565b5201610d64565b508582813d8311610df6575b610de581836128b5565b8101031261057c5760019151610dae565b503d610ddb565b88513d5f823e3d90fd5b5050505093610e169184613917565b5f8080610d40565b809794508d8092503d8311610e4e575b610e3881836128b5565b8101031261057c57945191948892610d0f610cfb565b503d610e2e565b8a513d5f823e3d90fd5b606492505f90610e6d6147dc565b93509050610cb8565b92809294508391503d8311610ea3575b610e9081836128b5565b8101031261057c578a918d91515f610cae565b503d610e86565b9a50610eb46147dc565b9a610c5c565b9050610ec46147dc565b90610c56565b89516327b3518960e11b81528890fd5b60109150115f610c1a565b8a516327b3518960e11b81528990fd5b508a8511610c0c565b965098509a503d805f8a3e610f13818a6128b5565b88019460608987031261057c57885181811161057c5789019580601f8801121561057c57868b9751602093610f53610f4a83612a98565b9a519a8b6128b5565b818a5284808b019260051b8401019380851161057c57908392918f9680969501925b858410610f93575050505050508901519801519497949a5f80610bff565b9091928094959697505183811161057c578791610fb5848480948a0101612ad3565b815201930191908f96959493610f75565b8751639dc55e1160e01b81528790fd5b503461057c576020908160031936011261057c578035610ff581613033565b505f5260098252825f2090836060925f600782018054905b818310611463575050506101a061140f946113af94627d5d7d60e81b611108957f7d2c7b22646973706c61795f74797065223a2264617465222c2274726169745f86600861135198015494600260ff8760081c1661106a816126fb565b146114135750825161107b81612850565b600a815269113932b230b1ba32b21160b11b8d820152905b8c6112416110ab6110a6600285016129f6565b614035565b9860296110e360096110db6110d560ff6110ce63ffffffff60038c015416614249565b9e1661438b565b94614035565b960154614249565b97519d8e809c683d913730b6b2911d1160b91b878301528681519485930191016125c9565b8a01987f222c226465736372697074696f6e223a2243726166746564206974656d2c206560298b01527f6e63727970746564206669656c647320617265207265646163746564222c226160498b01526b747472696275746573223a5b60a01b60698b01527f7b2274726169745f74797065223a2242617365205175616c697479222c22766160758b015264363ab2911d60d91b998a60958201526111b58251809387609a850191016125c9565b017f7d2c7b2274726169745f74797065223a22537461747573222c2276616c756522609a820152611d1160f11b60ba8201526111fa825180938660bc850191016125c9565b01917f227d2c7b2274726169745f74797065223a224d6174657269616c73222c22766160bc84015265363ab2911d1160d11b60dc840152835193849160e2850191016125c9565b01947f227d2c7b2274726169745f74797065223a225175616c697479222c2276616c7560e28701527f65223a227265646163746564227d2c7b2274726169745f74797065223a2243616101028701527f74616c797374222c2276616c7565223a227265646163746564227d00000000006101228701527f2c7b2274726169745f74797065223a224d61737465727069656365222c22766161013d87015261015d860152610162946112fb8d835193849189850191016125c9565b01938401527f74797065223a2243726166746564204174222c2276616c7565223a000000000061018284015261019d9261133d825180938d87850191016125c9565b0191820152036101808101845201826128b5565b84519061135d82612821565b8582527f4142434445464748494a4b4c4d4e4f505152535455565758595a616263646566858301527f6768696a6b6c6d6e6f707172737475767778797a303132333435363738392b2f8683015261461f565b92611400603d825180967f646174613a6170706c69636174696f6e2f6a736f6e3b6261736536342c000000878301526113f0815180928986860191016125c9565b810103601d8101875201856128b5565b519282849384528301906125ea565b0390f35b60ff8660101c165f146114415783519061142c82612850565b8152637472756560e01b8d8201525b90611093565b50825161144d81612850565b600581526466616c736560d81b8d82015261143b565b90919586155f146115625784516114798161289a565b5f81525b6114878884612fd4565b509086519261149e815180928d80880191016125c9565b83016114b2825180938d80850191016125c9565b01905f9181546114c1816129be565b926001918d83821691825f1461153a5750506001146114fe575b50505050906114f58160019303601f1981018352826128b5565b9601919061100d565b8c94505f52835f20905f915b8483106115225750505001016114f58260015f6114db565b80548484018701528e9a508d9590920191810161150a565b60ff19168582015285151590950290930190930193506114f59250849150600190505f6114db565b845161156d81612850565b6002815261016160f51b8982015261147d565b823461057c575f36600319011261057c5760085490516001600160a01b039091168152602090f35b503461057c57602036600319011261057c5780356001600160a01b03818116939184900361057c5760065416330361161357600780546001600160a01b03191684179055827f70741f1facb4ca8cfc00476c0c87611d7e2bd35c82f1a0125d0108a3b4136c915f80a2005b516330cd747160e01b8152fd5b823461057c575f36600319011261057c5760209051600a8152f35b503461057c57608036600319011261057c5761165561260f565b61165d612625565b906064356001600160401b03811161057c576116899361167f91369101612927565b9160443591612e86565b005b50903461057c5760a036600319011261057c576001600160401b03823581811161057c576116bc903690850161264e565b6116c461263b565b9060443584811161057c576116dc903690880161267b565b93909660843586811161057c576116f6903690830161264e565b600854919290916001600160a01b03166117fa57841580156117f1575b6117d957861580156117e7575b6117d957606463ffffffff8716116117d9575061174291610c3c9136916128f1565b9461175461174f8761316c565b613213565b9761175e86612a98565b9561176b895197886128b5565b808752602092602088019160051b83019236841161057c5780925b8484106117a55760208c61179e8f8e8e8e8e8e6132f2565b9051908152f35b833583811161057c57820136601f8201121561057c5786916117ce8392369084813591016128f1565b815201930192611786565b88516327b3518960e11b8152fd5b5060108711611720565b50888511611713565b8851631510b19560e21b8152fd5b503461057c57602036600319011261057c5780356001600160a01b03818116939184900361057c5760065416330361161357600880546001600160a01b03191684179055827fdd0f694919de2b86896a126bd6f56224500a0c7340a0b7eeae8a4d5294fc28d85f80a2005b503461057c578160031936011261057c5780359161188f612625565b5f8481526009602052829020600101546001600160a01b03919082161561197157845f526009602052816001845f200154163303610a2357818116801580918115611967575b506119575761194157846118e8916139de565b90811680611907578251637e27328960e01b8152808501869052602490fd5b330361190f57005b90516364283d7b60e01b81523392810192835260208301939093526001600160a01b0316604082015281906060010390fd5b8251633250574960e11b81525f81860152602490fd5b50505051634e46966960e11b8152fd5b905033145f6118d5565b50505163d3ed043d60e01b8152fd5b50903461057c578060031936011261057c5761199a61260f565b906024359182151580930361057c576001600160a01b0316928315611a075750335f526005602052805f20835f52602052805f2060ff1981541660ff8416179055519081527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c3160203392a3005b836024925191630b61174360e31b8352820152fd5b823461057c575f36600319011261057c578051905f908260019260015493611a43856129be565b90818452602095866001821691825f14611ace575050600114611a73575b505061140f92916114009103856128b5565b9085925060015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6915f925b828410611ab65750505082010181611400611a61565b8054848a018601528895508794909301928101611aa0565b60ff19168682015292151560051b850190920192508391506114009050611a61565b823461057c575f36600319011261057c576020905160108152f35b823461057c575f36600319011261057c5760065490516001600160a01b039091168152602090f35b503461057c578160031936011261057c5780359160243591600383101561057c575f8481526009602052829020600101546001600160a01b0390811615611be357845f5260096020526001835f2001541633036108c057507f104e19781f7b95c2c1bac73c7dcf206298d9ecb3d6712118520342a510dc911991602091845f52600983526008815f2001611bc6836126fb565b60ff1981541660ff84161790555190611bde816126fb565b8152a2005b50905163d3ed043d60e01b8152fd5b823461057c575f36600319011261057c578060209151908152f35b823461057c5760208060031936011261057c576001600160a01b03611c3061260f565b165f52600a8152815f20918051809384918482549182815201915f52845f20905f5b86828210611c7b57859061140f88611c6c848903856128b5565b5192828493845283019061298b565b835485528895509093019260019283019201611c52565b50903461057c57602036600319011261057c576001600160a01b03611cb561260f565b168015611cd157602092505f5260038252805f20549051908152f35b81516322718ad960e21b81525f81850152602490fd5b823461057c575f36600319011261057c576020906010549051908152f35b50903461057c57602036600319011261057c57611d2460209235613033565b90516001600160a01b039091168152f35b503461057c578160031936011261057c57611d54906024359035612d90565b81519060208083016020845282518091526020858501958260051b8601019301915f955b828710611d855785850386f35b909192938280611da1600193603f198a82030186528851612719565b9601920196019592919092611d78565b823461057c575f36600319011261057c5760209063ffffffff60065460a01c169051908152f35b823461057c575f36600319011261057c5760075490516001600160a01b039091168152602090f35b823461057c575f36600319011261057c5760209051605a8152f35b823461057c5761168990611e2e366126ab565b91925192611e3b8461289a565b5f8452612e86565b50903461057c57611e5336612945565b825f959395949294526020600f8152825f2093835194611e7286612850565b549560018060a01b03938488169283885263ffffffff9384868a019a60a01c168a5215611f705750611ea590828a613e44565b828180518101031261057c578201519281841680940361057c577fd6df65816bcfb9ca45398b2274a36f553e5e2227fb90c68f58d621d8905f886495885f52600f84525f86812055818151165f52600d84526001865f200164ff00000000198154169055828851166001875191611f1b83612821565b87835286830190815288830190428252858551165f52600e8852868a5f2094511667ffffffff00000000855492518a1b16916001600160401b03191617178355519101555116955116908351928352820152a3005b86516350cd61f160e11b8152fd5b50903461057c57602036600319011261057c578135611f9b612bfb565b505f8181526009602052829020600101546001600160a01b031615611fe45761140f92505f526009602052611fd1815f20612c55565b9051918291602083526020830190612719565b505163d3ed043d60e01b8152fd5b3461057c57611689612003366126ab565b91612b84565b50903461057c5760c036600319011261057c576001600160401b0390823582811161057c5761203b903690850161264e565b9261204461263b565b9160443582811161057c5761205c903690880161267b565b95909260643581811161057c576120769036908a0161267b565b95909860a43583811161057c57612090903690830161264e565b600854919290916001600160a01b0316908115612293578615801561228a575b612272578b158015612280575b61227257606463ffffffff861611612272578b8a03612272576120df8c612a98565b956120ec8c5197886128b5565b8c8752601f196120fb8e612a98565b015f5b8181106122615750505f5b8d811061216457505050509460209a9461215594610a0399989461214061213861214d9661215d9b36916128f1565b60843561306d565b92610d0961174f8561316c565b973691612b36565b923691612b36565b9084613917565b6121708f8d8391612aaf565b351561225157612181818f8d612aaf565b8d5163da6d890960e01b8152903584820152905f82602481885afa918215612247575f926121ce575b50602060019201516121bc828b612b22565b526121c7818a612b22565b5001612109565b91503d805f843e6121df81846128b5565b820191602090818185031261057c5780519085821161057c570160608185031261057c578f9182519461221186612821565b82518652818301519087821161057c5761222c918401612ad3565b90850152015160ff8116810361057c578e83015260206121aa565b8e513d5f823e3d90fd5b8c516327b3518960e11b81528390fd5b806060602080938c010152016120fe565b8a516327b3518960e11b8152fd5b5060108c116120bd565b508a87116120b0565b8a5163438403d960e11b8152fd5b50903461057c57602036600319011261057c5781359163ffffffff83169283810361057c57600654916001600160a01b0383163303612349578415801561233f575b6123315763ffffffff60a01b19831660a083901b63ffffffff60a01b161760065583518581527f1a0d4f63e6a5fd2dd5d55d8b6f639e2252d3dc867cac4a9496cceafefdc9c1d790602090a1005b835163aabd5a0960e01b8152fd5b50606485116122e3565b83516330cd747160e01b8152fd5b823461057c57602036600319011261057c576001600160a01b0361237961260f565b165f52600d602052805f2063ffffffff600182549201541682519182526020820152f35b50903461057c578060031936011261057c576123b761260f565b916024356123c481613033565b33151580612466575b8061243f575b612429576001600160a01b039485169482918691167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b9255f80a45f526020525f20906001600160601b0360a01b8254161790555f80f35b835163a9fbf51f60e01b81523381850152602490fd5b5060018060a01b0381165f526005602052835f20335f5260205260ff845f205416156123d3565b506001600160a01b0381163314156123cd565b50903461057c57602036600319011261057c57816020923561249a81613033565b505f52825260018060a01b03815f2054169051908152f35b823461057c575f36600319011261057c578051905f90825f54926124d5846129be565b808352602094600190866001821691825f14611ace57505060011461250657505061140f92916114009103856128b5565b5f80805286935091907f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b8284106125475750505082010181611400611a61565b8054848a018601528895508794909301928101612531565b823461057c57602036600319011261057c57359063ffffffff60e01b821680920361057c576020916380ac58cd60e01b81149081156125b8575b81156125a7575b5015158152f35b6301ffc9a760e01b149050836125a0565b635b5e139f60e01b81149150612599565b5f5b8381106125da5750505f910152565b81810151838201526020016125cb565b90602091612603815180928185528580860191016125c9565b601f01601f1916010190565b600435906001600160a01b038216820361057c57565b602435906001600160a01b038216820361057c57565b6024359063ffffffff8216820361057c57565b9181601f8401121561057c578235916001600160401b03831161057c576020838186019501011161057c57565b9181601f8401121561057c578235916001600160401b03831161057c576020808501948460051b01011161057c57565b606090600319011261057c576001600160a01b0390600435828116810361057c5791602435908116810361057c579060443590565b3461057c575f36600319011261057c57602060405160648152f35b6003111561270557565b634e487b7160e01b5f52602160045260245ffd5b805182526020808201516001600160a01b0316818401526040808301516101809185018290529193929161274f918401906125ea565b63ffffffff60608301511660608401526080820151608084015260a082015160a084015260c082015160c084015260e08201519383820360e08501528451908183528083019281808460051b8301019701935f915b8483106127f35750505050505061010080820151906127c2826126fb565b83015261012080820151906127d6826126fb565b830152610140808201511515908301526101608091015191015290565b9091929394978480612811600193601f198682030187528c516125ea565b9a019301930191949392906127a4565b606081019081106001600160401b0382111761283c57604052565b634e487b7160e01b5f52604160045260245ffd5b604081019081106001600160401b0382111761283c57604052565b61018081019081106001600160401b0382111761283c57604052565b6001600160401b03811161283c57604052565b602081019081106001600160401b0382111761283c57604052565b90601f801991011681019081106001600160401b0382111761283c57604052565b6001600160401b03811161283c57601f01601f191660200190565b9291926128fd826128d6565b9161290b60405193846128b5565b82948184528183011161057c578281602093845f960137010152565b9080601f8301121561057c57816020612942933591016128f1565b90565b606060031982011261057c57600435916001600160401b0360243581811161057c578361297491600401612927565b9260443591821161057c5761294291600401612927565b9081518082526020808093019301915f5b8281106129aa575050505090565b83518552938101939281019260010161299c565b90600182811c921680156129ec575b60208310146129d857565b634e487b7160e01b5f52602260045260245ffd5b91607f16916129cd565b9060405191825f8254612a08816129be565b908184526020946001916001811690815f14612a765750600114612a38575b505050612a36925003836128b5565b565b5f90815285812095935091905b818310612a5e575050612a3693508201015f8080612a27565b85548884018501529485019487945091830191612a45565b92505050612a3694925060ff191682840152151560051b8201015f8080612a27565b6001600160401b03811161283c5760051b60200190565b9190811015612abf5760051b0190565b634e487b7160e01b5f52603260045260245ffd5b81601f8201121561057c578051612ae9816128d6565b92612af760405194856128b5565b8184526020828401011161057c5761294291602080850191016125c9565b805115612abf5760200190565b8051821015612abf5760209160051b010190565b9291612b4182612a98565b91612b4f60405193846128b5565b829481845260208094019160051b810192831161057c57905b828210612b755750505050565b81358152908301908301612b68565b906001600160a01b039081811615612be357612ba290843391613d1a565b9080831690821603612bb357505050565b6040516364283d7b60e01b81526001600160a01b0392831660048201526024810193909352166044820152606490fd5b604051633250574960e11b81525f6004820152602490fd5b60405190612c088261286b565b5f61016083828152826020820152606060408201528260608201528260808201528260a08201528260c0820152606060e08201528261010082015282610120820152826101408201520152565b90604051612c628161286b565b8092805482526001808060a01b03600183015416906020916020850152612c8b600284016129f6565b604085015263ffffffff600384015416606085015260048301546080850152600583015460a0850152600683015460c085015260078301805490612cce82612a98565b93612cdc60405195866128b5565b82855260208501915f5260205f205f925b848410612d47575050505050506101609160099160e085015260ff6008820154818116612d19816126fb565b610100870152818160081c16612d2e816126fb565b61012087015260101c1615156101408501520154910152565b85838192612d54856129f6565b815201920193019290612ced565b91908201809211612d6f57565b634e487b7160e01b5f52601160045260245ffd5b91908203918211612d6f57565b91906010549081841015612e705781612da98286612d62565b1115612e6057505b612dbb8382612d83565b90612dc582612a98565b604092612dd560405192836128b5565b808252612de4601f1991612a98565b015f5b818110612e495750508094805b838110612e02575050505050565b6001810190818111612d6f576001915f526009602052612e42865f20612e31612e2b8685612d83565b91612c55565b612e3b8288612b22565b5285612b22565b5001612df4565b602090612e54612bfb565b82828601015201612de7565b612e6b915083612d62565b612db1565b50509050604051612e808161289a565b5f815290565b9192612e93848385612b84565b813b612ea0575b50505050565b604051630a85bd0160e11b8082523360048301526001600160a01b03948516602483015260448201959095526080606482015260209593909216939190859082908190612ef19060848301906125ea565b03815f885af15f9181612f94575b50612f5e575050503d5f14612f56573d91612f19836128d6565b92612f2760405194856128b5565b83523d5f8285013e5b82519283612f5157604051633250574960e11b815260048101849052602490fd5b019050fd5b606091612f30565b9193506001600160e01b031990911603612f7c57505f808080612e9a565b60249060405190633250574960e11b82526004820152fd5b9091508581813d8311612fcd575b612fac81836128b5565b8101031261057c57516001600160e01b03198116810361057c57905f612eff565b503d612fa2565b8054821015612abf575f5260205f2001905f90565b90612ff382612a98565b61300060405191826128b5565b8281528092613011601f1991612a98565b0190602036910137565b9081602091031261057c5751801515810361057c5790565b5f818152600260205260409020546001600160a01b0316908115613055575090565b60249060405190637e27328960e01b82526004820152fd5b60206130bd9260018060a01b0392835f8051602061487b8339815191525416905f60405180978195829463196d0b9b60e01b845260048401523360248401526080604484015260848301906125ea565b6004606483015203925af191821561312d575f92613138575b505f8051602061489b8339815191525416803b1561057c57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561312d57613124575090565b61294290612887565b6040513d5f823e3d90fd5b9091506020813d602011613164575b81613154602093836128b5565b8101031261057c5751905f6130d6565b3d9150613147565b80156131ff575b5f8051602061487b833981519152546040516304559f7160e01b81526004810192909252606460248301819052600160f81b604484015260209183919082905f906001600160a01b03165af190811561312d575f916131d0575090565b90506020813d6020116131f7575b816131eb602093836128b5565b8101031261057c575190565b3d91506131de565b505f602061320b6147dc565b915050613173565b8015613277575b5f8051602061487b83398151915254604051635a53accb60e01b81526004810192909252600a6024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af190811561312d575f916131d0575090565b505f60206132836147dc565b91505061321a565b5f198114612d6f5760010190565b8181106132a4575050565b5f8155600101613299565b9190601f81116132be57505050565b612a36925f5260205f20906020601f840160051c830193106132e8575b601f0160051c0190613299565b90915081906132db565b945f90949193945f8051602061487b833981519152602060018060a01b038254166044604051809681936324777a3f60e11b8352856004840152600460248401525af192831561312d575f936138e3575b505f9160209181156138cf575b5460405163022f65e760e31b8152600481019290925263ffffffff87166024830152600160f81b60448301529092839160649183916001600160a01b03165af190811561312d575f9161389b575b506133b1916133ac91614414565b61316c565b6133bb3082614775565b6133c53382614775565b6133cf3083614775565b6133d93383614775565b6133ee63ffffffff60065460a01c1682614519565b926133f93085614775565b6134033385614775565b335f908152600d6020526040902080548381156138945761342391614414565b61342d3082614775565b6134373382614775565b8155600181015463ffffffff80821614612d6f578063ffffffff60018181941601169063ffffffff19161791015561347060105461328b565b9687601055875f52600960205260405f209688885560018801336001600160601b0360a01b8254161790556001600160401b03871161283c576134c3876134ba60028b01546129be565b60028b016132af565b5f87601f811160011461382b57806134ef925f91613820575b508160011b915f199060031b1c19161790565b60028901555b6003880163ffffffff841663ffffffff19825416179055836004890155846005890155856006890155805197600160401b891161283c576007810154896007830155808a106137ac575b50602082018099600783015f5260205f20915f905b8282106136c8575050505060088101600160ff1982541617905560094291015561357e8933614597565b3315612be3576001600160a01b036135968a336139de565b166136b0579188959391979694926040519560e087528060e0880152806101009a8b8901375f8a8289010152601f801991011686019863ffffffff818b0193166020880152868a030160408701525180915261012097888101988260051b82010197985f915b83831061367657505050507ff334c0a5bd2f8eaf996f5763e8ee2017d769cb0215d45d1bfe09b70405900178949596506060840152608083015260a08201524260c08201528033940390a3807f104e19781f7b95c2c1bac73c7dcf206298d9ecb3d6712118520342a510dc9119602060405160018152a290565b91939597509193959760208061369960019361011f198682030187528d516125ea565b9b019301930190928a9795939998969492996135fc565b6040516339e3563760e11b81525f6004820152602490fd5b80518051906001600160401b03821161283c576136ef826136e988546129be565b886132af565b602090601f83116001146137405792613726836001959460209487965f92613735575b50508160011b915f199060031b1c19161790565b87555b01940191019092613554565b015190505f80613712565b90865f5260205f20915f5b601f1985168110613794575083602093600196938796938794601f1981161061377c575b505050811b018755613729565b01515f1960f88460031b161c191690555f808061376f565b9192602060018192868501518155019401920161374b565b600782015f5260205f20908a82015b81830181106137cb57505061353f565b806137d8600192546129be565b806137e5575b50016137bb565b601f811183146137fa57505f81555b5f6137de565b5f90828252613817601f60208420920160051c8201858301613299565b818355556137f4565b90508401355f6134dc565b50600289015f5260205f20905f5b601f198a16811061387c575088601f19811610613863575b5050600187811b0160028901556134f5565b8301355f1960038a901b60f8161c191690555f80613851565b90916020600181928588013581550193019101613839565b9050613423565b90506020813d6020116138c7575b816138b6602093836128b5565b8101031261057c57516133b161339e565b3d91506138a9565b905060646138db6147dc565b919050613350565b9092506020813d60201161390f575b816138ff602093836128b5565b8101031261057c5751915f613343565b3d91506138f2565b9060018060a01b036008541690813b1561057c575f60405180936376d130f160e01b82523360048301526060602483015281838161396d61395b606483018961298b565b8281036003190160448401528b61298b565b03925af190811561312d577ffbc6f2fd93218b287211ae225fe9f5040fd316e673cc19fb14c568fbd2ec299c926139bb926139cf575b506139ca60405192839260408452604084019061298b565b8281036020840152339661298b565b0390a3565b6139d890612887565b5f6139a3565b9190805f526020926002845260018060a01b039160409280845f205416908115968715613ce9575b8185169586613cd3575b845f5260028252805f20936001600160601b0360a01b9488868254161790558588827fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef5f80a48099613cc8575060098252805f2092808a1696875f52600a8452825f2095875f52600b8552835f20545f1990818101818111612d6f57895490838201918211612d6f57613acf613aa9613ab9938d612fd4565b90549060031b1c9283928d612fd4565b819391549060031b91821b915f19901b19161790565b90555f52600b8752855f20558754978815613cb457815f990191613af38383612fd4565b909182549160031b1b1916905555878752600b85528684812055613b178883614597565b896001870191825416179055600485019081548015613ca1575b613b3a90614718565b8255846006600588019788548015613c8e575b613b5690614718565b895501938454908115613c7a575b6064905f8051602061487b83398151915254169187519a8b9384926363a2db2960e01b84526004840152816024840152600160f81b60448401525af1968715613c70575f97613c31575b5090613c1d83927fcb92f6a4e694e85d94fe23c72e8591c588bf3df83ef83adab2e9c2d5c31d9db19860609897969555613bea83543090614775565b613bf5818454614775565b613c00308854614775565b613c0b818854614775565b613c16308554614775565b8354614775565b5493549054928251948552840152820152a4565b965094939291908387813d8311613c69575b613c4d81836128b5565b8101031261057c57955195939492939192909190613c1d613bae565b503d613c43565b84513d5f823e3d90fd5b90506064613c8661482e565b919050613b64565b50613b56613c9a6147dc565b9050613b4d565b50613b3a613cad6147dc565b9050613b31565b634e487b7160e01b5f52603160045260245ffd5b985050505050505050565b865f5260038252805f2060018154019055613a10565b5f84815260046020526040812080546001600160a01b03191690558381526003825286902080545f19019055613a06565b92919092835f526020936002855260018060a01b039260409380855f20541691818116908482613df3575b5050508115968715613ce9578185169586613cd357845f5260028252805f20936001600160601b0360a01b9488868254161790558588827fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef5f80a48099613cc8575060098252805f2092808a1696875f52600a8452825f2095875f52600b8552835f20545f1990818101818111612d6f57895490838201918211612d6f57613acf613aa9613ab9938d612fd4565b613dfd9185614498565b15613e09578084613d45565b92935050613e2857506024915190637e27328960e01b82526004820152fd5b90604492519163177e802f60e01b835260048301526024820152fd5b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0191602091838352604093845f20541561401357855f528352835f209084518083868295549384815201905f52865f20925f5b88828210613ffd57505050613eb3925003836128b5565b805180850190818611612d6f578601809111612d6f57613f545f8694613f0289613f679681519681613eee89935180928d80870191016125c9565b8201908a82015203888101875201856128b5565b613f7660018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b87526060600488015260648701906145ec565b60031993848783030160248801526125ea565b918483030160448501526125ea565b03925af1918215613ff3575f92613fc6575b505015613fb657507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b613fe59250803d10613fec575b613fdd81836128b5565b81019061301b565b5f80613f88565b503d613fd3565b83513d5f823e3d90fd5b8554845260019586019588955093019201613e9c565b845163d66ca67560e01b8152600490fd5b908151811015612abf570160200190565b8051600181811b9290916001600160ff1b03811603612d6f579061407161405b846128d6565b9361406960405195866128b5565b8085526128d6565b91816020601f198095013660208801375f925f945b61409f575b505050603f91508084520116810160405290565b805185101561421c578481018201516001600160f81b03198116949060f81c84901b6b1000000000000004000037001615614200576140ef906140e18161328b565b958691605c9384918c614024565b53600160fb1b810361412257505050828495606261411861411184989961328b565b988b614024565b535b019493614086565b600960f81b810361414957505050828495607461414361411184989961328b565b5361411a565b600560f91b810361416a57505050828495606e61414361411184989961328b565b600360fa1b810361418b57505050828495606661414361411184989961328b565b600d60f81b81036141ac57505050828495607261414361411184989961328b565b601760fa1b81036141cc575050849584959161414361411187949961328b565b909150601160f91b146141e4575b508280949561411a565b9483949060226141f7614111879461328b565b539594506141da565b8394958161414361421287949261328b565b985f1a918b614024565b61408b565b9061422b826128d6565b61423860405191826128b5565b8281528092613011601f19916128d6565b805f917a184f03e93ff9f4daa797ed6e38ed64bf6a1f0100000000000000008082101561437d575b506d04ee2d6d415b85acef81000000008083101561436e575b50662386f26fc100008083101561435f575b506305f5e10080831015614350575b5061271080831015614341575b506064821015614331575b600a80921015614327575b6001908160216142e060018701614221565b95860101905b6142f2575b5050505090565b5f19019083906f181899199a1a9b1b9c1cb0b131b232b360811b8282061a835304918215614322579190826142e6565b6142eb565b91600101916142ce565b91906064600291049101916142c3565b6004919392049101915f6142b8565b6008919392049101915f6142ab565b6010919392049101915f61429c565b6020919392049101915f61428a565b60409350810491505f614271565b614394816126fb565b80156143f057806143a66001926126fb565b036143ce576040516143b781612850565b600781526610dc98599d195960ca1b602082015290565b6040516143da81612850565b600681526511985a5b195960d21b602082015290565b506040516143fd81612850565b600781526650656e64696e6760c81b602082015290565b908115614488575b8015614476575b602090606460018060a01b035f8051602061487b8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af190811561312d575f916131d0575090565b5060206144816147dc565b9050614423565b90506144926147dc565b9061441c565b6001600160a01b0391821680151593929091846144b6575050505090565b819293945016928284149384156144f6575b5083156144dc575b5050505f8080806142eb565b909192505f52600460205260405f205416145f80806144d0565b9093505f52600560205260405f20825f5260205260ff60405f205416925f6144c8565b63ffffffff916020918015614585575b5f8051602061487b83398151915254604051631391547f60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af190811561312d575f916131d0575090565b5060646145906147dc565b9050614529565b6001600160a01b03165f818152600a602052604090208054600160401b81101561283c57613ab981859360016145cf94018155612fd4565b90555f52600a60205260405f2054905f52600b60205260405f2055565b9081518082526020808093019301915f5b82811061460b575050505090565b8351855293810193928101926001016145fd565b9190918051156147095780519260029160028501809511612d6f576003948590046001600160fe1b0381168103612d6f5761465f9060029694961b614221565b9260208401928291835184019760208901928351945f85525b8a81106146bc575050505060039394959650525106806001146146aa576002146146a0575090565b603d905f19015390565b50603d90815f19820153600119015390565b836004919b989b019a8b51600190603f9082828260121c16870101518453828282600c1c16870101518385015382828260061c168701015187850153168401015185820153019699614678565b509050604051612e808161289a565b5f8051602061487b8339815191525460405163022f65e760e31b815260048101929092525f60248301819052600160f81b604484015260209183916064918391906001600160a01b03165af190811561312d575f916131d0575090565b5f8051602061489b833981519152546001600160a01b031691823b1561057c57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af1801561312d576147d35750565b612a3690612887565b5f8051602061487b83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af190811561312d575f916131d0575090565b5f602060018060a01b035f8051602061487b8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af190811561312d575f916131d057509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type ItemRegistryFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ItemRegistryFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ItemRegistryFHE__factory extends ContractFactory {
+  constructor(...args: ItemRegistryFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      ItemRegistryFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ItemRegistryFHE__factory {
+    return super.connect(runner) as ItemRegistryFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ItemRegistryFHEInterface {
+    return new Interface(_abi) as ItemRegistryFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ItemRegistryFHE {
+    return new Contract(address, _abi, runner) as unknown as ItemRegistryFHE;
+  }
+}
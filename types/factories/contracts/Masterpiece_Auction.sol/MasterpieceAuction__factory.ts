@@ -0,0 +1,790 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MasterpieceAuction,
+  MasterpieceAuctionInterface,
+} from "../../../contracts/Masterpiece_Auction.sol/MasterpieceAuction";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract ItemRegistryFHE",
+        name: "registry_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AuctionNotEnded",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AuctionNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AuctionNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BidAlreadyPlaced",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CloseNotStalled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAuction",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBid",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotMasterpiece",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotSeller",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NothingToWithdraw",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PaymentFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReentrancyGuardReentrantCall",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownCloseRequest",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionClosing",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "reservePrice",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "clearingPrice",
+        type: "uint64",
+      },
+    ],
+    name: "AuctionSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "deposit",
+        type: "uint256",
+      },
+    ],
+    name: "BidPlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "CLOSE_TIMEOUT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PRICE_UNIT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "auctionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedBid",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "bid",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+    ],
+    name: "bidOf",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "deposit",
+            type: "uint256",
+          },
+          {
+            internalType: "euint64",
+            name: "amount",
+            type: "bytes32",
+          },
+          {
+            internalType: "bool",
+            name: "withdrawn",
+            type: "bool",
+          },
+        ],
+        internalType: "struct MasterpieceAuction.Bid",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "cancel",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelStalledClose",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "close",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "completeClose",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "itemId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "reservePrice",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "duration",
+        type: "uint256",
+      },
+    ],
+    name: "createAuction",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "getAuction",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "itemId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "seller",
+            type: "address",
+          },
+          {
+            internalType: "uint64",
+            name: "reservePrice",
+            type: "uint64",
+          },
+          {
+            internalType: "uint256",
+            name: "endTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "closeDeadline",
+            type: "uint256",
+          },
+          {
+            internalType: "enum MasterpieceAuction.AuctionStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint32",
+            name: "bidCount",
+            type: "uint32",
+          },
+          {
+            internalType: "euint64",
+            name: "highestBid",
+            type: "bytes32",
+          },
+          {
+            internalType: "eaddress",
+            name: "highestBidder",
+            type: "bytes32",
+          },
+          {
+            internalType: "address",
+            name: "winner",
+            type: "address",
+          },
+          {
+            internalType: "uint64",
+            name: "clearingPrice",
+            type: "uint64",
+          },
+          {
+            internalType: "bool",
+            name: "sellerPaid",
+            type: "bool",
+          },
+        ],
+        internalType: "struct MasterpieceAuction.Auction",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getAuctions",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "itemId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "seller",
+            type: "address",
+          },
+          {
+            internalType: "uint64",
+            name: "reservePrice",
+            type: "uint64",
+          },
+          {
+            internalType: "uint256",
+            name: "endTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "closeDeadline",
+            type: "uint256",
+          },
+          {
+            internalType: "enum MasterpieceAuction.AuctionStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint32",
+            name: "bidCount",
+            type: "uint32",
+          },
+          {
+            internalType: "euint64",
+            name: "highestBid",
+            type: "bytes32",
+          },
+          {
+            internalType: "eaddress",
+            name: "highestBidder",
+            type: "bytes32",
+          },
+          {
+            internalType: "address",
+            name: "winner",
+            type: "address",
+          },
+          {
+            internalType: "uint64",
+            name: "clearingPrice",
+            type: "uint64",
+          },
+          {
+            internalType: "bool",
+            name: "sellerPaid",
+            type: "bool",
+          },
+        ],
+        internalType: "struct MasterpieceAuction.Auction[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "registry",
+    outputs: [
+      {
+        internalType: "contract ItemRegistryFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "withdrawableOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a034620001d757601f6200259d38819003918201601f19168301916001600160401b03831184841017620001db57808492602094604052833981010312620001d757516001600160a01b0381168103620001d7575f606062000061620001ef565b82815282602082015282604082015201526200007c620001ef565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039182541617905560015f5560805260405161238d908162000210823960805181818161039601528181610de101528181610f1b015281816113080152818161141d0152611c680152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b03811183821017620001db5760405256fe60806040526004361015610011575f80fd5b5f803560e01c80630aebeb4e146116c057806328e05bf1146116345780632ad71573146116175780632e1a7d4d146114ea57806340e58ee5146113b75780636d0bc9bb1461139957806378bd7935146113595780637b03d603146113375780637b103999146112f257806384c3092e14610ece5780638b107fd514610d87578063a62122ea1461061a578063b1724b46146105fc578063b6a6d177146105df578063ceb6a22f14610571578063d3017ab31461011e578063da1f12ab146101015763ed435e58146100e0575f80fd5b346100fe57806003193601126100fe576020604051633b9aca008152f35b80fd5b50346100fe57806003193601126100fe5760206040516127118152f35b50346100fe5760031960603682011261056d576001600160401b03906004356024358381116105695761015590369060040161186d565b916044358481116105655761016e90369060040161186d565b90828652602091600383526040872054908115801561052c575b61051a578488527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0180855260408920541561050857858952845260408820906040518083878295549384815201908c52878c20928c5b898282106104f2575050506101f5925003836117fb565b865191828601928387116104de576040018093116104ca5785926102b1926102a18c869461024c60408e815197816102388a93519d8e92019d8e8d860190611f93565b8201908a82015203888101885201866117fb565b6102c060018060a01b039a8b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541695604051998a98899788966378542ead60e01b8852606060048901526064880190612165565b9084878303016024880152612198565b91848303016044850152612198565b03925af19081156104bf578991610486575b501561047457847f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8980a2604086805181010312610470575195861694858703610470576040015182811680910361047057938752600383525f60408820558415610468575b8652600182526040862060058101805460ff1916600217905560088101805467ffffffffffffffff60a01b198685169081166001600160e01b03199092169190911760a09890981b67ffffffffffffffff60a01b16979097179055907f00000000000000000000000000000000000000000000000000000000000000008116938661046157506002820154165b6001820154843b1561045d576040516323b872dd60e01b81523060048201526001600160a01b039290921660248301526044820152925f908490606490829084905af1928315610452577f8d1d1d0a7094adb2af8b784d716b64c5508fb8852655d41ade0a4e4cdd21b14d93610443575b505492604051908152a380f35b61044c906117cc565b5f610436565b6040513d5f823e3d90fd5b5f80fd5b90506103c5565b869350610338565b8780fd5b60405163cf6c44e960e01b8152600490fd5b90508481813d83116104b8575b61049d81836117fb565b810103126104b4576104ae90611ff6565b5f6102d2565b8880fd5b503d610493565b6040513d8b823e3d90fd5b634e487b7160e01b8a52601160045260248afd5b634e487b7160e01b8b52601160045260248bfd5b85548452600195860195889550930192016101de565b60405163d66ca67560e01b8152600490fd5b6040516355f1c70d60e01b8152600490fd5b508188526001845260ff600560408a2001541660048110156105515760011415610188565b634e487b7160e01b89526021600452602489fd5b8580fd5b8480fd5b5080fd5b50346100fe5760403660031901126100fe57610591602435600435612011565b604051906020808301906020845282518092526020604085019301945b8281106105bb5784840385f35b909192826101a0826105d06001948a51611704565b019601910194929190946105ae565b50346100fe57806003193601126100fe576020604051610e108152f35b50346100fe57806003193601126100fe57602060405162278d008152f35b5060603660031901126100fe576044356001600160401b03811161056d573660238201121561056d578060040135906001600160401b038211610cbd573660248383010111610cbd5761066e60043561212d565b9160ff6005840154166004811015610d735715801590610d65575b610d5357600283018054909290336001600160a01b03821614610d0e57633b9aca00340415908115610d3c575b8115610d20575b50610d0e576004358552600260205260408520335f5260205260405f20928354610cfc5760206107466106f888959486956024369201611837565b5f805160206123618339815191525460405163196d0b9b60e01b81526024803560048301523390820152608060448201529586936001600160a01b0390921692849283916084830190612198565b6005606483015203925af1918215610c8a578392610cc5575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b15610cc157604051630f8e573b60e21b8152600481018490523360248201529084908290604490829084905af1908115610c38578491610ca9575b505054819060a01c6001600160401b03168115610c95575b5f8051602061236183398151915254604051631391547f60e01b815260048101939093526024830191909152600160f81b60448301526020908290606490829087906001600160a01b03165af1908115610c8a578391610c55575b5082828315610c43575b5f8051602061236183398151915254604051631d44e90160e21b81526004810192909252633b9aca0034046001600160401b03166024830152600160f81b6044830152909160209183916064918391906001600160a01b03165af1908115610c38578491610c00575b50926020918461091d95908215610bef575b15610be0575b5f805160206123618339815191525460405163d99882d560e01b8152600481019390935260248301919091526001600160f81b031983166044830152909485926001600160a01b0390921691839182906064820190565b03925af1908115610bd5578591610b9f575b610942925061093c6121bd565b91612292565b915f602060018060a01b035f805160206123618339815191525416604460405180948193639cd07acb60e01b8352336004840152600760248401525af1908115610452575f91610b6d575b5063ffffffff9081600584015460081c16155f14610a625784600684015560078301555b6109c0600683015430906122e4565b6109ce3060078401546122e4565b6109d830856122e4565b6109e233856122e4565b600582015490808260081c16908114610a4e57600193929164ffffffff00856005930160081b169064ffffffff00191617910155348155015560405134815233907f0e54eff26401bf69b81b26f60bd85ef47f5d85275c1d268d84f68d6897431c47602060043592a380f35b634e487b7160e01b86526011600452602486fd5b610ad560068401602088825489908a15610b5d575b8015610b4f575b5f80516020612361833981519152546040516385362ee760e01b8152600481019390935260248301919091526001600160f81b031983166044830152909485926001600160a01b0390921691839182906064820190565b03925af1908115610b44578891610b0e575b610b079250610af881548984612292565b90556007850192835491612292565b90556109b1565b90506020823d602011610b3c575b81610b29602093836117fb565b8101031261045d57610b07915190610ae7565b3d9150610b1c565b6040513d8a823e3d90fd5b50610b586121bd565b610a7e565b9050610b676121bd565b90610a77565b90506020813d602011610b97575b81610b88602093836117fb565b8101031261045d57515f61098d565b3d9150610b7b565b90506020823d602011610bcd575b81610bba602093836117fb565b8101031261045d5761094291519061092f565b3d9150610bad565b6040513d87823e3d90fd5b50610bea8261223f565b6108c6565b9150610bfa8361223f565b916108c0565b9350506020833d602011610c30575b81610c1c602093836117fb565b8101031261045d57915185929060206108ae565b3d9150610c0f565b6040513d86823e3d90fd5b506020610c4e6121bd565b9050610845565b9250506020823d602011610c82575b81610c71602093836117fb565b8101031261045d578491515f61083b565b3d9150610c64565b6040513d85823e3d90fd5b90506020610ca16121bd565b9190506107e0565b610cb2906117cc565b610cbd57825f6107c8565b8280fd5b8380fd5b925090506020823d602011610cf4575b81610ce2602093836117fb565b8101031261045d57849151905f61075f565b3d9150610cd5565b604051630b8cee9f60e41b8152600490fd5b60405163c6388ef760e01b8152600490fd5b6001600160401b03915060a01c16633b9aca003404105f6106bd565b6001600160401b03633b9aca0034041191506106b6565b60405163f046007760e01b8152600490fd5b506003830154421015610689565b634e487b7160e01b85526021600452602485fd5b50346100fe5760203660031901126100fe57600435610da58161212d565b600581019081549160ff83166004811015610eba57600114801590610ead575b610e9b576003859360ff191617905560018060a01b03906001827f00000000000000000000000000000000000000000000000000000000000000001692600283015416910154823b15610cc1576040516323b872dd60e01b81523060048201526001600160a01b0392909216602483015260448201529082908290606490829084905af18015610e9057610e7c575b50807f2809c7e17bf978fbc7194c0a694b638c4215e9140cacc6c38ca36010b45697df91a280f35b610e85906117cc565b61056d57815f610e54565b6040513d84823e3d90fd5b604051635b58f70160e11b8152600490fd5b5060048201544210610dc5565b634e487b7160e01b86526021600452602486fd5b50346100fe5760603660031901126100fe57600435906001600160401b0380602435166024350361056d576040516331a9108f60e11b815260048101849052602093906001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000811691908682602481865afa9182156112e75786926112b0575b503391160361129e57604051633129e77360e01b8152600481018390528481602481855afa908115610bd5578591611102575b506101208101516003811015610eba57600214908115916110f4575b506110e257610e106044351080156110d4575b6110c257610fc5600454612003565b600481905580855260018087526040862082815590810184905560028101805467ffffffffffffffff60a01b1933166001600160e01b03199091161760243560a01b67ffffffffffffffff60a01b16179055909490916003611029604435426118ca565b9301928355803b1561056d576040516323b872dd60e01b8152336004820152306024820152604481018590529082908290606490829084905af18015610e90576110ae575b5050546040519260243516835284830152827f49f01e245aa6415eb98962dddb2de7b5770482a478d6a8cfd3834d203de8e51e60403394a4604051908152f35b6110b882916117cc565b6100fe578061106e565b60405163010ab10b60e51b8152600490fd5b5062278d0060443511610fb6565b60405163d2c8d11560e01b8152600490fd5b61014091500151155f610fa3565b90503d8086833e61111381836117fb565b81019086818303126105655780519085821161129a570161018091828282031261129a5760405192830183811087821117611286576040528151835261115a888301611f7f565b8884015260408201518681116104705781611176918401611fb4565b6040840152606082015163ffffffff811681036104705760608401526080820151608084015260a082015160a084015260c082015160c084015260e082015186811161047057820181601f820112156104705780516111d48161188b565b926111e260405194856117fb565b8184528a8085019260051b84010192818411611282578b8101925b84841061125957505050505060e083015261010080820151906003821015610470578301526101208082015190600382101561047057830152610140611244818301611ff6565b9083015261016080910151908201525f610f87565b83518b811161127e578d9161127385848094870101611fb4565b8152019301926111fd565b8c80fd5b8a80fd5b634e487b7160e01b5f52604160045260245ffd5b8680fd5b604051635ec8235160e01b8152600490fd5b9091508681813d83116112e0575b6112c881836117fb565b81010312610565576112d990611f7f565b905f610f54565b503d6112be565b6040513d88823e3d90fd5b50346100fe57806003193601126100fe576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50346100fe57602061135161134b366116de565b90611e7a565b604051908152f35b50346100fe5760203660031901126100fe57611373611d4f565b506101a061138a61138560043561212d565b611dae565b6113976040518092611704565bf35b50346100fe57806003193601126100fe576020604051620151808152f35b503461045d57602036600319011261045d576004356113d58161212d565b60028101546001600160a01b039081169033820361129e57600583019081549160ff831660048110156114d657158015906114c4575b610d5357600360019360ff19161790557f000000000000000000000000000000000000000000000000000000000000000016920154823b1561045d576040516323b872dd60e01b81523060048201526001600160a01b039290921660248301526044820152905f908290606490829084905af18015610452576114b1575b507f2809c7e17bf978fbc7194c0a694b638c4215e9140cacc6c38ca36010b45697df8280a280f35b6114bc9192506117cc565b5f905f611489565b5063ffffffff8360081c16151561140b565b634e487b7160e01b5f52602160045260245ffd5b3461045d5760208060031936011261045d5760043560025f54146116055760025f556115163382611e7a565b9182156115f3575f82815260018252604090206002810154336001600160a01b03909116036115d057600801805460ff60e01b1916600160e01b1790555b5f80808086335af13d156115cb573d61156c8161181c565b9061157a60405192836117fb565b81525f833d92013e5b156115b9577fcf7d23a3cbe4e8b36ff82fd1b05b1b17373dc7804b4ebbd6e2356716ef202372906040519384523393a360015f55005b6040516307a4ced160e51b8152600490fd5b611583565b50600280825260405f81812033825284522001805460ff19166001179055611554565b604051630686827b60e51b8152600490fd5b604051633ee5aeb560e01b8152600490fd5b3461045d575f36600319011261045d576020600454604051908152f35b3461045d57611642366116de565b905f60408051611651816117b1565b82815282602082015201525f52600260205260405f209060018060a01b03165f52602052606060405f20604051611687816117b1565b815491828252604060ff600260018401549360208601948552015416920191151582526040519283525160208301525115156040820152f35b3461045d57602036600319011261045d5760206113516004356118eb565b604090600319011261045d57600435906024356001600160a01b038116810361045d5790565b8051825260208101516020830152604081015160018060a01b0380911660408401526060820151906001600160401b0380921660608501526080830151608085015260a083015160a085015260c083015160048110156114d65760c085015263ffffffff60e08401511660e0850152610100808401519085015261012080840151908501526101409081840151169084015261016090818301511690830152610180809101511515910152565b606081019081106001600160401b0382111761128657604052565b6001600160401b03811161128657604052565b6101a081019081106001600160401b0382111761128657604052565b90601f801991011681019081106001600160401b0382111761128657604052565b6001600160401b03811161128657601f01601f191660200190565b9291926118438261181c565b9161185160405193846117fb565b82948184528183011161045d578281602093845f960137010152565b9080601f8301121561045d5781602061188893359101611837565b90565b6001600160401b0381116112865760051b60200190565b80518210156118b65760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b919082018092116118d757565b634e487b7160e01b5f52601160045260245ffd5b906118f58261212d565b60058101805460049491925f9160ff811687811015611d3c57611d2b5760038201544210611d1a5763ffffffff8160081c1615611c2a575060409384519461193c866117b1565b600286526020808701823682376006850154885115611c17578152600785015488519060019160011015611c0457848a01527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009182549960018060a01b03807f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561045d575f8f88928a51938492637d6e912360e11b84528301528183816119eb602482018a612165565b03925af18015611bfa57611be7575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15611be3578651633263b83b60e01b8152808f018d905260606024820152908a908290818381611a536064820189612165565b63d3017ab360e01b604483015203925af18015611bd957908a91611bc5575b508b90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808652868a2054611bb5578b8a5285528589209051916001600160401b038311611ba157680100000000000000008311611ba1578154838355808410611b7a575b50908a969594939291908a52848a208a5b838110611b665750505050509081611b0360039354612003565b905588875252842055600160ff1982541617905562015180420190814211611b5357908495967f17b7edfa4aaa25ff10a91adf49efbbced80ad3a3911fa34a372af88c3c615f039392015580a390565b634e487b7160e01b835260118752602483fd5b8251818301558c9850918601918401611ae9565b828b528484888d2092830192015b828110611b96575050611ad8565b5f8155018590611b88565b50634e487b7160e01b895260418d52602489fd5b8651633f06d22b60e01b81528e90fd5b611bce906117cc565b6104b457885f611a72565b87513d8c823e3d90fd5b8980fd5b611bf2919a506117cc565b5f985f6119fa565b88513d5f823e3d90fd5b60328c634e487b7160e01b5f525260245ffd5b60328b634e487b7160e01b5f525260245ffd5b60ff191660029081179094556008810180546001600160e01b031916905592830154600184015494955f956001600160a01b039283169450909250907f000000000000000000000000000000000000000000000000000000000000000016803b1561045d57604080516323b872dd60e01b8152309481019485526001600160a01b0390951660208501528301919091525f9183919082908490829060600103925af1801561045257611d07575b50547f8d1d1d0a7094adb2af8b784d716b64c5508fb8852655d41ade0a4e4cdd21b14d6020604051848152a35f90565b611d129192506117cc565b5f905f611cd7565b604051636463738960e01b81528790fd5b60405163f046007760e01b81528790fd5b602188634e487b7160e01b5f525260245ffd5b60405190611d5c826117df565b5f610180838281528260208201528260408201528260608201528260808201528260a08201528260c08201528260e0820152826101008201528261012082015282610140820152826101608201520152565b90604051611dbb816117df565b80928054825260018101546020830152600281015460018060a01b0380821660408501526001600160401b03809260a01c16606085015260038301546080850152600483015460a085015260058301549160ff83169260048410156114d6576101809463ffffffff60089260ff9660c08a0152831c1660e08801526006810154610100880152600781015461012088015201549182166101408601528160a01c1661016085015260e01c161515910152565b919082039182116118d757565b90611e848261212d565b9060ff60058301541660048110156114d65760028114159081611f73575b50611f6c5760028201546001600160a01b0393918416919084168214611f2c575f52600260205260405f20815f5260205260405f209160ff600284015416611f24576008015492831603611f1e576001600160401b0390549160a01c16633b9aca00908181029181830414901517156118d75761188891611e6d565b90505490565b505050505f90565b505060089150015460ff8160e01c165f14611f4657505f90565b6001600160401b039060a01c16633b9aca00908181029181830414901517156118d75790565b5050505f90565b6003915014155f611ea2565b51906001600160a01b038216820361045d57565b5f5b838110611fa45750505f910152565b8181015183820152602001611f95565b81601f8201121561045d578051611fca8161181c565b92611fd860405194856117fb565b8184526020828401011161045d576118889160208085019101611f93565b5190811515820361045d57565b5f1981146118d75760010190565b6004805490939281831015612106578161202b82856118ca565b11156120f657505b61203d8282611e6d565b6120468161188b565b9060409061205760405193846117fb565b808352612066601f199161188b565b015f5b8181106120df5750508195845b84811061208557505050505050565b60018082018083116120cc5790600192915f526020526120c5845f206120b46120ae8a85611e6d565b91611dae565b6120be82896118a2565b52866118a2565b5001612076565b601184634e487b7160e01b5f525260245ffd5b6020906120ea611d4f565b82828701015201612069565b6121019150826118ca565b612033565b5050509050604051602081018181106001600160401b03821117611286576040525f815290565b8015801561215a575b612148575f52600160205260405f2090565b6040516307145c5f60e11b8152600490fd5b506004548111612136565b9081518082526020808093019301915f5b828110612184575050505090565b835185529381019392810192600101612176565b906020916121b181518092818552858086019101611f93565b601f01601f1916010190565b5f8051602061236183398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610452575f91612210575090565b90506020813d602011612237575b8161222b602093836117fb565b8101031261045d575190565b3d915061221e565b5f8051602061236183398151915254604051639cd07acb60e01b815260048101929092525f6024830181905260209183916044918391906001600160a01b03165af1908115610452575f91612210575090565b9060646020925f60018060a01b035f8051602061236183398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610452575f91612210575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561045d57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610452576123555750565b61235e906117cc565b56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type MasterpieceAuctionConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MasterpieceAuctionConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MasterpieceAuction__factory extends ContractFactory {
+  constructor(...args: MasterpieceAuctionConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    registry_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(registry_, overrides || {});
+  }
+  override deploy(
+    registry_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(registry_, overrides || {}) as Promise<
+      MasterpieceAuction & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MasterpieceAuction__factory {
+    return super.connect(runner) as MasterpieceAuction__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MasterpieceAuctionInterface {
+    return new Interface(_abi) as MasterpieceAuctionInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MasterpieceAuction {
+    return new Contract(address, _abi, runner) as unknown as MasterpieceAuction;
+  }
+}
@@ -0,0 +1,512 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  RecipeBookFHE,
+  RecipeBookFHEInterface,
+} from "../../../contracts/Recipe_Book_FHE.sol/RecipeBookFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidRecipe",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidRecipient",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotConsumer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotRecipeOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RecipeNotAllowed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RecipeNotFound",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "consumer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "ConsumerUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "recipeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "materials",
+        type: "string[]",
+      },
+    ],
+    name: "RecipeCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "recipeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+    ],
+    name: "RecipeShared",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_CATALYST_MULTIPLIER",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_MATERIALS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_MATERIAL_BONUS",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_MATERIAL_WEIGHT",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_NAME_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "recipeId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "canUse",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "consumers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string[]",
+        name: "materials",
+        type: "string[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedWeights",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedMultiplier",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "createRecipe",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "recipeId",
+        type: "uint256",
+      },
+    ],
+    name: "getRecipe",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "owner",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string[]",
+            name: "materials",
+            type: "string[]",
+          },
+          {
+            internalType: "euint32[]",
+            name: "materialWeights",
+            type: "bytes32[]",
+          },
+          {
+            internalType: "euint32",
+            name: "catalystMultiplier",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "cappedMaterialBonus",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RecipeBookFHE.Recipe",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "recipeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "recipesOf",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "consumer",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "setConsumer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "recipeId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+    ],
+    name: "shareRecipe",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "recipeId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "crafter",
+        type: "address",
+      },
+    ],
+    name: "useRecipe",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "materials",
+        type: "string[]",
+      },
+      {
+        internalType: "euint32",
+        name: "cappedMaterialBonus",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "catalystMultiplier",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040523461015d575f6060610014610161565b828152826020820152826040820152015261002d610161565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f556040516117e690816101958239f35b5f80fd5b60405190608082016001600160401b0381118382101761018057604052565b634e487b7160e01b5f52604160045260245ffdfe6080806040526004361015610012575f80fd5b5f905f3560e01c90816302c9ef45146111c4575080630bec214314610fe85780630bf5366814610fa95780630cef3df114610f785780635cb5a41314610eca5780636482b51b14610ead57806369cfdf7414610e8f5780636aff143614610e735780638607498514610e575780638da5cb5b14610e305780639380e99c14610e14578063bdbb26dd14610df8578063d26666711461046d578063d9d41d0114610320578063da1f12ab146103035763f8d12a41146100ce575f80fd5b34610300576020806003193601126102fc57600435916040516100f081611346565b81815281838201528160e060609283604082015283808201528360808201528260a08201528260c082015201528382526002835260018060a01b03600194818660408620015416156102ea578391935260028452604081206040519161015583611346565b8154835284878301541690868401918252610172600284016113bb565b9560408501968752876101876003860161145d565b978787019889526004860192604051938c85858354918281520192885285882091885b8281106102d55750505050906101c68561021b94930386611362565b6080890194855260058801549660a08a01978852600760068a01549960c08c019a8b5201549960e081019a8b526040519d8e9181835251910152511660408c01525161010080998c01526101208b0190611284565b9751918a601f19998a8c82030160808d01528a8551918281528581019086808560051b83010198019489935b8585106102a3575050505050505051978983030160a08a01528080895193848152019801925b82811061029057505050508596505160c08601525160e085015251908301520390f35b8351895297810197928101928a0161026d565b976102c08a84959697989c9a839c95849596030187528c51611284565b9a0193019301919392908f8e99989799610247565b835485528f97909401939281019281016101aa565b6040516347cb324560e01b8152600490fd5b5080fd5b80fd5b503461030057806003193601126103005760206040516127118152f35b50346103005760403660031901126103005760043561033d61126e565b818352600260205260408320600190810154909291906001600160a01b03908116156102ea57828552600260205280600160408720015416330361045b5781169283158015610452575b61044057828552600460205260408520845f5260205260405f20600160ff1982541617905582855260026020526040852090808660048401915b61040c575b505050906005826103de8360066103e596015461173f565b015461173f565b7f91c5b9d51a507b0eebaf921493b6eee1bda0fd1bf38f71557ff3afca6669d8508380a380f35b815481101561043b5790828261043387610427849686611555565b90549060031b1c61173f565b0190916103c1565b6103c6565b604051634e46966960e11b8152600490fd5b50338414610387565b60405163a14d537560e01b8152600490fd5b50346103005760a0366003190112610300576004356001600160401b0381116102fc5761049e9036906004016112c2565b6024356001600160401b038111610df4576104bd9036906004016112ef565b6044356001600160401b03811161083d576104dc9036906004016112ef565b6084959195356001600160401b038111610df0576104fe9036906004016112c2565b86158015610de6575b610dca5784158015610ddc575b610dca57848303610dca57600554975f198914610db6576001890160058190558a52600260205260408a2093906105496116be565b918b915b818310610ba55750505090815f93929015610b93575b5f805160206117ba833981519152546040516304559f7160e01b8152600481019290925260146024830152600160f81b6044830152909360209185916064918391906001600160a01b03165af1928315610b3e575f93610b5d575b506105ea916105e2916105d1308661173f565b6105db338661173f565b3691611510565b6064356115b4565b8015610b49575b5f805160206117ba833981519152546040516304559f7160e01b8152600481019290925261012c6024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115610b3e575f91610b08575b50610657308261173f565b610661338261173f565b60018881018455830180546001600160a01b031916331790556001600160401b038711610a4d576106956002840154611383565b601f8111610ad5575b508887601f8111600114610a6c57806106cb928c91610a61575b508160011b915f199060031b1c19161790565b60028401555b600160401b8511610a4d5760038301548560038501558086106109d7575b5085600384018a5260208a208a915b8783106108595750505060058301556006820155600742910155338652600360205260408620805490600160401b8210156108455761074e8261076a92600161077e96959b98979b018155611555565b600189939293019083549060031b91821b915f19901b19161790565b905560405194604086526040860191611594565b948386036020850152808652602086019560208260051b820101938381925b8484106107dd5760208933600182017f1af7e64454fdc2475e44cd8bc9e5f67d78f11142762a186bbbee6197ad51c28d8c8c038da3600160405191018152f35b909192939495601f19828203018a528635601e19843603018112156108415783016020813591016001600160401b03821161083d57813603811361083d5761082b6001936020938493611594565b98019a0194019291909894939861079d565b8580fd5b8480fd5b634e487b7160e01b88526041600452602488fd5b601e1989360301813512156109d3576001600160401b0381358a0135116109d35780358901803536036020909101136109d3578b6108978354611383565b601f8111610990575b5090898d601f83358301351160011461090257916108e360209260019586959184358101356108f2575b905083350135908160011b915f199060031b1c19161790565b85555b019201920191906106fe565b8592508435010101355f8e6108ca565b919284835260208320925b8435830135601f191681106109705750600193849360209391929091908335820135601f1981161061094d575b5050508281358d0135811b0185556108e6565b84905f1960f8863585013560031b161c19928535010101351690555f8c8161093a565b916001829460208094819489350101013581550193019101908b9161090d565b602082856109c2945220601f84358d01350160051c81019160208d86350135106109c9575b601f0160051c019061157e565b8b5f6108a0565b90915081906109b5565b8b80fd5b600384018a5260208a20908682015b81830181106109f65750506106ef565b808c610a0460019354611383565b80610a12575b5050016109e6565b601f81118414610a295750505f81555b8c5f610a0a565b828252610a44601f60208420920160051c820185830161157e565b5f835555610a22565b634e487b7160e01b89526041600452602489fd5b90508601355f6106b8565b50600284018a5260208a20908a5b601f198a168110610abd575088601f19811610610aa4575b5050600187811b0160028401556106d1565b8501355f1960038a901b60f8161c191690555f80610a92565b9091602060018192858a013581550193019101610a7a565b610b0290600285018b5260208b20601f8a0160051c81019160208b106109c957601f0160051c019061157e565b5f61069e565b90506020813d602011610b36575b81610b2360209383611362565b81010312610b3257515f61064c565b5f80fd5b3d9150610b16565b6040513d5f823e3d90fd5b505f6020610b556116be565b9150506105f1565b9092506020813d602011610b8b575b81610b7960209383611362565b81010312610b325751916105ea6105be565b3d9150610b6c565b506020610b9e6116be565b9050610563565b9091925f90610bc4610bb836888a611510565b8660051b8501356115b4565b8015610da4575b5f805160206117ba833981519152546040516304559f7160e01b81526004810192909252600a6024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af1918215610b3e575f92610d70575b50610c31308361173f565b610c3b338361173f565b6004880154600160401b811015610d5c57916020918f93610c81610c6b8260048e60018896018282015501611555565b819391549060031b91821b915f19901b19161790565b9055818115610d4c575b15610d38575b5f805160206117ba8339815191525460405163022f65e760e31b8152600481019290925260248201929092526001600160f81b03198416604482015292839160649183916001600160a01b03165af18015610d2d578d90610cfa575b600191509301919061054d565b506020813d602011610d25575b81610d1460209383611362565b81010312610b325760019051610ced565b3d9150610d07565b6040513d8f823e3d90fd5b90506064610d446116be565b919050610c91565b9050610d566116be565b90610c8b565b634e487b7160e01b8f52604160045260248ffd5b9091506020813d602011610d9c575b81610d8c60209383611362565b81010312610b325751905f610c26565b3d9150610d7f565b506020610daf6116be565b9050610bcb565b634e487b7160e01b8a52601160045260248afd5b604051631edddbd360e21b8152600490fd5b5060108511610514565b5060408711610507565b8780fd5b8380fd5b5034610300578060031936011261030057602060405160148152f35b5034610300578060031936011261030057602060405160108152f35b5034610300578060031936011261030057546040516001600160a01b039091168152602090f35b5034610300578060031936011261030057602060405160408152f35b50346103005780600319360112610300576020604051600a8152f35b50346103005780600319360112610300576020600554604051908152f35b5034610300578060031936011261030057602060405161012c8152f35b5034610300576020806003193601126102fc576001600160a01b03610eed611258565b168252600381526040822060405192838383549182815201908193835284832090835b818110610f645750505084610f26910385611362565b60405193838594850191818652518092526040850193925b828110610f4d57505050500390f35b835185528695509381019392810192600101610f3e565b825484529286019260019283019201610f10565b5034610300576040366003190112610300576020610f9f610f9761126e565b6004356114c0565b6040519015158152f35b50346103005760203660031901126103005760209060ff906040906001600160a01b03610fd4611258565b168152600184522054166040519015158152f35b5034610b32576040366003190112610b32576004359061100661126e565b91335f526001906020936001855260ff60405f205416156111b25761102b90826114c0565b156111a0575f90815260028452604090206006810180547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03979392908816803b15610b3257604051630f8e573b60e21b8082526004820193909352336024820152905f908290604490829084905af18015610b3e5761118d575b506005850197885492541690813b15610df057604051908152600481019290925233602483015286908290604490829084905af180156111825790869161116e575b5050600361110691959495549654930161145d565b926040519460608601606087528551809152608087018460808360051b8a0101970193905b82821061114457888089898d8a84015260408301520390f35b909192858061115f83979a607f198d82030186528b51611284565b9901920192019093929161112b565b6111779061131f565b61084157845f6110f1565b6040513d88823e3d90fd5b61119891975061131f565b5f955f6110af565b60405163dc3a55d160e01b8152600490fd5b604051638c7dc13d60e01b8152600490fd5b34610b32576040366003190112610b32576111dd611258565b9060243591821515809303610b32575f546001600160a01b0392908316330361124957507f4348a5176066408d202089f990499bee33e5b638962dc30d8f8d03b1efce26f5916020911692835f526001825260405f2060ff1981541660ff8316179055604051908152a2005b6330cd747160e01b8152600490fd5b600435906001600160a01b0382168203610b3257565b602435906001600160a01b0382168203610b3257565b91908251928382525f5b8481106112ae575050825f602080949584010152601f8019910116010190565b60208183018101518483018201520161128e565b9181601f84011215610b32578235916001600160401b038311610b325760208381860195010111610b3257565b9181601f84011215610b32578235916001600160401b038311610b32576020808501948460051b010111610b3257565b6001600160401b03811161133257604052565b634e487b7160e01b5f52604160045260245ffd5b61010081019081106001600160401b0382111761133257604052565b90601f801991011681019081106001600160401b0382111761133257604052565b90600182811c921680156113b1575b602083101461139d57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611392565b9060405191825f82546113cd81611383565b908184526020946001916001811690815f1461143b57506001146113fd575b5050506113fb92500383611362565b565b5f90815285812095935091905b8183106114235750506113fb93508201015f80806113ec565b8554888401850152948501948794509183019161140a565b925050506113fb94925060ff191682840152151560051b8201015f80806113ec565b9081546001600160401b038111611332576020926040519361148560208460051b0186611362565b82855260208501915f5260205f205f925b8484106114a4575050505050565b60018381926114b2856113bb565b815201920193019290611496565b90815f52600260205260018060a01b0380600160405f200154169182156102ea57169081149182156114f157505090565b9091505f52600460205260405f20905f5260205260ff60405f20541690565b9291926001600160401b0382116113325760405191611539601f8201601f191660200184611362565b829481845281830111610b32578281602093845f960137010152565b805482101561156a575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b818110611589575050565b5f815560010161157e565b908060209392818452848401375f828201840152601f01601f1916010190565b60206116049260018060a01b0392835f805160206117ba8339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190611284565b6004606483015203925af1918215610b3e575f9261168a575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b15610b3257604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610b3e5761167e575090565b6116879061131f565b90565b9091506020813d6020116116b6575b816116a660209383611362565b81010312610b325751905f61161d565b3d9150611699565b5f805160206117ba83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610b3e575f91611710575090565b90506020813d602011611737575b8161172b60209383611362565b81010312610b32575190565b3d915061171e565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b15610b3257604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610b3e576117b05750565b6113fb9061131f56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type RecipeBookFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: RecipeBookFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class RecipeBookFHE__factory extends ContractFactory {
+  constructor(...args: RecipeBookFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      RecipeBookFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): RecipeBookFHE__factory {
+    return super.connect(runner) as RecipeBookFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): RecipeBookFHEInterface {
+    return new Interface(_abi) as RecipeBookFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): RecipeBookFHE {
+    return new Contract(address, _abi, runner) as unknown as RecipeBookFHE;
+  }
+}
@@ -1,4 +1,11 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as craftingAnnouncementsSol from "./Crafting_Announcements.sol";
+export * as craftingGoldSol from "./Crafting_Gold.sol";
+export * as craftingMaterialsSol from "./Crafting_Materials.sol";
+export * as craftingQualityFheSol from "./Crafting_Quality_FHE.sol";
+export * as itemMarketplaceSol from "./Item_Marketplace.sol";
+export * as itemRegistryFheSol from "./Item_Registry_FHE.sol";
+export * as masterpieceAuctionSol from "./Masterpiece_Auction.sol";
+export * as recipeBookFheSol from "./Recipe_Book_FHE.sol";